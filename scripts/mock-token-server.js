@@ -0,0 +1,136 @@
+// Local mock token endpoint for exercising token refresh offline.
+//
+//   node scripts/mock-token-server.js [--port 7071] [--lifetime 300]
+//
+// GET  /token?userId=8:acs:...   -> { token, expiresOn } (unsigned JWT, never valid against ACS)
+// GET  /control                  -> current behaviour
+// POST /control?fail=3&lifetime=60&status=500&delay=0
+//      fail:     number of upcoming requests to fail ("always" / "off" also accepted)
+//      lifetime: token lifetime in seconds (use short values to force frequent refreshes)
+//      status:   HTTP status returned for failed requests
+//      delay:    artificial response delay in milliseconds
+import { createServer } from 'node:http';
+
+const args = process.argv.slice(2);
+const readArg = (name, fallback) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const port = readArg('port', 7071);
+const state = {
+    lifetimeSeconds: readArg('lifetime', 300),
+    failRemaining: 0,
+    failAlways: false,
+    failStatus: 500,
+    delayMs: 0,
+    issued: 0,
+};
+
+const base64Url = (value) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const issueToken = (userId) => {
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + state.lifetimeSeconds;
+    const header = { alg: 'none', typ: 'JWT', kid: 'mock' };
+    const payload = {
+        skypeid: userId.replace(/^8:/, ''),
+        scp: 1792,
+        csi: String(now),
+        iat: now,
+        nbf: now,
+        exp,
+        rgn: 'local',
+        acsScope: 'voip',
+        resourceId: 'mock-resource',
+        resourceLocation: 'local',
+    };
+    return {
+        token: `${base64Url(header)}.${base64Url(payload)}.mock-signature`,
+        expiresOn: new Date(exp * 1000).toISOString(),
+    };
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': '*',
+    });
+    res.end(JSON.stringify(body));
+};
+
+const describeState = () => ({
+    lifetimeSeconds: state.lifetimeSeconds,
+    failRemaining: state.failAlways ? 'always' : state.failRemaining,
+    failStatus: state.failStatus,
+    delayMs: state.delayMs,
+    issued: state.issued,
+});
+
+const applyControl = (params) => {
+    const fail = params.get('fail');
+    if (fail === 'always') {
+        state.failAlways = true;
+    } else if (fail === 'off') {
+        state.failAlways = false;
+        state.failRemaining = 0;
+    } else if (fail !== null) {
+        state.failAlways = false;
+        state.failRemaining = Math.max(0, Number(fail) || 0);
+    }
+    if (params.has('lifetime')) {
+        state.lifetimeSeconds = Math.max(1, Number(params.get('lifetime')));
+    }
+    if (params.has('status')) {
+        state.failStatus = Number(params.get('status')) || 500;
+    }
+    if (params.has('delay')) {
+        state.delayMs = Math.max(0, Number(params.get('delay')) || 0);
+    }
+};
+
+createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+    if (req.method === 'OPTIONS') {
+        send(res, 200, {});
+        return;
+    }
+
+    if (url.pathname === '/control') {
+        if (req.method === 'POST') {
+            applyControl(url.searchParams);
+            console.log('Mock token behaviour updated:', describeState());
+        }
+        send(res, 200, describeState());
+        return;
+    }
+
+    if (url.pathname === '/token') {
+        if (state.delayMs) {
+            await new Promise((resolve) => setTimeout(resolve, state.delayMs));
+        }
+        if (state.failAlways || state.failRemaining > 0) {
+            if (!state.failAlways) state.failRemaining -= 1;
+            console.log(`Failing token request with ${state.failStatus}`);
+            send(res, state.failStatus, { error: 'Simulated failure' });
+            return;
+        }
+        const userId = url.searchParams.get('userId') || '8:acs:mock_user';
+        const issued = issueToken(userId);
+        state.issued += 1;
+        console.log(`Issued token for ${userId}, expires ${issued.expiresOn}`);
+        send(res, 200, issued);
+        return;
+    }
+
+    send(res, 404, { error: 'Not found' });
+}).listen(port, () => {
+    console.log(
+        `Mock token endpoint listening on http://localhost:${port}/token`
+    );
+    console.log('Current behaviour:', describeState());
+});
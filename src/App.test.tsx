@@ -0,0 +1,686 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    act,
+    cleanup,
+    fireEvent,
+    render,
+    screen,
+    waitFor,
+    within,
+} from '@testing-library/react';
+import type { CallHistoryEntry } from './types';
+import { getCallOutcome, saveCallRecord } from './lib/callHistory';
+import { createAutoAnswerRule } from './lib/autoAnswer';
+import App from './App';
+
+// The ACS SDKs need WebRTC at import time. Calls in these tests go through the simulated
+// calling service, so only the names the app touches while rendering are stubbed.
+vi.mock('@azure/communication-calling', () => ({}));
+vi.mock('@azure/communication-react', () => ({
+    CallComposite: () => null,
+}));
+// jsdom has no IndexedDB; keep the history writes to assert on them
+vi.mock('./lib/callHistory', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./lib/callHistory')>()),
+    saveCallRecord: vi.fn(async () => {}),
+}));
+
+const base64Url = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/=+$/, '');
+const validToken = [
+    base64Url({ alg: 'none' }),
+    base64Url({ exp: Math.floor(Date.now() / 1000) + 3600 }),
+    'signature',
+].join('.');
+
+const GROUP_ID = '29228d3e-040e-4656-a70e-890ab4e173e4';
+
+const type = (label: RegExp, value: string) =>
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+const fillIdentity = () => {
+    type(/^User ID/, '8:acs:me');
+    type(/^Access Token/, validToken);
+    type(/^Display Name/, 'Tester');
+};
+
+const startCallButton = () =>
+    screen.getByRole('button', { name: /Start Call/ }) as HTMLButtonElement;
+
+const savedEntries = () =>
+    vi
+        .mocked(saveCallRecord)
+        .mock.calls.map(([entry]) => entry as CallHistoryEntry);
+
+const lastSaved = () => savedEntries().at(-1);
+
+beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(saveCallRecord).mockClear();
+});
+
+afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+});
+
+describe('Start Call gating', () => {
+    it('stays disabled until the configuration is complete and valid', () => {
+        render(<App />);
+        expect(startCallButton().disabled).toBe(true);
+
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('Group'));
+        expect(startCallButton().disabled).toBe(true);
+
+        type(/^Group ID/, 'not-a-guid');
+        expect(startCallButton().disabled).toBe(true);
+
+        type(/^Group ID/, GROUP_ID);
+        expect(startCallButton().disabled).toBe(false);
+    });
+
+    it('blocks 1:1 calls to yourself', () => {
+        render(<App />);
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('1:1'));
+
+        type(/^Target User ID/, '8:acs:me');
+        expect(startCallButton().disabled).toBe(true);
+
+        type(/^Target User ID/, '8:acs:someone-else');
+        expect(startCallButton().disabled).toBe(false);
+    });
+
+    it('requires an alternate caller ID for PSTN calls', () => {
+        render(<App />);
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('PSTN'));
+        type(/^Phone Number/, '+14255550123');
+        expect(startCallButton().disabled).toBe(true);
+
+        type(/^Alternate Caller ID/, '+18005550100');
+        expect(startCallButton().disabled).toBe(false);
+    });
+
+    it('reads national phone numbers with the default country', () => {
+        render(<App />);
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('PSTN'));
+        type(/^Alternate Caller ID/, '+18005550100');
+        type(/^Phone Number/, '020 7946 0958');
+        expect(screen.getByText(/choose a default country/)).toBeTruthy();
+        expect(startCallButton().disabled).toBe(true);
+
+        fireEvent.change(screen.getByLabelText('Default Country'), {
+            target: { value: 'GB' },
+        });
+        expect(screen.getByText('+442079460958')).toBeTruthy();
+        expect(
+            screen.getByText(/United Kingdom landline number, national format/)
+        ).toBeTruthy();
+        expect(screen.getByText(/United States toll-free number/)).toBeTruthy();
+        expect(startCallButton().disabled).toBe(false);
+    });
+});
+
+describe('Token vault', () => {
+    const storedProfiles = () =>
+        JSON.parse(localStorage.getItem('azure-call-profiles') ?? '{}')
+            .profiles as { name: string; encryptedToken?: unknown }[];
+
+    it('keeps saved tokens through lock, a save while locked and unlock', async () => {
+        render(<App />);
+        fillIdentity();
+        fireEvent.click(screen.getByRole('button', { name: /^Save$/ }));
+
+        fireEvent.click(screen.getByRole('button', { name: 'Protect' }));
+        type(/^Passphrase/, 'correct horse');
+        type(/^Confirm passphrase/, 'correct horse');
+        fireEvent.click(screen.getByRole('button', { name: 'Encrypt Tokens' }));
+        fireEvent.click(await screen.findByRole('button', { name: 'Lock' }));
+        expect(
+            (screen.getByLabelText(/^Access Token/) as HTMLInputElement).value
+        ).toBe('');
+
+        // Renaming persists the locked store, which must keep the encrypted token
+        vi.spyOn(window, 'prompt').mockReturnValue('Renamed');
+        fireEvent.click(screen.getByTitle('Rename profile'));
+        expect(storedProfiles()[0]).toMatchObject({ name: 'Renamed' });
+        expect(storedProfiles()[0].encryptedToken).toBeDefined();
+
+        fireEvent.click(
+            screen.getByTitle('Enter your passphrase to use saved tokens')
+        );
+        type(/^Passphrase/, 'correct horse');
+        fireEvent.submit(screen.getByLabelText(/^Passphrase/).closest('form')!);
+        await waitFor(() =>
+            expect(
+                (screen.getByLabelText(/^Access Token/) as HTMLInputElement)
+                    .value
+            ).toBe(validToken)
+        );
+    });
+});
+
+describe('Incoming calls in simulation mode', () => {
+    const listenAndRing = async () => {
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Listen' }));
+        });
+        expect(screen.getByText('Listening')).toBeTruthy();
+
+        fireEvent.click(
+            screen.getByRole('button', { name: /Test Incoming Call/ })
+        );
+        expect(screen.getByText('Incoming Call')).toBeTruthy();
+        expect(screen.getByText('Test Caller')).toBeTruthy();
+        expect(lastSaved()).toMatchObject({
+            direction: 'incoming',
+            displayName: 'Test Caller',
+        });
+    };
+
+    it('accepts a call and returns to the form after hanging up', async () => {
+        await listenAndRing();
+
+        await act(async () => {
+            fireEvent.click(screen.getByTitle('Accept with audio only'));
+        });
+        expect(
+            await screen.findByText('Simulated call - Connected')
+        ).toBeTruthy();
+        expect(screen.getByText('Simulated')).toBeTruthy();
+
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: /Disconnect/ }));
+        });
+        expect(startCallButton()).toBeTruthy();
+        // The listener survives the call
+        expect(screen.getByText('Listening')).toBeTruthy();
+        expect(screen.getByText('You hung up.')).toBeTruthy();
+
+        const entry = lastSaved();
+        expect(entry?.finalState).toBe('Disconnected');
+        expect(entry?.connectedAt).toBeDefined();
+        expect(entry?.timeline.map((event) => event.detail)).toEqual(
+            expect.arrayContaining([
+                'Accepted audio only',
+                'Joined: Test Caller',
+                'Hung up locally',
+            ])
+        );
+    });
+
+    it('shows role changes on the call screen', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('Room'));
+        type(/^Room ID/, '99123456789012345');
+        await act(async () => {
+            fireEvent.click(startCallButton());
+        });
+        await act(() => vi.advanceTimersByTimeAsync(5000));
+        expect(screen.getByText('Simulated call - Connected')).toBeTruthy();
+
+        fireEvent.change(screen.getByLabelText(/^Role/), {
+            target: { value: 'Presenter' },
+        });
+        expect(screen.getByRole('status').textContent).toBe(
+            'Your role changed to Presenter'
+        );
+
+        await act(() => vi.advanceTimersByTimeAsync(5000));
+        expect(screen.queryByRole('status')).toBeNull();
+    });
+
+    it('returns to the form when the other side hangs up', async () => {
+        await listenAndRing();
+        await act(async () => {
+            fireEvent.click(screen.getByTitle('Accept with video'));
+        });
+        await screen.findByText('Simulated call - Connected');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Remote hang-up' }));
+        expect(screen.getByText('The call ended normally.')).toBeTruthy();
+        expect(lastSaved()?.endReason).toEqual({ code: 0, subCode: 0 });
+    });
+
+    it('summarises the call and saves a rating and notes', async () => {
+        await listenAndRing();
+        await act(async () => {
+            fireEvent.click(screen.getByTitle('Accept with video'));
+        });
+        await screen.findByText('Simulated call - Connected');
+
+        fireEvent.change(screen.getByLabelText('Remote end reason'), {
+            target: { value: '3' },
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Remote hang-up' }));
+
+        const summary = screen.getByRole('region', { name: 'Call summary' });
+        expect(
+            within(summary).getByText(
+                'The media connection could not be established or was lost (410).'
+            )
+        ).toBeTruthy();
+        expect(within(summary).getByText('410/0')).toBeTruthy();
+        expect(lastSaved()?.endReason).toEqual({ code: 410, subCode: 0 });
+
+        fireEvent.click(within(summary).getByTitle('4 stars'));
+        fireEvent.change(within(summary).getByLabelText('Call notes'), {
+            target: { value: 'Audio dropped after the network change' },
+        });
+        await act(async () => {
+            fireEvent.click(
+                within(summary).getByRole('button', {
+                    name: 'Save rating and notes',
+                })
+            );
+        });
+        expect(lastSaved()).toMatchObject({
+            rating: 4,
+            notes: 'Audio dropped after the network change',
+            participants: ['Test Caller'],
+        });
+        expect(within(summary).getByText('Saved to history')).toBeTruthy();
+
+        fireEvent.click(within(summary).getByTitle('Dismiss call summary'));
+        expect(
+            screen.queryByRole('region', { name: 'Call summary' })
+        ).toBeNull();
+    });
+
+    it('rejects a call', async () => {
+        await listenAndRing();
+
+        await act(async () => {
+            const modal = screen
+                .getByText('Incoming Call')
+                .closest('div.fixed') as HTMLElement;
+            fireEvent.click(within(modal).getAllByRole('button')[0]);
+        });
+        expect(screen.queryByText('Incoming Call')).toBeNull();
+        expect(screen.getByText('Call rejected')).toBeTruthy();
+        expect(lastSaved()).toMatchObject({
+            direction: 'incoming',
+            finalState: 'Rejected',
+            endedAt: expect.any(String),
+        });
+        expect(getCallOutcome(lastSaved()!)).toBe('rejected');
+        expect(lastSaved()?.timeline.at(-1)?.detail).toBe('Rejected');
+    });
+
+    it('stops listening', async () => {
+        await listenAndRing();
+        fireEvent.click(screen.getByRole('button', { name: 'Stop' }));
+        expect(screen.queryByText('Listening')).toBeNull();
+        expect(screen.getByText('Stopped listening for calls')).toBeTruthy();
+    });
+
+    it('answers by rule and hangs up after the set duration', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(screen.getByRole('button', { name: /Auto-answer/ }));
+        fireEvent.click(screen.getByLabelText('Apply rules to incoming calls'));
+        fireEvent.click(screen.getByRole('button', { name: /Add rule/ }));
+        type(/Rule 1 hang up after seconds/, '10');
+        expect(
+            screen.getByText('Answer all callers after 3s, hang up after 10s')
+        ).toBeTruthy();
+        const dialog = screen
+            .getByText('Auto-answer Rules')
+            .closest('div.fixed') as HTMLElement;
+        fireEvent.click(within(dialog).getAllByRole('button')[0]);
+        expect(
+            screen.getByRole('button', { name: /Auto-answer on \(1\)/ })
+        ).toBeTruthy();
+
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Listen' }));
+        });
+        fireEvent.click(
+            screen.getByRole('button', { name: /Test Incoming Call/ })
+        );
+        expect(screen.getByText('Answering automatically in 3s')).toBeTruthy();
+
+        await act(() => vi.advanceTimersByTimeAsync(3500));
+        expect(screen.getByText('Simulated call - Connected')).toBeTruthy();
+
+        await act(() => vi.advanceTimersByTimeAsync(10000));
+        expect(startCallButton()).toBeTruthy();
+        expect(screen.getByText('Listening')).toBeTruthy();
+        expect(
+            lastSaved()
+                ?.timeline.map((event) => event.detail)
+                .filter((detail) => detail.startsWith('Auto-answer'))
+        ).toEqual([
+            'Auto-answer: Rule 1 matched: Answer all callers after 3s, hang up after 10s',
+            'Auto-answer: Answered audio only',
+            'Auto-answer: Hung up after 10s',
+        ]);
+    });
+
+    it('sends busy to callers only the matching rule applies to', async () => {
+        vi.useFakeTimers();
+        localStorage.setItem(
+            'azure-call-auto-answer',
+            JSON.stringify({
+                enabled: true,
+                rules: [
+                    createAutoAnswerRule({
+                        action: 'busy',
+                        delaySeconds: 0,
+                        callerKind: 'acsUser',
+                        callerPattern: '^8:acs:nobody',
+                    }),
+                    createAutoAnswerRule({
+                        action: 'busy',
+                        delaySeconds: 1,
+                        callerKind: 'acsUser',
+                    }),
+                ],
+            })
+        );
+        await listenAndRing();
+        await act(() => vi.advanceTimersByTimeAsync(1000));
+
+        expect(screen.queryByText('Incoming Call')).toBeNull();
+        expect(screen.getByText('Call rejected')).toBeTruthy();
+        expect(lastSaved()?.timeline.map((event) => event.detail)).toEqual(
+            expect.arrayContaining([
+                'Auto-answer: Rule 2 matched: Send busy to ACS users after 1s',
+                'Auto-answer: Sent busy (rejected; the caller sees the call declined)',
+                'Rejected',
+            ])
+        );
+    });
+
+    it('reports a failed auto-answer once instead of retrying it', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        localStorage.setItem(
+            'azure-call-auto-answer',
+            JSON.stringify({
+                enabled: true,
+                rules: [createAutoAnswerRule({ delaySeconds: 0 })],
+            })
+        );
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Listen' }));
+        });
+        fireEvent.change(screen.getByLabelText(/Next call/), {
+            target: { value: '401' },
+        });
+        fireEvent.click(
+            screen.getByRole('button', { name: /Test Incoming Call/ })
+        );
+        await act(() => vi.advanceTimersByTimeAsync(1000));
+
+        expect(screen.getByText('Incoming Call')).toBeTruthy();
+        const autoAnswered = lastSaved()
+            ?.timeline.map((event) => event.detail)
+            .filter((detail) => detail.startsWith('Auto-answer'));
+        expect(autoAnswered).toHaveLength(3);
+        expect(autoAnswered?.[2]).toMatch(/^Auto-answer: Answer failed: \S/);
+    });
+});
+
+describe('Outgoing calls in simulation mode', () => {
+    const startGroupCall = async () => {
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('Group'));
+        type(/^Group ID/, GROUP_ID);
+        await act(async () => {
+            fireEvent.click(startCallButton());
+        });
+    };
+
+    it('connects and records participants joining', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        await startGroupCall();
+        expect(screen.getByText('Simulated call - Connecting')).toBeTruthy();
+
+        act(() => vi.advanceTimersByTime(2500));
+        expect(screen.getByText('Simulated call - Connected')).toBeTruthy();
+        expect(screen.getByText('Alex (simulated)')).toBeTruthy();
+        expect(lastSaved()).toMatchObject({
+            direction: 'outgoing',
+            callType: 'group',
+            target: GROUP_ID,
+        });
+    });
+
+    it('joins a room as an attendee and follows role changes', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('Room'));
+        type(/^Room ID/, '99123456789012345');
+        await act(async () => {
+            fireEvent.click(startCallButton());
+        });
+
+        act(() => vi.advanceTimersByTime(2500));
+        expect(screen.getByText(/cannot share screen/)).toBeTruthy();
+        const shareButton = screen.getByRole('button', {
+            name: /Share screen/,
+        }) as HTMLButtonElement;
+        expect(shareButton.disabled).toBe(true);
+
+        fireEvent.change(screen.getByLabelText(/^Role/), {
+            target: { value: 'Consumer' },
+        });
+        expect(
+            screen.getByText(/cannot unmute, turn on video, share screen/)
+        ).toBeTruthy();
+        const unmuteButton = screen.getByRole('button', {
+            name: 'Unmute',
+        }) as HTMLButtonElement;
+        expect(unmuteButton.disabled).toBe(true);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Hang up' }));
+        await act(async () => {});
+        const details = lastSaved()?.timeline.map((event) => event.detail);
+        expect(details).toContain('Joined as Attendee');
+        expect(details).toContain('Role changed: Attendee → Consumer');
+    });
+
+    it('rings several callees and dials another one in', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('Ad-hoc'));
+        type(/^Callees/, '8:acs:alice\n+1 425 555 0123');
+        expect(startCallButton().disabled).toBe(true);
+        type(/^Alternate Caller ID/, '+18005550100');
+        expect(startCallButton().disabled).toBe(false);
+        await act(async () => {
+            fireEvent.click(startCallButton());
+        });
+
+        act(() => vi.advanceTimersByTime(2500));
+        expect(screen.getByText('Simulated callee 1')).toBeTruthy();
+        expect(screen.getByText('+14255550123')).toBeTruthy();
+        expect(lastSaved()?.target).toBe('8:acs:alice, +14255550123');
+
+        fireEvent.click(
+            screen.getByRole('button', { name: /Add participant/ })
+        );
+        type(/^User ID or Phone Number/, '8:acs:carol');
+        await act(async () => {
+            fireEvent.click(
+                screen.getByRole('button', { name: /Add to call/ })
+            );
+        });
+        act(() => vi.advanceTimersByTime(1000));
+        expect(screen.getByText('Added user 1')).toBeTruthy();
+        expect(lastSaved()?.timeline.map((event) => event.detail)).toContain(
+            'Dialed in 8:acs:carol'
+        );
+    });
+
+    it('plays the DTMF script once a phone call connects', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        fireEvent.click(screen.getByLabelText('PSTN'));
+        type(/^Phone Number/, '+14255550123');
+        type(/^Alternate Caller ID/, '+18005550100');
+        type(/^DTMF Script/, 'wait 1s, 1 2');
+        await act(async () => {
+            fireEvent.click(startCallButton());
+        });
+
+        await act(() => vi.advanceTimersByTimeAsync(4000));
+        expect(screen.getByText('Tones received: 12')).toBeTruthy();
+
+        fireEvent.click(screen.getByRole('button', { name: /Keypad/ }));
+        await act(async () => {
+            fireEvent.click(
+                screen.getByRole('button', { name: 'Send tone #' })
+            );
+        });
+        expect(screen.getByText('Tones received: 12#')).toBeTruthy();
+        const dtmfEvents = lastSaved()
+            ?.timeline.filter((event) => event.type === 'dtmf')
+            .map((event) => event.detail);
+        expect(dtmfEvents).toEqual([
+            'Script sent 1',
+            'Script sent 2',
+            'Sent #',
+        ]);
+    });
+
+    it('explains a 41001 failure', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fireEvent.change(screen.getByLabelText(/Next call/), {
+            target: { value: '41001' },
+        });
+        await startGroupCall();
+
+        act(() => vi.advanceTimersByTime(2500));
+        expect(startCallButton()).toBeTruthy();
+        const banner = screen.getByRole('alert');
+        expect(
+            within(banner).getByText(/^Start call failed \(41001\)/)
+        ).toBeTruthy();
+        expect(within(banner).getByText('400/41001')).toBeTruthy();
+        expect(within(banner).getByText('Call target')).toBeTruthy();
+        // The summary card reads the same catalogue entry as the banner
+        const summary = screen.getByRole('region', { name: 'Call summary' });
+        expect(
+            within(summary).getByText(/^Start call failed \(41001\)/)
+        ).toBeTruthy();
+        expect(lastSaved()?.endReason).toEqual({ code: 400, subCode: 41001 });
+
+        const writeText = vi.fn().mockResolvedValue(undefined);
+        Object.defineProperty(navigator, 'clipboard', {
+            value: { writeText },
+            configurable: true,
+        });
+        await act(async () => {
+            fireEvent.click(
+                screen.getByRole('button', { name: 'Copy details' })
+            );
+        });
+        expect(writeText.mock.calls[0][0]).toMatch(
+            /^Code: 400\nSubcode: 41001\nCategory: Call target\n/
+        );
+        expect(screen.getByRole('button', { name: 'Copied' })).toBeTruthy();
+    });
+
+    it('explains a 401 failure without starting a call', async () => {
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fireEvent.change(screen.getByLabelText(/Next call/), {
+            target: { value: '401' },
+        });
+        await startGroupCall();
+
+        expect(
+            screen.getByText(
+                'Authorization failed. The token may be invalid or expired.'
+            )
+        ).toBeTruthy();
+        expect(lastSaved()?.timeline.at(-1)?.detail).toBe(
+            'Call could not be started'
+        );
+    });
+});
+
+describe('Call scenarios', () => {
+    it('runs a scenario through Start Call and keeps reporting during the call', async () => {
+        vi.useFakeTimers();
+        render(<App />);
+        fireEvent.click(
+            screen.getByRole('switch', { name: /Simulation mode/ })
+        );
+        fillIdentity();
+        fireEvent.click(screen.getByRole('button', { name: /Scenarios/ }));
+        fireEvent.change(screen.getByLabelText('Scenario script'), {
+            target: {
+                value: `
+name: Group join
+steps:
+  - action: configure
+    config: { callType: group, callValue: ${GROUP_ID} }
+  - startCall
+  - waitForState Connected 5s
+  - hangUp
+`,
+            },
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Run scenarios' }));
+        await act(() => vi.advanceTimersByTimeAsync(500));
+        expect(screen.getByText('Simulated call - Connecting')).toBeTruthy();
+
+        await act(() => vi.advanceTimersByTimeAsync(5000));
+        expect(screen.getByText('1 of 1 scenario(s) passed')).toBeTruthy();
+        expect(startCallButton()).toBeTruthy();
+        expect(lastSaved()).toMatchObject({
+            direction: 'outgoing',
+            callType: 'group',
+            target: GROUP_ID,
+            endedAt: expect.any(String),
+        });
+    });
+});
@@ -1,413 +1,600 @@
-import { useState, useEffect } from 'react';
-import {
-    CallComposite,
-    createAzureCommunicationCallAdapter,
-    type CallAdapter,
-    createAzureCommunicationCallAdapterFromClient,
-    createStatefulCallClient,
-    type StatefulCallClient,
-} from '@azure/communication-react';
-import {
-    AzureCommunicationTokenCredential,
-    type CommunicationUserIdentifier,
-} from '@azure/communication-common';
+import { useState, useEffect, useRef } from 'react';
 import {
     PhoneIcon,
     PhoneXMarkIcon,
     BookmarkIcon,
     ArrowDownTrayIcon,
-    ClockIcon,
-    ExclamationTriangleIcon,
     PhoneArrowDownLeftIcon,
     BellIcon,
+    DocumentArrowDownIcon,
+    DocumentArrowUpIcon,
+    LinkIcon,
+    LockClosedIcon,
+    LockOpenIcon,
+    QueueListIcon,
+    BeakerIcon,
+    BoltIcon,
+    ClipboardDocumentCheckIcon,
+    UserGroupIcon,
 } from '@heroicons/react/24/outline';
+import type {
+    Callee,
+    CallConfig,
+    CallHistoryEntry,
+    ProfileStore,
+    TokenRefreshStatus,
+} from './types';
+import { emptyConfig } from './lib/config';
 import {
-    type CallAgent,
-    type Call,
-    type IncomingCall,
-    IncomingCallKind,
-} from '@azure/communication-calling';
-
-// Types for our configuration
-interface CallConfig {
-    userId: string;
-    token: string;
-    displayName: string;
-    callType: 'group' | 'oneToOne' | 'phone' | '';
-    callValue: string;
-    alternateCallerId?: string;
-}
+    describeAcsError,
+    explainAcsError,
+    type AcsErrorDetails,
+} from './lib/acsErrors';
+import {
+    describeCallee,
+    getCalleeListError,
+    hasPhoneCallee,
+    hasTokenSource,
+    isGuid,
+    isValidAcsUserId,
+    isValidPhoneNumber,
+    parseCalleeList,
+    toE164,
+    usesDtmfScript,
+} from './lib/validators';
+import { parsePhoneNumber } from './lib/phone';
+import {
+    addProfile,
+    createProfile,
+    createProfileStore,
+    deleteProfile,
+    getProfile,
+    loadProfileStore,
+    renameProfile,
+    saveProfileStore,
+    setDefaultProfile,
+    updateProfileConfig,
+} from './lib/profiles';
+import type { TokenRefreshHandlers } from './lib/tokenRefresher';
+import ProfilePicker from './components/ProfilePicker';
+import ExportProfilesDialog from './components/ExportProfilesDialog';
+import TokenVaultDialog from './components/TokenVaultDialog';
+import {
+    createVault,
+    decryptAllTokens,
+    forgetProfileToken,
+    hasPlaintextTokens,
+    loadVaultMetadata,
+    lockProfileStore,
+    openProfileStore,
+    removeVaultMetadata,
+    saveVaultMetadata,
+    sealProfileStore,
+    unlockVault,
+    withSealedTokens,
+    type VaultMetadata,
+} from './lib/tokenVault';
+import { useIdleTimeout } from './hooks/useIdleTimeout';
+import { decodeJWT } from './lib/jwt';
+import {
+    loadWarningThresholds,
+    saveWarningThresholds,
+} from './lib/expiryWarnings';
+import { requestNotificationPermission } from './lib/notifications';
+import { useCallRecorder } from './hooks/useCallRecorder';
+import CallHistoryPanel from './components/CallHistoryPanel';
+import DiagnosticsExportDialog from './components/DiagnosticsExportDialog';
+import PreCallCheckDialog from './components/PreCallCheckDialog';
+import CallConfigForm from './components/CallConfigForm';
+import CallScreen from './components/CallScreen';
+import CallStatusBar from './components/CallStatusBar';
+import IncomingCallModal from './components/IncomingCallModal';
+import {
+    teeSessionHandlers,
+    type CallingService,
+    type CallSession,
+    type CallSessionHandlers,
+} from './lib/callingService';
+import { canStartCall } from './lib/callMachine';
+import {
+    isTeamsMeetingId,
+    isTeamsMeetingLink,
+    isTeamsMeetingPasscode,
+    isTeamsUserId,
+    wasLeftInLobby,
+} from './lib/teams';
+import { isRoomId } from './lib/rooms';
+import { useCallMachine } from './hooks/useCallMachine';
+import { createAcsCallingService } from './lib/acsCallingService';
+import {
+    createSimulatedCallingService,
+    SIMULATED_CALLERS,
+    SIMULATED_FAILURES,
+    type SimulatedFailure,
+} from './lib/simulatedCallingService';
+import {
+    isSameCheckScope,
+    preCallCheckScope,
+    type PreCallCheckResult,
+    type PreCallCheckScope,
+} from './lib/preCallCheck';
+import {
+    buildShareLink,
+    parseProfileImport,
+    parseShareLink,
+} from './lib/profileTransfer';
+import {
+    loadAutoAnswerSettings,
+    saveAutoAnswerSettings,
+    type AutoAnswerSettings,
+} from './lib/autoAnswer';
+import { useAutoAnswer } from './hooks/useAutoAnswer';
+import AutoAnswerDialog from './components/AutoAnswerDialog';
+import ErrorBanner from './components/ErrorBanner';
+import { saveCallRecord } from './lib/callHistory';
+import PostCallCard from './components/PostCallCard';
+import ScenarioRunnerDialog from './components/ScenarioRunnerDialog';
+import type { ScenarioCalls } from './lib/scenarios';
+import SoakTestDialog from './components/SoakTestDialog';
+import {
+    describeCallEndReason,
+    type CallEndDescription,
+} from './lib/callEndReasons';
 
-interface TokenInfo {
-    isValid: boolean;
-    expirationTime?: Date;
-    isExpired?: boolean;
-    timeUntilExpiry?: string;
-    error?: string;
-}
+function App() {
+    const [callConfig, setCallConfig] = useState<CallConfig>(emptyConfig);
+    const [profileStore, setProfileStore] = useState<ProfileStore>(() =>
+        createProfileStore()
+    );
+    const [activeProfileId, setActiveProfileId] = useState<string>(
+        () => profileStore.defaultProfileId
+    );
+    const [error, setError] = useState<string | AcsErrorDetails>('');
+    // The last call's end reason, shown on the form until the next call
+    const [endedCall, setEndedCall] = useState<{
+        entry: CallHistoryEntry;
+        end: CallEndDescription;
+    }>();
+    const [saveMessage, setSaveMessage] = useState<string>('');
+    // The form's messages are hidden during a call, so CallScreen shows its own
+    const [callNotice, setCallNotice] = useState('');
+    // Listener, incoming offer and call session all live in the call state machine
+    const callMachine = useCallMachine();
+    const { phase, offer, session } = callMachine.state;
+    const isListening = callMachine.state.listener !== undefined;
+    const [simulationMode, setSimulationMode] = useState(false);
+    const [simulatedFailure, setSimulatedFailure] =
+        useState<SimulatedFailure>('none');
+    // Index into SIMULATED_CALLERS
+    const [simulatedCaller, setSimulatedCaller] = useState(0);
+    // DTMF script of the outgoing call in progress; incoming calls never play one
+    const [scriptedDtmf, setScriptedDtmf] = useState<string>();
+    const [tokenRefreshStatus, setTokenRefreshStatus] =
+        useState<TokenRefreshStatus>({});
+    const [showExportDialog, setShowExportDialog] = useState(false);
+    const [importErrors, setImportErrors] = useState<string[]>([]);
+    const [vaultMetadata, setVaultMetadata] = useState<
+        VaultMetadata | undefined
+    >();
+    const [vaultKey, setVaultKey] = useState<CryptoKey | undefined>();
+    const [expiryWarningThresholds, setExpiryWarningThresholds] = useState<
+        number[]
+    >(loadWarningThresholds);
+    const [showHistory, setShowHistory] = useState(false);
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const callRecorder = useCallRecorder(() =>
+        setHistoryVersion((version) => version + 1)
+    );
+    const [showPreCallCheck, setShowPreCallCheck] = useState(false);
+    // The last pre-call check with the scope it ran against, so a passed check never
+    // vouches for a different identity, target or mode
+    const [preCallCheck, setPreCallCheck] = useState<
+        { result: PreCallCheckResult; scope: PreCallCheckScope } | undefined
+    >();
+    const preCallResultFor = (config: CallConfig) =>
+        preCallCheck &&
+        isSameCheckScope(
+            preCallCheck.scope,
+            preCallCheckScope(config, simulationMode)
+        )
+            ? preCallCheck.result
+            : undefined;
+    const preCallResult = preCallResultFor(callConfig);
+    const [diagnosticsEntry, setDiagnosticsEntry] = useState<
+        CallHistoryEntry | undefined
+    >();
+    const [vaultDialog, setVaultDialog] = useState<
+        'create' | 'unlock' | undefined
+    >();
+    const [autoAnswerSettings, setAutoAnswerSettings] =
+        useState<AutoAnswerSettings>(loadAutoAnswerSettings);
+    const [showAutoAnswer, setShowAutoAnswer] = useState(false);
+    const [showScenarios, setShowScenarios] = useState(false);
+    const [showSoakTest, setShowSoakTest] = useState(false);
+
+    // Keep the form's token and the refresh status in sync with the credential's tokenRefresher
+    const tokenRefreshHandlers: TokenRefreshHandlers = {
+        onRefreshed: (token) => {
+            setCallConfig((prev) => ({ ...prev, token }));
+            setTokenRefreshStatus({ lastRefreshedAt: new Date() });
+        },
+        onRefreshFailed: (err) => {
+            setTokenRefreshStatus((prev) => ({
+                ...prev,
+                lastFailedAt: new Date(),
+                lastError: err instanceof Error ? err.message : String(err),
+            }));
+        },
+    };
 
-// Function to decode JWT token
-const decodeJWT = (token: string): TokenInfo => {
-    try {
-        if (!token || !token.includes('.')) {
-            return { isValid: false, error: 'Invalid token format' };
-        }
+    // Both services live for the whole session; the switch only picks which one new calls use
+    const [acsService] = useState(() =>
+        createAcsCallingService(tokenRefreshHandlers)
+    );
+    const [simulatedService] = useState(() => createSimulatedCallingService());
+    const callingService: CallingService = simulationMode
+        ? simulatedService
+        : acsService;
+
+    // Route session events into the call history, the state machine and the UI in one place
+    const createSessionHandlers = (): CallSessionHandlers => ({
+        onStateChanged: (state, callId) => {
+            callMachine.send({
+                type: 'callStateChanged',
+                callState: state,
+                callId,
+            });
+            callRecorder.markState(state, callId);
+        },
+        onParticipantsJoined: (names) => {
+            callRecorder.recordParticipants('joined', names);
+            setSaveMessage(`${names.length} participant(s) joined the call`);
+            setTimeout(() => setSaveMessage(''), 3000);
+        },
+        onParticipantsLeft: (names) => {
+            callRecorder.recordParticipants('left', names);
+            setSaveMessage(`${names.length} participant(s) left the call`);
+            setTimeout(() => setSaveMessage(''), 3000);
+        },
+        onDiagnosticChanged: callRecorder.recordDiagnostic,
+        onInfo: (detail) => callRecorder.record('info', detail),
+        // Surface call errors to the UI with friendly messages
+        onError: (e) => {
+            const details = describeAcsError(e);
+            callRecorder.record('error', details.explanation);
+            setError(details);
+        },
+        onEnded: (endReason, leftLocally) => {
+            const active = callRecorder.getActive();
+            const leftInLobby = active !== undefined && wasLeftInLobby(active);
+            const entry = callRecorder.finish({
+                endReason,
+                detail: leftInLobby
+                    ? 'Not admitted from the meeting lobby'
+                    : leftLocally
+                    ? 'Hung up locally'
+                    : undefined,
+            });
+            if (entry) {
+                setEndedCall({
+                    entry,
+                    end: leftInLobby
+                        ? {
+                              kind: 'removed',
+                              message:
+                                  'You were not admitted from the Teams meeting lobby.',
+                          }
+                        : leftLocally
+                        ? { kind: 'hungUp', message: 'You hung up.' }
+                        : describeCallEndReason(endReason),
+                });
+            }
+            callMachine.send({ type: 'callEnded' });
+        },
+        onCallChanged: (call) =>
+            callMachine.send({ type: 'sdkCallChanged', call }),
+        onRoleChanged: (role) => {
+            const previous = callMachine.getState().role;
+            callMachine.send({ type: 'roleChanged', role });
+            if (!previous) {
+                callRecorder.record('info', `Joined as ${role}`);
+                return;
+            }
+            callRecorder.record('info', `Role changed: ${previous} → ${role}`);
+            setCallNotice(`Your role changed to ${role}`);
+            setTimeout(() => setCallNotice(''), 5000);
+        },
+    });
 
-        const parts = token.split('.');
-        if (parts.length !== 3) {
-            return { isValid: false, error: 'Invalid JWT structure' };
+    // Load profiles (migrating any legacy saved configuration) on component mount
+    useEffect(() => {
+        try {
+            const store = loadProfileStore();
+            setProfileStore(store);
+            // Non-secret fields load right away; encrypted tokens wait for the passphrase
+            const metadata = loadVaultMetadata();
+            if (metadata) {
+                setVaultMetadata(metadata);
+                setVaultDialog('unlock');
+            }
+            setActiveProfileId(store.defaultProfileId);
+            setCallConfig(
+                getProfile(store, store.defaultProfileId)?.config ??
+                    emptyConfig()
+            );
+        } catch (error) {
+            console.error('Failed to load saved configuration:', error);
+            setSaveMessage(
+                'Failed to load saved configuration - using defaults'
+            );
+            setTimeout(() => setSaveMessage(''), 3000);
         }
+    }, []);
 
-        // Decode the payload (second part)
-        const payload = JSON.parse(atob(parts[1]));
-
-        if (!payload.exp) {
-            return {
-                isValid: false,
-                error: 'No expiration time found in token',
-            };
-        }
+    // Pre-fill the form from a share link (#callType=...&callValue=...&displayName=...)
+    useEffect(() => {
+        const applySharedHash = () => {
+            const shared = parseShareLink(window.location.hash);
+            if (!shared) return;
+            setCallConfig((prev) => ({ ...prev, ...shared }));
+            history.replaceState(
+                null,
+                '',
+                window.location.pathname + window.location.search
+            );
+            setSaveMessage(
+                'Call settings loaded from share link - add your own User ID and Token'
+            );
+            setTimeout(() => setSaveMessage(''), 5000);
+        };
 
-        const expirationTime = new Date(payload.exp * 1000); // Convert from Unix timestamp
-        const now = new Date();
-        const isExpired = expirationTime <= now;
+        applySharedHash();
+        window.addEventListener('hashchange', applySharedHash);
+        return () => window.removeEventListener('hashchange', applySharedHash);
+    }, []);
 
-        let timeUntilExpiry = '';
-        if (!isExpired) {
-            const timeDiff = expirationTime.getTime() - now.getTime();
-            const hours = Math.floor(timeDiff / (1000 * 60 * 60));
-            const minutes = Math.floor(
-                (timeDiff % (1000 * 60 * 60)) / (1000 * 60)
+    // Persist profile changes to localStorage
+    // With the token vault enabled, tokens are only written encrypted (or not at all while locked)
+    const persistProfileStore = async (store: ProfileStore) => {
+        if (!vaultMetadata) {
+            saveProfileStore(store);
+            return;
+        }
+        if (vaultKey) {
+            const sealed = await sealProfileStore(store, vaultKey);
+            saveProfileStore(sealed);
+            setProfileStore((prev) => withSealedTokens(prev, sealed));
+            return;
+        }
+        if (hasPlaintextTokens(store)) {
+            setSaveMessage(
+                'Token vault is locked - unlock it to save access tokens'
             );
-
-            if (hours > 0) {
-                timeUntilExpiry = `${hours}h ${minutes}m`;
-            } else {
-                timeUntilExpiry = `${minutes}m`;
-            }
+            setTimeout(() => setSaveMessage(''), 5000);
         }
+        saveProfileStore(lockProfileStore(store));
+    };
 
-        return {
-            isValid: true,
-            expirationTime,
-            isExpired,
-            timeUntilExpiry,
-        };
-    } catch {
-        return { isValid: false, error: 'Failed to decode token' };
-    }
-};
-
-// Friendly error mapper for ACS startCall/adapter errors
-const explainAcsError = (err: unknown): string => {
-    // Try to pull useful info out of SDK errors without using any
-    const errObj =
-        (typeof err === 'object' && err !== null
-            ? (err as {
-                  message?: string;
-                  code?: string | number;
-                  subCode?: string | number;
-                  innerError?: unknown;
-              })
-            : undefined) || undefined;
-    const inner =
-        errObj?.innerError && typeof errObj.innerError === 'object'
-            ? (errObj.innerError as {
-                  message?: string;
-                  code?: string | number;
-                  subCode?: string | number;
-              })
-            : undefined;
-    const code = errObj?.code ?? inner?.code;
-    const subCode = errObj?.subCode ?? inner?.subCode;
-    const base = errObj?.message || String(err);
+    const updateProfileStore = (next: ProfileStore) => {
+        setProfileStore(next);
+        persistProfileStore(next).catch((error) => {
+            setSaveMessage('Failed to save profiles - storage error');
+            setTimeout(() => setSaveMessage(''), 3000);
+            console.error('Save profiles error:', error);
+        });
+    };
 
-    // Known guidance for startCall 41001
-    if (String(subCode) === '41001') {
-        return (
-            'Start call failed (41001). Check the target and configuration: ' +
-            '- For PSTN, use a valid E.164 number and an Alternate Caller ID you own in the ACS resource with telephony enabled. ' +
-            '- For 1:1, use a valid ACS user ID (8:acs:...) and do not call your own ID.'
+    // Token vault actions
+    const enableTokenVault = async (
+        passphrase: string,
+        autoLockMinutes: number
+    ) => {
+        const { metadata, key } = await createVault(
+            passphrase,
+            autoLockMinutes
         );
-    }
+        // Store the sealed profiles before the vault so tokens are never left behind in plaintext
+        const sealed = await sealProfileStore(profileStore, key);
+        saveProfileStore(sealed);
+        setProfileStore((prev) => withSealedTokens(prev, sealed));
+        saveVaultMetadata(metadata);
+        setVaultMetadata(metadata);
+        setVaultKey(key);
+        setVaultDialog(undefined);
+        setSaveMessage('Access tokens are now encrypted with your passphrase');
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-    if (String(code) === '401' || /401|Unauthorized/i.test(base)) {
-        return 'Authorization failed. The token may be invalid or expired.';
-    }
+    const unlockTokenVault = async (passphrase: string) => {
+        if (!vaultMetadata) return;
+        const key = await unlockVault(passphrase, vaultMetadata);
+        const opened = await openProfileStore(profileStore, key);
+        setVaultKey(key);
+        setProfileStore(opened);
+        setCallConfig((prev) =>
+            prev.token
+                ? prev
+                : {
+                      ...prev,
+                      token:
+                          getProfile(opened, activeProfileId)?.config.token ??
+                          '',
+                  }
+        );
+        setVaultDialog(undefined);
+        setSaveMessage('Token vault unlocked');
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-    if (/expired|token/i.test(base)) {
-        return 'The access token appears to be expired or invalid.';
-    }
+    const lockTokenVault = (reason = 'Token vault locked') => {
+        setVaultKey(undefined);
+        setProfileStore((prev) => lockProfileStore(prev));
+        setCallConfig((prev) => ({ ...prev, token: '' }));
+        setSaveMessage(reason);
+        setTimeout(() => setSaveMessage(''), 5000);
+    };
 
-    return base;
-};
+    const removeTokenVault = async () => {
+        if (!vaultKey) return;
+        const store = await decryptAllTokens(profileStore, vaultKey);
+        saveProfileStore(store);
+        removeVaultMetadata();
+        setProfileStore(store);
+        setVaultMetadata(undefined);
+        setVaultKey(undefined);
+        setSaveMessage(
+            'Token encryption removed - tokens are stored in plain text'
+        );
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-// Basic validators
-const isValidAcsUserId = (id: string) => /^8:acs:.+/.test(id.trim());
-const isGuid = (v: string) =>
-    /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-5][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$/.test(
-        v.trim()
-    );
-const toE164 = (num: string): string => {
-    const cleaned = num.replace(/[^\d+]/g, '');
-    if (cleaned.startsWith('+')) return cleaned;
-    return cleaned ? `+${cleaned}` : '';
-};
-const isLikelyE164 = (num: string) => /^\+\d{7,15}$/.test(num);
+    // Forgotten passphrase: encrypted tokens cannot be recovered, so drop them with the vault
+    const resetTokenVault = () => {
+        const store = profileStore.profiles.reduce(
+            (next, profile) => forgetProfileToken(next, profile.id),
+            profileStore
+        );
+        saveProfileStore(store);
+        removeVaultMetadata();
+        setProfileStore(store);
+        setVaultMetadata(undefined);
+        setVaultKey(undefined);
+        setVaultDialog(undefined);
+        setSaveMessage('Token vault reset - saved tokens were deleted');
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-function App() {
-    const [callConfig, setCallConfig] = useState<CallConfig>({
-        userId: '',
-        token: '',
-        displayName: '',
-        callType: '',
-        callValue: '',
-        alternateCallerId: '',
-    });
-    const [isConnected, setIsConnected] = useState(false);
-    const [callAdapter, setCallAdapter] = useState<CallAdapter | undefined>();
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string>('');
-    const [saveMessage, setSaveMessage] = useState<string>('');
-    const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
-    const [isListening, setIsListening] = useState(false);
-    const [listeningAdapter, setListeningAdapter] = useState<
-        CallAdapter | undefined
-    >();
-    const [callClient, setCallClient] = useState<
-        StatefulCallClient | undefined
-    >();
-    const [callAgent, setCallAgent] = useState<CallAgent | undefined>();
-    const [callState, setCallState] = useState<string>('None');
-    const [currentCall, setCurrentCall] = useState<Call | undefined>(undefined);
-
-    // Helper to wire adapter events in one place
-    const wireAdapterEvents = (adapter: CallAdapter) => {
-        adapter.on('callEnded', () => {
-            console.log('Call ended event received');
-            setSaveMessage('Call ended by the other party');
-            setTimeout(() => setSaveMessage(''), 5000);
+    const forgetActiveToken = () => {
+        updateProfileStore(forgetProfileToken(profileStore, activeProfileId));
+        setCallConfig((prev) => ({ ...prev, token: '' }));
+        setSaveMessage('Saved token removed from this profile');
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-            // Return to main form
-            setIsConnected(false);
-            setCallAdapter(undefined);
-            setCurrentCall(undefined);
-            setCallState('None');
-        });
+    useIdleTimeout(
+        () =>
+            lockTokenVault(
+                `Token vault locked after ${vaultMetadata?.autoLockMinutes} minutes of inactivity`
+            ),
+        (vaultMetadata?.autoLockMinutes ?? 0) * 60 * 1000,
+        Boolean(vaultMetadata && vaultKey)
+    );
 
-        adapter.on('participantsJoined', (participants) => {
-            console.log('Participants joined:', participants);
+    // Save configuration into the active profile
+    const saveConfiguration = () => {
+        // Validate that we have some configuration to save
+        if (
+            !callConfig.userId &&
+            !callConfig.token &&
+            !callConfig.tokenEndpoint &&
+            !callConfig.displayName &&
+            !callConfig.callType
+        ) {
             setSaveMessage(
-                `${participants.joined.length} participant(s) joined the call`
+                'No configuration to save - please fill in some fields first'
             );
             setTimeout(() => setSaveMessage(''), 3000);
-        });
+            return;
+        }
 
-        adapter.on('participantsLeft', (participants) => {
-            console.log('Participants left:', participants);
-            setSaveMessage(
-                `${participants.removed.length} participant(s) left the call`
-            );
-            setTimeout(() => setSaveMessage(''), 3000);
-        });
+        updateProfileStore(
+            updateProfileConfig(profileStore, activeProfileId, callConfig)
+        );
+        setSaveMessage(
+            `Configuration saved to "${
+                getProfile(profileStore, activeProfileId)?.name
+            }"`
+        );
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-        // Surface adapter errors to the UI with friendly messages
-        adapter.on('error', (e: unknown) => {
-            console.error('Adapter error:', e);
-            setError(explainAcsError(e));
-        });
+    // Reload the active profile, discarding unsaved edits
+    const loadConfiguration = () => {
+        const profile = getProfile(profileStore, activeProfileId);
+        if (profile) {
+            setCallConfig(profile.config);
+            setSaveMessage(`Configuration "${profile.name}" loaded`);
+        } else {
+            setSaveMessage('No saved configuration found');
+        }
+        setTimeout(() => setSaveMessage(''), 3000);
     };
 
-    // Load saved configuration on component mount
-    useEffect(() => {
-        const savedConfig = localStorage.getItem('azure-call-config');
-        if (savedConfig) {
-            try {
-                const parsedConfig = JSON.parse(savedConfig);
-
-                // Handle backwards compatibility with old config format
-                if (
-                    parsedConfig.groupId ||
-                    parsedConfig.targetCallerId ||
-                    parsedConfig.phoneNumber
-                ) {
-                    // Convert old format to new format
-                    const convertedConfig: CallConfig = {
-                        userId: parsedConfig.userId || '',
-                        token: parsedConfig.token || '',
-                        displayName: parsedConfig.displayName || '',
-                        callType: parsedConfig.groupId
-                            ? 'group'
-                            : parsedConfig.targetCallerId
-                            ? 'oneToOne'
-                            : parsedConfig.phoneNumber
-                            ? 'phone'
-                            : '',
-                        callValue:
-                            parsedConfig.groupId ||
-                            parsedConfig.targetCallerId ||
-                            parsedConfig.phoneNumber ||
-                            '',
-                        alternateCallerId: parsedConfig.alternateCallerId || '',
-                    };
-                    setCallConfig(convertedConfig);
-                    // Save the converted config in new format
-                    localStorage.setItem(
-                        'azure-call-config',
-                        JSON.stringify(convertedConfig)
-                    );
-                } else {
-                    // New format - validate required fields exist
-                    const validConfig: CallConfig = {
-                        userId: parsedConfig.userId || '',
-                        token: parsedConfig.token || '',
-                        displayName: parsedConfig.displayName || '',
-                        callType: parsedConfig.callType || '',
-                        callValue: parsedConfig.callValue || '',
-                        alternateCallerId: parsedConfig.alternateCallerId || '',
-                    };
-                    setCallConfig(validConfig);
-                }
-            } catch (error) {
-                console.error('Failed to load saved configuration:', error);
-                setSaveMessage(
-                    'Failed to load saved configuration - using defaults'
-                );
-                setTimeout(() => setSaveMessage(''), 3000);
-            }
+    // Profile picker actions
+    const selectProfile = (id: string) => {
+        const profile = getProfile(profileStore, id);
+        if (!profile) return;
+        setActiveProfileId(id);
+        setCallConfig(profile.config);
+        setError('');
+    };
+
+    const createNewProfile = (name: string) => {
+        const profile = createProfile(name);
+        updateProfileStore(addProfile(profileStore, profile));
+        setActiveProfileId(profile.id);
+        setCallConfig(profile.config);
+    };
+
+    const duplicateExistingProfile = (id: string, name: string) => {
+        const source = getProfile(profileStore, id);
+        if (!source) return;
+        const profile = createProfile(name, { ...source.config });
+        updateProfileStore(addProfile(profileStore, profile));
+        setActiveProfileId(profile.id);
+        setCallConfig(profile.config);
+    };
+
+    // Import profiles from an exported JSON file; nothing is stored if validation fails
+    const importProfiles = async (file: File) => {
+        const { profiles, errors } = parseProfileImport(await file.text());
+        if (errors.length) {
+            setImportErrors(errors);
+            return;
         }
-    }, []);
 
-    // Cleanup call agent and call client on component unmount
-    useEffect(() => {
-        return () => {
-            // Cleanup when component unmounts
-            if (callAgent) {
-                try {
-                    callAgent.dispose();
-                } catch (error) {
-                    console.error(
-                        'Error disposing call agent on unmount:',
-                        error
-                    );
-                }
-            }
-            if (callAdapter) {
-                try {
-                    callAdapter.dispose();
-                } catch (error) {
-                    console.error(
-                        'Error disposing call adapter on unmount:',
-                        error
-                    );
-                }
-            }
-            if (listeningAdapter) {
-                try {
-                    listeningAdapter.dispose();
-                } catch (error) {
-                    console.error(
-                        'Error disposing listening adapter on unmount:',
-                        error
-                    );
-                }
-            }
-        };
-    }, [callAgent, callAdapter, listeningAdapter, currentCall]);
+        const existingNames = new Set(profileStore.profiles.map((p) => p.name));
+        const renamed = profiles.map((profile) =>
+            existingNames.has(profile.name)
+                ? { ...profile, name: `${profile.name} (imported)` }
+                : profile
+        );
+        updateProfileStore(
+            renamed.reduce(
+                (store, profile) => addProfile(store, profile),
+                profileStore
+            )
+        );
+        setImportErrors([]);
+        setActiveProfileId(renamed[0].id);
+        setCallConfig(renamed[0].config);
+        setSaveMessage(
+            `Imported ${renamed.length} profile(s) from ${file.name}`
+        );
+        setTimeout(() => setSaveMessage(''), 3000);
+    };
 
-    // Save configuration to localStorage
-    const saveConfiguration = () => {
+    // Copy a link that pre-fills the call type, target and display name (never the token)
+    const copyShareLink = async () => {
         try {
-            // Validate that we have some configuration to save
-            if (
-                !callConfig.userId &&
-                !callConfig.token &&
-                !callConfig.displayName &&
-                !callConfig.callType
-            ) {
-                setSaveMessage(
-                    'No configuration to save - please fill in some fields first'
-                );
-                setTimeout(() => setSaveMessage(''), 3000);
-                return;
-            }
-
-            localStorage.setItem(
-                'azure-call-config',
-                JSON.stringify(callConfig)
-            );
-            setSaveMessage('Configuration saved successfully!');
-            setTimeout(() => setSaveMessage(''), 3000);
+            await navigator.clipboard.writeText(buildShareLink(callConfig));
+            setSaveMessage('Share link copied to clipboard');
         } catch (error) {
-            setSaveMessage('Failed to save configuration - storage error');
-            setTimeout(() => setSaveMessage(''), 3000);
-            console.error('Save configuration error:', error);
+            console.error('Copy share link error:', error);
+            setSaveMessage('Failed to copy share link');
         }
+        setTimeout(() => setSaveMessage(''), 3000);
     };
 
-    // Load configuration from localStorage
-    const loadConfiguration = () => {
-        const savedConfig = localStorage.getItem('azure-call-config');
-        if (savedConfig) {
-            try {
-                const parsedConfig = JSON.parse(savedConfig);
-
-                // Handle backwards compatibility with old config format
-                if (
-                    parsedConfig.groupId ||
-                    parsedConfig.targetCallerId ||
-                    parsedConfig.phoneNumber
-                ) {
-                    // Convert old format to new format
-                    const convertedConfig: CallConfig = {
-                        userId: parsedConfig.userId || '',
-                        token: parsedConfig.token || '',
-                        displayName: parsedConfig.displayName || '',
-                        callType: parsedConfig.groupId
-                            ? 'group'
-                            : parsedConfig.targetCallerId
-                            ? 'oneToOne'
-                            : parsedConfig.phoneNumber
-                            ? 'phone'
-                            : '',
-                        callValue:
-                            parsedConfig.groupId ||
-                            parsedConfig.targetCallerId ||
-                            parsedConfig.phoneNumber ||
-                            '',
-                        alternateCallerId: parsedConfig.alternateCallerId || '',
-                    };
-                    setCallConfig(convertedConfig);
-                    // Save the converted config in new format
-                    localStorage.setItem(
-                        'azure-call-config',
-                        JSON.stringify(convertedConfig)
-                    );
-                    setSaveMessage(
-                        'Configuration loaded and updated to new format!'
-                    );
-                } else {
-                    // New format - validate required fields exist
-                    const validConfig: CallConfig = {
-                        userId: parsedConfig.userId || '',
-                        token: parsedConfig.token || '',
-                        displayName: parsedConfig.displayName || '',
-                        callType: parsedConfig.callType || '',
-                        callValue: parsedConfig.callValue || '',
-                        alternateCallerId: parsedConfig.alternateCallerId || '',
-                    };
-                    setCallConfig(validConfig);
-                    setSaveMessage('Configuration loaded successfully!');
-                }
-                setTimeout(() => setSaveMessage(''), 3000);
-            } catch (error) {
-                setSaveMessage('Failed to load configuration - invalid format');
-                setTimeout(() => setSaveMessage(''), 3000);
-                console.error('Load configuration error:', error);
-            }
-        } else {
-            setSaveMessage('No saved configuration found');
-            setTimeout(() => setSaveMessage(''), 3000);
+    const deleteExistingProfile = (id: string) => {
+        const next = deleteProfile(profileStore, id);
+        if (next === profileStore) return;
+        updateProfileStore(next);
+        if (id === activeProfileId) {
+            setActiveProfileId(next.defaultProfileId);
+            setCallConfig(
+                getProfile(next, next.defaultProfileId)?.config ?? emptyConfig()
+            );
         }
     };
 
@@ -415,520 +602,611 @@ function App() {
     const startListeningForCalls = async () => {
         if (
             !callConfig.userId ||
-            !callConfig.token ||
+            !hasTokenSource(callConfig) ||
             !callConfig.displayName
         ) {
             setError(
-                'Please fill in User ID, Token, and Display Name to listen for calls'
+                'Please fill in User ID, Token (or Token Endpoint), and Display Name to listen for calls'
             );
             return;
         }
 
         try {
-            setIsLoading(true);
             setError('');
-
-            const credential = new AzureCommunicationTokenCredential(
-                callConfig.token
-            );
-
-            // Create a stateful call client so CallComposite can attach to accepted calls later
-            const newCallClient = createStatefulCallClient({
-                userId: { communicationUserId: callConfig.userId },
-            });
-            const newCallAgent = await newCallClient.createCallAgent(
-                credential,
-                { displayName: callConfig.displayName }
-            );
-
-            // Store the call client and call agent in state
-            setCallClient(newCallClient);
-            setCallAgent(newCallAgent);
-
-            newCallAgent.on('incomingCall', ({ incomingCall: call }) => {
-                console.log('Incoming call detected:', call);
-                setIncomingCall(call);
-            });
-            newCallAgent.on('callsUpdated', ({ added, removed }) => {
-                console.log('Calls updated:', { added, removed });
-
-                // Handle new calls being added
-                added.forEach((call) => {
-                    console.log(
-                        'New call added:',
-                        call.id,
-                        'State:',
-                        call.state
-                    );
-                    setCurrentCall(call);
-                    setCallState(call.state);
-
-                    // Listen to call state changes
-                    call.on('stateChanged', () => {
-                        console.log(
-                            'Call state changed:',
-                            call.id,
-                            'New state:',
-                            call.state
-                        );
-                        setCallState(call.state);
-
-                        // Handle call being hung up or disconnected
-                        if (call.state === 'Disconnected') {
-                            console.log('Call was disconnected/hung up');
-                            setSaveMessage(
-                                'Call ended - the other party hung up or connection was lost'
-                            );
-                            setTimeout(() => setSaveMessage(''), 5000);
-
-                            // Clean up call state
-                            setCurrentCall(undefined);
-                            setCallState('None');
-
-                            // If we're in a connected call, go back to the main form
-                            if (isConnected) {
-                                setIsConnected(false);
-                                setCallAdapter(undefined);
-                            }
-                        } else if (call.state === 'Connected') {
-                            console.log('Call is now connected');
-                            setSaveMessage('Call connected successfully');
-                            setTimeout(() => setSaveMessage(''), 3000);
-                        } else if (call.state === 'Connecting') {
-                            console.log('Call is connecting...');
-                            setSaveMessage('Connecting to call...');
-                            setTimeout(() => setSaveMessage(''), 3000);
-                        }
+            // Lets the token countdown warn about expiry while the tab is in the background
+            requestNotificationPermission();
+
+            const listener = await callingService.listen(callConfig, {
+                onIncomingCall: (offer) => {
+                    console.log('Incoming call detected:', offer);
+                    // Busy with another call: let this one ring out unanswered
+                    if (callMachine.getState().phase !== 'listening') return;
+                    callRecorder.begin({
+                        direction: 'incoming',
+                        callType: 'incoming',
+                        target: offer.callerId,
+                        displayName: offer.callerName,
+                        config: callConfig,
                     });
-                });
-
-                // Handle calls being removed (hung up)
-                removed.forEach((call) => {
-                    console.log(
-                        'Call removed:',
-                        call.id,
-                        'Final state:',
-                        call.state
-                    );
-                    if (currentCall && currentCall.id === call.id) {
-                        setCurrentCall(undefined);
-                        setCallState('None');
-                        setSaveMessage('Call ended');
-                        setTimeout(() => setSaveMessage(''), 3000);
+                    callMachine.send({ type: 'incomingCall', offer });
+                },
+                // Caller hung up before we answered
+                onIncomingCallEnded: (offer, endReason) => {
+                    if (callMachine.getState().offer !== offer) return;
+                    const entry = callRecorder.finish({
+                        endReason,
+                        detail: 'Incoming call ended before it was answered',
+                    });
+                    if (entry) {
+                        setEndedCall({
+                            entry,
+                            end: describeCallEndReason(endReason),
+                        });
                     }
-                });
+                    callMachine.send({ type: 'incomingCallClosed', offer });
+                },
+                onStopped: () => callMachine.send({ type: 'listenerStopped' }),
             });
 
-            setIsListening(true);
+            callMachine.send({ type: 'listenerStarted', listener });
             setSaveMessage(
                 'Ready to receive calls. Share your User ID with callers.'
             );
             setTimeout(() => setSaveMessage(''), 5000);
         } catch (err) {
             console.error('Failed to start listening for calls:', err);
-            setError(`Failed to start listening: ${err}`);
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
-    // Stop listening for incoming calls
-    const stopListeningForCalls = async () => {
-        try {
-            // Dispose of the call agent if it exists
-            if (callAgent) {
-                callAgent.dispose();
-                setCallAgent(undefined);
-            }
-
-            // Clear the call client
-            if (callClient) {
-                setCallClient(undefined);
-            }
-
-            // Clean up the listening adapter if it exists
-            if (listeningAdapter) {
-                listeningAdapter.dispose();
-                setListeningAdapter(undefined);
-            }
-        } catch (error) {
-            console.error('Error stopping call agent:', error);
-        } finally {
-            setIsListening(false);
-            setIncomingCall(null);
-            setCurrentCall(undefined);
-            setCallState('None');
-            setSaveMessage('Stopped listening for calls');
-            setTimeout(() => setSaveMessage(''), 3000);
+            setError(describeAcsError(err, 'Failed to start listening'));
         }
     };
 
-    // Helper to map an accepted Call to a CallAdapterLocator supported by UI lib
-    const getAdapterLocatorFromCall = (call: Call) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const info: any = (call as unknown as { info?: unknown }).info;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const rawLocator: any = (info as any)?.callLocator ?? info;
-        if (!rawLocator) return undefined;
-        if (rawLocator.groupId) return { groupId: rawLocator.groupId } as const;
-        if (rawLocator.meetingLink)
-            return { meetingLink: rawLocator.meetingLink } as const;
-        if (rawLocator.roomId) return { roomId: rawLocator.roomId } as const;
-        return undefined;
+    // Stop listening for incoming calls; the state machine stops the listener
+    const stopListeningForCalls = () => {
+        callMachine.send({ type: 'listenerStopped' });
+        setSaveMessage('Stopped listening for calls');
+        setTimeout(() => setSaveMessage(''), 3000);
     };
 
-    // Create adapter for an accepted incoming call using call locator
-    const createAdapterForAcceptedCall = async (acceptedCall: Call) => {
+    // Accept incoming call; resolves with why it failed, already shown as the error
+    const acceptIncomingCall = async (withVideo: boolean) => {
+        if (!offer || phase !== 'ringing') return;
+        callMachine.send({ type: 'callRequested' });
+        setScriptedDtmf(undefined);
         try {
-            setIsLoading(true);
             setError('');
-
-            const adapterLocator = getAdapterLocatorFromCall(acceptedCall);
-            if (!adapterLocator) {
-                throw new Error(
-                    'Unsupported incoming call type. Only group/meeting/room calls are supported in this sample.'
-                );
-            }
-
-            // Prefer reusing the existing client/agent if available
-            if (callClient && callAgent) {
-                const adapter =
-                    await createAzureCommunicationCallAdapterFromClient(
-                        callClient,
-                        callAgent,
-                        adapterLocator
-                    );
-
-                setCallAdapter(adapter);
-                wireAdapterEvents(adapter);
-                setIsConnected(true);
-                setIsListening(false);
-                setCurrentCall(acceptedCall);
-                setCallState(acceptedCall.state);
-                return;
-            }
-
-            // Fallback to creating fresh client/agent
-            const credential = new AzureCommunicationTokenCredential(
-                callConfig.token
+            setEndedCall(undefined);
+            const session = await offer.accept(
+                { withVideo },
+                createSessionHandlers()
             );
-            const userId: CommunicationUserIdentifier = {
-                communicationUserId: callConfig.userId,
-            };
-
-            const adapter = await createAzureCommunicationCallAdapter({
-                userId,
-                credential,
-                displayName: callConfig.displayName,
-                locator: adapterLocator,
-            });
-
-            setCallAdapter(adapter);
-            wireAdapterEvents(adapter);
-            setIsConnected(true);
-            setIsListening(false);
-            setCurrentCall(acceptedCall);
-            setCallState(acceptedCall.state);
+            callMachine.send({ type: 'callStarted', session });
         } catch (err) {
-            console.error('Failed to create adapter for accepted call:', err);
-            setError(`Failed to join call: ${err}`);
-        } finally {
-            setIsLoading(false);
+            console.error('Failed to accept incoming call:', err);
+            const details = describeAcsError(err, 'Failed to accept call');
+            callRecorder.record(
+                'error',
+                `Failed to accept call: ${details.explanation}`
+            );
+            setError(details);
+            callMachine.send({ type: 'callFailed' });
+            return details.explanation;
         }
     };
 
-    // Accept incoming call
-    const acceptIncomingCall = async () => {
-        if (!incomingCall) return;
+    // Reject incoming call; resolves with why it failed, like acceptIncomingCall
+    const rejectIncomingCall = async () => {
+        if (!offer) return;
+        // Close the offer and its history entry first: the callEnded the SDK may fire
+        // for our own reject then finds nothing to mark as ended before answering
+        callMachine.send({ type: 'incomingCallClosed', offer });
+        callRecorder.finish({ finalState: 'Rejected', detail: 'Rejected' });
         try {
-            setIsLoading(true);
-            const call = await incomingCall.accept();
-            await createAdapterForAcceptedCall(call);
-            setIncomingCall(null);
+            await offer.reject();
+            setSaveMessage('Call rejected');
+            setTimeout(() => setSaveMessage(''), 3000);
         } catch (err) {
-            console.error('Failed to accept incoming call:', err);
-            setError(`Failed to accept call: ${err}`);
-        } finally {
-            setIsLoading(false);
+            console.error('Failed to reject call:', err);
+            const details = describeAcsError(err, 'Failed to reject the call');
+            setError(details);
+            return details.explanation;
         }
     };
 
-    // Reject incoming call
-    const rejectIncomingCall = async () => {
-        await incomingCall?.reject();
-        setIncomingCall(null);
-        setSaveMessage('Call rejected');
+    // Ring the listener with a scripted call from the simulated backend
+    const simulateIncomingCall = () => {
+        if (
+            !simulatedService.simulateIncomingCall(
+                SIMULATED_CALLERS[simulatedCaller].caller
+            )
+        ) {
+            setError('Click Listen before simulating an incoming call');
+        }
+    };
+
+    const toggleSimulationMode = () => {
+        const next = !simulationMode;
+        setSimulationMode(next);
+        setError('');
+        setSaveMessage(
+            next
+                ? 'Simulation mode on - calls use the offline fake backend'
+                : 'Simulation mode off - calls go to Azure Communication Services'
+        );
         setTimeout(() => setSaveMessage(''), 3000);
     };
 
-    // Clear saved configuration
+    const changeSimulatedFailure = (failure: SimulatedFailure) => {
+        setSimulatedFailure(failure);
+        simulatedService.setStartFailure(failure);
+    };
+
+    // Clear the active profile's saved configuration
     const clearConfiguration = () => {
-        localStorage.removeItem('azure-call-config');
-        setCallConfig({
-            userId: '',
-            token: '',
-            displayName: '',
-            callType: '',
-            callValue: '',
-            alternateCallerId: '',
-        });
+        updateProfileStore(
+            updateProfileConfig(profileStore, activeProfileId, emptyConfig())
+        );
+        setCallConfig(emptyConfig());
         setSaveMessage('Configuration cleared');
         setTimeout(() => setSaveMessage(''), 3000);
     };
 
-    // Initialize call adapter
-    const initializeCallAdapter = async () => {
-        if (
-            !callConfig.userId ||
-            !callConfig.token ||
-            !callConfig.displayName
-        ) {
-            setError('Please fill in all required fields');
-            return;
+    // Initialize call adapter. Resolves with the session, or with why the call was not
+    // started (also shown as the error); observer gets the session's events too.
+    const initializeCallAdapter = async (
+        config: CallConfig = callConfig,
+        observer?: CallSessionHandlers
+    ): Promise<{ session?: CallSession; error?: string }> => {
+        const fail = (error: string) => {
+            setError(error);
+            return { error };
+        };
+
+        if (!config.userId || !hasTokenSource(config) || !config.displayName) {
+            return fail('Please fill in all required fields');
         }
 
-        // Prevent starting a call with an expired token
-        const tokenInfo = decodeJWT(callConfig.token);
-        if (tokenInfo.isValid && tokenInfo.isExpired) {
-            setError('Access token is expired. Please provide a fresh token.');
-            return;
+        // Prevent starting a call with an expired token (unless it can be refreshed)
+        const tokenInfo = decodeJWT(config.token);
+        if (tokenInfo.isValid && tokenInfo.isExpired && !config.tokenEndpoint) {
+            return fail(
+                'Access token is expired. Please provide a fresh token.'
+            );
         }
 
-        if (!callConfig.callType || !callConfig.callValue) {
-            setError(
+        if (!config.callType || !config.callValue) {
+            return fail(
                 'Please select a call type and provide the corresponding value'
             );
-            return;
         }
 
-        if (callConfig.callType === 'group') {
-            if (!isGuid(callConfig.callValue)) {
-                setError('Invalid Group ID. Expecting a GUID.');
-                return;
+        if (config.callType === 'group') {
+            if (!isGuid(config.callValue)) {
+                return fail('Invalid Group ID. Expecting a GUID.');
             }
         }
 
         // Additional validation per call type
-        if (callConfig.callType === 'oneToOne') {
-            if (callConfig.callValue.trim() === callConfig.userId.trim()) {
-                setError('You cannot place a 1:1 call to yourself.');
-                return;
+        if (config.callType === 'oneToOne') {
+            if (config.callValue.trim() === config.userId.trim()) {
+                return fail('You cannot place a 1:1 call to yourself.');
             }
-            if (!isValidAcsUserId(callConfig.callValue)) {
-                setError('Invalid ACS User ID. Expected format: 8:acs:...');
-                return;
+            if (!isValidAcsUserId(config.callValue)) {
+                return fail('Invalid ACS User ID. Expected format: 8:acs:...');
             }
         }
 
         // Validate PSTN call requirements
-        if (callConfig.callType === 'phone') {
-            if (!callConfig.alternateCallerId) {
-                setError(
+        if (config.callType === 'phone') {
+            if (!config.alternateCallerId) {
+                return fail(
                     'Phone Number calls require an Alternate Caller ID (your calling number)'
                 );
-                return;
             }
-            const targetPhoneNumber = toE164(callConfig.callValue);
-            const callerPhoneNumber = toE164(callConfig.alternateCallerId);
-            if (!isLikelyE164(targetPhoneNumber)) {
-                setError('Enter a valid E.164 phone number for the callee.');
-                return;
+            const target = parsePhoneNumber(
+                config.callValue,
+                config.phoneCountry
+            );
+            const caller = parsePhoneNumber(
+                config.alternateCallerId,
+                config.phoneCountry
+            );
+            if (target.error) {
+                return fail(`Invalid phone number: ${target.error}.`);
             }
-            if (!isLikelyE164(callerPhoneNumber)) {
-                setError(
-                    'Enter a valid E.164 Alternate Caller ID that you own in ACS.'
+            if (caller.error) {
+                return fail(
+                    `Invalid Alternate Caller ID: ${caller.error}. It must be a number you own in ACS.`
                 );
-                return;
             }
         }
 
-        setIsLoading(true);
-        setError('');
+        if (config.callType === 'teamsMeeting') {
+            if (!isTeamsMeetingLink(config.callValue)) {
+                if (!isTeamsMeetingId(config.callValue)) {
+                    return fail(
+                        'Enter a Teams meeting link (https://teams.microsoft.com/...) or a numeric meeting ID.'
+                    );
+                }
+                if (!isTeamsMeetingPasscode(config.meetingPasscode || '')) {
+                    return fail(
+                        'Joining by meeting ID requires the passcode from the invitation.'
+                    );
+                }
+            }
+        }
 
-        try {
-            const credential = new AzureCommunicationTokenCredential(
-                callConfig.token
+        if (
+            config.callType === 'teamsUser' &&
+            !isTeamsUserId(config.callValue)
+        ) {
+            return fail(
+                'Invalid Teams User ID. Expected format: 8:orgid:<object ID>'
             );
-            const userId: CommunicationUserIdentifier = {
-                communicationUserId: callConfig.userId,
-            };
+        }
 
-            let adapter: CallAdapter;
+        if (config.callType === 'adHoc') {
+            const calleeListError = getCalleeListError(
+                config.callValue,
+                config.userId,
+                config.phoneCountry
+            );
+            if (calleeListError) {
+                return fail(`Invalid callee list: ${calleeListError}`);
+            }
+            if (
+                hasPhoneCallee(config.callValue, config.phoneCountry) &&
+                !isValidPhoneNumber(
+                    config.alternateCallerId || '',
+                    config.phoneCountry
+                )
+            ) {
+                return fail(
+                    'Calls with a phone number need a valid Alternate Caller ID that you own in ACS.'
+                );
+            }
+        }
 
-            if (callConfig.callType === 'group') {
-                // Group call
-                adapter = await createAzureCommunicationCallAdapter({
-                    userId,
-                    credential,
-                    displayName: callConfig.displayName,
-                    locator: { groupId: callConfig.callValue },
-                });
-            } else if (callConfig.callType === 'oneToOne') {
-                // 1:1 call
-                adapter = await createAzureCommunicationCallAdapter({
-                    userId,
-                    credential,
-                    displayName: callConfig.displayName,
-                    targetCallees: [
-                        { communicationUserId: callConfig.callValue.trim() },
-                    ],
-                });
-            } else if (callConfig.callType === 'phone') {
-                // Phone call - ensure phone numbers are properly formatted
-                const targetPhoneNumber = toE164(callConfig.callValue);
-                const callerPhoneNumber = toE164(callConfig.alternateCallerId!);
-
-                console.log('PSTN Call Config:', {
-                    targetPhoneNumber,
-                    callerPhoneNumber,
-                    userId: userId.communicationUserId,
-                    displayName: callConfig.displayName,
-                });
+        if (config.callType === 'room' && !isRoomId(config.callValue)) {
+            return fail(
+                'Invalid Room ID. Expected the numeric ID of the room.'
+            );
+        }
 
-                adapter = await createAzureCommunicationCallAdapter({
-                    userId,
-                    credential,
-                    displayName: callConfig.displayName,
-                    targetCallees: [{ phoneNumber: targetPhoneNumber }],
-                    alternateCallerId: callerPhoneNumber,
-                });
-            } else {
-                throw new Error('No valid call target specified');
+        if (config.requirePreCallCheck) {
+            // Against the configuration being started: a redial or scenario passes its own
+            const checked = preCallResultFor(config);
+            if (!checked) {
+                setShowPreCallCheck(true);
+                return fail('Run the pre-call check before starting the call.');
+            }
+            if (checked.overall === 'fail') {
+                return fail(
+                    'The pre-call check failed. Fix the failing checks and run it again, or turn off "Require pre-call check".'
+                );
             }
+        }
 
-            setCallAdapter(adapter);
-            wireAdapterEvents(adapter);
-            setIsConnected(true);
+        if (!canStartCall(callMachine.getState())) {
+            return { error: 'Another call is in progress' };
+        }
+
+        callMachine.send({ type: 'callRequested' });
+        setError('');
+        setEndedCall(undefined);
+        requestNotificationPermission();
+        setScriptedDtmf(
+            usesDtmfScript(config) && config.dtmfScript?.trim()
+                ? config.dtmfScript
+                : undefined
+        );
+
+        callRecorder.begin({
+            direction: 'outgoing',
+            callType: config.callType,
+            target:
+                config.callType === 'phone'
+                    ? toE164(config.callValue, config.phoneCountry)
+                    : config.callType === 'adHoc'
+                    ? parseCalleeList(config.callValue, config.phoneCountry)
+                          .map(({ callee }) => describeCallee(callee!))
+                          .join(', ')
+                    : config.callValue.trim(),
+            displayName: config.displayName,
+            alternateCallerId: config.alternateCallerId
+                ? toE164(config.alternateCallerId, config.phoneCountry)
+                : undefined,
+            config,
+        });
+
+        try {
+            const handlers = createSessionHandlers();
+            const session = await callingService.startCall(
+                config,
+                observer ? teeSessionHandlers(handlers, observer) : handlers
+            );
+            callMachine.send({ type: 'callStarted', session });
+            return { session };
         } catch (err) {
             console.error('Call initialization error:', err);
-            setError(explainAcsError(err));
-        } finally {
-            setIsLoading(false);
+            const details = describeAcsError(err);
+            callRecorder.record('error', details.explanation);
+            callRecorder.finish({ detail: 'Call could not be started' });
+            setError(details);
+            callMachine.send({ type: 'callFailed' });
+            return { error: details.explanation };
+        }
+    };
+
+    // Dial someone into the call in progress; the dialog shows any error
+    const addParticipant = async (
+        callee: Callee,
+        options: { alternateCallerId?: string }
+    ) => {
+        if (!session?.addParticipant) return;
+        const target = describeCallee(callee);
+        try {
+            await session.addParticipant(callee, options);
+            callRecorder.record('info', `Dialed in ${target}`);
+        } catch (e) {
+            callRecorder.record(
+                'error',
+                `Adding ${target} failed: ${explainAcsError(e)}`
+            );
+            throw e;
         }
     };
 
-    // Disconnect call
+    // Disconnect call; the state machine disposes the session once it has ended.
+    // Resolves with why hanging up failed; the call is left either way.
     const disconnectCall = async () => {
+        // Read the latest state: scenario runs call this between renders
+        const { session, phase } = callMachine.getState();
+        if (!session || phase !== 'inCall') return;
+        callMachine.send({ type: 'hangUpRequested' });
+        callRecorder.record('info', 'Hung up locally');
         try {
-            if (callAdapter) {
-                // First leave the call
-                await callAdapter.leaveCall();
-                // Then dispose of the adapter
-                callAdapter.dispose();
-            }
+            await session.hangUp();
         } catch (error) {
             console.error('Error during call disconnect:', error);
+            return explainAcsError(error);
         } finally {
-            // Always clean up state regardless of errors
-            setCallAdapter(undefined);
-            setIsConnected(false);
-            setIsLoading(false);
+            // No-op if the call had already ended and closed the history entry
+            const entry = callRecorder.finish();
+            if (entry) {
+                setEndedCall({
+                    entry,
+                    end: { kind: 'hungUp', message: 'You hung up.' },
+                });
+            }
+            // Always return to the form regardless of errors
+            callMachine.send({ type: 'callEnded' });
             setError('');
-            setCurrentCall(undefined);
-            setCallState('None');
         }
     };
 
-    // Handle input changes
-    const handleInputChange = (field: keyof CallConfig, value: string) => {
-        setCallConfig((prev) => ({ ...prev, [field]: value }));
+    // Keep the tester's rating and notes with the call that just ended
+    const saveCallReview = async (
+        rating: number | undefined,
+        notes: string
+    ) => {
+        if (!endedCall) return;
+        const entry = {
+            ...endedCall.entry,
+            rating,
+            notes: notes || undefined,
+        };
+        await saveCallRecord(entry);
+        setEndedCall({ ...endedCall, entry });
+        setHistoryVersion((version) => version + 1);
     };
 
-    // Derived readiness of configuration (PSTN requires Alternate Caller ID)
-    const isConfigReady = (() => {
-        const tokenInfo = decodeJWT(callConfig.token);
-        const baseReady = Boolean(
-            callConfig.userId &&
-                callConfig.token &&
-                callConfig.displayName &&
-                callConfig.callType &&
-                callConfig.callValue &&
-                (callConfig.callType !== 'phone' ||
-                    callConfig.alternateCallerId)
-        );
-        if (!baseReady) return false;
-        if (tokenInfo.isValid && tokenInfo.isExpired) return false;
-
-        if (callConfig.callType === 'oneToOne') {
-            return (
-                isValidAcsUserId(callConfig.callValue) &&
-                callConfig.callValue.trim() !== callConfig.userId.trim()
-            );
-        }
-        if (callConfig.callType === 'phone') {
-            return (
-                isLikelyE164(toE164(callConfig.callValue)) &&
-                isLikelyE164(toE164(callConfig.alternateCallerId || ''))
-            );
+    // Call a history entry again: outgoing calls reuse their target, incoming calls call the caller back
+    const redialFromHistory = (entry: CallHistoryEntry) => {
+        let next: CallConfig | undefined;
+        if (entry.callType !== 'incoming') {
+            next = {
+                ...callConfig,
+                callType: entry.callType,
+                callValue: entry.target,
+                alternateCallerId:
+                    entry.alternateCallerId || callConfig.alternateCallerId,
+                // Meetings joined by ID need the passcode they were joined with
+                meetingPasscode:
+                    entry.config?.meetingPasscode || callConfig.meetingPasscode,
+                // As does the IVR the call navigated
+                dtmfScript: entry.config?.dtmfScript || callConfig.dtmfScript,
+            };
+        } else if (entry.target.startsWith('4:')) {
+            next = {
+                ...callConfig,
+                callType: 'phone',
+                callValue: entry.target.slice(2),
+            };
+        } else if (isValidAcsUserId(entry.target)) {
+            next = {
+                ...callConfig,
+                callType: 'oneToOne',
+                callValue: entry.target,
+            };
+        } else if (isTeamsUserId(entry.target)) {
+            next = {
+                ...callConfig,
+                callType: 'teamsUser',
+                callValue: entry.target,
+            };
         }
-        if (callConfig.callType === 'group') {
-            return isGuid(callConfig.callValue);
+
+        setShowHistory(false);
+        if (!next) {
+            setError(`Cannot call back ${entry.target} from this app`);
+            return;
         }
-        return true;
-    })();
+        setCallConfig(next);
+        initializeCallAdapter(next);
+    };
+
+    // Unattended listeners answer, reject or hang up on their own; see lib/autoAnswer
+    const autoAnswer = useAutoAnswer(autoAnswerSettings, callMachine.state, {
+        answer: acceptIncomingCall,
+        reject: rejectIncomingCall,
+        hangUp: disconnectCall,
+        onDecision: (detail) =>
+            callRecorder.record('info', `Auto-answer: ${detail}`),
+    });
+
+    // Scenario runs outlive renders, so they go through the latest start and hang-up
+    // paths: the same as the Start Call and Disconnect buttons
+    const callPathsRef = useRef({ initializeCallAdapter, disconnectCall });
+    useEffect(() => {
+        callPathsRef.current = { initializeCallAdapter, disconnectCall };
+    });
+    const scenarioCalls: ScenarioCalls = {
+        startCall: (config, handlers) =>
+            callPathsRef.current.initializeCallAdapter(config, handlers),
+        hangUp: () => callPathsRef.current.disconnectCall(),
+        simulateFailure: simulationMode ? changeSimulatedFailure : undefined,
+    };
+
+    const activeProfile = getProfile(profileStore, activeProfileId);
+
+    // The first child of the root div in both layouts, so React keeps the dialog (and
+    // its run) mounted when the run's call takes over the screen
+    const scenarioRunner = showScenarios && (
+        <ScenarioRunnerDialog
+            calls={scenarioCalls}
+            baseConfig={callConfig}
+            onClose={() => setShowScenarios(false)}
+        />
+    );
 
-    if (isConnected && callAdapter) {
+    if (session) {
         return (
-            <div className="h-screen bg-gray-500">
-                <div className="h-16 bg-azure-blue-500 flex items-center justify-between px-6 shadow-lg">
-                    <h1 className="text-white text-xl font-semibold">
-                        Azure Communication Services Call
-                    </h1>
-                    <button
-                        onClick={disconnectCall}
-                        className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
-                    >
-                        <PhoneXMarkIcon className="w-5 h-5" />
-                        Disconnect
-                    </button>
-                </div>
-                <div className="h-[calc(100vh-4rem)]">
-                    <CallComposite adapter={callAdapter} />
-                </div>
+            <div>
+                {scenarioRunner}
+                <CallScreen
+                    session={session}
+                    config={callConfig}
+                    callState={callMachine.state.callState}
+                    sdkCall={callMachine.state.sdkCall}
+                    role={callMachine.state.role}
+                    expiryWarningThresholds={expiryWarningThresholds}
+                    tokenRefreshStatus={tokenRefreshStatus}
+                    isEnding={phase === 'ending'}
+                    notice={callNotice}
+                    getDiagnosticsEntry={callRecorder.getActive}
+                    onMediaStats={callRecorder.recordMediaStats}
+                    onDisconnect={disconnectCall}
+                    dtmfScript={scriptedDtmf}
+                    onDtmfTone={({ key, scripted, error }) =>
+                        error
+                            ? callRecorder.record(
+                                  'error',
+                                  `DTMF ${key} failed: ${error}`
+                              )
+                            : callRecorder.record(
+                                  'dtmf',
+                                  `${scripted ? 'Script sent' : 'Sent'} ${key}`
+                              )
+                    }
+                    onAddParticipant={
+                        session.addParticipant ? addParticipant : undefined
+                    }
+                />
             </div>
         );
     }
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-azure-blue-50 to-blue-100 flex items-center justify-center p-6">
-            {/* Incoming Call Modal */}
-            {incomingCall && (
-                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-                    <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4 animate-pulse">
-                        <div className="text-center">
-                            <div className="w-20 h-20 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
-                                <PhoneIcon className="w-10 h-10 text-white animate-bounce" />
-                            </div>
-                            <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                                Incoming Call
-                            </h2>
-                            <p className="text-gray-600 mb-2">
-                                {incomingCall.callerInfo.displayName}
-                            </p>
-                            <p className="text-sm text-gray-500 mb-6">
-                                {incomingCall.kind ===
-                                IncomingCallKind.IncomingCall
-                                    ? 'VoIP Call'
-                                    : 'Teams Call'}
-                            </p>
+            {scenarioRunner}
+            {showHistory && (
+                <CallHistoryPanel
+                    refreshKey={historyVersion}
+                    onRedial={redialFromHistory}
+                    onDownloadDiagnostics={setDiagnosticsEntry}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
 
-                            <div className="flex gap-4 justify-center">
-                                <button
-                                    onClick={rejectIncomingCall}
-                                    className="flex items-center justify-center w-16 h-16 bg-red-500 hover:bg-red-600 text-white rounded-full transition-colors"
-                                >
-                                    <PhoneXMarkIcon className="w-8 h-8" />
-                                </button>
-                                <button
-                                    onClick={acceptIncomingCall}
-                                    className="flex items-center justify-center w-16 h-16 bg-green-500 hover:bg-green-600 text-white rounded-full transition-colors"
-                                >
-                                    <PhoneIcon className="w-8 h-8" />
-                                </button>
-                            </div>
-                        </div>
-                    </div>
-                </div>
+            {showPreCallCheck && (
+                <PreCallCheckDialog
+                    config={callConfig}
+                    onComplete={(result, checkedConfig) =>
+                        setPreCallCheck({
+                            result,
+                            scope: preCallCheckScope(
+                                checkedConfig,
+                                simulationMode
+                            ),
+                        })
+                    }
+                    onClose={() => setShowPreCallCheck(false)}
+                />
+            )}
+
+            {diagnosticsEntry && (
+                <DiagnosticsExportDialog
+                    entry={diagnosticsEntry}
+                    onClose={() => setDiagnosticsEntry(undefined)}
+                    onExported={(message) => {
+                        setSaveMessage(message);
+                        setTimeout(() => setSaveMessage(''), 3000);
+                    }}
+                />
+            )}
+
+            {vaultDialog && (
+                <TokenVaultDialog
+                    mode={vaultDialog}
+                    onCreate={enableTokenVault}
+                    onUnlock={unlockTokenVault}
+                    onReset={resetTokenVault}
+                    onClose={() => setVaultDialog(undefined)}
+                />
+            )}
+
+            {showExportDialog && (
+                <ExportProfilesDialog
+                    store={profileStore}
+                    activeProfileId={activeProfileId}
+                    onClose={() => setShowExportDialog(false)}
+                    onExported={(message) => {
+                        setSaveMessage(message);
+                        setTimeout(() => setSaveMessage(''), 3000);
+                    }}
+                />
+            )}
+
+            {showAutoAnswer && (
+                <AutoAnswerDialog
+                    settings={autoAnswerSettings}
+                    decisions={autoAnswer.decisions}
+                    onChange={(settings) => {
+                        setAutoAnswerSettings(settings);
+                        saveAutoAnswerSettings(settings);
+                    }}
+                    onClose={() => setShowAutoAnswer(false)}
+                />
+            )}
+
+            {showSoakTest && (
+                <SoakTestDialog
+                    service={callingService}
+                    groupId={
+                        callConfig.callType === 'group'
+                            ? callConfig.callValue
+                            : ''
+                    }
+                    onClose={() => setShowSoakTest(false)}
+                />
+            )}
+
+            {offer && (
+                <IncomingCallModal
+                    offer={offer}
+                    autoAnswer={autoAnswer.countdown}
+                    onAccept={acceptIncomingCall}
+                    onReject={rejectIncomingCall}
+                />
             )}
 
             <div className="max-w-5xl w-full">
@@ -944,6 +1222,24 @@ function App() {
                             </h1>
                         </div>
                         <div className="flex flex-wrap items-center gap-2">
+                            <ProfilePicker
+                                store={profileStore}
+                                activeProfileId={activeProfileId}
+                                onSelect={selectProfile}
+                                onCreate={createNewProfile}
+                                onRename={(id, name) =>
+                                    updateProfileStore(
+                                        renameProfile(profileStore, id, name)
+                                    )
+                                }
+                                onDuplicate={duplicateExistingProfile}
+                                onDelete={deleteExistingProfile}
+                                onSetDefault={(id) =>
+                                    updateProfileStore(
+                                        setDefaultProfile(profileStore, id)
+                                    )
+                                }
+                            />
                             <button
                                 type="button"
                                 onClick={saveConfiguration}
@@ -967,13 +1263,127 @@ function App() {
                             >
                                 Clear
                             </button>
+                            <button
+                                type="button"
+                                title="Export profiles as JSON"
+                                onClick={() => setShowExportDialog(true)}
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                            >
+                                <DocumentArrowDownIcon className="w-4 h-4" />
+                                Export
+                            </button>
+                            <label
+                                title="Import profiles from a JSON file"
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors cursor-pointer"
+                            >
+                                <DocumentArrowUpIcon className="w-4 h-4" />
+                                Import
+                                <input
+                                    type="file"
+                                    accept="application/json,.json"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) importProfiles(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                            <button
+                                type="button"
+                                title="Copy a link with the call type, target and display name"
+                                onClick={copyShareLink}
+                                disabled={!callConfig.callType}
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                            >
+                                <LinkIcon className="w-4 h-4" />
+                                Share
+                            </button>
+                            <button
+                                type="button"
+                                title="Show past calls"
+                                onClick={() => setShowHistory(true)}
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                            >
+                                <QueueListIcon className="w-4 h-4" />
+                                History
+                            </button>
+                            <button
+                                type="button"
+                                role="switch"
+                                aria-checked={simulationMode}
+                                title={
+                                    isListening
+                                        ? 'Stop listening before switching backends'
+                                        : 'Run calls against an offline fake backend instead of ACS'
+                                }
+                                onClick={toggleSimulationMode}
+                                disabled={isListening}
+                                className={`inline-flex items-center gap-2 px-3 py-2 ${
+                                    simulationMode
+                                        ? 'bg-purple-500 hover:bg-purple-600 text-white'
+                                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                                } disabled:opacity-50 text-xs font-medium rounded-md transition-colors`}
+                            >
+                                <BeakerIcon className="w-4 h-4" />
+                                Simulation mode
+                            </button>
+                            {!vaultMetadata ? (
+                                <button
+                                    type="button"
+                                    title="Encrypt saved access tokens with a passphrase"
+                                    onClick={() => setVaultDialog('create')}
+                                    className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                                >
+                                    <LockOpenIcon className="w-4 h-4" />
+                                    Protect
+                                </button>
+                            ) : vaultKey ? (
+                                <>
+                                    <button
+                                        type="button"
+                                        title={`Unlocked - locks after ${vaultMetadata.autoLockMinutes} minutes of inactivity`}
+                                        onClick={() => lockTokenVault()}
+                                        className="inline-flex items-center gap-2 px-3 py-2 bg-amber-100 hover:bg-amber-200 text-amber-800 text-xs font-medium rounded-md transition-colors"
+                                    >
+                                        <LockClosedIcon className="w-4 h-4" />
+                                        Lock
+                                    </button>
+                                    <button
+                                        type="button"
+                                        title="Stop encrypting saved tokens"
+                                        onClick={() => {
+                                            if (
+                                                window.confirm(
+                                                    'Remove token encryption? Saved tokens will be stored in plain text.'
+                                                )
+                                            )
+                                                removeTokenVault();
+                                        }}
+                                        className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                                    >
+                                        <LockOpenIcon className="w-4 h-4" />
+                                        Unprotect
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    type="button"
+                                    title="Enter your passphrase to use saved tokens"
+                                    onClick={() => setVaultDialog('unlock')}
+                                    className="inline-flex items-center gap-2 px-3 py-2 bg-amber-500 hover:bg-amber-600 text-white text-xs font-medium rounded-md transition-colors"
+                                >
+                                    <LockClosedIcon className="w-4 h-4" />
+                                    Unlock
+                                </button>
+                            )}
                             {!isListening ? (
                                 <button
                                     type="button"
                                     onClick={startListeningForCalls}
                                     disabled={
                                         !callConfig.userId ||
-                                        !callConfig.token ||
+                                        !hasTokenSource(callConfig) ||
                                         !callConfig.displayName
                                     }
                                     className="inline-flex items-center gap-2 px-3 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-400 text-white text-xs font-medium rounded-md transition-colors"
@@ -997,536 +1407,201 @@ function App() {
                                     Listening
                                 </span>
                             )}
+                            <button
+                                type="button"
+                                title="Answer, reject or send busy to incoming calls automatically"
+                                onClick={() => setShowAutoAnswer(true)}
+                                className={`inline-flex items-center gap-2 px-3 py-2 text-xs font-medium rounded-md transition-colors ${
+                                    autoAnswerSettings.enabled
+                                        ? 'bg-purple-100 hover:bg-purple-200 text-purple-800'
+                                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                                }`}
+                            >
+                                <BoltIcon className="w-4 h-4" />
+                                {autoAnswerSettings.enabled
+                                    ? `Auto-answer on (${autoAnswerSettings.rules.length})`
+                                    : 'Auto-answer'}
+                            </button>
+                            <button
+                                type="button"
+                                title={
+                                    phase === 'idle'
+                                        ? 'Run scripted call scenarios'
+                                        : 'Hang up and stop listening to run scenarios'
+                                }
+                                disabled={phase !== 'idle'}
+                                onClick={() => setShowScenarios(true)}
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                            >
+                                <ClipboardDocumentCheckIcon className="w-4 h-4" />
+                                Scenarios
+                            </button>
+                            <button
+                                type="button"
+                                title={
+                                    phase === 'idle'
+                                        ? 'Join many agents to one group call'
+                                        : 'Hang up and stop listening to run a soak test'
+                                }
+                                disabled={phase !== 'idle'}
+                                onClick={() => setShowSoakTest(true)}
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                            >
+                                <UserGroupIcon className="w-4 h-4" />
+                                Soak test
+                            </button>
                         </div>
                     </div>
 
-                    {/* Error Message */}
-                    {error && (
-                        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md">
-                            <p className="text-red-700 text-xs">{error}</p>
-                        </div>
-                    )}
-
-                    {/* Save Message */}
-                    {saveMessage && (
-                        <div className="mb-3 p-3 bg-green-50 border border-green-200 rounded-md">
-                            <p className="text-green-700 text-xs">
-                                {saveMessage}
+                    {/* Simulation Controls */}
+                    {simulationMode && (
+                        <div className="mb-3 p-3 bg-purple-50 border border-purple-200 rounded-md flex flex-wrap items-center gap-3">
+                            <p className="text-purple-700 text-xs flex-1 min-w-[12rem]">
+                                Simulation mode: calls and incoming calls are
+                                played by an offline fake backend. Nothing is
+                                sent to Azure Communication Services.
                             </p>
-                        </div>
-                    )}
-
-                    {/* Call State Indicator */}
-                    {callState !== 'None' && currentCall && (
-                        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
-                            <div className="flex items-center gap-2">
-                                <div
-                                    className={`w-2.5 h-2.5 rounded-full ${
-                                        callState === 'Connected'
-                                            ? 'bg-green-500 animate-pulse'
-                                            : callState === 'Connecting'
-                                            ? 'bg-yellow-500 animate-pulse'
-                                            : callState === 'Disconnected'
-                                            ? 'bg-red-500'
-                                            : 'bg-gray-500'
-                                    }`}
-                                ></div>
-                                <p className="text-blue-700 text-xs font-medium">
-                                    {callState}
-                                    {currentCall && (
-                                        <span className="ml-2 text-blue-600">
-                                            (ID: {currentCall.id?.slice(0, 8)}
-                                            ...)
-                                        </span>
+                            <label className="inline-flex items-center gap-2 text-xs text-purple-700">
+                                Next call
+                                <select
+                                    value={simulatedFailure}
+                                    onChange={(e) =>
+                                        changeSimulatedFailure(
+                                            e.target.value as SimulatedFailure
+                                        )
+                                    }
+                                    className="px-2 py-1 border border-purple-300 rounded text-xs bg-white"
+                                >
+                                    {SIMULATED_FAILURES.map(
+                                        ({ value, label }) => (
+                                            <option key={value} value={value}>
+                                                {label}
+                                            </option>
+                                        )
                                     )}
-                                </p>
-                            </div>
-                        </div>
-                    )}
-
-                    {/* Configuration Form */}
-                    <form
-                        onSubmit={(e) => {
-                            e.preventDefault();
-                            initializeCallAdapter();
-                        }}
-                        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4"
-                    >
-                        {/* User ID */}
-                        <div>
-                            <label
-                                htmlFor="userId"
-                                className="block text-xs font-medium text-gray-700 mb-1"
-                            >
-                                User ID (Communication User ID) *
-                            </label>
-                            <input
-                                type="text"
-                                id="userId"
-                                value={callConfig.userId}
-                                onChange={(e) =>
-                                    handleInputChange('userId', e.target.value)
-                                }
-                                placeholder="8:acs:xxxx_resource_xxxx_user"
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
-                                required
-                            />
-                        </div>
-
-                        {/* Access Token */}
-                        <div className="lg:col-span-2">
-                            <label
-                                htmlFor="token"
-                                className="block text-xs font-medium text-gray-700 mb-1"
-                            >
-                                Access Token *
+                                </select>
                             </label>
-                            <textarea
-                                id="token"
-                                value={callConfig.token}
-                                onChange={(e) =>
-                                    handleInputChange('token', e.target.value)
-                                }
-                                placeholder="eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9..."
-                                rows={2}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors resize-none text-sm"
-                                required
-                            />
-                            {callConfig.token &&
-                                (() => {
-                                    const tokenInfo = decodeJWT(
-                                        callConfig.token
-                                    );
-                                    if (
-                                        tokenInfo.isValid &&
-                                        tokenInfo.expirationTime
-                                    ) {
-                                        return (
-                                            <div
-                                                className={`mt-1 p-2 rounded-md border ${
-                                                    tokenInfo.isExpired
-                                                        ? 'bg-red-50 border-red-200'
-                                                        : 'bg-blue-50 border-blue-200'
-                                                }`}
-                                            >
-                                                <div className="flex items-center gap-2">
-                                                    {tokenInfo.isExpired ? (
-                                                        <ExclamationTriangleIcon className="w-3.5 h-3.5 text-red-500" />
-                                                    ) : (
-                                                        <ClockIcon className="w-3.5 h-3.5 text-blue-500" />
-                                                    )}
-                                                    <span
-                                                        className={`text-xs font-medium ${
-                                                            tokenInfo.isExpired
-                                                                ? 'text-red-700'
-                                                                : 'text-blue-700'
-                                                        }`}
-                                                    >
-                                                        {tokenInfo.isExpired
-                                                            ? 'Token Expired'
-                                                            : 'Token Valid'}
-                                                    </span>
-                                                </div>
-                                                <div
-                                                    className={`text-[11px] mt-0.5 ${
-                                                        tokenInfo.isExpired
-                                                            ? 'text-red-600'
-                                                            : 'text-blue-600'
-                                                    }`}
-                                                >
-                                                    Expires:{' '}
-                                                    {tokenInfo.expirationTime.toLocaleString()}
-                                                    {!tokenInfo.isExpired &&
-                                                        tokenInfo.timeUntilExpiry && (
-                                                            <span className="ml-2">
-                                                                (
-                                                                {
-                                                                    tokenInfo.timeUntilExpiry
-                                                                }{' '}
-                                                                remaining)
-                                                            </span>
-                                                        )}
-                                                </div>
-                                            </div>
-                                        );
-                                    } else if (tokenInfo.error) {
-                                        return (
-                                            <div className="mt-1 p-2 bg-yellow-50 border border-yellow-200 rounded-md">
-                                                <div className="flex items-center gap-2">
-                                                    <ExclamationTriangleIcon className="w-3.5 h-3.5 text-yellow-500" />
-                                                    <span className="text-xs font-medium text-yellow-700">
-                                                        Invalid Token
-                                                    </span>
-                                                </div>
-                                                <div className="text-[11px] mt-0.5 text-yellow-600">
-                                                    {tokenInfo.error}
-                                                </div>
-                                            </div>
-                                        );
+                            <label className="inline-flex items-center gap-2 text-xs text-purple-700">
+                                Caller
+                                <select
+                                    value={simulatedCaller}
+                                    onChange={(e) =>
+                                        setSimulatedCaller(
+                                            Number(e.target.value)
+                                        )
                                     }
-                                    return null;
-                                })()}
-                        </div>
-
-                        {/* Display Name */}
-                        <div>
-                            <label
-                                htmlFor="displayName"
-                                className="block text-xs font-medium text-gray-700 mb-1"
-                            >
-                                Display Name *
+                                    className="px-2 py-1 border border-purple-300 rounded text-xs bg-white"
+                                >
+                                    {SIMULATED_CALLERS.map(
+                                        ({ label }, index) => (
+                                            <option key={label} value={index}>
+                                                {label}
+                                            </option>
+                                        )
+                                    )}
+                                </select>
                             </label>
-                            <input
-                                type="text"
-                                id="displayName"
-                                value={callConfig.displayName}
-                                onChange={(e) =>
-                                    handleInputChange(
-                                        'displayName',
-                                        e.target.value
-                                    )
+                            <button
+                                type="button"
+                                title={
+                                    isListening
+                                        ? 'Ring this app with a simulated caller'
+                                        : 'Click Listen first'
                                 }
-                                placeholder="Your Name"
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
-                                required
-                            />
+                                onClick={simulateIncomingCall}
+                                disabled={!isListening}
+                                className="inline-flex items-center gap-2 px-3 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-400 text-white text-xs font-medium rounded-md transition-colors"
+                            >
+                                <PhoneArrowDownLeftIcon className="w-4 h-4" />
+                                Test Incoming Call
+                            </button>
                         </div>
+                    )}
 
-                        {/* Call Type + Value */}
-                        <div className="lg:col-span-2">
-                            <label className="block text-xs font-medium text-gray-700 mb-1">
-                                Call Type *
-                            </label>
-                            <div className="flex flex-wrap items-center gap-6">
-                                <label className="flex items-center gap-2 text-sm">
-                                    <input
-                                        id="group-call"
-                                        name="callType"
-                                        type="radio"
-                                        value="group"
-                                        checked={
-                                            callConfig.callType === 'group'
-                                        }
-                                        onChange={(e) => {
-                                            handleInputChange(
-                                                'callType',
-                                                e.target.value
-                                            );
-                                            if (callConfig.callType !== 'group')
-                                                handleInputChange(
-                                                    'callValue',
-                                                    ''
-                                                );
-                                        }}
-                                        className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
-                                    />
-                                    Group
-                                </label>
-                                <label className="flex items-center gap-2 text-sm">
-                                    <input
-                                        id="one-to-one-call"
-                                        name="callType"
-                                        type="radio"
-                                        value="oneToOne"
-                                        checked={
-                                            callConfig.callType === 'oneToOne'
-                                        }
-                                        onChange={(e) => {
-                                            handleInputChange(
-                                                'callType',
-                                                e.target.value
-                                            );
-                                            if (
-                                                callConfig.callType !==
-                                                'oneToOne'
-                                            )
-                                                handleInputChange(
-                                                    'callValue',
-                                                    ''
-                                                );
-                                        }}
-                                        className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
-                                    />
-                                    1:1
-                                </label>
-                                <label className="flex items-center gap-2 text-sm">
-                                    <input
-                                        id="phone-call"
-                                        name="callType"
-                                        type="radio"
-                                        value="phone"
-                                        checked={
-                                            callConfig.callType === 'phone'
-                                        }
-                                        onChange={(e) => {
-                                            handleInputChange(
-                                                'callType',
-                                                e.target.value
-                                            );
-                                            if (callConfig.callType !== 'phone')
-                                                handleInputChange(
-                                                    'callValue',
-                                                    ''
-                                                );
-                                        }}
-                                        className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
-                                    />
-                                    PSTN
-                                </label>
-                            </div>
-
-                            {callConfig.callType && (
-                                <div className="mt-2">
-                                    <label
-                                        htmlFor="callValue"
-                                        className="block text-xs font-medium text-gray-700 mb-1"
-                                    >
-                                        {callConfig.callType === 'group' &&
-                                            'Group ID *'}
-                                        {callConfig.callType === 'oneToOne' &&
-                                            'Target User ID *'}
-                                        {callConfig.callType === 'phone' &&
-                                            'Phone Number *'}
-                                    </label>
-                                    <div className="flex gap-2">
-                                        <input
-                                            type={
-                                                callConfig.callType === 'phone'
-                                                    ? 'tel'
-                                                    : 'text'
-                                            }
-                                            id="callValue"
-                                            value={callConfig.callValue}
-                                            onChange={(e) =>
-                                                handleInputChange(
-                                                    'callValue',
-                                                    e.target.value
-                                                )
-                                            }
-                                            placeholder={
-                                                callConfig.callType === 'group'
-                                                    ? 'xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx'
-                                                    : callConfig.callType ===
-                                                      'oneToOne'
-                                                    ? '8:acs:xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx'
-                                                    : '+1234567890'
-                                            }
-                                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
-                                            required
-                                        />
-                                        {callConfig.callType === 'group' && (
-                                            <button
-                                                type="button"
-                                                onClick={() => {
-                                                    const uuid =
-                                                        'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(
-                                                            /[xy]/g,
-                                                            function (c) {
-                                                                const r =
-                                                                    (Math.random() *
-                                                                        16) |
-                                                                    0;
-                                                                const v =
-                                                                    c == 'x'
-                                                                        ? r
-                                                                        : (r &
-                                                                              0x3) |
-                                                                          0x8;
-                                                                return v.toString(
-                                                                    16
-                                                                );
-                                                            }
-                                                        );
-                                                    handleInputChange(
-                                                        'callValue',
-                                                        uuid
-                                                    );
-                                                }}
-                                                className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded-md transition-colors whitespace-nowrap"
-                                            >
-                                                Generate UUID
-                                            </button>
-                                        )}
-                                    </div>
-                                    {callConfig.callType === 'group' &&
-                                        callConfig.callValue && (
-                                            <p className="text-[11px] text-gray-600 mt-1">
-                                                Share this Group ID with others
-                                                so they can join the same call
-                                            </p>
-                                        )}
-                                </div>
-                            )}
-                        </div>
+                    {/* Call Summary */}
+                    {endedCall && (
+                        <PostCallCard
+                            key={endedCall.entry.id}
+                            entry={endedCall.entry}
+                            end={endedCall.end}
+                            onSaveReview={saveCallReview}
+                            onDismiss={() => setEndedCall(undefined)}
+                        />
+                    )}
 
-                        {/* Alternate Caller ID for PSTN calls */}
-                        {callConfig.callType === 'phone' && (
-                            <div className="lg:col-span-2 lg:align-bottom lg:self-end">
-                                <label
-                                    htmlFor="alternateCallerId"
-                                    className="block text-xs font-medium text-gray-700 mb-1"
-                                >
-                                    Alternate Caller ID (your calling number) *
-                                </label>
-                                <input
-                                    type="tel"
-                                    id="alternateCallerId"
-                                    value={callConfig.alternateCallerId}
-                                    onChange={(e) =>
-                                        handleInputChange(
-                                            'alternateCallerId',
-                                            e.target.value
-                                        )
-                                    }
-                                    placeholder="+1987654321 Must be a number you own in ACS"
-                                    title="Must be a number you own in ACS (include country code)"
-                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
-                                    required
-                                />
-                            </div>
-                        )}
+                    {/* Error Message */}
+                    {error && <ErrorBanner error={error} />}
 
-                        {/* Compact Details Block */}
-                        <div className="lg:col-span-3 xl:col-span-4 mt-1 p-3 bg-gradient-to-r from-blue-50 to-azure-blue-50 border border-blue-200 rounded-md">
-                            <div className="flex items-center justify-between mb-2">
-                                <h3 className="text-xs font-semibold text-blue-900">
-                                    Configuration
-                                </h3>
-                                <span
-                                    className={`px-2 py-0.5 border rounded-full text-[10px] font-medium ${
-                                        isConfigReady
-                                            ? 'bg-green-50 text-green-700 border-green-200'
-                                            : 'bg-yellow-50 text-yellow-700 border-yellow-200'
-                                    }`}
+                    {/* Import Errors */}
+                    {importErrors.length > 0 && (
+                        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md">
+                            <div className="flex items-center justify-between">
+                                <p className="text-red-700 text-xs font-medium">
+                                    Import failed - fix these fields and try
+                                    again:
+                                </p>
+                                <button
+                                    type="button"
+                                    onClick={() => setImportErrors([])}
+                                    className="text-red-500 hover:text-red-700 text-xs"
                                 >
-                                    {isConfigReady ? 'Ready' : 'Incomplete'}
-                                </span>
-                            </div>
-
-                            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-2">
-                                {/* Type */}
-                                <div className="p-2 bg-white rounded border border-blue-100">
-                                    <div className="text-[11px] text-blue-900 font-medium">
-                                        Type
-                                    </div>
-                                    <div className="mt-0.5 text-[11px] text-blue-700">
-                                        {callConfig.callType || 'None'}
-                                    </div>
-                                </div>
-
-                                {/* User ID */}
-                                <div className="p-2 bg-white rounded border border-blue-100">
-                                    <div className="text-[11px] text-blue-900 font-medium">
-                                        User ID
-                                    </div>
-                                    <div className="mt-0.5 text-[11px]">
-                                        <span
-                                            className={`inline-flex items-center px-1.5 py-0.5 rounded-full border text-[10px] font-medium ${
-                                                callConfig.userId
-                                                    ? 'bg-green-50 text-green-700 border-green-200'
-                                                    : 'bg-gray-50 text-gray-600 border-gray-200'
-                                            }`}
-                                        >
-                                            {callConfig.userId
-                                                ? 'Set'
-                                                : 'Not set'}
-                                        </span>
-                                        {callConfig.userId && (
-                                            <span
-                                                className="ml-2 text-blue-700 font-mono truncate inline-block max-w-[12rem] align-middle"
-                                                title={callConfig.userId}
-                                            >
-                                                {callConfig.userId}
-                                            </span>
-                                        )}
-                                    </div>
-                                </div>
-
-                                {/* Token */}
-                                <div className="p-2 bg-white rounded border border-blue-100">
-                                    <div className="text-[11px] text-blue-900 font-medium">
-                                        Token
-                                    </div>
-                                    <div className="mt-0.5 text-[11px]">
-                                        <span
-                                            className={`inline-flex items-center px-1.5 py-0.5 rounded-full border text-[10px] font-medium ${
-                                                callConfig.token
-                                                    ? 'bg-green-50 text-green-700 border-green-200'
-                                                    : 'bg-gray-50 text-gray-600 border-gray-200'
-                                            }`}
-                                        >
-                                            {callConfig.token
-                                                ? 'Present'
-                                                : 'Not set'}
-                                        </span>
-                                    </div>
-                                </div>
-
-                                {/* Name */}
-                                <div className="p-2 bg-white rounded border border-blue-100">
-                                    <div className="text-[11px] text-blue-900 font-medium">
-                                        Name
-                                    </div>
-                                    <div
-                                        className="mt-0.5 text-[11px] text-blue-700 truncate"
-                                        title={callConfig.displayName || 'None'}
-                                    >
-                                        {callConfig.displayName || 'None'}
-                                    </div>
-                                </div>
-
-                                {/* Value */}
-                                <div className="p-2 bg-white rounded border border-blue-100">
-                                    <div className="text-[11px] text-blue-900 font-medium">
-                                        Value
-                                    </div>
-                                    <div
-                                        className="mt-0.5 text-[11px] text-blue-700 font-mono truncate"
-                                        title={callConfig.callValue || 'None'}
-                                    >
-                                        {callConfig.callValue || 'None'}
-                                    </div>
-                                </div>
-
-                                {/* Alt Caller ID */}
-                                <div className="p-2 bg-white rounded border border-blue-100">
-                                    <div className="text-[11px] text-blue-900 font-medium">
-                                        Alt Caller ID
-                                    </div>
-                                    <div
-                                        className="mt-0.5 text-[11px] text-blue-700 truncate"
-                                        title={
-                                            callConfig.alternateCallerId ||
-                                            'None'
-                                        }
-                                    >
-                                        {callConfig.alternateCallerId || 'None'}
-                                    </div>
-                                </div>
+                                    Dismiss
+                                </button>
                             </div>
+                            <ul className="mt-1 list-disc list-inside text-red-600 text-[11px] font-mono">
+                                {importErrors.map((importError) => (
+                                    <li key={importError}>{importError}</li>
+                                ))}
+                            </ul>
                         </div>
+                    )}
 
-                        {/* Start Call Button */}
-                        <div className="lg:col-span-3 xl:col-span-4">
-                            <button
-                                type="submit"
-                                disabled={isLoading || !isConfigReady}
-                                className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 cursor-pointer text-white font-semibold py-3 px-4 rounded-md flex items-center justify-center gap-2 transition-colors"
-                            >
-                                {isLoading ? (
-                                    <>
-                                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                                        Connecting...
-                                    </>
-                                ) : (
-                                    <>
-                                        <PhoneIcon className="w-4 h-4" />
-                                        Start Call
-                                    </>
-                                )}
-                            </button>
+                    {/* Save Message */}
+                    {saveMessage && (
+                        <div className="mb-3 p-3 bg-green-50 border border-green-200 rounded-md">
+                            <p className="text-green-700 text-xs">
+                                {saveMessage}
+                            </p>
                         </div>
-                    </form>
+                    )}
+
+                    <CallStatusBar
+                        callState={callMachine.state.callState}
+                        callId={callMachine.state.callId}
+                    />
+
+                    <CallConfigForm
+                        config={callConfig}
+                        onConfigChange={(change) =>
+                            setCallConfig((prev) => ({
+                                ...prev,
+                                ...change,
+                            }))
+                        }
+                        hasSavedToken={Boolean(
+                            activeProfile?.encryptedToken ||
+                                activeProfile?.config.token
+                        )}
+                        isSavedTokenLocked={Boolean(
+                            vaultMetadata &&
+                                !vaultKey &&
+                                activeProfile?.encryptedToken
+                        )}
+                        onUnlockTokenVault={() => setVaultDialog('unlock')}
+                        onForgetToken={forgetActiveToken}
+                        tokenRefreshStatus={tokenRefreshStatus}
+                        expiryWarningThresholds={expiryWarningThresholds}
+                        onExpiryWarningThresholdsChange={(thresholds) => {
+                            setExpiryWarningThresholds(thresholds);
+                            saveWarningThresholds(thresholds);
+                        }}
+                        isListening={isListening}
+                        canStartCall={canStartCall(callMachine.state)}
+                        isConnecting={phase === 'connecting'}
+                        preCallResult={preCallResult}
+                        onRunPreCallCheck={() => setShowPreCallCheck(true)}
+                        onSubmit={() => initializeCallAdapter()}
+                    />
                 </div>
             </div>
         </div>
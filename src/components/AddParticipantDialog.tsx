@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { UserPlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { Callee } from '../types';
+import { explainAcsError } from '../lib/acsErrors';
+import { isValidPhoneNumber, parseCallee, toE164 } from '../lib/validators';
+import PhoneNumberPreview from './PhoneNumberPreview';
+
+interface AddParticipantDialogProps {
+    // Prefills the caller ID for phone numbers from the call's configuration
+    defaultAlternateCallerId?: string;
+    // The profile's default country for numbers typed without a country code
+    defaultCountry?: string;
+    onAdd: (
+        callee: Callee,
+        options: { alternateCallerId?: string }
+    ) => Promise<void>;
+    onClose: () => void;
+}
+
+// Dials an ACS user or phone number into the call in progress
+function AddParticipantDialog({
+    defaultAlternateCallerId,
+    defaultCountry,
+    onAdd,
+    onClose,
+}: AddParticipantDialogProps) {
+    const [value, setValue] = useState('');
+    const [alternateCallerId, setAlternateCallerId] = useState(
+        defaultAlternateCallerId ?? ''
+    );
+    const [error, setError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    const parsed = value.trim()
+        ? parseCallee(value, defaultCountry)
+        : undefined;
+    const isPhone = parsed?.callee?.kind === 'phone';
+    const callerIdValid = isValidPhoneNumber(alternateCallerId, defaultCountry);
+    const canAdd =
+        Boolean(parsed?.callee) && (!isPhone || callerIdValid) && !isWorking;
+
+    const addParticipant = async () => {
+        if (!parsed?.callee) return;
+        try {
+            setIsWorking(true);
+            setError('');
+            await onAdd(parsed.callee, {
+                alternateCallerId: isPhone
+                    ? toE164(alternateCallerId, defaultCountry)
+                    : undefined,
+            });
+            onClose();
+        } catch (err) {
+            console.error('Failed to add participant:', err);
+            setError(explainAcsError(err));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-md w-full mx-4">
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Add Participant
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-xs text-gray-600 mb-4">
+                    Rings an ACS user or a phone number and adds them to this
+                    call.
+                </p>
+
+                <label
+                    htmlFor="addParticipantValue"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    User ID or Phone Number
+                </label>
+                <input
+                    type="text"
+                    id="addParticipantValue"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder="8:acs:... or +14255550123"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                />
+                {isPhone ? (
+                    <PhoneNumberPreview
+                        value={value}
+                        defaultCountry={defaultCountry}
+                    />
+                ) : (
+                    parsed?.error && (
+                        <p className="text-[11px] text-yellow-700 mt-1">
+                            {parsed.raw}: {parsed.error}
+                        </p>
+                    )
+                )}
+
+                {isPhone && (
+                    <div className="mt-3">
+                        <label
+                            htmlFor="addParticipantCallerId"
+                            className="block text-xs font-medium text-gray-700 mb-1"
+                        >
+                            Alternate Caller ID (your calling number) *
+                        </label>
+                        <input
+                            type="tel"
+                            id="addParticipantCallerId"
+                            value={alternateCallerId}
+                            onChange={(e) =>
+                                setAlternateCallerId(e.target.value)
+                            }
+                            placeholder="+1987654321 Must be a number you own in ACS"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                        />
+                        <PhoneNumberPreview
+                            value={alternateCallerId}
+                            defaultCountry={defaultCountry}
+                        />
+                    </div>
+                )}
+
+                {error && (
+                    <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded-md">
+                        <p className="text-red-700 text-xs">{error}</p>
+                    </div>
+                )}
+
+                <button
+                    type="button"
+                    onClick={addParticipant}
+                    disabled={!canAdd}
+                    className="w-full mt-4 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-2 px-4 rounded-md flex items-center justify-center gap-2 transition-colors"
+                >
+                    <UserPlusIcon className="w-4 h-4" />
+                    {isWorking ? 'Dialing...' : 'Add to call'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default AddParticipantDialog;
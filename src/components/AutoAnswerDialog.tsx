@@ -0,0 +1,284 @@
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+    AUTO_ANSWER_ACTIONS,
+    createAutoAnswerRule,
+    describeAutoAnswerRule,
+    getCallerPatternError,
+    type AutoAnswerAction,
+    type AutoAnswerRule,
+    type AutoAnswerSettings,
+} from '../lib/autoAnswer';
+import { CALLER_KIND_LABELS, type CallerKind } from '../lib/teams';
+import type { AutoAnswerDecision } from '../hooks/useAutoAnswer';
+
+interface AutoAnswerDialogProps {
+    settings: AutoAnswerSettings;
+    decisions: AutoAnswerDecision[];
+    onChange: (settings: AutoAnswerSettings) => void;
+    onClose: () => void;
+}
+
+const ACTION_OPTIONS: Record<AutoAnswerAction, string> = {
+    answer: 'Answer',
+    reject: 'Reject',
+    busy: 'Send busy',
+};
+
+const inputClassName =
+    'px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500';
+
+// Rules the listener applies to incoming calls, for unattended soak tests
+function AutoAnswerDialog({
+    settings,
+    decisions,
+    onChange,
+    onClose,
+}: AutoAnswerDialogProps) {
+    const updateRule = (id: string, change: Partial<AutoAnswerRule>) =>
+        onChange({
+            ...settings,
+            rules: settings.rules.map((rule) =>
+                rule.id === id ? { ...rule, ...change } : rule
+            ),
+        });
+    const removeRule = (id: string) =>
+        onChange({
+            ...settings,
+            rules: settings.rules.filter((rule) => rule.id !== id),
+        });
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Auto-answer Rules
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-xs text-gray-600 mb-4">
+                    While listening, the first rule that matches a caller
+                    answers, rejects or sends busy after its delay. Callers no
+                    rule matches ring as usual.
+                </p>
+
+                <label className="flex items-center gap-2 text-sm mb-4">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={(e) =>
+                            onChange({ ...settings, enabled: e.target.checked })
+                        }
+                        className="h-4 w-4"
+                    />
+                    Apply rules to incoming calls
+                </label>
+
+                <ol className="space-y-3 mb-3">
+                    {settings.rules.map((rule, index) => {
+                        const patternError = rule.callerPattern
+                            ? getCallerPatternError(rule.callerPattern)
+                            : undefined;
+                        const name = `Rule ${index + 1}`;
+                        return (
+                            <li
+                                key={rule.id}
+                                className="p-3 border border-gray-200 rounded-md"
+                            >
+                                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                                    <span className="font-semibold">
+                                        {name}
+                                    </span>
+                                    <select
+                                        aria-label={`${name} action`}
+                                        value={rule.action}
+                                        onChange={(e) =>
+                                            updateRule(rule.id, {
+                                                action: e.target
+                                                    .value as AutoAnswerAction,
+                                            })
+                                        }
+                                        className={`${inputClassName} bg-white`}
+                                    >
+                                        {AUTO_ANSWER_ACTIONS.map((action) => (
+                                            <option key={action} value={action}>
+                                                {ACTION_OPTIONS[action]}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        aria-label={`${name} caller kind`}
+                                        value={rule.callerKind}
+                                        onChange={(e) =>
+                                            updateRule(rule.id, {
+                                                callerKind: e.target.value as
+                                                    | CallerKind
+                                                    | 'any',
+                                            })
+                                        }
+                                        className={`${inputClassName} bg-white`}
+                                    >
+                                        <option value="any">Any caller</option>
+                                        {Object.entries(CALLER_KIND_LABELS).map(
+                                            ([kind, label]) => (
+                                                <option key={kind} value={kind}>
+                                                    {label}
+                                                </option>
+                                            )
+                                        )}
+                                    </select>
+                                    <input
+                                        type="text"
+                                        aria-label={`${name} caller ID pattern`}
+                                        value={rule.callerPattern}
+                                        onChange={(e) =>
+                                            updateRule(rule.id, {
+                                                callerPattern: e.target.value,
+                                            })
+                                        }
+                                        placeholder="Caller ID pattern, e.g. ^4:\+44"
+                                        className={`${inputClassName} flex-1 min-w-[10rem] font-mono`}
+                                    />
+                                    <button
+                                        type="button"
+                                        title={`Remove ${name.toLowerCase()}`}
+                                        onClick={() => removeRule(rule.id)}
+                                        className="text-gray-400 hover:text-red-600"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-700">
+                                    <label className="inline-flex items-center gap-1">
+                                        After
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            aria-label={`${name} delay in seconds`}
+                                            value={rule.delaySeconds}
+                                            onChange={(e) =>
+                                                updateRule(rule.id, {
+                                                    delaySeconds: Math.max(
+                                                        0,
+                                                        Number(e.target.value)
+                                                    ),
+                                                })
+                                            }
+                                            className={`${inputClassName} w-16`}
+                                        />
+                                        s
+                                    </label>
+                                    {rule.action === 'answer' && (
+                                        <>
+                                            <label className="inline-flex items-center gap-1">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={rule.withVideo}
+                                                    onChange={(e) =>
+                                                        updateRule(rule.id, {
+                                                            withVideo:
+                                                                e.target
+                                                                    .checked,
+                                                        })
+                                                    }
+                                                    className="h-3 w-3"
+                                                />
+                                                With video
+                                            </label>
+                                            <label className="inline-flex items-center gap-1">
+                                                Hang up after
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    aria-label={`${name} hang up after seconds`}
+                                                    value={
+                                                        rule.hangUpAfterSeconds
+                                                    }
+                                                    onChange={(e) =>
+                                                        updateRule(rule.id, {
+                                                            hangUpAfterSeconds:
+                                                                Math.max(
+                                                                    0,
+                                                                    Number(
+                                                                        e.target
+                                                                            .value
+                                                                    )
+                                                                ),
+                                                        })
+                                                    }
+                                                    className={`${inputClassName} w-20`}
+                                                />
+                                                s (0 = stay)
+                                            </label>
+                                        </>
+                                    )}
+                                </div>
+                                <p
+                                    className={`text-[11px] mt-1 ${
+                                        patternError
+                                            ? 'text-yellow-700'
+                                            : 'text-gray-500'
+                                    }`}
+                                >
+                                    {patternError
+                                        ? `Invalid pattern, the rule never matches: ${patternError}`
+                                        : describeAutoAnswerRule(rule)}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ol>
+
+                <button
+                    type="button"
+                    onClick={() =>
+                        onChange({
+                            ...settings,
+                            rules: [...settings.rules, createAutoAnswerRule()],
+                        })
+                    }
+                    className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                >
+                    <PlusIcon className="w-4 h-4" />
+                    Add rule
+                </button>
+
+                <h3 className="text-sm font-semibold text-gray-900 mt-6 mb-2">
+                    Decisions
+                </h3>
+                {decisions.length === 0 ? (
+                    <p className="text-[11px] text-gray-500">
+                        No incoming calls handled yet
+                    </p>
+                ) : (
+                    <ol className="space-y-0.5 max-h-48 overflow-y-auto">
+                        {decisions.map((decision, index) => (
+                            <li
+                                key={`${decision.at.getTime()}-${index}`}
+                                className="text-[11px] flex gap-2"
+                            >
+                                <span className="font-mono text-gray-400">
+                                    {decision.at.toLocaleTimeString()}
+                                </span>
+                                <span className="text-gray-600 truncate max-w-[10rem]">
+                                    {decision.caller}
+                                </span>
+                                <span className="text-gray-900">
+                                    {decision.detail}
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default AutoAnswerDialog;
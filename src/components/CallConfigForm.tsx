@@ -0,0 +1,868 @@
+import { useState } from 'react';
+import {
+    ClockIcon,
+    ExclamationTriangleIcon,
+    LockClosedIcon,
+    PhoneIcon,
+    ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+import type { CallConfig, TokenRefreshStatus } from '../types';
+import { decodeJWT } from '../lib/jwt';
+import { parseWarningThresholds } from '../lib/expiryWarnings';
+import type { PreCallCheckResult } from '../lib/preCallCheck';
+import { isTeamsMeetingId, isTeamsMeetingLink } from '../lib/teams';
+import { isRoomId } from '../lib/rooms';
+import {
+    getCalleeListError,
+    hasPhoneCallee,
+    isCallConfigReady,
+    parseCalleeList,
+    usesDtmfScript,
+    usesPhoneNumbers,
+} from '../lib/validators';
+import { parseDtmfScript } from '../lib/dtmf';
+import { PHONE_COUNTRIES } from '../lib/phone';
+import PhoneNumberPreview from './PhoneNumberPreview';
+import TokenCountdown from './TokenCountdown';
+import TokenInspector from './TokenInspector';
+import TokenRefreshStatusBadge from './TokenRefreshStatusBadge';
+
+interface CallConfigFormProps {
+    config: CallConfig;
+    onConfigChange: (change: Partial<CallConfig>) => void;
+    // The active profile has a saved token, encrypted or not
+    hasSavedToken: boolean;
+    // The saved token is encrypted and the vault is locked
+    isSavedTokenLocked: boolean;
+    onUnlockTokenVault: () => void;
+    onForgetToken: () => void;
+    tokenRefreshStatus: TokenRefreshStatus;
+    expiryWarningThresholds: number[];
+    onExpiryWarningThresholdsChange: (thresholds: number[]) => void;
+    // Expiry notifications matter while a listener depends on the token
+    isListening: boolean;
+    canStartCall: boolean;
+    isConnecting: boolean;
+    preCallResult?: PreCallCheckResult;
+    onRunPreCallCheck: () => void;
+    onSubmit: () => void;
+}
+
+function CallConfigForm({
+    config,
+    onConfigChange,
+    hasSavedToken,
+    isSavedTokenLocked,
+    onUnlockTokenVault,
+    onForgetToken,
+    tokenRefreshStatus,
+    expiryWarningThresholds,
+    onExpiryWarningThresholdsChange,
+    isListening,
+    canStartCall,
+    isConnecting,
+    preCallResult,
+    onRunPreCallCheck,
+    onSubmit,
+}: CallConfigFormProps) {
+    const [expiryWarningInput, setExpiryWarningInput] = useState(() =>
+        expiryWarningThresholds.join(', ')
+    );
+    // Derived readiness of configuration (PSTN requires Alternate Caller ID)
+    const isConfigReady = isCallConfigReady(config);
+    const dtmfScriptError = config.dtmfScript
+        ? parseDtmfScript(config.dtmfScript).error
+        : undefined;
+    const calleeListError =
+        config.callType === 'adHoc'
+            ? getCalleeListError(
+                  config.callValue,
+                  config.userId,
+                  config.phoneCountry
+              )
+            : undefined;
+    const hasPhoneCallees =
+        config.callType === 'adHoc' &&
+        hasPhoneCallee(config.callValue, config.phoneCountry);
+
+    // The value means something else for each call type, so switching types clears it
+    const selectCallType = (callType: CallConfig['callType']) =>
+        onConfigChange(
+            callType === config.callType
+                ? { callType }
+                : { callType, callValue: '' }
+        );
+
+    return (
+        <form
+            onSubmit={(e) => {
+                e.preventDefault();
+                onSubmit();
+            }}
+            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4"
+        >
+            {/* User ID */}
+            <div>
+                <label
+                    htmlFor="userId"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    User ID (Communication User ID) *
+                </label>
+                <input
+                    type="text"
+                    id="userId"
+                    value={config.userId}
+                    onChange={(e) => onConfigChange({ userId: e.target.value })}
+                    placeholder="8:acs:xxxx_resource_xxxx_user"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                    required
+                />
+            </div>
+
+            {/* Access Token */}
+            <div className="lg:col-span-2">
+                <label
+                    htmlFor="token"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    Access Token *
+                </label>
+                <textarea
+                    id="token"
+                    value={config.token}
+                    onChange={(e) => onConfigChange({ token: e.target.value })}
+                    placeholder="eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9..."
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors resize-none text-sm"
+                    required={!config.tokenEndpoint}
+                />
+                {isSavedTokenLocked && !config.token && (
+                    <div className="mt-1 p-2 bg-amber-50 border border-amber-200 rounded-md flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2 text-xs text-amber-700">
+                            <LockClosedIcon className="w-3.5 h-3.5" />
+                            The saved token is encrypted
+                        </span>
+                        <button
+                            type="button"
+                            onClick={onUnlockTokenVault}
+                            className="text-xs font-medium text-amber-800 hover:underline"
+                        >
+                            Unlock
+                        </button>
+                    </div>
+                )}
+                {(config.token || hasSavedToken) && (
+                    <button
+                        type="button"
+                        onClick={onForgetToken}
+                        className="mt-1 text-[11px] text-gray-500 hover:text-red-600"
+                    >
+                        Forget token
+                    </button>
+                )}
+                {config.token &&
+                    (() => {
+                        const tokenInfo = decodeJWT(config.token);
+                        if (tokenInfo.isValid && tokenInfo.expirationTime) {
+                            return (
+                                <div
+                                    className={`mt-1 p-2 rounded-md border ${
+                                        tokenInfo.isExpired
+                                            ? 'bg-red-50 border-red-200'
+                                            : 'bg-blue-50 border-blue-200'
+                                    }`}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        {tokenInfo.isExpired ? (
+                                            <ExclamationTriangleIcon className="w-3.5 h-3.5 text-red-500" />
+                                        ) : (
+                                            <ClockIcon className="w-3.5 h-3.5 text-blue-500" />
+                                        )}
+                                        <span
+                                            className={`text-xs font-medium ${
+                                                tokenInfo.isExpired
+                                                    ? 'text-red-700'
+                                                    : 'text-blue-700'
+                                            }`}
+                                        >
+                                            {tokenInfo.isExpired
+                                                ? 'Token Expired'
+                                                : 'Token Valid'}
+                                        </span>
+                                    </div>
+                                    <div
+                                        className={`text-[11px] mt-0.5 ${
+                                            tokenInfo.isExpired
+                                                ? 'text-red-600'
+                                                : 'text-blue-600'
+                                        }`}
+                                    >
+                                        Expires:{' '}
+                                        {tokenInfo.expirationTime.toLocaleString()}
+                                        {!tokenInfo.isExpired && (
+                                            <TokenCountdown
+                                                token={config.token}
+                                                thresholds={
+                                                    expiryWarningThresholds
+                                                }
+                                                notify={isListening}
+                                            />
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        } else if (tokenInfo.error) {
+                            return (
+                                <div className="mt-1 p-2 bg-yellow-50 border border-yellow-200 rounded-md">
+                                    <div className="flex items-center gap-2">
+                                        <ExclamationTriangleIcon className="w-3.5 h-3.5 text-yellow-500" />
+                                        <span className="text-xs font-medium text-yellow-700">
+                                            Invalid Token
+                                        </span>
+                                    </div>
+                                    <div className="text-[11px] mt-0.5 text-yellow-600">
+                                        {tokenInfo.error}
+                                    </div>
+                                </div>
+                            );
+                        }
+                        return null;
+                    })()}
+                {config.token && (
+                    <TokenInspector
+                        token={config.token}
+                        userId={config.userId}
+                    />
+                )}
+            </div>
+
+            {/* Display Name */}
+            <div>
+                <label
+                    htmlFor="displayName"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    Display Name *
+                </label>
+                <input
+                    type="text"
+                    id="displayName"
+                    value={config.displayName}
+                    onChange={(e) =>
+                        onConfigChange({ displayName: e.target.value })
+                    }
+                    placeholder="Your Name"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                    required
+                />
+            </div>
+
+            {/* Token Endpoint (optional auto-refresh) */}
+            <div className="lg:col-span-2">
+                <label
+                    htmlFor="tokenEndpoint"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    Token Endpoint URL (auto-refresh)
+                </label>
+                <input
+                    type="url"
+                    id="tokenEndpoint"
+                    value={config.tokenEndpoint}
+                    onChange={(e) =>
+                        onConfigChange({ tokenEndpoint: e.target.value })
+                    }
+                    placeholder="http://localhost:7071/token"
+                    title="Called with ?userId=... and must return a fresh token for that user"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                />
+                {config.tokenEndpoint && (
+                    <TokenRefreshStatusBadge status={tokenRefreshStatus} />
+                )}
+            </div>
+
+            {/* Token expiry warning thresholds */}
+            <div>
+                <label
+                    htmlFor="expiryWarnings"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    Expiry Warnings (minutes before)
+                </label>
+                <input
+                    type="text"
+                    id="expiryWarnings"
+                    value={expiryWarningInput}
+                    onChange={(e) => setExpiryWarningInput(e.target.value)}
+                    onBlur={() => {
+                        const thresholds =
+                            parseWarningThresholds(expiryWarningInput);
+                        if (thresholds.length) {
+                            onExpiryWarningThresholdsChange(thresholds);
+                        }
+                        setExpiryWarningInput(
+                            (thresholds.length
+                                ? thresholds
+                                : expiryWarningThresholds
+                            ).join(', ')
+                        );
+                    }}
+                    placeholder="15, 5"
+                    title="Comma-separated minutes before token expiry at which to warn"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                />
+            </div>
+
+            {/* Call Type + Value */}
+            <div className="lg:col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Call Type *
+                </label>
+                <div className="flex flex-wrap items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="group-call"
+                            name="callType"
+                            type="radio"
+                            value="group"
+                            checked={config.callType === 'group'}
+                            onChange={() => selectCallType('group')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        Group
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="one-to-one-call"
+                            name="callType"
+                            type="radio"
+                            value="oneToOne"
+                            checked={config.callType === 'oneToOne'}
+                            onChange={() => selectCallType('oneToOne')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        1:1
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="phone-call"
+                            name="callType"
+                            type="radio"
+                            value="phone"
+                            checked={config.callType === 'phone'}
+                            onChange={() => selectCallType('phone')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        PSTN
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="teams-meeting-call"
+                            name="callType"
+                            type="radio"
+                            value="teamsMeeting"
+                            checked={config.callType === 'teamsMeeting'}
+                            onChange={() => selectCallType('teamsMeeting')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        Teams meeting
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="teams-user-call"
+                            name="callType"
+                            type="radio"
+                            value="teamsUser"
+                            checked={config.callType === 'teamsUser'}
+                            onChange={() => selectCallType('teamsUser')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        Teams user
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="room-call"
+                            name="callType"
+                            type="radio"
+                            value="room"
+                            checked={config.callType === 'room'}
+                            onChange={() => selectCallType('room')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        Room
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            id="ad-hoc-call"
+                            name="callType"
+                            type="radio"
+                            value="adHoc"
+                            checked={config.callType === 'adHoc'}
+                            onChange={() => selectCallType('adHoc')}
+                            className="h-4 w-4 text-azure-blue-600 focus:ring-azure-blue-500 border-gray-300"
+                        />
+                        Ad-hoc
+                    </label>
+                </div>
+
+                {config.callType && (
+                    <div className="mt-2">
+                        <label
+                            htmlFor="callValue"
+                            className="block text-xs font-medium text-gray-700 mb-1"
+                        >
+                            {config.callType === 'group' && 'Group ID *'}
+                            {config.callType === 'oneToOne' &&
+                                'Target User ID *'}
+                            {config.callType === 'phone' && 'Phone Number *'}
+                            {config.callType === 'teamsMeeting' &&
+                                'Meeting Link or Meeting ID *'}
+                            {config.callType === 'teamsUser' &&
+                                'Teams User ID *'}
+                            {config.callType === 'room' && 'Room ID *'}
+                            {config.callType === 'adHoc' &&
+                                'Callees (one per line) *'}
+                        </label>
+                        <div className="flex gap-2">
+                            {config.callType === 'adHoc' ? (
+                                <textarea
+                                    id="callValue"
+                                    rows={3}
+                                    value={config.callValue}
+                                    onChange={(e) =>
+                                        onConfigChange({
+                                            callValue: e.target.value,
+                                        })
+                                    }
+                                    placeholder={
+                                        '8:acs:xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx\n8:acs:yyyyyyyy-yyyy-yyyy-yyyy-yyyyyyyyyyyy\n+14255550123'
+                                    }
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm font-mono"
+                                    required
+                                />
+                            ) : (
+                                <input
+                                    type={
+                                        config.callType === 'phone'
+                                            ? 'tel'
+                                            : 'text'
+                                    }
+                                    id="callValue"
+                                    value={config.callValue}
+                                    onChange={(e) =>
+                                        onConfigChange({
+                                            callValue: e.target.value,
+                                        })
+                                    }
+                                    placeholder={
+                                        config.callType === 'group'
+                                            ? 'xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx'
+                                            : config.callType === 'oneToOne'
+                                            ? '8:acs:xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx'
+                                            : config.callType === 'teamsMeeting'
+                                            ? 'https://teams.microsoft.com/l/meetup-join/... or 123 456 789 012'
+                                            : config.callType === 'teamsUser'
+                                            ? '8:orgid:xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx'
+                                            : config.callType === 'room'
+                                            ? '99123456789012345'
+                                            : '+1234567890'
+                                    }
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                                    required
+                                />
+                            )}
+                            {config.callType === 'group' && (
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        const uuid =
+                                            'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(
+                                                /[xy]/g,
+                                                function (c) {
+                                                    const r =
+                                                        (Math.random() * 16) |
+                                                        0;
+                                                    const v =
+                                                        c == 'x'
+                                                            ? r
+                                                            : (r & 0x3) | 0x8;
+                                                    return v.toString(16);
+                                                }
+                                            );
+                                        onConfigChange({ callValue: uuid });
+                                    }}
+                                    className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded-md transition-colors whitespace-nowrap"
+                                >
+                                    Generate UUID
+                                </button>
+                            )}
+                        </div>
+                        {config.callType === 'phone' && (
+                            <PhoneNumberPreview
+                                value={config.callValue}
+                                defaultCountry={config.phoneCountry}
+                            />
+                        )}
+                        {config.callType === 'group' && config.callValue && (
+                            <p className="text-[11px] text-gray-600 mt-1">
+                                Share this Group ID with others so they can join
+                                the same call
+                            </p>
+                        )}
+                        {config.callType === 'teamsMeeting' &&
+                            config.callValue &&
+                            !isTeamsMeetingLink(config.callValue) &&
+                            !isTeamsMeetingId(config.callValue) && (
+                                <p className="text-[11px] text-yellow-700 mt-1">
+                                    Paste the full join link, or the meeting ID
+                                    from the invitation (digits only)
+                                </p>
+                            )}
+                        {config.callType === 'adHoc' && config.callValue && (
+                            <p
+                                className={`text-[11px] mt-1 ${
+                                    calleeListError
+                                        ? 'text-yellow-700'
+                                        : 'text-gray-600'
+                                }`}
+                            >
+                                {calleeListError ??
+                                    `Rings ${
+                                        parseCalleeList(
+                                            config.callValue,
+                                            config.phoneCountry
+                                        ).length
+                                    } callee(s) at once${
+                                        hasPhoneCallees
+                                            ? ' - phone numbers need an Alternate Caller ID'
+                                            : ''
+                                    }`}
+                            </p>
+                        )}
+                        {config.callType === 'room' &&
+                            config.callValue &&
+                            !isRoomId(config.callValue) && (
+                                <p className="text-[11px] text-yellow-700 mt-1">
+                                    Room IDs are the numeric IDs returned when
+                                    the room is created
+                                </p>
+                            )}
+                        {config.callType === 'room' && (
+                            <p className="text-[11px] text-gray-600 mt-1">
+                                Your User ID must be a participant of the room;
+                                your role (Presenter, Attendee or Consumer)
+                                decides what you can do in the call
+                            </p>
+                        )}
+                        {config.callType === 'teamsMeeting' && (
+                            <p className="text-[11px] text-gray-600 mt-1">
+                                The Teams tenant must allow anonymous join; you
+                                wait in the lobby until an organizer admits you
+                            </p>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Passcode for Teams meetings joined by meeting ID */}
+            {config.callType === 'teamsMeeting' &&
+                !isTeamsMeetingLink(config.callValue) && (
+                    <div className="lg:col-span-2 lg:align-bottom lg:self-end">
+                        <label
+                            htmlFor="meetingPasscode"
+                            className="block text-xs font-medium text-gray-700 mb-1"
+                        >
+                            Meeting Passcode *
+                        </label>
+                        <input
+                            type="text"
+                            id="meetingPasscode"
+                            value={config.meetingPasscode ?? ''}
+                            onChange={(e) =>
+                                onConfigChange({
+                                    meetingPasscode: e.target.value,
+                                })
+                            }
+                            placeholder="Passcode from the meeting invitation"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                            required
+                        />
+                    </div>
+                )}
+
+            {/* Default country for phone numbers typed in national format */}
+            {usesPhoneNumbers(config) && (
+                <div className="lg:align-bottom lg:self-end">
+                    <label
+                        htmlFor="phoneCountry"
+                        className="block text-xs font-medium text-gray-700 mb-1"
+                    >
+                        Default Country
+                    </label>
+                    <select
+                        id="phoneCountry"
+                        value={config.phoneCountry ?? ''}
+                        onChange={(e) =>
+                            onConfigChange({ phoneCountry: e.target.value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm bg-white"
+                    >
+                        <option value="">
+                            None - include the country code
+                        </option>
+                        {PHONE_COUNTRIES.map((country) => (
+                            <option key={country.code} value={country.code}>
+                                {country.name} (+{country.callingCode})
+                            </option>
+                        ))}
+                    </select>
+                    <p className="text-[11px] text-gray-600 mt-1">
+                        Used for numbers typed without a country code, like
+                        07700 900123
+                    </p>
+                </div>
+            )}
+
+            {/* Alternate Caller ID for PSTN calls, and ad-hoc calls with a PSTN leg */}
+            {(config.callType === 'phone' || hasPhoneCallees) && (
+                <div className="lg:col-span-2 lg:align-bottom lg:self-end">
+                    <label
+                        htmlFor="alternateCallerId"
+                        className="block text-xs font-medium text-gray-700 mb-1"
+                    >
+                        Alternate Caller ID (your calling number) *
+                    </label>
+                    <input
+                        type="tel"
+                        id="alternateCallerId"
+                        value={config.alternateCallerId}
+                        onChange={(e) =>
+                            onConfigChange({
+                                alternateCallerId: e.target.value,
+                            })
+                        }
+                        placeholder="+1987654321 Must be a number you own in ACS"
+                        title="Must be a number you own in ACS"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm"
+                        required
+                    />
+                    <PhoneNumberPreview
+                        value={config.alternateCallerId ?? ''}
+                        defaultCountry={config.phoneCountry}
+                    />
+                </div>
+            )}
+
+            {/* DTMF script played once a PSTN call connects */}
+            {usesDtmfScript(config) && (
+                <div className="lg:col-span-2 lg:align-bottom lg:self-end">
+                    <label
+                        htmlFor="dtmfScript"
+                        className="block text-xs font-medium text-gray-700 mb-1"
+                    >
+                        DTMF Script
+                    </label>
+                    <input
+                        type="text"
+                        id="dtmfScript"
+                        value={config.dtmfScript ?? ''}
+                        onChange={(e) =>
+                            onConfigChange({ dtmfScript: e.target.value })
+                        }
+                        placeholder="wait 3s, 1, wait 2s, 4 5 6 #"
+                        title="Tones 0-9, * and #, and pauses like wait 2s or wait 500ms"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 transition-colors text-sm font-mono"
+                    />
+                    {dtmfScriptError ? (
+                        <p className="text-[11px] text-yellow-700 mt-1">
+                            {dtmfScriptError}
+                        </p>
+                    ) : (
+                        <p className="text-[11px] text-gray-600 mt-1">
+                            Played automatically once the call connects, to
+                            navigate an IVR
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Compact Details Block */}
+            <div className="lg:col-span-3 xl:col-span-4 mt-1 p-3 bg-gradient-to-r from-blue-50 to-azure-blue-50 border border-blue-200 rounded-md">
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-xs font-semibold text-blue-900">
+                        Configuration
+                    </h3>
+                    <span
+                        className={`px-2 py-0.5 border rounded-full text-[10px] font-medium ${
+                            isConfigReady
+                                ? 'bg-green-50 text-green-700 border-green-200'
+                                : 'bg-yellow-50 text-yellow-700 border-yellow-200'
+                        }`}
+                    >
+                        {isConfigReady ? 'Ready' : 'Incomplete'}
+                    </span>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-2">
+                    {/* Type */}
+                    <div className="p-2 bg-white rounded border border-blue-100">
+                        <div className="text-[11px] text-blue-900 font-medium">
+                            Type
+                        </div>
+                        <div className="mt-0.5 text-[11px] text-blue-700">
+                            {config.callType || 'None'}
+                        </div>
+                    </div>
+
+                    {/* User ID */}
+                    <div className="p-2 bg-white rounded border border-blue-100">
+                        <div className="text-[11px] text-blue-900 font-medium">
+                            User ID
+                        </div>
+                        <div className="mt-0.5 text-[11px]">
+                            <span
+                                className={`inline-flex items-center px-1.5 py-0.5 rounded-full border text-[10px] font-medium ${
+                                    config.userId
+                                        ? 'bg-green-50 text-green-700 border-green-200'
+                                        : 'bg-gray-50 text-gray-600 border-gray-200'
+                                }`}
+                            >
+                                {config.userId ? 'Set' : 'Not set'}
+                            </span>
+                            {config.userId && (
+                                <span
+                                    className="ml-2 text-blue-700 font-mono truncate inline-block max-w-[12rem] align-middle"
+                                    title={config.userId}
+                                >
+                                    {config.userId}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Token */}
+                    <div className="p-2 bg-white rounded border border-blue-100">
+                        <div className="text-[11px] text-blue-900 font-medium">
+                            Token
+                        </div>
+                        <div className="mt-0.5 text-[11px]">
+                            <span
+                                className={`inline-flex items-center px-1.5 py-0.5 rounded-full border text-[10px] font-medium ${
+                                    config.token
+                                        ? 'bg-green-50 text-green-700 border-green-200'
+                                        : 'bg-gray-50 text-gray-600 border-gray-200'
+                                }`}
+                            >
+                                {config.token ? 'Present' : 'Not set'}
+                            </span>
+                            {config.tokenEndpoint && (
+                                <span className="ml-2 text-blue-700">
+                                    Auto-refresh
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Name */}
+                    <div className="p-2 bg-white rounded border border-blue-100">
+                        <div className="text-[11px] text-blue-900 font-medium">
+                            Name
+                        </div>
+                        <div
+                            className="mt-0.5 text-[11px] text-blue-700 truncate"
+                            title={config.displayName || 'None'}
+                        >
+                            {config.displayName || 'None'}
+                        </div>
+                    </div>
+
+                    {/* Value */}
+                    <div className="p-2 bg-white rounded border border-blue-100">
+                        <div className="text-[11px] text-blue-900 font-medium">
+                            Value
+                        </div>
+                        <div
+                            className="mt-0.5 text-[11px] text-blue-700 font-mono truncate"
+                            title={config.callValue || 'None'}
+                        >
+                            {config.callValue || 'None'}
+                        </div>
+                    </div>
+
+                    {/* Alt Caller ID */}
+                    <div className="p-2 bg-white rounded border border-blue-100">
+                        <div className="text-[11px] text-blue-900 font-medium">
+                            Alt Caller ID
+                        </div>
+                        <div
+                            className="mt-0.5 text-[11px] text-blue-700 truncate"
+                            title={config.alternateCallerId || 'None'}
+                        >
+                            {config.alternateCallerId || 'None'}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Start Call Button */}
+            <div className="lg:col-span-3 xl:col-span-4 flex flex-wrap items-center gap-3">
+                <button
+                    type="submit"
+                    disabled={!canStartCall || !isConfigReady}
+                    className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 cursor-pointer text-white font-semibold py-3 px-4 rounded-md flex items-center justify-center gap-2 transition-colors"
+                >
+                    {isConnecting ? (
+                        <>
+                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                            Connecting...
+                        </>
+                    ) : (
+                        <>
+                            <PhoneIcon className="w-4 h-4" />
+                            Start Call
+                        </>
+                    )}
+                </button>
+                <button
+                    type="button"
+                    onClick={onRunPreCallCheck}
+                    className={`py-3 px-4 border rounded-md flex items-center gap-2 text-sm font-medium transition-colors ${
+                        preCallResult?.overall === 'fail'
+                            ? 'bg-red-50 border-red-200 text-red-700 hover:bg-red-100'
+                            : preCallResult?.overall === 'warn'
+                            ? 'bg-yellow-50 border-yellow-200 text-yellow-700 hover:bg-yellow-100'
+                            : preCallResult
+                            ? 'bg-green-50 border-green-200 text-green-700 hover:bg-green-100'
+                            : 'bg-gray-100 border-gray-200 text-gray-700 hover:bg-gray-200'
+                    }`}
+                    title={
+                        preCallResult
+                            ? `Last check ${new Date(
+                                  preCallResult.finishedAt
+                              ).toLocaleTimeString()}: ${preCallResult.overall}`
+                            : 'Test devices and network before calling'
+                    }
+                >
+                    <ShieldCheckIcon className="w-4 h-4" />
+                    Run pre-call check
+                </button>
+                <label className="w-full flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={Boolean(config.requirePreCallCheck)}
+                        onChange={(e) =>
+                            onConfigChange({
+                                requirePreCallCheck: e.target.checked,
+                            })
+                        }
+                        className="h-4 w-4"
+                    />
+                    Require pre-call check (block Start Call when a check fails)
+                </label>
+            </div>
+        </form>
+    );
+}
+
+export default CallConfigForm;
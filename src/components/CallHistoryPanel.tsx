@@ -0,0 +1,419 @@
+import { useEffect, useState } from 'react';
+import {
+    ChevronDownIcon,
+    ChevronRightIcon,
+    DocumentArrowDownIcon,
+    MagnifyingGlassIcon,
+    PhoneArrowDownLeftIcon,
+    PhoneArrowUpRightIcon,
+    PhoneIcon,
+    TrashIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { CallHistoryEntry } from '../types';
+import {
+    clearCallHistory,
+    deleteCallRecord,
+    formatDuration,
+    getCallOutcome,
+    listCallRecords,
+    type CallOutcome,
+} from '../lib/callHistory';
+
+interface CallHistoryPanelProps {
+    // Bumped by the recorder whenever an entry changes so the list reloads
+    refreshKey: number;
+    onRedial: (entry: CallHistoryEntry) => void;
+    onDownloadDiagnostics: (entry: CallHistoryEntry) => void;
+    onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<CallOutcome, string> = {
+    connected: 'bg-green-50 text-green-700 border-green-200',
+    failed: 'bg-red-50 text-red-700 border-red-200',
+    missed: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+    rejected: 'bg-gray-50 text-gray-700 border-gray-200',
+    inProgress: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+const OUTCOME_LABELS: Record<CallOutcome, string> = {
+    connected: 'Connected',
+    failed: 'Failed',
+    missed: 'Missed',
+    rejected: 'Rejected',
+    inProgress: 'In progress',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+    group: 'Group',
+    oneToOne: '1:1',
+    phone: 'PSTN',
+    teamsMeeting: 'Teams meeting',
+    teamsUser: 'Teams user',
+    room: 'Room',
+    adHoc: 'Ad-hoc',
+    incoming: 'Incoming',
+};
+
+const matchesSearch = (entry: CallHistoryEntry, search: string) => {
+    const needle = search.trim().toLowerCase();
+    if (!needle) return true;
+    return [
+        entry.target,
+        entry.displayName,
+        entry.callId,
+        entry.errorExplanation,
+        entry.notes,
+        entry.endReason ? `${entry.endReason.code}` : '',
+        entry.endReason?.subCode !== undefined
+            ? `${entry.endReason.subCode}`
+            : '',
+    ].some((value) => value?.toLowerCase().includes(needle));
+};
+
+function CallHistoryPanel({
+    refreshKey,
+    onRedial,
+    onDownloadDiagnostics,
+    onClose,
+}: CallHistoryPanelProps) {
+    const [entries, setEntries] = useState<CallHistoryEntry[]>([]);
+    const [loadError, setLoadError] = useState('');
+    const [search, setSearch] = useState('');
+    const [directionFilter, setDirectionFilter] = useState('');
+    const [typeFilter, setTypeFilter] = useState('');
+    const [outcomeFilter, setOutcomeFilter] = useState('');
+    const [expandedId, setExpandedId] = useState<string | undefined>();
+
+    useEffect(() => {
+        listCallRecords()
+            .then(setEntries)
+            .catch((error) => {
+                console.error('Failed to load call history:', error);
+                setLoadError('Failed to load call history');
+            });
+    }, [refreshKey]);
+
+    const reload = () => listCallRecords().then(setEntries);
+
+    const visibleEntries = entries.filter(
+        (entry) =>
+            matchesSearch(entry, search) &&
+            (!directionFilter || entry.direction === directionFilter) &&
+            (!typeFilter || entry.callType === typeFilter) &&
+            (!outcomeFilter || getCallOutcome(entry) === outcomeFilter)
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Call History
+                    </h2>
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            disabled={entries.length === 0}
+                            onClick={() => {
+                                if (window.confirm('Delete all call history?'))
+                                    clearCallHistory().then(reload);
+                            }}
+                            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 text-xs rounded-md transition-colors"
+                        >
+                            Clear history
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="text-gray-500 hover:text-gray-700"
+                        >
+                            <XMarkIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Search and filters */}
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <div className="relative flex-1 min-w-[12rem]">
+                        <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-2 top-2" />
+                        <input
+                            type="search"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search target, name, call ID, error code, notes..."
+                            className="w-full pl-8 pr-3 py-1.5 border border-gray-300 rounded-md text-xs"
+                        />
+                    </div>
+                    <select
+                        value={directionFilter}
+                        onChange={(e) => setDirectionFilter(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-300 rounded-md text-xs"
+                    >
+                        <option value="">All directions</option>
+                        <option value="outgoing">Outgoing</option>
+                        <option value="incoming">Incoming</option>
+                    </select>
+                    <select
+                        value={typeFilter}
+                        onChange={(e) => setTypeFilter(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-300 rounded-md text-xs"
+                    >
+                        <option value="">All types</option>
+                        {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={outcomeFilter}
+                        onChange={(e) => setOutcomeFilter(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-300 rounded-md text-xs"
+                    >
+                        <option value="">All outcomes</option>
+                        {Object.entries(OUTCOME_LABELS).map(
+                            ([value, label]) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            )
+                        )}
+                    </select>
+                </div>
+
+                {loadError && (
+                    <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md">
+                        <p className="text-red-700 text-xs">{loadError}</p>
+                    </div>
+                )}
+
+                <div className="overflow-y-auto flex-1 divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {visibleEntries.length === 0 && (
+                        <p className="p-4 text-center text-xs text-gray-500">
+                            {entries.length === 0
+                                ? 'No calls recorded yet'
+                                : 'No calls match the filters'}
+                        </p>
+                    )}
+                    {visibleEntries.map((entry) => {
+                        const outcome = getCallOutcome(entry);
+                        const isExpanded = expandedId === entry.id;
+                        return (
+                            <div key={entry.id} className="p-2 text-left">
+                                <div className="flex items-center gap-2 text-xs">
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            setExpandedId(
+                                                isExpanded
+                                                    ? undefined
+                                                    : entry.id
+                                            )
+                                        }
+                                        className="text-gray-500 hover:text-gray-700"
+                                        title="Show timeline"
+                                    >
+                                        {isExpanded ? (
+                                            <ChevronDownIcon className="w-4 h-4" />
+                                        ) : (
+                                            <ChevronRightIcon className="w-4 h-4" />
+                                        )}
+                                    </button>
+                                    {entry.direction === 'outgoing' ? (
+                                        <PhoneArrowUpRightIcon className="w-4 h-4 text-blue-500 shrink-0" />
+                                    ) : (
+                                        <PhoneArrowDownLeftIcon className="w-4 h-4 text-purple-500 shrink-0" />
+                                    )}
+                                    <span className="text-gray-500 whitespace-nowrap">
+                                        {new Date(
+                                            entry.startedAt
+                                        ).toLocaleString()}
+                                    </span>
+                                    <span className="px-1.5 py-0.5 bg-gray-100 rounded text-[10px] text-gray-700">
+                                        {TYPE_LABELS[entry.callType] ??
+                                            entry.callType}
+                                    </span>
+                                    <span
+                                        className="flex-1 font-mono truncate text-gray-900"
+                                        title={entry.target}
+                                    >
+                                        {entry.displayName &&
+                                        entry.direction === 'incoming'
+                                            ? `${entry.displayName} (${entry.target})`
+                                            : entry.target}
+                                    </span>
+                                    {entry.endReason && (
+                                        <span
+                                            className="font-mono text-gray-500"
+                                            title="End reason code/subCode"
+                                        >
+                                            {entry.endReason.code}
+                                            {entry.endReason.subCode !==
+                                                undefined &&
+                                                `/${entry.endReason.subCode}`}
+                                        </span>
+                                    )}
+                                    <span className="font-mono text-gray-700 w-12 text-right">
+                                        {entry.durationMs !== undefined
+                                            ? formatDuration(entry.durationMs)
+                                            : '-'}
+                                    </span>
+                                    <span
+                                        className={`px-1.5 py-0.5 border rounded-full text-[10px] font-medium ${OUTCOME_STYLES[outcome]}`}
+                                    >
+                                        {OUTCOME_LABELS[outcome]}
+                                    </span>
+                                    <button
+                                        type="button"
+                                        title="Call again"
+                                        onClick={() => onRedial(entry)}
+                                        className="p-1 text-green-600 hover:bg-green-50 rounded"
+                                    >
+                                        <PhoneIcon className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        title="Download diagnostics"
+                                        onClick={() =>
+                                            onDownloadDiagnostics(entry)
+                                        }
+                                        className="p-1 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                                    >
+                                        <DocumentArrowDownIcon className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        title="Delete entry"
+                                        onClick={() =>
+                                            deleteCallRecord(entry.id).then(
+                                                reload
+                                            )
+                                        }
+                                        className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+
+                                {entry.errorExplanation && (
+                                    <p className="ml-12 mt-1 text-[11px] text-red-600">
+                                        {entry.errorExplanation}
+                                    </p>
+                                )}
+                                {(entry.rating !== undefined ||
+                                    entry.notes) && (
+                                    <p className="ml-12 mt-1 text-[11px] text-gray-700">
+                                        {entry.rating !== undefined && (
+                                            <span className="text-yellow-600 mr-2">
+                                                {'★'.repeat(entry.rating)}
+                                                {'☆'.repeat(5 - entry.rating)}
+                                            </span>
+                                        )}
+                                        {entry.notes}
+                                    </p>
+                                )}
+
+                                {isExpanded &&
+                                    entry.mediaStats &&
+                                    entry.mediaStats.length > 0 && (
+                                        <table className="ml-12 mt-2 text-[11px]">
+                                            <thead>
+                                                <tr className="text-gray-500">
+                                                    <th className="pr-3 text-left font-medium">
+                                                        Stream
+                                                    </th>
+                                                    <th className="pr-3 text-right font-medium">
+                                                        Loss avg/max (pkt/s)
+                                                    </th>
+                                                    <th className="pr-3 text-right font-medium">
+                                                        Jitter avg/max (ms)
+                                                    </th>
+                                                    <th className="pr-3 text-right font-medium">
+                                                        RTT avg/max (ms)
+                                                    </th>
+                                                    <th className="text-right font-medium">
+                                                        Bitrate (kbps)
+                                                    </th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="font-mono text-gray-800">
+                                                {entry.mediaStats.map(
+                                                    (stats) => (
+                                                        <tr key={stats.stream}>
+                                                            <td className="pr-3 font-sans capitalize">
+                                                                {stats.label}
+                                                            </td>
+                                                            <td className="pr-3 text-right">
+                                                                {stats.avgPacketsLostPerSecond ??
+                                                                    '-'}
+                                                                /
+                                                                {
+                                                                    stats.maxPacketsLostPerSecond
+                                                                }
+                                                            </td>
+                                                            <td className="pr-3 text-right">
+                                                                {stats.avgJitterInMs ??
+                                                                    '-'}
+                                                                /
+                                                                {
+                                                                    stats.maxJitterInMs
+                                                                }
+                                                            </td>
+                                                            <td className="pr-3 text-right">
+                                                                {stats.avgRttInMs ??
+                                                                    '-'}
+                                                                /
+                                                                {
+                                                                    stats.maxRttInMs
+                                                                }
+                                                            </td>
+                                                            <td className="text-right">
+                                                                {stats.avgBitrateKbps ??
+                                                                    '-'}
+                                                            </td>
+                                                        </tr>
+                                                    )
+                                                )}
+                                            </tbody>
+                                        </table>
+                                    )}
+
+                                {isExpanded && (
+                                    <ol className="ml-12 mt-2 space-y-0.5 border-l border-gray-200 pl-3">
+                                        {entry.timeline.map((event, index) => (
+                                            <li
+                                                key={`${event.at}-${index}`}
+                                                className="text-[11px] flex gap-2"
+                                            >
+                                                <span className="font-mono text-gray-400 whitespace-nowrap">
+                                                    {new Date(
+                                                        event.at
+                                                    ).toLocaleTimeString()}
+                                                </span>
+                                                <span
+                                                    className={
+                                                        event.type === 'error'
+                                                            ? 'text-red-600'
+                                                            : event.type ===
+                                                              'state'
+                                                            ? 'text-blue-700 font-medium'
+                                                            : 'text-gray-700'
+                                                    }
+                                                >
+                                                    {event.detail}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default CallHistoryPanel;
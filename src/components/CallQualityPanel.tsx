@@ -0,0 +1,166 @@
+import type { LatestDiagnosticValue } from '@azure/communication-calling';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import type { CallQuality } from '../hooks/useCallQuality';
+import { formatDiagnosticValue } from '../lib/diagnostics';
+import {
+    isDiagnosticProblem,
+    STATS_METRICS,
+    WATCHED_DIAGNOSTICS,
+    type StatsMetric,
+    type StreamStatsPoint,
+} from '../lib/mediaQuality';
+
+interface CallQualityPanelProps {
+    quality: CallQuality;
+    onClose: () => void;
+}
+
+const CHART_WIDTH = 120;
+const CHART_HEIGHT = 28;
+// Only the last minute is drawn; the summary comes from running totals, not these points
+const CHART_POINTS = 60;
+
+function Sparkline({
+    points,
+    metric,
+}: {
+    points: StreamStatsPoint[];
+    metric: StatsMetric;
+}) {
+    const values = points
+        .slice(-CHART_POINTS)
+        .map((point) => point[metric] ?? 0);
+    const max = Math.max(1, ...values);
+    const step = CHART_WIDTH / Math.max(1, CHART_POINTS - 1);
+    const line = values
+        .map(
+            (value, index) =>
+                `${index * step},${
+                    CHART_HEIGHT - (value / max) * (CHART_HEIGHT - 2) - 1
+                }`
+        )
+        .join(' ');
+
+    return (
+        <svg
+            width={CHART_WIDTH}
+            height={CHART_HEIGHT}
+            className="bg-gray-50 border border-gray-200 rounded"
+        >
+            <polyline
+                points={line}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={1.5}
+                className="text-azure-blue-500"
+            />
+        </svg>
+    );
+}
+
+function DiagnosticBadge({ value }: { value?: LatestDiagnosticValue }) {
+    if (!value) {
+        return <span className="text-[10px] text-gray-400">-</span>;
+    }
+    const isProblem = isDiagnosticProblem(value);
+    return (
+        <span
+            className={`px-1.5 py-0.5 rounded-full border text-[10px] font-medium ${
+                isProblem
+                    ? 'bg-red-50 text-red-700 border-red-200'
+                    : 'bg-green-50 text-green-700 border-green-200'
+            }`}
+        >
+            {formatDiagnosticValue(value.value, value.valueType)}
+        </span>
+    );
+}
+
+function CallQualityPanel({ quality, onClose }: CallQualityPanelProps) {
+    const streams = Object.entries(quality.series);
+
+    return (
+        <aside className="w-80 h-full bg-white border-l border-gray-200 overflow-y-auto p-4 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-900">
+                    Call Quality
+                </h2>
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="text-gray-500 hover:text-gray-700"
+                >
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <h3 className="text-xs font-semibold text-gray-700 mb-1">
+                User facing diagnostics
+            </h3>
+            <table className="w-full mb-4">
+                <tbody>
+                    {WATCHED_DIAGNOSTICS.map(({ kind, name, label }) => (
+                        <tr key={`${kind}.${name}`}>
+                            <td className="py-0.5 text-[11px] text-gray-700">
+                                {label}
+                            </td>
+                            <td className="py-0.5 text-right">
+                                <DiagnosticBadge
+                                    value={
+                                        quality.diagnostics[`${kind}.${name}`]
+                                    }
+                                />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <h3 className="text-xs font-semibold text-gray-700 mb-1">
+                Media stats
+            </h3>
+            {streams.length === 0 && (
+                <p className="text-[11px] text-gray-500">
+                    Waiting for the first sample...
+                </p>
+            )}
+            {streams.map(([key, stream]) => {
+                const latest = stream.points[stream.points.length - 1];
+                return (
+                    <div
+                        key={key}
+                        className="mb-3 pb-3 border-b border-gray-100 last:border-b-0"
+                    >
+                        <div className="text-[11px] font-medium text-gray-800 mb-1 capitalize">
+                            {stream.label}
+                            {stream.codecName && (
+                                <span className="ml-1 font-normal text-gray-500 normal-case">
+                                    ({stream.codecName})
+                                </span>
+                            )}
+                        </div>
+                        {STATS_METRICS.map(({ metric, label }) => (
+                            <div
+                                key={metric}
+                                className="flex items-center justify-between gap-2"
+                            >
+                                <div className="text-[10px] text-gray-600">
+                                    <div>{label}</div>
+                                    <div className="font-mono text-gray-900">
+                                        {latest?.[metric] ?? '-'}
+                                    </div>
+                                </div>
+                                <Sparkline
+                                    points={stream.points}
+                                    metric={metric}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                );
+            })}
+        </aside>
+    );
+}
+
+export default CallQualityPanel;
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { CallComposite } from '@azure/communication-react';
+import type { Call } from '@azure/communication-calling';
+import {
+    BeakerIcon,
+    ChartBarIcon,
+    ClockIcon,
+    DocumentArrowDownIcon,
+    HashtagIcon,
+    InformationCircleIcon,
+    PhoneXMarkIcon,
+    UserCircleIcon,
+    UserPlusIcon,
+} from '@heroicons/react/24/outline';
+import type {
+    Callee,
+    CallConfig,
+    CallHistoryEntry,
+    MediaStatsSummary,
+    TokenRefreshStatus,
+} from '../types';
+import type { CallSession } from '../lib/callingService';
+import { describeRoleRestrictions } from '../lib/rooms';
+import { useCallQuality } from '../hooks/useCallQuality';
+import { useDtmf, type DtmfLogEntry } from '../hooks/useDtmf';
+import AddParticipantDialog from './AddParticipantDialog';
+import CallQualityPanel from './CallQualityPanel';
+import DiagnosticsExportDialog from './DiagnosticsExportDialog';
+import DirectCallView from './DirectCallView';
+import DtmfKeypad from './DtmfKeypad';
+import SimulatedCallView from './SimulatedCallView';
+import TokenCountdown from './TokenCountdown';
+import TokenRefreshStatusBadge from './TokenRefreshStatusBadge';
+
+interface CallScreenProps {
+    session: CallSession;
+    config: CallConfig;
+    // The SDK's call state, e.g. InLobby while waiting to be admitted to a Teams meeting
+    callState: string;
+    // The SDK call behind the session, watched by the quality panel
+    sdkCall?: Call;
+    // Our role in a room or meeting (Presenter, Attendee, Consumer...)
+    role?: string;
+    expiryWarningThresholds: number[];
+    tokenRefreshStatus: TokenRefreshStatus;
+    isEnding: boolean;
+    // Short-lived news about the call, e.g. an organizer changing our role
+    notice?: string;
+    getDiagnosticsEntry: () => CallHistoryEntry | undefined;
+    onMediaStats: (summary: MediaStatsSummary[]) => void;
+    onDisconnect: () => void;
+    // Played once the call connects; only set for outgoing calls with a PSTN leg
+    dtmfScript?: string;
+    onDtmfTone?: (entry: DtmfLogEntry) => void;
+    // Left out when the session cannot dial anyone in
+    onAddParticipant?: (
+        callee: Callee,
+        options: { alternateCallerId?: string }
+    ) => Promise<void>;
+}
+
+function CallScreen({
+    session,
+    config,
+    callState,
+    sdkCall,
+    role,
+    expiryWarningThresholds,
+    tokenRefreshStatus,
+    isEnding,
+    notice,
+    getDiagnosticsEntry,
+    onMediaStats,
+    onDisconnect,
+    dtmfScript,
+    onDtmfTone,
+    onAddParticipant,
+}: CallScreenProps) {
+    const { view } = session;
+    const [showQualityPanel, setShowQualityPanel] = useState(false);
+    const [showAddParticipant, setShowAddParticipant] = useState(false);
+    const [showKeypad, setShowKeypad] = useState(false);
+    const [diagnosticsEntry, setDiagnosticsEntry] = useState<
+        CallHistoryEntry | undefined
+    >();
+    const callQuality = useCallQuality(sdkCall, onMediaStats);
+    const roleRestrictions = describeRoleRestrictions(role);
+    const dtmf = useDtmf(session, callState, dtmfScript, onDtmfTone);
+
+    return (
+        <div className="relative h-screen bg-gray-500">
+            <div className="h-16 bg-azure-blue-500 flex items-center justify-between px-6 shadow-lg">
+                <div className="flex items-center gap-3">
+                    <h1 className="text-white text-xl font-semibold">
+                        Azure Communication Services Call
+                    </h1>
+                    {view.kind === 'simulated' && (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-700 text-xs font-medium rounded-md">
+                            <BeakerIcon className="w-3 h-3" />
+                            Simulated
+                        </span>
+                    )}
+                    {callState === 'InLobby' && (
+                        <span
+                            title="An organizer has to admit you to the meeting"
+                            className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-800 text-xs font-medium rounded-md animate-pulse"
+                        >
+                            <ClockIcon className="w-3 h-3" />
+                            Waiting in lobby
+                        </span>
+                    )}
+                    {role && (
+                        <span
+                            title={roleRestrictions || 'No role restrictions'}
+                            className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md ${
+                                roleRestrictions
+                                    ? 'bg-gray-100 text-gray-700'
+                                    : 'bg-green-100 text-green-800'
+                            }`}
+                        >
+                            <UserCircleIcon className="w-3 h-3" />
+                            {role}
+                            {roleRestrictions && (
+                                <span className="font-normal">
+                                    {' '}
+                                    - {roleRestrictions.toLowerCase()}
+                                </span>
+                            )}
+                        </span>
+                    )}
+                    {config.token && (
+                        <TokenCountdown
+                            token={config.token}
+                            thresholds={expiryWarningThresholds}
+                            notify
+                            variant="header"
+                        />
+                    )}
+                    {config.tokenEndpoint && (
+                        <TokenRefreshStatusBadge
+                            status={tokenRefreshStatus}
+                            compact
+                        />
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    {/* Quality comes from SDK call features the simulation doesn't have */}
+                    {view.kind !== 'simulated' && (
+                        <button
+                            type="button"
+                            title="Show network and media quality"
+                            onClick={() => setShowQualityPanel((prev) => !prev)}
+                            className={`${
+                                showQualityPanel ? 'bg-white/30' : 'bg-white/10'
+                            } hover:bg-white/20 text-white px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors`}
+                        >
+                            <ChartBarIcon className="w-5 h-5" />
+                            Quality
+                        </button>
+                    )}
+                    {session.sendDtmf && (
+                        <button
+                            type="button"
+                            title="Send DTMF tones"
+                            onClick={() => setShowKeypad((prev) => !prev)}
+                            className={`${
+                                showKeypad ? 'bg-white/30' : 'bg-white/10'
+                            } hover:bg-white/20 text-white px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors`}
+                        >
+                            <HashtagIcon className="w-5 h-5" />
+                            Keypad
+                        </button>
+                    )}
+                    {onAddParticipant && (
+                        <button
+                            type="button"
+                            title="Dial a user or phone number into this call"
+                            onClick={() => setShowAddParticipant(true)}
+                            disabled={isEnding}
+                            className="bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+                        >
+                            <UserPlusIcon className="w-5 h-5" />
+                            Add participant
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        title="Download diagnostics for this call"
+                        onClick={() =>
+                            setDiagnosticsEntry(getDiagnosticsEntry())
+                        }
+                        className="bg-white/10 hover:bg-white/20 text-white px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+                    >
+                        <DocumentArrowDownIcon className="w-5 h-5" />
+                        Diagnostics
+                    </button>
+                    <button
+                        onClick={onDisconnect}
+                        disabled={isEnding}
+                        className="bg-red-500 hover:bg-red-600 disabled:bg-red-300 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+                    >
+                        <PhoneXMarkIcon className="w-5 h-5" />
+                        {isEnding ? 'Disconnecting...' : 'Disconnect'}
+                    </button>
+                </div>
+            </div>
+            <div className="h-[calc(100vh-4rem)] flex">
+                <div className="flex-1 min-w-0">
+                    {view.kind === 'composite' ? (
+                        <CallComposite adapter={view.adapter} />
+                    ) : view.kind === 'direct' ? (
+                        <DirectCallView
+                            callClient={view.callClient}
+                            callAgent={view.callAgent}
+                            call={view.call}
+                            onHangUp={onDisconnect}
+                        />
+                    ) : (
+                        <SimulatedCallView
+                            call={view.call}
+                            displayName={config.displayName}
+                            onHangUp={onDisconnect}
+                        />
+                    )}
+                </div>
+                {showKeypad && session.sendDtmf && (
+                    <DtmfKeypad
+                        dtmf={dtmf}
+                        script={dtmfScript}
+                        onClose={() => setShowKeypad(false)}
+                    />
+                )}
+                {showQualityPanel && view.kind !== 'simulated' && (
+                    <CallQualityPanel
+                        quality={callQuality}
+                        onClose={() => setShowQualityPanel(false)}
+                    />
+                )}
+            </div>
+            {notice && (
+                <div
+                    role="status"
+                    className="absolute top-20 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg shadow-lg text-sm text-gray-800"
+                >
+                    <InformationCircleIcon className="w-5 h-5 text-azure-blue-500" />
+                    {notice}
+                </div>
+            )}
+            {showAddParticipant && onAddParticipant && (
+                <AddParticipantDialog
+                    defaultAlternateCallerId={config.alternateCallerId}
+                    defaultCountry={config.phoneCountry}
+                    onAdd={onAddParticipant}
+                    onClose={() => setShowAddParticipant(false)}
+                />
+            )}
+            {diagnosticsEntry && (
+                <DiagnosticsExportDialog
+                    entry={diagnosticsEntry}
+                    config={config}
+                    onClose={() => setDiagnosticsEntry(undefined)}
+                />
+            )}
+        </div>
+    );
+}
+
+export default CallScreen;
@@ -0,0 +1,37 @@
+interface CallStatusBarProps {
+    callState: string;
+    callId?: string;
+}
+
+// SDK call state while a call is being set up or torn down from the form
+function CallStatusBar({ callState, callId }: CallStatusBarProps) {
+    if (callState === 'None' || !callId) return null;
+
+    return (
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
+            <div className="flex items-center gap-2">
+                <div
+                    className={`w-2.5 h-2.5 rounded-full ${
+                        callState === 'Connected'
+                            ? 'bg-green-500 animate-pulse'
+                            : callState === 'Connecting'
+                            ? 'bg-yellow-500 animate-pulse'
+                            : callState === 'InLobby'
+                            ? 'bg-amber-500 animate-pulse'
+                            : callState === 'Disconnected'
+                            ? 'bg-red-500'
+                            : 'bg-gray-500'
+                    }`}
+                ></div>
+                <p className="text-blue-700 text-xs font-medium">
+                    {callState}
+                    <span className="ml-2 text-blue-600">
+                        (ID: {callId.slice(0, 8)}...)
+                    </span>
+                </p>
+            </div>
+        </div>
+    );
+}
+
+export default CallStatusBar;
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import {
+    DocumentArrowDownIcon,
+    ExclamationTriangleIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { CallConfig, CallHistoryEntry } from '../types';
+import {
+    buildDiagnosticsReport,
+    DEFAULT_DIAGNOSTICS_REDACTION,
+    diagnosticsFileName,
+} from '../lib/diagnostics';
+import { downloadTextFile } from '../lib/profileTransfer';
+
+interface DiagnosticsExportDialogProps {
+    entry: CallHistoryEntry;
+    // Live configuration for the call in progress; past calls use the one saved with the entry
+    config?: CallConfig;
+    onClose: () => void;
+    onExported?: (message: string) => void;
+}
+
+function DiagnosticsExportDialog({
+    entry,
+    config,
+    onClose,
+    onExported,
+}: DiagnosticsExportDialogProps) {
+    const [redaction, setRedaction] = useState(DEFAULT_DIAGNOSTICS_REDACTION);
+    const [error, setError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    const exportDiagnostics = async () => {
+        try {
+            setIsWorking(true);
+            setError('');
+            const report = await buildDiagnosticsReport(
+                entry,
+                redaction,
+                config ?? entry.config
+            );
+            downloadTextFile(
+                diagnosticsFileName(entry),
+                JSON.stringify(report, null, 2)
+            );
+            onExported?.('Diagnostics report downloaded');
+            onClose();
+        } catch (err) {
+            console.error('Failed to build diagnostics report:', err);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const isUnmasked = !redaction.maskTokens || !redaction.maskPhoneNumbers;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-md w-full mx-4">
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Download Diagnostics
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-xs text-gray-600 mb-4">
+                    One JSON file with the configuration, SDK version, browser
+                    and device info, the event timeline, end reason, media and
+                    network diagnostics and errors of the call started{' '}
+                    {new Date(entry.startedAt).toLocaleString()}.
+                </p>
+
+                <label className="flex items-center gap-2 text-sm mb-2">
+                    <input
+                        type="checkbox"
+                        checked={redaction.maskTokens}
+                        onChange={(e) =>
+                            setRedaction((prev) => ({
+                                ...prev,
+                                maskTokens: e.target.checked,
+                            }))
+                        }
+                        className="h-4 w-4"
+                    />
+                    Mask access tokens
+                </label>
+                <label className="flex items-center gap-2 text-sm mb-2">
+                    <input
+                        type="checkbox"
+                        checked={redaction.maskPhoneNumbers}
+                        onChange={(e) =>
+                            setRedaction((prev) => ({
+                                ...prev,
+                                maskPhoneNumbers: e.target.checked,
+                            }))
+                        }
+                        className="h-4 w-4"
+                    />
+                    Mask phone numbers
+                </label>
+                {isUnmasked && (
+                    <div className="mb-4 p-2 bg-yellow-50 border border-yellow-200 rounded-md flex items-start gap-2">
+                        <ExclamationTriangleIcon className="w-4 h-4 text-yellow-500 shrink-0" />
+                        <p className="text-[11px] text-yellow-700">
+                            Check the file before attaching it to a ticket:
+                            unmasked tokens let anyone join calls as this user
+                            until they expire.
+                        </p>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded-md">
+                        <p className="text-red-700 text-xs">{error}</p>
+                    </div>
+                )}
+
+                <button
+                    type="button"
+                    onClick={exportDiagnostics}
+                    disabled={isWorking}
+                    className="w-full mt-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-2 px-4 rounded-md flex items-center justify-center gap-2 transition-colors"
+                >
+                    <DocumentArrowDownIcon className="w-4 h-4" />
+                    {isWorking ? 'Collecting...' : 'Download JSON'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default DiagnosticsExportDialog;
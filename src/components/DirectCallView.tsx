@@ -0,0 +1,82 @@
+import type { Call, CallAgent } from '@azure/communication-calling';
+import {
+    CallAgentProvider,
+    CallClientProvider,
+    CallProvider,
+    CameraButton,
+    ControlBar,
+    EndCallButton,
+    FluentThemeProvider,
+    MicrophoneButton,
+    usePropsFor,
+    VideoGallery,
+    type StatefulCallClient,
+} from '@azure/communication-react';
+
+interface DirectCallViewProps {
+    callClient: StatefulCallClient;
+    callAgent: CallAgent;
+    call: Call;
+    // Hangs up through the calling service session, so the call is not taken for
+    // one the other side ended
+    onHangUp: () => void;
+}
+
+function DirectCallContent({ onHangUp }: { onHangUp: () => void }) {
+    const videoGalleryProps = usePropsFor(VideoGallery);
+    const microphoneProps = usePropsFor(MicrophoneButton);
+    const cameraProps = usePropsFor(CameraButton);
+    const endCallProps = usePropsFor(EndCallButton);
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className="flex-1 min-h-0 relative">
+                {videoGalleryProps && (
+                    <VideoGallery
+                        {...videoGalleryProps}
+                        layout="floatingLocalVideo"
+                    />
+                )}
+            </div>
+            <div className="flex justify-center py-2 border-t border-gray-200">
+                <ControlBar layout="horizontal">
+                    {microphoneProps && (
+                        <MicrophoneButton {...microphoneProps} />
+                    )}
+                    {cameraProps && <CameraButton {...cameraProps} />}
+                    {endCallProps && (
+                        <EndCallButton
+                            {...endCallProps}
+                            onHangUp={async () => onHangUp()}
+                        />
+                    )}
+                </ControlBar>
+            </div>
+        </div>
+    );
+}
+
+// Call view for accepted 1:1 and PSTN calls. CallComposite can only (re)join calls that have a
+// locator (group, room, meeting), so these are rendered from the already-accepted Call object
+// with the UI library's stateful components instead. The calling service session notices
+// when the call ends.
+function DirectCallView({
+    callClient,
+    callAgent,
+    call,
+    onHangUp,
+}: DirectCallViewProps) {
+    return (
+        <FluentThemeProvider>
+            <CallClientProvider callClient={callClient}>
+                <CallAgentProvider callAgent={callAgent}>
+                    <CallProvider call={call}>
+                        <DirectCallContent onHangUp={onHangUp} />
+                    </CallProvider>
+                </CallAgentProvider>
+            </CallClientProvider>
+        </FluentThemeProvider>
+    );
+}
+
+export default DirectCallView;
@@ -0,0 +1,104 @@
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import type { Dtmf, DtmfScriptStatus } from '../hooks/useDtmf';
+import { DTMF_KEYPAD } from '../lib/dtmf';
+
+interface DtmfKeypadProps {
+    dtmf: Dtmf;
+    script?: string;
+    onClose: () => void;
+}
+
+const SCRIPT_STATUS_LABELS: Record<DtmfScriptStatus, string> = {
+    none: '',
+    waiting: 'Waiting for the call to connect',
+    playing: 'Playing...',
+    done: 'Done',
+    failed: 'Stopped after a tone failed',
+};
+
+// 12:34:56.789 - IVR timing problems are usually a matter of milliseconds
+const formatTime = (at: Date) =>
+    `${at.toLocaleTimeString([], { hour12: false })}.${String(
+        at.getMilliseconds()
+    ).padStart(3, '0')}`;
+
+// In-call dial pad; also shows the profile's DTMF script and every tone sent so far
+function DtmfKeypad({ dtmf, script, onClose }: DtmfKeypadProps) {
+    return (
+        <aside className="w-72 h-full bg-white border-l border-gray-200 overflow-y-auto p-4 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-900">Keypad</h2>
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="text-gray-500 hover:text-gray-700"
+                >
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 mb-4">
+                {DTMF_KEYPAD.map((key) => (
+                    <button
+                        key={key}
+                        type="button"
+                        aria-label={`Send tone ${key}`}
+                        onClick={() => dtmf.send(key)}
+                        className="py-3 bg-gray-100 hover:bg-gray-200 active:bg-gray-300 text-gray-900 text-lg font-semibold rounded-lg transition-colors"
+                    >
+                        {key}
+                    </button>
+                ))}
+            </div>
+
+            {script && (
+                <div className="mb-4 p-2 bg-blue-50 border border-blue-100 rounded-md">
+                    <div className="text-[11px] font-medium text-blue-900">
+                        DTMF script
+                    </div>
+                    <div className="text-[11px] font-mono text-blue-700 break-all">
+                        {script}
+                    </div>
+                    <div className="text-[10px] text-blue-600 mt-1">
+                        {SCRIPT_STATUS_LABELS[dtmf.scriptStatus]}
+                    </div>
+                </div>
+            )}
+
+            <h3 className="text-xs font-semibold text-gray-700 mb-1">
+                Tones sent
+            </h3>
+            {dtmf.log.length === 0 && (
+                <p className="text-[11px] text-gray-500">None yet</p>
+            )}
+            <ol className="space-y-0.5">
+                {dtmf.log.map((entry, index) => (
+                    <li
+                        key={`${entry.at.getTime()}-${index}`}
+                        className="text-[11px] flex gap-2"
+                    >
+                        <span className="font-mono text-gray-400">
+                            {formatTime(entry.at)}
+                        </span>
+                        <span className="font-mono font-semibold text-gray-900">
+                            {entry.key}
+                        </span>
+                        {entry.scripted && (
+                            <span className="text-gray-500">script</span>
+                        )}
+                        {entry.error && (
+                            <span
+                                className="text-red-600 truncate"
+                                title={entry.error}
+                            >
+                                {entry.error}
+                            </span>
+                        )}
+                    </li>
+                ))}
+            </ol>
+        </aside>
+    );
+}
+
+export default DtmfKeypad;
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import {
+    ACS_ERROR_CATEGORY_LABELS,
+    formatAcsErrorDetails,
+    type AcsErrorDetails,
+} from '../lib/acsErrors';
+
+interface ErrorBannerProps {
+    // Plain strings are form validation messages; details come from ACS errors
+    error: string | AcsErrorDetails;
+}
+
+function ErrorBanner({ error }: ErrorBannerProps) {
+    const [copyStatus, setCopyStatus] = useState('');
+
+    if (typeof error === 'string') {
+        return (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-700 text-xs">{error}</p>
+            </div>
+        );
+    }
+
+    const copyDetails = async () => {
+        try {
+            await navigator.clipboard.writeText(formatAcsErrorDetails(error));
+            setCopyStatus('Copied');
+        } catch (copyError) {
+            console.error('Copy error details error:', copyError);
+            setCopyStatus('Copy failed');
+        }
+        setTimeout(() => setCopyStatus(''), 3000);
+    };
+
+    return (
+        <div
+            role="alert"
+            className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md"
+        >
+            <div className="flex items-start justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-1.5">
+                    {error.context && (
+                        <span className="text-red-800 text-xs font-semibold">
+                            {error.context}
+                        </span>
+                    )}
+                    {error.code !== undefined && (
+                        <span className="px-1.5 py-0.5 bg-red-100 text-red-800 text-[10px] font-mono rounded">
+                            {error.code}
+                            {error.subCode !== undefined && `/${error.subCode}`}
+                        </span>
+                    )}
+                    {error.category && (
+                        <span className="px-1.5 py-0.5 bg-white border border-red-200 text-red-700 text-[10px] rounded">
+                            {ACS_ERROR_CATEGORY_LABELS[error.category]}
+                        </span>
+                    )}
+                </div>
+                <button
+                    type="button"
+                    onClick={copyDetails}
+                    className="inline-flex items-center gap-1 text-[11px] text-red-700 hover:text-red-900 whitespace-nowrap"
+                >
+                    <ClipboardDocumentIcon className="w-3.5 h-3.5" />
+                    {copyStatus || 'Copy details'}
+                </button>
+            </div>
+            <p className="text-red-700 text-xs mt-1">{error.explanation}</p>
+            {error.fixes.length > 0 && (
+                <ul className="list-disc list-inside text-red-700 text-[11px] mt-1 space-y-0.5">
+                    {error.fixes.map((fix) => (
+                        <li key={fix}>{fix}</li>
+                    ))}
+                </ul>
+            )}
+            {error.explanation !== error.message && (
+                <p className="text-red-500 text-[11px] font-mono mt-1 break-all">
+                    {error.message}
+                </p>
+            )}
+        </div>
+    );
+}
+
+export default ErrorBanner;
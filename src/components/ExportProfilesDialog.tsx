@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import {
+    DocumentArrowDownIcon,
+    ExclamationTriangleIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { ProfileStore } from '../types';
+import { getProfile } from '../lib/profiles';
+import { downloadTextFile, serializeProfiles } from '../lib/profileTransfer';
+
+interface ExportProfilesDialogProps {
+    store: ProfileStore;
+    activeProfileId: string;
+    onClose: () => void;
+    onExported: (message: string) => void;
+}
+
+const toFileName = (name: string) =>
+    name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'profile';
+
+function ExportProfilesDialog({
+    store,
+    activeProfileId,
+    onClose,
+    onExported,
+}: ExportProfilesDialogProps) {
+    const [scope, setScope] = useState<'active' | 'all'>('active');
+    const [includeTokens, setIncludeTokens] = useState(false);
+    const active = getProfile(store, activeProfileId);
+
+    const exportProfiles = () => {
+        const profiles =
+            scope === 'all' ? store.profiles : active ? [active] : [];
+        if (profiles.length === 0) return;
+
+        downloadTextFile(
+            scope === 'all'
+                ? 'azure-call-profiles.json'
+                : `azure-call-profile-${toFileName(profiles[0].name)}.json`,
+            serializeProfiles(profiles, { includeTokens })
+        );
+        onExported(
+            `Exported ${profiles.length} profile(s)${
+                includeTokens ? ' including access tokens' : ''
+            }`
+        );
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-md w-full mx-4">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Export Profiles
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="radio"
+                            name="exportScope"
+                            checked={scope === 'active'}
+                            onChange={() => setScope('active')}
+                            className="h-4 w-4"
+                        />
+                        Saved profile "{active?.name}"
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="radio"
+                            name="exportScope"
+                            checked={scope === 'all'}
+                            onChange={() => setScope('all')}
+                            className="h-4 w-4"
+                        />
+                        All profiles ({store.profiles.length})
+                    </label>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm mb-2">
+                    <input
+                        type="checkbox"
+                        checked={includeTokens}
+                        onChange={(e) => setIncludeTokens(e.target.checked)}
+                        className="h-4 w-4"
+                    />
+                    Include access tokens
+                </label>
+                {includeTokens && (
+                    <div className="mb-4 p-2 bg-yellow-50 border border-yellow-200 rounded-md flex items-start gap-2">
+                        <ExclamationTriangleIcon className="w-4 h-4 text-yellow-500 shrink-0" />
+                        <p className="text-[11px] text-yellow-700">
+                            Anyone with this file can join calls as these users
+                            until the tokens expire.
+                        </p>
+                    </div>
+                )}
+
+                <button
+                    type="button"
+                    onClick={exportProfiles}
+                    className="w-full bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded-md flex items-center justify-center gap-2 transition-colors"
+                >
+                    <DocumentArrowDownIcon className="w-4 h-4" />
+                    Download JSON
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default ExportProfilesDialog;
@@ -0,0 +1,101 @@
+import {
+    PhoneIcon,
+    PhoneXMarkIcon,
+    VideoCameraIcon,
+} from '@heroicons/react/24/outline';
+import type { IncomingCallOffer } from '../lib/callingService';
+import type { AutoAnswerAction } from '../lib/autoAnswer';
+import { CALLER_KIND_LABELS, getCallerKind } from '../lib/teams';
+import type { AutoAnswerCountdown } from '../hooks/useAutoAnswer';
+import { useNow } from '../hooks/useNow';
+
+interface IncomingCallModalProps {
+    offer: IncomingCallOffer;
+    // Set while an auto-answer rule is about to act on the call
+    autoAnswer?: AutoAnswerCountdown;
+    onAccept: (withVideo: boolean) => void;
+    onReject: () => void;
+}
+
+const AUTO_ACTION_LABELS: Record<AutoAnswerAction, string> = {
+    answer: 'Answering',
+    reject: 'Rejecting',
+    busy: 'Sending busy',
+};
+
+function IncomingCallModal({
+    offer,
+    autoAnswer,
+    onAccept,
+    onReject,
+}: IncomingCallModalProps) {
+    const callerKind = getCallerKind(offer.callerId);
+    const now = useNow(250);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4 animate-pulse">
+                <div className="text-center">
+                    <div className="w-20 h-20 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <PhoneIcon className="w-10 h-10 text-white animate-bounce" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                        Incoming Call
+                    </h2>
+                    <p className="text-gray-600 mb-2">
+                        {offer.callerName || offer.callerId}
+                    </p>
+                    {/* Labelled by who is calling; isTeamsCall only means this identity is a Teams user */}
+                    <p className="text-sm text-gray-500">
+                        {CALLER_KIND_LABELS[callerKind]}
+                        {offer.isTeamsCall && ' - Teams Call'}
+                    </p>
+                    <p
+                        className="text-[11px] text-gray-400 font-mono truncate mb-6"
+                        title={offer.callerId}
+                    >
+                        {offer.callerId}
+                    </p>
+                    {autoAnswer && (
+                        <p className="-mt-4 mb-4 text-xs font-medium text-purple-700">
+                            {AUTO_ACTION_LABELS[autoAnswer.rule.action]}{' '}
+                            automatically in{' '}
+                            {Math.max(
+                                0,
+                                Math.ceil(
+                                    (autoAnswer.dueAt - now.getTime()) / 1000
+                                )
+                            )}
+                            s
+                        </p>
+                    )}
+
+                    <div className="flex gap-4 justify-center">
+                        <button
+                            onClick={onReject}
+                            className="flex items-center justify-center w-16 h-16 bg-red-500 hover:bg-red-600 text-white rounded-full transition-colors"
+                        >
+                            <PhoneXMarkIcon className="w-8 h-8" />
+                        </button>
+                        <button
+                            onClick={() => onAccept(false)}
+                            title="Accept with audio only"
+                            className="flex items-center justify-center w-16 h-16 bg-green-500 hover:bg-green-600 text-white rounded-full transition-colors"
+                        >
+                            <PhoneIcon className="w-8 h-8" />
+                        </button>
+                        <button
+                            onClick={() => onAccept(true)}
+                            title="Accept with video"
+                            className="flex items-center justify-center w-16 h-16 bg-green-500 hover:bg-green-600 text-white rounded-full transition-colors"
+                        >
+                            <VideoCameraIcon className="w-8 h-8" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default IncomingCallModal;
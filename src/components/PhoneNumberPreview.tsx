@@ -0,0 +1,36 @@
+import { describePhoneNumber, parsePhoneNumber } from '../lib/phone';
+
+interface PhoneNumberPreviewProps {
+    value: string;
+    defaultCountry?: string;
+}
+
+// Hint under a phone number input: the E.164 number that will be dialled and what it is
+function PhoneNumberPreview({
+    value,
+    defaultCountry,
+}: PhoneNumberPreviewProps) {
+    if (!value.trim()) return null;
+    const parsed = parsePhoneNumber(value, defaultCountry);
+    return (
+        <p
+            className={`text-[11px] mt-1 ${
+                parsed.error || parsed.isUnassigned
+                    ? 'text-yellow-700'
+                    : 'text-gray-600'
+            }`}
+        >
+            {parsed.e164 && (
+                <>
+                    <span className="font-mono font-semibold">
+                        {parsed.e164}
+                    </span>{' '}
+                    -{' '}
+                </>
+            )}
+            {describePhoneNumber(parsed)}
+        </p>
+    );
+}
+
+export default PhoneNumberPreview;
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { StarIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import type { CallHistoryEntry } from '../types';
+import { formatDuration } from '../lib/callHistory';
+import { scoreCallQuality } from '../lib/mediaQuality';
+import {
+    formatCallEndReason,
+    type CallEndDescription,
+} from '../lib/callEndReasons';
+
+interface PostCallCardProps {
+    entry: CallHistoryEntry;
+    end: CallEndDescription;
+    // Saves the rating and notes with the call's history entry
+    onSaveReview: (rating: number | undefined, notes: string) => Promise<void>;
+    onDismiss: () => void;
+}
+
+// Ordinary endings are shown in grey, anything else as a warning
+const isExpectedEnd = (end: CallEndDescription) =>
+    end.kind === 'hungUp' || end.kind === 'endedForAll';
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+// Stays on the form after a call until dismissed or the next call starts
+function PostCallCard({
+    entry,
+    end,
+    onSaveReview,
+    onDismiss,
+}: PostCallCardProps) {
+    const [rating, setRating] = useState(entry.rating);
+    const [notes, setNotes] = useState(entry.notes ?? '');
+    const [saveStatus, setSaveStatus] = useState('');
+    const expected = isExpectedEnd(end);
+    const quality = scoreCallQuality(entry.mediaStats);
+    const timeToConnectMs = entry.connectedAt
+        ? new Date(entry.connectedAt).getTime() -
+          new Date(entry.startedAt).getTime()
+        : undefined;
+    const participants = entry.participants ?? [];
+
+    const saveReview = async () => {
+        try {
+            await onSaveReview(rating, notes.trim());
+            setSaveStatus('Saved to history');
+        } catch (error) {
+            console.error('Save call review error:', error);
+            setSaveStatus('Failed to save');
+        }
+        setTimeout(() => setSaveStatus(''), 3000);
+    };
+
+    const rows: [string, string][] = [
+        ['With', entry.displayName || entry.target],
+        [
+            'Duration',
+            entry.connectedAt
+                ? formatDuration(entry.durationMs ?? 0)
+                : 'Not connected',
+        ],
+        [
+            'Time to connect',
+            timeToConnectMs !== undefined
+                ? `${(timeToConnectMs / 1000).toFixed(1)}s`
+                : '-',
+        ],
+        [
+            'Participants',
+            participants.length > 0 ? participants.join(', ') : 'None',
+        ],
+        [
+            'Quality',
+            quality ? `${quality.score}/5 ${quality.label}` : 'No media stats',
+        ],
+    ];
+
+    return (
+        <section
+            aria-label="Call summary"
+            className={`mb-3 p-3 border rounded-md ${
+                expected
+                    ? 'bg-gray-50 border-gray-200'
+                    : 'bg-yellow-50 border-yellow-200'
+            }`}
+        >
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <p className="text-[11px] uppercase tracking-wide text-gray-500">
+                        Call ended
+                    </p>
+                    <p className="text-sm font-semibold text-gray-900">
+                        {end.message}
+                        {entry.endReason && (
+                            <span className="ml-2 px-1.5 py-0.5 bg-white border border-gray-200 text-[10px] font-mono font-normal rounded">
+                                {formatCallEndReason(entry.endReason)}
+                            </span>
+                        )}
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    title="Dismiss call summary"
+                    onClick={onDismiss}
+                    className="text-gray-400 hover:text-gray-600"
+                >
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mt-2 text-xs">
+                {rows.map(([label, value]) => (
+                    <div key={label} className="contents">
+                        <dt className="text-gray-500">{label}</dt>
+                        <dd className="text-gray-900 truncate" title={value}>
+                            {value}
+                        </dd>
+                    </div>
+                ))}
+            </dl>
+
+            <div className="mt-3 flex items-center gap-1">
+                <span className="text-xs text-gray-700 mr-1">Your rating</span>
+                {RATINGS.map((value) => (
+                    <button
+                        key={value}
+                        type="button"
+                        title={`${value} star${value > 1 ? 's' : ''}`}
+                        aria-pressed={rating === value}
+                        onClick={() =>
+                            setRating(rating === value ? undefined : value)
+                        }
+                        className="text-gray-400 hover:text-yellow-500"
+                    >
+                        {rating !== undefined && value <= rating ? (
+                            <StarSolidIcon className="w-5 h-5 text-yellow-500" />
+                        ) : (
+                            <StarIcon className="w-5 h-5" />
+                        )}
+                    </button>
+                ))}
+            </div>
+            <textarea
+                aria-label="Call notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes, e.g. test case, what worked, what did not"
+                rows={2}
+                className="mt-2 w-full px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500"
+            />
+            <div className="mt-1 flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={saveReview}
+                    className="px-3 py-1.5 bg-azure-blue-500 hover:bg-azure-blue-600 text-white text-xs font-medium rounded-md transition-colors"
+                >
+                    Save rating and notes
+                </button>
+                {saveStatus && (
+                    <span className="text-[11px] text-gray-600">
+                        {saveStatus}
+                    </span>
+                )}
+            </div>
+        </section>
+    );
+}
+
+export default PostCallCard;
@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+    CallClient,
+    LocalVideoStream,
+    VideoStreamRenderer,
+} from '@azure/communication-calling';
+import {
+    CheckCircleIcon,
+    ExclamationTriangleIcon,
+    SpeakerWaveIcon,
+    XCircleIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { CallConfig } from '../types';
+import {
+    buildPreCallResult,
+    checkDevices,
+    checkUdpConnectivity,
+    isSdkPreCallDiagnosticsAvailable,
+    loadStunServer,
+    playTestTone,
+    runSdkPreCallDiagnostics,
+    saveStunServer,
+    type CheckStatus,
+    type PreCallCheckItem,
+    type PreCallCheckResult,
+} from '../lib/preCallCheck';
+import { createTokenCredential } from '../lib/tokenRefresher';
+import { hasTokenSource } from '../lib/validators';
+import { useMicrophoneLevel } from '../hooks/useMicrophoneLevel';
+
+interface PreCallCheckDialogProps {
+    config: CallConfig;
+    // Called with the configuration the run started with, not the one current when it ends
+    onComplete: (result: PreCallCheckResult, checkedConfig: CallConfig) => void;
+    onClose: () => void;
+}
+
+const STATUS_STYLES: Record<CheckStatus, string> = {
+    pass: 'text-green-600',
+    warn: 'text-yellow-500',
+    fail: 'text-red-600',
+};
+
+const SUMMARY_STYLES: Record<CheckStatus, string> = {
+    pass: 'bg-green-50 border-green-200 text-green-700',
+    warn: 'bg-yellow-50 border-yellow-200 text-yellow-700',
+    fail: 'bg-red-50 border-red-200 text-red-700',
+};
+
+const SUMMARY_LABELS: Record<CheckStatus, string> = {
+    pass: 'All checks passed',
+    warn: 'Passed with warnings',
+    fail: 'Some checks failed',
+};
+
+function StatusIcon({ status }: { status: CheckStatus }) {
+    const className = `w-4 h-4 shrink-0 ${STATUS_STYLES[status]}`;
+    if (status === 'pass') return <CheckCircleIcon className={className} />;
+    if (status === 'warn') {
+        return <ExclamationTriangleIcon className={className} />;
+    }
+    return <XCircleIcon className={className} />;
+}
+
+function PreCallCheckDialog({
+    config,
+    onComplete,
+    onClose,
+}: PreCallCheckDialogProps) {
+    const [items, setItems] = useState<PreCallCheckItem[]>([]);
+    const [result, setResult] = useState<PreCallCheckResult | undefined>();
+    const [runId, setRunId] = useState(0);
+    const [hasDeviceAccess, setHasDeviceAccess] = useState(false);
+    const [previewError, setPreviewError] = useState('');
+    const [stunServer, setStunServer] = useState(loadStunServer);
+    const previewRef = useRef<HTMLDivElement>(null);
+    // Config edits while the dialog is open don't restart the check; "Run again" does
+    const configRef = useRef(config);
+    const stunServerRef = useRef(stunServer);
+    const onCompleteRef = useRef(onComplete);
+    useEffect(() => {
+        configRef.current = config;
+        stunServerRef.current = stunServer;
+        onCompleteRef.current = onComplete;
+    });
+    const microphone = useMicrophoneLevel(hasDeviceAccess);
+
+    useEffect(() => {
+        let cancelled = false;
+        let renderer: VideoStreamRenderer | undefined;
+        const config = configRef.current;
+        const collected: PreCallCheckItem[] = [];
+        const add = (next: PreCallCheckItem[]) => {
+            if (cancelled) return;
+            collected.push(...next);
+            setItems([...collected]);
+        };
+
+        const run = async () => {
+            const callClient = new CallClient();
+            const deviceManager = await callClient.getDeviceManager();
+            const deviceItems = await checkDevices(deviceManager);
+            add(deviceItems);
+            if (cancelled) return;
+            setHasDeviceAccess(
+                deviceItems.some(
+                    (item) =>
+                        item.id === 'microphones' && item.status === 'pass'
+                )
+            );
+
+            // Camera preview through the SDK, the same path a video call uses
+            const [camera] = await deviceManager.getCameras();
+            if (camera && !cancelled) {
+                try {
+                    renderer = new VideoStreamRenderer(
+                        new LocalVideoStream(camera)
+                    );
+                    const view = await renderer.createView({
+                        scalingMode: 'Crop',
+                    });
+                    if (cancelled) {
+                        renderer.dispose();
+                    } else {
+                        previewRef.current?.replaceChildren(view.target);
+                    }
+                } catch (error) {
+                    setPreviewError(
+                        error instanceof Error ? error.message : String(error)
+                    );
+                }
+            }
+
+            // Skipped unless a STUN server is set below
+            if (stunServerRef.current.trim()) {
+                add([await checkUdpConnectivity(stunServerRef.current)]);
+            }
+
+            if (isSdkPreCallDiagnosticsAvailable() && hasTokenSource(config)) {
+                add(
+                    await runSdkPreCallDiagnostics(
+                        callClient,
+                        createTokenCredential(config)
+                    )
+                );
+            }
+
+            if (!cancelled) {
+                const finished = buildPreCallResult(collected);
+                setResult(finished);
+                onCompleteRef.current(finished, config);
+            }
+        };
+
+        run().catch((error) => {
+            add([
+                {
+                    id: 'deviceManager',
+                    label: 'Device manager',
+                    status: 'fail',
+                    detail:
+                        error instanceof Error ? error.message : String(error),
+                },
+            ]);
+            if (!cancelled) {
+                const finished = buildPreCallResult(collected);
+                setResult(finished);
+                onCompleteRef.current(finished, config);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+            renderer?.dispose();
+        };
+    }, [runId]);
+
+    const runAgain = () => {
+        setItems([]);
+        setResult(undefined);
+        setPreviewError('');
+        setRunId((id) => id + 1);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto text-left">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Pre-call Check
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <div className="text-xs font-medium text-gray-700 mb-1">
+                            Camera preview
+                        </div>
+                        <div
+                            ref={previewRef}
+                            className="w-full aspect-video bg-gray-900 rounded-md overflow-hidden"
+                        />
+                        {previewError && (
+                            <p className="mt-1 text-[11px] text-red-600">
+                                {previewError}
+                            </p>
+                        )}
+                    </div>
+                    <div className="space-y-3">
+                        <div>
+                            <div className="text-xs font-medium text-gray-700 mb-1">
+                                Microphone level
+                            </div>
+                            <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-green-500 transition-[width] duration-75"
+                                    style={{
+                                        width: `${Math.round(
+                                            microphone.level * 100
+                                        )}%`,
+                                    }}
+                                />
+                            </div>
+                            <p className="mt-1 text-[11px] text-gray-500">
+                                {microphone.error ||
+                                    'Speak - the bar should move'}
+                            </p>
+                        </div>
+                        <div>
+                            <div className="text-xs font-medium text-gray-700 mb-1">
+                                Speakers
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    playTestTone().catch((error) =>
+                                        console.error(
+                                            'Failed to play test tone:',
+                                            error
+                                        )
+                                    )
+                                }
+                                className="inline-flex items-center gap-2 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded-md transition-colors"
+                            >
+                                <SpeakerWaveIcon className="w-4 h-4" />
+                                Play test tone
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="mb-3">
+                    <label
+                        htmlFor="preCallStunServer"
+                        className="block text-xs font-medium text-gray-700 mb-1"
+                    >
+                        STUN server for the UDP check
+                    </label>
+                    <input
+                        id="preCallStunServer"
+                        type="text"
+                        value={stunServer}
+                        onChange={(e) => {
+                            setStunServer(e.target.value);
+                            saveStunServer(e.target.value);
+                        }}
+                        placeholder="stun:stun.example.com:3478"
+                        className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500"
+                    />
+                    <p className="mt-1 text-[11px] text-gray-500">
+                        Your own or your TURN provider&apos;s server. Leave
+                        empty to skip the UDP check; changes apply on Run again.
+                    </p>
+                </div>
+
+                <ul className="space-y-1 mb-4">
+                    {items.map((item) => (
+                        <li
+                            key={item.id}
+                            className="flex items-start gap-2 text-xs"
+                        >
+                            <StatusIcon status={item.status} />
+                            <span className="font-medium text-gray-800 w-36 shrink-0">
+                                {item.label}
+                            </span>
+                            <span className="text-gray-600 break-words min-w-0">
+                                {item.detail}
+                            </span>
+                        </li>
+                    ))}
+                    {!result && (
+                        <li className="text-xs text-gray-500">
+                            Running checks...
+                        </li>
+                    )}
+                </ul>
+
+                {result && (
+                    <div
+                        className={`p-3 border rounded-md flex items-center justify-between ${
+                            SUMMARY_STYLES[result.overall]
+                        }`}
+                    >
+                        <span className="text-sm font-semibold">
+                            {SUMMARY_LABELS[result.overall]}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={runAgain}
+                            className="text-xs underline"
+                        >
+                            Run again
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default PreCallCheckDialog;
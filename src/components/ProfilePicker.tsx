@@ -0,0 +1,128 @@
+import {
+    DocumentDuplicateIcon,
+    PencilSquareIcon,
+    PlusIcon,
+    StarIcon,
+    TrashIcon,
+} from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import type { ProfileStore } from '../types';
+
+interface ProfilePickerProps {
+    store: ProfileStore;
+    activeProfileId: string;
+    onSelect: (id: string) => void;
+    onCreate: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onSetDefault: (id: string) => void;
+}
+
+const iconButtonClass =
+    'inline-flex items-center justify-center w-8 h-8 bg-gray-100 hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-gray-100 text-gray-700 rounded-md transition-colors';
+
+function ProfilePicker({
+    store,
+    activeProfileId,
+    onSelect,
+    onCreate,
+    onRename,
+    onDuplicate,
+    onDelete,
+    onSetDefault,
+}: ProfilePickerProps) {
+    const active = store.profiles.find((p) => p.id === activeProfileId);
+    const isDefault = store.defaultProfileId === activeProfileId;
+
+    return (
+        <div className="flex items-center gap-1">
+            <label htmlFor="profile" className="sr-only">
+                Configuration profile
+            </label>
+            <select
+                id="profile"
+                value={activeProfileId}
+                onChange={(e) => onSelect(e.target.value)}
+                className="h-8 max-w-[12rem] px-2 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500"
+            >
+                {store.profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                        {profile.id === store.defaultProfileId
+                            ? ' (default)'
+                            : ''}
+                    </option>
+                ))}
+            </select>
+            <button
+                type="button"
+                title="New profile"
+                onClick={() => {
+                    const name = window.prompt('Name for the new profile');
+                    if (name?.trim()) onCreate(name);
+                }}
+                className={iconButtonClass}
+            >
+                <PlusIcon className="w-4 h-4" />
+            </button>
+            <button
+                type="button"
+                title="Rename profile"
+                disabled={!active}
+                onClick={() => {
+                    const name = window.prompt('Rename profile', active?.name);
+                    if (active && name?.trim()) onRename(active.id, name);
+                }}
+                className={iconButtonClass}
+            >
+                <PencilSquareIcon className="w-4 h-4" />
+            </button>
+            <button
+                type="button"
+                title="Duplicate profile"
+                disabled={!active}
+                onClick={() => {
+                    const name = window.prompt(
+                        'Name for the copy',
+                        `${active?.name} (copy)`
+                    );
+                    if (active && name?.trim()) onDuplicate(active.id, name);
+                }}
+                className={iconButtonClass}
+            >
+                <DocumentDuplicateIcon className="w-4 h-4" />
+            </button>
+            <button
+                type="button"
+                title={isDefault ? 'Default profile' : 'Set as default profile'}
+                disabled={!active || isDefault}
+                onClick={() => onSetDefault(activeProfileId)}
+                className={iconButtonClass}
+            >
+                {isDefault ? (
+                    <StarSolidIcon className="w-4 h-4 text-yellow-500" />
+                ) : (
+                    <StarIcon className="w-4 h-4" />
+                )}
+            </button>
+            <button
+                type="button"
+                title="Delete profile"
+                disabled={!active || store.profiles.length <= 1}
+                onClick={() => {
+                    if (
+                        active &&
+                        window.confirm(`Delete profile "${active.name}"?`)
+                    )
+                        onDelete(active.id);
+                }}
+                className={iconButtonClass}
+            >
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
+
+export default ProfilePicker;
@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import {
+    ArrowDownTrayIcon,
+    DocumentArrowUpIcon,
+    PlayIcon,
+    StopIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { CallConfig } from '../types';
+import {
+    parseScenarios,
+    runScenarios,
+    toJUnitXml,
+    type ScenarioCalls,
+    type ScenarioResult,
+    type ScenarioStepStatus,
+} from '../lib/scenarios';
+import { downloadTextFile } from '../lib/profileTransfer';
+
+interface ScenarioRunnerDialogProps {
+    calls: ScenarioCalls;
+    // The form's configuration; scenarios call with its identity and token
+    baseConfig: CallConfig;
+    onClose: () => void;
+}
+
+const EXAMPLE_SCRIPT = `# One scenario, a list of them, or { scenarios: [...] }; JSON works too
+- name: Group join and hang-up
+  steps:
+    - action: configure
+      config: { callType: group, callValue: 29228d3e-040e-4656-a70e-890ab4e173e4 }
+    - startCall
+    - waitForState Connected 20s
+    - mute
+    - wait 5s
+    - hangUp
+- name: Hang up mid-ring
+  steps:
+    - action: configure
+      config: { callType: oneToOne, callValue: "8:acs:..." }
+    - startCall
+    - waitForState Ringing 10s
+    - hangUp
+`;
+
+const STATUS_STYLES: Record<ScenarioStepStatus, string> = {
+    pending: 'text-gray-400',
+    passed: 'text-green-700',
+    failed: 'text-red-700',
+    skipped: 'text-gray-500',
+};
+
+const formatMs = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Runs scripted call scenarios one after another and reports each step
+function ScenarioRunnerDialog({
+    calls,
+    baseConfig,
+    onClose,
+}: ScenarioRunnerDialogProps) {
+    const [script, setScript] = useState(EXAMPLE_SCRIPT);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [results, setResults] = useState<ScenarioResult[]>([]);
+    const [running, setRunning] = useState(false);
+    const controllerRef = useRef<AbortController | undefined>(undefined);
+
+    // Closing the dialog stops the run and hangs up its call
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const run = async () => {
+        const parsed = parseScenarios(script);
+        setErrors(parsed.errors);
+        if (parsed.errors.length || parsed.scenarios.length === 0) return;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setResults([]);
+        setRunning(true);
+        try {
+            setResults(
+                await runScenarios(parsed.scenarios, {
+                    calls,
+                    baseConfig,
+                    signal: controller.signal,
+                    onProgress: setResults,
+                })
+            );
+        } finally {
+            controllerRef.current = undefined;
+            setRunning(false);
+        }
+    };
+
+    const loadFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setScript(await file.text());
+        setErrors([]);
+    };
+
+    const passed = results.filter((result) => result.status === 'passed');
+    const finished = !running && results.length > 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Call Scenarios
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-xs text-gray-600 mb-3">
+                    Steps: configure, startCall, waitForState &lt;state&gt;
+                    [timeout], mute, unmute, sendDtmf &lt;tones&gt;, wait
+                    &lt;duration&gt;, hangUp and expectEndReason
+                    &lt;code&gt;[/subCode] [timeout]. Calls use the identity and
+                    token from the form, are checked and shown like calls
+                    started with Start Call and are saved to the history.
+                    {calls.simulateFailure &&
+                        ' simulateFailure <none|41001|401> makes the next simulated calls fail.'}
+                </p>
+
+                <textarea
+                    aria-label="Scenario script"
+                    value={script}
+                    onChange={(e) => setScript(e.target.value)}
+                    disabled={running}
+                    rows={12}
+                    spellCheck={false}
+                    className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 disabled:bg-gray-50"
+                />
+                {errors.length > 0 && (
+                    <ul className="mt-2 p-2 bg-red-50 border border-red-200 rounded-md text-red-700 text-[11px] space-y-0.5">
+                        {errors.map((error) => (
+                            <li key={error}>{error}</li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                    {running ? (
+                        <button
+                            type="button"
+                            onClick={() => controllerRef.current?.abort()}
+                            className="inline-flex items-center gap-2 px-3 py-2 bg-red-500 hover:bg-red-600 text-white text-xs font-medium rounded-md transition-colors"
+                        >
+                            <StopIcon className="w-4 h-4" />
+                            Stop
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={run}
+                            className="inline-flex items-center gap-2 px-3 py-2 bg-green-500 hover:bg-green-600 text-white text-xs font-medium rounded-md transition-colors"
+                        >
+                            <PlayIcon className="w-4 h-4" />
+                            Run scenarios
+                        </button>
+                    )}
+                    <label className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium rounded-md transition-colors cursor-pointer">
+                        <DocumentArrowUpIcon className="w-4 h-4" />
+                        Load file
+                        <input
+                            type="file"
+                            accept=".json,.yaml,.yml"
+                            onChange={loadFile}
+                            disabled={running}
+                            className="hidden"
+                        />
+                    </label>
+                    <button
+                        type="button"
+                        disabled={!finished}
+                        onClick={() =>
+                            downloadTextFile(
+                                `call-scenarios-${new Date()
+                                    .toISOString()
+                                    .replace(/[:.]/g, '-')}.xml`,
+                                toJUnitXml(results),
+                                'application/xml'
+                            )
+                        }
+                        className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 text-xs font-medium rounded-md transition-colors"
+                    >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        Download JUnit XML
+                    </button>
+                    {finished && (
+                        <span className="text-xs text-gray-700">
+                            {passed.length} of {results.length} scenario(s)
+                            passed
+                        </span>
+                    )}
+                </div>
+
+                {results.length > 0 && (
+                    <table className="w-full mt-4 text-xs">
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b border-gray-200">
+                                <th className="py-1 font-medium">Step</th>
+                                <th className="py-1 font-medium w-16">
+                                    Result
+                                </th>
+                                <th className="py-1 font-medium w-14 text-right">
+                                    Time
+                                </th>
+                            </tr>
+                        </thead>
+                        {results.map((result, resultIndex) => (
+                            <tbody key={`${resultIndex}-${result.name}`}>
+                                <tr className="bg-gray-50">
+                                    <th
+                                        colSpan={2}
+                                        className="py-1 px-1 text-left font-semibold text-gray-900"
+                                    >
+                                        {result.name}
+                                    </th>
+                                    <td className="py-1 px-1 text-right font-mono text-gray-700">
+                                        {formatMs(result.durationMs)}
+                                    </td>
+                                </tr>
+                                {result.steps.map((step, index) => (
+                                    <tr
+                                        key={index}
+                                        className="border-b border-gray-100 align-top"
+                                    >
+                                        <td className="py-1 px-1">
+                                            <span className="font-mono text-gray-800">
+                                                {step.label}
+                                            </span>
+                                            {step.message && (
+                                                <p className="text-[11px] text-red-600">
+                                                    {step.message}
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td
+                                            className={`py-1 px-1 capitalize ${
+                                                STATUS_STYLES[step.status]
+                                            }`}
+                                        >
+                                            {step.status}
+                                        </td>
+                                        <td className="py-1 px-1 text-right font-mono text-gray-600">
+                                            {step.status === 'passed' ||
+                                            step.status === 'failed'
+                                                ? formatMs(step.durationMs)
+                                                : ''}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        ))}
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default ScenarioRunnerDialog;
@@ -0,0 +1,243 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+    BeakerIcon,
+    ComputerDesktopIcon,
+    MicrophoneIcon,
+    PhoneXMarkIcon,
+    SignalSlashIcon,
+    UserMinusIcon,
+    UserCircleIcon,
+    UserPlusIcon,
+} from '@heroicons/react/24/outline';
+import {
+    SIMULATED_END_REASONS,
+    type SimulatedCall,
+    type SimulatedCallSnapshot,
+} from '../lib/simulatedCallingService';
+import { getRoomCapabilities, ROOM_ROLES, type RoomRole } from '../lib/rooms';
+
+interface SimulatedCallViewProps {
+    call: SimulatedCall;
+    displayName: string;
+    onHangUp: () => void;
+}
+
+const NETWORK_QUALITIES: SimulatedCallSnapshot['networkQuality'][] = [
+    'Good',
+    'Poor',
+    'Bad',
+];
+
+const initials = (name: string) =>
+    name
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((part) => part[0]?.toUpperCase())
+        .join('') || '?';
+
+function ParticipantTile({ name, detail }: { name: string; detail?: string }) {
+    return (
+        <div className="bg-gray-700 rounded-lg flex flex-col items-center justify-center p-4 aspect-video">
+            <div className="w-14 h-14 rounded-full bg-azure-blue-500 text-white flex items-center justify-center text-lg font-semibold">
+                {initials(name)}
+            </div>
+            <div className="mt-2 text-sm text-white truncate max-w-full">
+                {name}
+            </div>
+            {detail && (
+                <div className="text-[11px] text-gray-300">{detail}</div>
+            )}
+        </div>
+    );
+}
+
+// Stand-in for the call composite while simulation mode is on: participant tiles,
+// basic call controls and buttons that make the fake backend raise events
+function SimulatedCallView({
+    call,
+    displayName,
+    onHangUp,
+}: SimulatedCallViewProps) {
+    const snapshot = useSyncExternalStore(call.subscribe, call.getSnapshot);
+    // Index into SIMULATED_END_REASONS
+    const [remoteEnd, setRemoteEnd] = useState(0);
+    const capabilities = getRoomCapabilities(snapshot.role);
+    const canUnmute = !snapshot.isMuted || capabilities.unmuteMic;
+    const canShareScreen = snapshot.isScreenSharing || capabilities.shareScreen;
+    const selfDetail = [
+        'You',
+        snapshot.role,
+        snapshot.isMuted && 'muted',
+        snapshot.isScreenSharing && 'sharing screen',
+    ]
+        .filter(Boolean)
+        .join(', ');
+    const controlClassName =
+        'inline-flex items-center gap-2 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded-md transition-colors';
+
+    return (
+        <div className="h-full flex flex-col bg-gray-800">
+            <div className="flex-1 min-h-0 overflow-y-auto p-4">
+                <div className="mb-3 text-center text-xs text-gray-300">
+                    Simulated call - {snapshot.state}
+                    {snapshot.tonesReceived && (
+                        <span className="ml-2 font-mono">
+                            Tones received: {snapshot.tonesReceived}
+                        </span>
+                    )}
+                </div>
+                <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+                    <ParticipantTile
+                        name={displayName || 'You'}
+                        detail={selfDetail}
+                    />
+                    {snapshot.participants.map((participant) => (
+                        <ParticipantTile
+                            key={participant.id}
+                            name={participant.displayName}
+                        />
+                    ))}
+                </div>
+            </div>
+            <div className="bg-white border-t border-gray-200 p-3 flex flex-wrap items-center justify-center gap-2">
+                <button
+                    type="button"
+                    onClick={call.toggleMute}
+                    disabled={!canUnmute}
+                    title={
+                        canUnmute
+                            ? undefined
+                            : `A ${snapshot.role} cannot unmute in this room`
+                    }
+                    className={`${controlClassName} disabled:opacity-50`}
+                >
+                    <MicrophoneIcon className="w-4 h-4" />
+                    {snapshot.isMuted ? 'Unmute' : 'Mute'}
+                </button>
+                <button
+                    type="button"
+                    onClick={call.toggleScreenShare}
+                    disabled={!canShareScreen}
+                    title={
+                        canShareScreen
+                            ? undefined
+                            : `A ${snapshot.role} cannot share their screen in this room`
+                    }
+                    className={`${controlClassName} disabled:opacity-50`}
+                >
+                    <ComputerDesktopIcon className="w-4 h-4" />
+                    {snapshot.isScreenSharing ? 'Stop sharing' : 'Share screen'}
+                </button>
+                <button
+                    type="button"
+                    onClick={onHangUp}
+                    className="inline-flex items-center gap-2 px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-xs rounded-md transition-colors"
+                >
+                    <PhoneXMarkIcon className="w-4 h-4" />
+                    Hang up
+                </button>
+                <span className="mx-2 h-6 border-l border-gray-200" />
+                <span className="inline-flex items-center gap-1 text-xs font-medium text-purple-700">
+                    <BeakerIcon className="w-4 h-4" />
+                    Simulate:
+                </span>
+                <button
+                    type="button"
+                    onClick={call.addParticipant}
+                    className={controlClassName}
+                >
+                    <UserPlusIcon className="w-4 h-4" />
+                    Participant joins
+                </button>
+                <button
+                    type="button"
+                    onClick={call.removeParticipant}
+                    disabled={snapshot.participants.length === 0}
+                    className={`${controlClassName} disabled:opacity-50`}
+                >
+                    <UserMinusIcon className="w-4 h-4" />
+                    Participant leaves
+                </button>
+                <label className="inline-flex items-center gap-1 text-xs text-gray-700">
+                    <SignalSlashIcon className="w-4 h-4" />
+                    Network
+                    <select
+                        value={snapshot.networkQuality}
+                        onChange={(e) =>
+                            call.setNetworkQuality(
+                                e.target
+                                    .value as SimulatedCallSnapshot['networkQuality']
+                            )
+                        }
+                        className="px-1 py-1 border border-gray-300 rounded text-xs"
+                    >
+                        {NETWORK_QUALITIES.map((quality) => (
+                            <option key={quality} value={quality}>
+                                {quality}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {snapshot.role && (
+                    <label className="inline-flex items-center gap-1 text-xs text-gray-700">
+                        <UserCircleIcon className="w-4 h-4" />
+                        Role
+                        <select
+                            value={snapshot.role}
+                            onChange={(e) =>
+                                call.setRole(e.target.value as RoomRole)
+                            }
+                            className="px-1 py-1 border border-gray-300 rounded text-xs"
+                        >
+                            {ROOM_ROLES.map((role) => (
+                                <option key={role} value={role}>
+                                    {role}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                <button
+                    type="button"
+                    onClick={() => call.raiseError('41001')}
+                    className={controlClassName}
+                >
+                    Error 41001
+                </button>
+                <button
+                    type="button"
+                    onClick={() => call.raiseError('401')}
+                    className={controlClassName}
+                >
+                    Error 401
+                </button>
+                <select
+                    aria-label="Remote end reason"
+                    value={remoteEnd}
+                    onChange={(e) => setRemoteEnd(Number(e.target.value))}
+                    className="px-1 py-1 border border-gray-300 rounded text-xs"
+                >
+                    {SIMULATED_END_REASONS.map(({ label }, index) => (
+                        <option key={label} value={index}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    onClick={() =>
+                        call.remoteHangUp(
+                            SIMULATED_END_REASONS[remoteEnd].endReason
+                        )
+                    }
+                    className={controlClassName}
+                >
+                    Remote hang-up
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default SimulatedCallView;
@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from 'react';
+import { PlayIcon, StopIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { CallingService } from '../lib/callingService';
+import {
+    MAX_SOAK_AGENTS,
+    parseSoakAgents,
+    startSoakTest,
+    summarizeSoakTest,
+    type SoakAgentStatus,
+    type SoakTest,
+} from '../lib/soak';
+import { formatCallEndReason } from '../lib/callEndReasons';
+import { isGuid } from '../lib/validators';
+
+interface SoakTestDialogProps {
+    service: CallingService;
+    // The form's group ID, if it has one, to join the agents to by default
+    groupId: string;
+    onClose: () => void;
+}
+
+// The simulation accepts any token, so a few made-up agents are enough to try it
+const SIMULATED_AGENTS = Array.from(
+    { length: 5 },
+    (_, index) => `8:acs:simulated-soak-${index + 1},,Soak agent ${index + 1}`
+).join('\n');
+
+const STATE_STYLES: Record<string, string> = {
+    Connected: 'bg-green-50 border-green-200 text-green-800',
+    Failed: 'bg-red-50 border-red-200 text-red-800',
+    Disconnected: 'bg-gray-50 border-gray-200 text-gray-600',
+    'Not started': 'bg-gray-50 border-gray-200 text-gray-400',
+};
+
+const formatMs = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Joins many headless agents to one group call and shows how each one fares
+function SoakTestDialog({ service, groupId, onClose }: SoakTestDialogProps) {
+    const [agentsText, setAgentsText] = useState(
+        service.mode === 'simulated' ? SIMULATED_AGENTS : ''
+    );
+    const [targetGroupId, setTargetGroupId] = useState(
+        isGuid(groupId) ? groupId : crypto.randomUUID()
+    );
+    const [syntheticAudio, setSyntheticAudio] = useState(false);
+    const [staggerMs, setStaggerMs] = useState(500);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [statuses, setStatuses] = useState<SoakAgentStatus[]>([]);
+    const [status, setStatus] = useState<'idle' | 'running' | 'stopping'>(
+        'idle'
+    );
+    const testRef = useRef<SoakTest | undefined>(undefined);
+
+    // Closing the dialog tears the agents down
+    useEffect(() => () => void testRef.current?.stop(), []);
+
+    const start = () => {
+        const parsed = parseSoakAgents(agentsText, {
+            requireTokens: service.mode === 'acs',
+        });
+        const groupErrors = isGuid(targetGroupId)
+            ? []
+            : ['The group ID must be a GUID'];
+        const allErrors = [
+            ...groupErrors,
+            ...parsed.errors,
+            ...(parsed.agents.length === 0 && parsed.errors.length === 0
+                ? ['List at least one agent']
+                : []),
+        ];
+        setErrors(allErrors);
+        if (allErrors.length) return;
+        testRef.current = startSoakTest({
+            service,
+            agents: parsed.agents,
+            groupId: targetGroupId.trim(),
+            syntheticAudio,
+            staggerMs,
+            onUpdate: setStatuses,
+        });
+        setStatus('running');
+    };
+
+    const stop = async () => {
+        const test = testRef.current;
+        if (!test) return;
+        setStatus('stopping');
+        await test.stop();
+        testRef.current = undefined;
+        setStatus('idle');
+    };
+
+    const summary = summarizeSoakTest(statuses);
+    const running = status !== 'idle';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Soak Test
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-xs text-gray-600 mb-3">
+                    One agent per line as userId,token[,display name], up to{' '}
+                    {MAX_SOAK_AGENTS}. Every agent joins the group call from
+                    this page, muted unless synthetic audio is on
+                    {service.mode === 'simulated' &&
+                        '; with the simulated backend any token will do'}
+                    .
+                </p>
+
+                <textarea
+                    aria-label="Soak agents"
+                    value={agentsText}
+                    onChange={(e) => setAgentsText(e.target.value)}
+                    disabled={running}
+                    rows={6}
+                    spellCheck={false}
+                    placeholder="8:acs:...,eyJ...,Agent 1"
+                    className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 disabled:bg-gray-50"
+                />
+                <div className="grid grid-cols-[1fr_auto] gap-3 mt-2">
+                    <label className="text-xs text-gray-700">
+                        Group ID
+                        <input
+                            type="text"
+                            value={targetGroupId}
+                            onChange={(e) => setTargetGroupId(e.target.value)}
+                            disabled={running}
+                            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 disabled:bg-gray-50"
+                        />
+                    </label>
+                    <label className="text-xs text-gray-700">
+                        Stagger (ms)
+                        <input
+                            type="number"
+                            min={0}
+                            step={100}
+                            value={staggerMs}
+                            onChange={(e) =>
+                                setStaggerMs(
+                                    Math.max(0, Number(e.target.value))
+                                )
+                            }
+                            disabled={running}
+                            className="mt-1 w-24 px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 disabled:bg-gray-50"
+                        />
+                    </label>
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-xs text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={syntheticAudio}
+                        onChange={(e) => setSyntheticAudio(e.target.checked)}
+                        disabled={running}
+                    />
+                    Send synthetic audio (a tone per agent)
+                </label>
+                {errors.length > 0 && (
+                    <ul className="mt-2 p-2 bg-red-50 border border-red-200 rounded-md text-red-700 text-[11px] space-y-0.5">
+                        {errors.map((error) => (
+                            <li key={error}>{error}</li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                    {running ? (
+                        <button
+                            type="button"
+                            onClick={stop}
+                            disabled={status === 'stopping'}
+                            className="inline-flex items-center gap-2 px-3 py-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white text-xs font-medium rounded-md transition-colors"
+                        >
+                            <StopIcon className="w-4 h-4" />
+                            {status === 'stopping'
+                                ? 'Stopping...'
+                                : 'Stop and hang up all'}
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={start}
+                            className="inline-flex items-center gap-2 px-3 py-2 bg-green-500 hover:bg-green-600 text-white text-xs font-medium rounded-md transition-colors"
+                        >
+                            <PlayIcon className="w-4 h-4" />
+                            Start soak test
+                        </button>
+                    )}
+                    {statuses.length > 0 && (
+                        <span className="text-xs text-gray-700">
+                            {summary.connected} of {statuses.length} connected
+                            {summary.failed > 0 && `, ${summary.failed} failed`}
+                            {summary.dropped > 0 &&
+                                `, ${summary.dropped} dropped`}
+                            {summary.averageJoinMs !== undefined &&
+                                ` · join avg ${formatMs(
+                                    summary.averageJoinMs
+                                )}, max ${formatMs(summary.maxJoinMs!)}`}
+                        </span>
+                    )}
+                </div>
+
+                {statuses.length > 0 && (
+                    <ul
+                        aria-label="Soak agents status"
+                        className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4"
+                    >
+                        {statuses.map((agent, index) => (
+                            <li
+                                key={index}
+                                className={`p-2 border rounded-md text-xs ${
+                                    STATE_STYLES[agent.state] ??
+                                    'bg-yellow-50 border-yellow-200 text-yellow-800'
+                                }`}
+                            >
+                                <p
+                                    className="font-semibold truncate"
+                                    title={agent.userId}
+                                >
+                                    {agent.displayName}
+                                </p>
+                                <p>{agent.state}</p>
+                                <p className="font-mono text-[11px]">
+                                    {agent.joinLatencyMs !== undefined
+                                        ? `join ${formatMs(
+                                              agent.joinLatencyMs
+                                          )}`
+                                        : '-'}
+                                </p>
+                                {agent.endReason && (
+                                    <p className="text-[11px]">
+                                        Ended{' '}
+                                        {formatCallEndReason(agent.endReason)}
+                                    </p>
+                                )}
+                                {agent.error && (
+                                    <p
+                                        className="text-[11px] truncate"
+                                        title={agent.error}
+                                    >
+                                        {agent.error}
+                                    </p>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default SoakTestDialog;
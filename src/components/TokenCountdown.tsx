@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import {
+    ClockIcon,
+    ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { useNow } from '../hooks/useNow';
+import { decodeJWT } from '../lib/jwt';
+import { formatCountdown, getCrossedThreshold } from '../lib/expiryWarnings';
+import { showBrowserNotification } from '../lib/notifications';
+
+interface TokenCountdownProps {
+    token: string;
+    // Warning thresholds in minutes, largest first
+    thresholds: number[];
+    // Fire a browser notification on each threshold (an active call or listener depends on the token)
+    notify: boolean;
+    variant?: 'inline' | 'header';
+}
+
+function TokenCountdown({
+    token,
+    thresholds,
+    notify,
+    variant = 'inline',
+}: TokenCountdownProps) {
+    const now = useNow();
+    const expiresAt = decodeJWT(token, now).expirationTime?.getTime();
+    const remainingMs =
+        expiresAt !== undefined ? expiresAt - now.getTime() : undefined;
+    const crossed =
+        remainingMs !== undefined
+            ? getCrossedThreshold(remainingMs, thresholds)
+            : undefined;
+    const isExpired = remainingMs !== undefined && remainingMs <= 0;
+    const isCritical =
+        isExpired ||
+        (crossed !== undefined && crossed === Math.min(...thresholds));
+
+    // Notify once per threshold for each token (a refreshed token starts over)
+    const notifiedRef = useRef<{ expiresAt?: number; threshold?: number }>({});
+    useEffect(() => {
+        if (!notify || expiresAt === undefined || crossed === undefined) {
+            return;
+        }
+        const previous = notifiedRef.current;
+        if (
+            previous.expiresAt === expiresAt &&
+            previous.threshold !== undefined &&
+            previous.threshold <= crossed
+        ) {
+            return;
+        }
+        notifiedRef.current = { expiresAt, threshold: crossed };
+        showBrowserNotification(
+            'ACS access token expiring',
+            `The token expires in under ${crossed} minute(s). The active call or listener will stop working unless the token is refreshed.`
+        );
+    }, [notify, expiresAt, crossed]);
+
+    if (remainingMs === undefined) return null;
+
+    const warning = isExpired
+        ? 'Token expired'
+        : crossed !== undefined
+        ? `Token expires in under ${crossed} min`
+        : '';
+
+    if (variant === 'header') {
+        return (
+            <span
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium font-mono ${
+                    isCritical
+                        ? 'bg-red-100 text-red-700'
+                        : crossed !== undefined
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-white/20 text-white'
+                }`}
+                title={warning || 'Time until the access token expires'}
+            >
+                {warning ? (
+                    <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+                ) : (
+                    <ClockIcon className="w-3.5 h-3.5" />
+                )}
+                {isExpired ? 'Token expired' : formatCountdown(remainingMs)}
+            </span>
+        );
+    }
+
+    return (
+        <>
+            {!isExpired && (
+                <span className="ml-2 font-mono">
+                    ({formatCountdown(remainingMs)} remaining)
+                </span>
+            )}
+            {warning && !isExpired && (
+                <span
+                    className={`ml-2 font-medium ${
+                        isCritical ? 'text-red-600' : 'text-yellow-700'
+                    }`}
+                >
+                    {warning}
+                </span>
+            )}
+        </>
+    );
+}
+
+export default TokenCountdown;
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import {
+    ChevronDownIcon,
+    ChevronRightIcon,
+    ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { decodeJWT, getTokenWarnings } from '../lib/jwt';
+
+interface TokenInspectorProps {
+    token: string;
+    userId: string;
+}
+
+// Claims shown first with a short description; anything else is listed after them
+const KNOWN_CLAIMS: Record<string, string> = {
+    skypeid: 'Identity',
+    scp: 'Scope bitmask',
+    acsScope: 'Scopes',
+    resourceId: 'ACS resource ID',
+    resourceLocation: 'Resource location',
+    rgn: 'Region',
+    csi: 'Client session ID',
+    iat: 'Issued at',
+    nbf: 'Not before',
+    exp: 'Expires',
+};
+const TIME_CLAIMS = ['iat', 'nbf', 'exp'];
+
+const formatClaim = (claim: string, value: unknown) => {
+    if (TIME_CLAIMS.includes(claim) && typeof value === 'number') {
+        return `${new Date(value * 1000).toLocaleString()} (${value})`;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function ClaimTable({ claims }: { claims: Record<string, unknown> }) {
+    const names = [
+        ...Object.keys(KNOWN_CLAIMS).filter((claim) => claim in claims),
+        ...Object.keys(claims).filter((claim) => !(claim in KNOWN_CLAIMS)),
+    ];
+    return (
+        <table className="w-full text-[11px]">
+            <tbody>
+                {names.map((claim) => (
+                    <tr key={claim} className="align-top">
+                        <td className="pr-2 py-0.5 font-mono text-gray-700 whitespace-nowrap">
+                            {claim}
+                        </td>
+                        <td className="pr-2 py-0.5 text-gray-500 whitespace-nowrap">
+                            {KNOWN_CLAIMS[claim] ?? ''}
+                        </td>
+                        <td className="py-0.5 font-mono text-gray-900 break-all">
+                            {formatClaim(claim, claims[claim])}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function TokenInspector({ token, userId }: TokenInspectorProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const tokenInfo = decodeJWT(token);
+    if (!tokenInfo.payload) return null;
+
+    const warnings = getTokenWarnings(tokenInfo, userId);
+
+    return (
+        <div className="mt-1">
+            {warnings.map((warning) => (
+                <div
+                    key={warning}
+                    className="mt-1 p-2 bg-yellow-50 border border-yellow-200 rounded-md flex items-center gap-2"
+                >
+                    <ExclamationTriangleIcon className="w-3.5 h-3.5 text-yellow-500 shrink-0" />
+                    <span className="text-[11px] text-yellow-700">
+                        {warning}
+                    </span>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="mt-1 inline-flex items-center gap-1 text-[11px] text-blue-700 hover:underline"
+            >
+                {isExpanded ? (
+                    <ChevronDownIcon className="w-3 h-3" />
+                ) : (
+                    <ChevronRightIcon className="w-3 h-3" />
+                )}
+                Inspect token
+            </button>
+
+            {isExpanded && (
+                <div className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded-md space-y-2 text-left">
+                    {tokenInfo.header && (
+                        <div>
+                            <div className="text-[11px] font-semibold text-gray-800 mb-0.5">
+                                Header
+                            </div>
+                            <ClaimTable claims={tokenInfo.header} />
+                        </div>
+                    )}
+                    <div>
+                        <div className="text-[11px] font-semibold text-gray-800 mb-0.5">
+                            Payload
+                        </div>
+                        <ClaimTable claims={tokenInfo.payload} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default TokenInspector;
@@ -0,0 +1,87 @@
+import {
+    ArrowPathIcon,
+    ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import type { TokenRefreshStatus } from '../types';
+
+interface TokenRefreshStatusBadgeProps {
+    status: TokenRefreshStatus;
+    // Single-line variant for the in-call header bar
+    compact?: boolean;
+}
+
+function TokenRefreshStatusBadge({
+    status,
+    compact = false,
+}: TokenRefreshStatusBadgeProps) {
+    // A failure only matters if it happened after the last successful refresh
+    const hasFailed = Boolean(
+        status.lastFailedAt &&
+            (!status.lastRefreshedAt ||
+                status.lastFailedAt > status.lastRefreshedAt)
+    );
+
+    const label = hasFailed
+        ? `Refresh failed at ${status.lastFailedAt!.toLocaleTimeString()}`
+        : status.lastRefreshedAt
+        ? `Last refreshed ${status.lastRefreshedAt.toLocaleTimeString()}`
+        : 'Auto-refresh enabled, waiting for first refresh';
+
+    if (compact) {
+        return (
+            <span
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${
+                    hasFailed
+                        ? 'bg-red-100 text-red-700'
+                        : 'bg-white/20 text-white'
+                }`}
+                title={hasFailed ? status.lastError : undefined}
+            >
+                {hasFailed ? (
+                    <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+                ) : (
+                    <ArrowPathIcon className="w-3.5 h-3.5" />
+                )}
+                {label}
+            </span>
+        );
+    }
+
+    return (
+        <div
+            className={`mt-1 p-2 rounded-md border ${
+                hasFailed
+                    ? 'bg-red-50 border-red-200'
+                    : 'bg-blue-50 border-blue-200'
+            }`}
+        >
+            <div className="flex items-center gap-2">
+                {hasFailed ? (
+                    <ExclamationTriangleIcon className="w-3.5 h-3.5 text-red-500" />
+                ) : (
+                    <ArrowPathIcon className="w-3.5 h-3.5 text-blue-500" />
+                )}
+                <span
+                    className={`text-xs font-medium ${
+                        hasFailed ? 'text-red-700' : 'text-blue-700'
+                    }`}
+                >
+                    {label}
+                </span>
+            </div>
+            {hasFailed && status.lastError && (
+                <div className="text-[11px] mt-0.5 text-red-600">
+                    {status.lastError}
+                    {status.lastRefreshedAt && (
+                        <span className="ml-2">
+                            (last success{' '}
+                            {status.lastRefreshedAt.toLocaleTimeString()})
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default TokenRefreshStatusBadge;
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { LockClosedIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_AUTO_LOCK_MINUTES } from '../lib/tokenVault';
+
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface TokenVaultDialogProps {
+    mode: 'create' | 'unlock';
+    onCreate: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+    onUnlock: (passphrase: string) => Promise<void>;
+    // Forgot passphrase: drop the vault together with every encrypted token
+    onReset: () => void;
+    onClose: () => void;
+}
+
+function TokenVaultDialog({
+    mode,
+    onCreate,
+    onUnlock,
+    onReset,
+    onClose,
+}: TokenVaultDialogProps) {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [autoLockMinutes, setAutoLockMinutes] = useState(
+        DEFAULT_AUTO_LOCK_MINUTES
+    );
+    const [error, setError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    const submit = async () => {
+        if (mode === 'create') {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+                setError(
+                    `Use at least ${MIN_PASSPHRASE_LENGTH} characters for the passphrase`
+                );
+                return;
+            }
+            if (passphrase !== confirmation) {
+                setError('Passphrases do not match');
+                return;
+            }
+        }
+
+        try {
+            setIsWorking(true);
+            setError('');
+            if (mode === 'create') {
+                await onCreate(passphrase, autoLockMinutes);
+            } else {
+                await onUnlock(passphrase);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    submit();
+                }}
+                className="bg-white rounded-2xl shadow-2xl p-6 max-w-md w-full mx-4"
+            >
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <LockClosedIcon className="w-5 h-5 text-azure-blue-500" />
+                        {mode === 'create'
+                            ? 'Protect Access Tokens'
+                            : 'Unlock Access Tokens'}
+                    </h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-xs text-gray-600 mb-4">
+                    {mode === 'create'
+                        ? 'Saved tokens will be encrypted with this passphrase. Other settings stay readable without it. The passphrase cannot be recovered.'
+                        : 'Saved tokens are encrypted. Enter your passphrase to use them, or continue without tokens.'}
+                </p>
+
+                <label
+                    htmlFor="vaultPassphrase"
+                    className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                    Passphrase
+                </label>
+                <input
+                    type="password"
+                    id="vaultPassphrase"
+                    autoFocus
+                    autoComplete={
+                        mode === 'create' ? 'new-password' : 'current-password'
+                    }
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 text-sm"
+                />
+
+                {mode === 'create' && (
+                    <>
+                        <label
+                            htmlFor="vaultPassphraseConfirm"
+                            className="block text-xs font-medium text-gray-700 mb-1"
+                        >
+                            Confirm passphrase
+                        </label>
+                        <input
+                            type="password"
+                            id="vaultPassphraseConfirm"
+                            autoComplete="new-password"
+                            value={confirmation}
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-azure-blue-500 focus:border-azure-blue-500 text-sm"
+                        />
+                        <label
+                            htmlFor="vaultAutoLock"
+                            className="block text-xs font-medium text-gray-700 mb-1"
+                        >
+                            Auto-lock after inactivity
+                        </label>
+                        <select
+                            id="vaultAutoLock"
+                            value={autoLockMinutes}
+                            onChange={(e) =>
+                                setAutoLockMinutes(Number(e.target.value))
+                            }
+                            className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        >
+                            {AUTO_LOCK_OPTIONS.map((minutes) => (
+                                <option key={minutes} value={minutes}>
+                                    {minutes} minutes
+                                </option>
+                            ))}
+                        </select>
+                    </>
+                )}
+
+                {error && (
+                    <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded-md">
+                        <p className="text-red-700 text-xs">{error}</p>
+                    </div>
+                )}
+
+                <button
+                    type="submit"
+                    disabled={isWorking || !passphrase}
+                    className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-2 px-4 rounded-md transition-colors"
+                >
+                    {isWorking
+                        ? 'Working...'
+                        : mode === 'create'
+                        ? 'Encrypt Tokens'
+                        : 'Unlock'}
+                </button>
+
+                {mode === 'unlock' && (
+                    <div className="mt-3 flex items-center justify-between text-xs">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="text-gray-600 hover:text-gray-800"
+                        >
+                            Continue without tokens
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                if (
+                                    window.confirm(
+                                        'Reset the vault? All encrypted tokens will be deleted.'
+                                    )
+                                )
+                                    onReset();
+                            }}
+                            className="text-red-600 hover:text-red-700"
+                        >
+                            Forgot passphrase?
+                        </button>
+                    </div>
+                )}
+            </form>
+        </div>
+    );
+}
+
+export default TokenVaultDialog;
@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CallMachineState } from '../lib/callMachine';
+import {
+    describeAutoAnswerRule,
+    findAutoAnswerRule,
+    type AutoAnswerRule,
+    type AutoAnswerSettings,
+} from '../lib/autoAnswer';
+
+export interface AutoAnswerDecision {
+    at: Date;
+    caller: string;
+    detail: string;
+}
+
+// The rule about to act on the ringing call, for the incoming call modal
+export interface AutoAnswerCountdown {
+    rule: AutoAnswerRule;
+    dueAt: number;
+}
+
+// Each action resolves with why it failed, or undefined when it worked
+export interface AutoAnswerActions {
+    answer: (withVideo: boolean) => Promise<string | undefined>;
+    reject: () => Promise<string | undefined>;
+    hangUp: () => Promise<string | undefined>;
+    // Every automated decision, also written to the call timeline
+    onDecision: (detail: string) => void;
+}
+
+const MAX_DECISIONS = 50;
+
+// Applies the auto-answer rules to incoming calls: answers, rejects or sends busy once
+// the matching rule's delay is up, and hangs up auto-answered calls after their duration.
+// Accepting or rejecting by hand first cancels the pending action.
+export function useAutoAnswer(
+    settings: AutoAnswerSettings,
+    state: CallMachineState,
+    actions: AutoAnswerActions
+) {
+    const [decisions, setDecisions] = useState<AutoAnswerDecision[]>([]);
+    const [countdown, setCountdown] = useState<AutoAnswerCountdown>();
+    const settingsRef = useRef(settings);
+    const actionsRef = useRef(actions);
+    useEffect(() => {
+        settingsRef.current = settings;
+        actionsRef.current = actions;
+    });
+
+    const callerRef = useRef('');
+    const [decide] = useState(() => (detail: string) => {
+        setDecisions((prev) =>
+            [
+                { at: new Date(), caller: callerRef.current, detail },
+                ...prev,
+            ].slice(0, MAX_DECISIONS)
+        );
+        actionsRef.current.onDecision(detail);
+    });
+
+    // Failed actions are reported like any other decision
+    const [perform] = useState(
+        () =>
+            async (
+                action: () => Promise<string | undefined>,
+                failure: string
+            ) => {
+                const error = await action();
+                if (error) decide(`${failure}: ${error}`);
+            }
+    );
+
+    // A failed answer puts the same offer back to ringing; acting on it again
+    // would retry for as long as it keeps failing
+    const handledOfferIdsRef = useRef(new Set<string>());
+
+    // Seconds to stay in the call answered by a rule, picked up once it is in progress
+    const hangUpAfterRef = useRef(0);
+    const { offer } = state;
+    const isRinging = state.phase === 'ringing';
+    useEffect(() => {
+        if (!offer || !isRinging || !settingsRef.current.enabled) return;
+        if (handledOfferIdsRef.current.has(offer.id)) return;
+        callerRef.current = offer.callerName || offer.callerId;
+        const rule = findAutoAnswerRule(settingsRef.current, offer.callerId);
+        if (!rule) {
+            handledOfferIdsRef.current.add(offer.id);
+            decide('No rule matched; waiting for you to answer');
+            return;
+        }
+
+        const index = settingsRef.current.rules.indexOf(rule) + 1;
+        decide(`Rule ${index} matched: ${describeAutoAnswerRule(rule)}`);
+        setCountdown({ rule, dueAt: Date.now() + rule.delaySeconds * 1000 });
+        const timer = setTimeout(() => {
+            handledOfferIdsRef.current.add(offer.id);
+            setCountdown(undefined);
+            if (rule.action === 'answer') {
+                decide(
+                    rule.withVideo
+                        ? 'Answered with video'
+                        : 'Answered audio only'
+                );
+                hangUpAfterRef.current = rule.hangUpAfterSeconds;
+                perform(
+                    () => actionsRef.current.answer(rule.withVideo),
+                    'Answer failed'
+                );
+            } else {
+                decide(
+                    rule.action === 'busy'
+                        ? 'Sent busy (rejected; the caller sees the call declined)'
+                        : 'Rejected'
+                );
+                perform(() => actionsRef.current.reject(), 'Reject failed');
+            }
+        }, rule.delaySeconds * 1000);
+        return () => {
+            clearTimeout(timer);
+            setCountdown(undefined);
+        };
+    }, [offer, isRinging, decide, perform]);
+
+    // A failed auto-answer must not hang up whatever call comes next
+    const isIdle = state.phase === 'idle' || state.phase === 'listening';
+    useEffect(() => {
+        if (isIdle) hangUpAfterRef.current = 0;
+    }, [isIdle]);
+
+    const { session } = state;
+    const isInCall = state.phase === 'inCall';
+    useEffect(() => {
+        const seconds = hangUpAfterRef.current;
+        if (!session || !isInCall || !seconds) return;
+        hangUpAfterRef.current = 0;
+        const timer = setTimeout(() => {
+            decide(`Hung up after ${seconds}s`);
+            perform(() => actionsRef.current.hangUp(), 'Hang-up failed');
+        }, seconds * 1000);
+        return () => clearTimeout(timer);
+    }, [session, isInCall, decide, perform]);
+
+    return { decisions, countdown };
+}
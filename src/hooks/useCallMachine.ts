@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CallListener, CallSession } from '../lib/callingService';
+import {
+    callMachineReducer,
+    initialCallMachineState,
+    type CallMachineEvent,
+    type CallMachineState,
+} from '../lib/callMachine';
+
+export interface CallMachine {
+    state: CallMachineState;
+    send: (event: CallMachineEvent) => void;
+    // Latest state for handlers registered on SDK objects, which outlive renders
+    getState: () => CallMachineState;
+}
+
+interface HeldResources {
+    session?: CallSession;
+    listener?: CallListener;
+}
+
+const release = ({ session, listener }: HeldResources) => {
+    if (session) {
+        try {
+            session.dispose();
+        } catch (error) {
+            console.error('Error disposing call session:', error);
+        }
+    }
+    if (listener) {
+        try {
+            listener.stop();
+        } catch (error) {
+            console.error('Error stopping call listener:', error);
+        }
+    }
+};
+
+// Runs the call state machine and owns its SDK objects: a session or listener is
+// released here once it leaves the state, and whatever is left on unmount
+export function useCallMachine(): CallMachine {
+    const [state, setState] = useState(initialCallMachineState);
+    const stateRef = useRef(state);
+    const [controls] = useState(() => ({
+        send: (event: CallMachineEvent) => {
+            const next = callMachineReducer(stateRef.current, event);
+            // A session the machine turned away (its call is already over) is never held
+            if (event.type === 'callStarted' && next.session !== event.session)
+                release({ session: event.session });
+            if (next === stateRef.current) return;
+            stateRef.current = next;
+            setState(next);
+        },
+        getState: () => stateRef.current,
+    }));
+
+    // Disposing from inside an SDK event (e.g. the adapter's callEnded) is unsafe,
+    // so resources are released after the render that dropped them
+    const heldRef = useRef<HeldResources>({});
+    useEffect(() => {
+        const held = heldRef.current;
+        release({
+            session: held.session !== state.session ? held.session : undefined,
+            listener:
+                held.listener !== state.listener ? held.listener : undefined,
+        });
+        heldRef.current = {
+            session: state.session,
+            listener: state.listener,
+        };
+    }, [state.session, state.listener]);
+
+    useEffect(() => {
+        return () => {
+            release(heldRef.current);
+            heldRef.current = {};
+        };
+    }, []);
+
+    return { state, ...controls };
+}
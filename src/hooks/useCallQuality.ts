@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+    Features,
+    type Call,
+    type LatestDiagnosticValue,
+    type MediaDiagnosticChangedEventArgs,
+    type NetworkDiagnosticChangedEventArgs,
+} from '@azure/communication-calling';
+import type { MediaStatsSummary } from '../types';
+import {
+    appendMediaStatsSample,
+    summarizeMediaStats,
+    type MediaStatsSeries,
+} from '../lib/mediaQuality';
+
+export interface CallQuality {
+    // Latest user facing diagnostics keyed "network.<name>" / "media.<name>"
+    diagnostics: Record<string, LatestDiagnosticValue>;
+    series: MediaStatsSeries;
+}
+
+const prefixKeys = (
+    kind: 'network' | 'media',
+    latest: Partial<Record<string, LatestDiagnosticValue>>
+) =>
+    Object.fromEntries(
+        Object.entries(latest)
+            .filter(([, value]) => value !== undefined)
+            .map(([name, value]) => [`${kind}.${name}`, value])
+    ) as Record<string, LatestDiagnosticValue>;
+
+// Subscribes to the UserFacingDiagnostics and MediaStats features of a call.
+// onSummary receives per-stream averages after every sample, so the latest is
+// already recorded when the call ends and the call record is finished.
+// The screen only unmounts after that, too late to hand over a final summary.
+export function useCallQuality(
+    call: Call | undefined,
+    onSummary?: (summary: MediaStatsSummary[]) => void
+): CallQuality {
+    const [quality, setQuality] = useState<CallQuality>({
+        diagnostics: {},
+        series: {},
+    });
+    const onSummaryRef = useRef(onSummary);
+    useEffect(() => {
+        onSummaryRef.current = onSummary;
+    });
+
+    useEffect(() => {
+        if (!call) return;
+
+        const ufd = call.feature(Features.UserFacingDiagnostics);
+        let diagnostics = {
+            ...prefixKeys('network', { ...ufd.network.getLatest() }),
+            ...prefixKeys('media', { ...ufd.media.getLatest() }),
+        };
+        let series: MediaStatsSeries = {};
+        setQuality({ diagnostics, series });
+
+        const onNetworkChanged = ({
+            diagnostic,
+            value,
+            valueType,
+        }: NetworkDiagnosticChangedEventArgs) => {
+            diagnostics = {
+                ...diagnostics,
+                [`network.${diagnostic}`]: { value, valueType },
+            };
+            setQuality({ diagnostics, series });
+        };
+        const onMediaChanged = ({
+            diagnostic,
+            value,
+            valueType,
+        }: MediaDiagnosticChangedEventArgs) => {
+            diagnostics = {
+                ...diagnostics,
+                [`media.${diagnostic}`]: { value, valueType },
+            };
+            setQuality({ diagnostics, series });
+        };
+        ufd.network.on('diagnosticChanged', onNetworkChanged);
+        ufd.media.on('diagnosticChanged', onMediaChanged);
+
+        const collector = call.feature(Features.MediaStats).createCollector({
+            aggregationInterval: 1,
+            dataPointsPerAggregation: 1,
+        });
+        collector.on('sampleReported', (sample) => {
+            series = appendMediaStatsSample(series, sample);
+            setQuality({ diagnostics, series });
+            onSummaryRef.current?.(summarizeMediaStats(series));
+        });
+
+        return () => {
+            ufd.network.off('diagnosticChanged', onNetworkChanged);
+            ufd.media.off('diagnosticChanged', onMediaChanged);
+            try {
+                collector.dispose();
+            } catch (error) {
+                console.error('Error disposing media stats collector:', error);
+            }
+        };
+    }, [call]);
+
+    return quality;
+}
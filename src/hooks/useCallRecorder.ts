@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type {
+    CallEndReasonInfo,
+    CallHistoryEntry,
+    CallTimelineEventType,
+    MediaStatsSummary,
+} from '../types';
+import { generateCallRecordId, saveCallRecord } from '../lib/callHistory';
+
+export type CallRecordStart = Pick<
+    CallHistoryEntry,
+    | 'direction'
+    | 'callType'
+    | 'target'
+    | 'displayName'
+    | 'alternateCallerId'
+    | 'config'
+>;
+
+export interface CallRecordFinish {
+    endReason?: CallEndReasonInfo;
+    // Overrides the last call state, e.g. Rejected for a call we turned down
+    finalState?: string;
+    errorExplanation?: string;
+    detail?: string;
+}
+
+export interface CallRecorder {
+    begin: (start: CallRecordStart) => string;
+    record: (type: CallTimelineEventType, detail: string) => void;
+    // Records participants joining or leaving; joiners are kept as participants seen
+    recordParticipants: (change: 'joined' | 'left', names: string[]) => void;
+    // Records a state transition once; also notes when the call first connected
+    markState: (state: string, callId?: string) => void;
+    // Records a user facing diagnostic change and keeps its latest value
+    recordDiagnostic: (
+        kind: 'media' | 'network',
+        name: string,
+        value: string
+    ) => void;
+    // Replaces the MediaStats summary of the active call. Kept in memory every
+    // time so finish() saves the latest, but written out only every few updates.
+    recordMediaStats: (summary: MediaStatsSummary[]) => void;
+    // Closes the active entry and returns it; undefined when no call was active
+    finish: (finish?: CallRecordFinish) => CallHistoryEntry | undefined;
+    getActive: () => CallHistoryEntry | undefined;
+}
+
+// Persisting every MediaStats sample would write to IndexedDB once a second
+const MEDIA_STATS_PERSIST_EVERY = 10;
+
+// Tracks the call in progress and writes every change to the IndexedDB history.
+// Handlers registered on SDK objects outlive renders, so everything lives in refs.
+export function useCallRecorder(onChange?: () => void): CallRecorder {
+    const activeRef = useRef<CallHistoryEntry | undefined>(undefined);
+    const onChangeRef = useRef(onChange);
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    });
+
+    return useMemo(() => {
+        let mediaStatsUpdates = 0;
+
+        const persist = (entry: CallHistoryEntry) => {
+            saveCallRecord(entry)
+                .then(() => onChangeRef.current?.())
+                .catch((error) =>
+                    console.error('Failed to save call history:', error)
+                );
+        };
+
+        const update = (
+            change: (entry: CallHistoryEntry) => CallHistoryEntry
+        ) => {
+            if (!activeRef.current) return;
+            activeRef.current = change(activeRef.current);
+            persist(activeRef.current);
+        };
+
+        const record: CallRecorder['record'] = (type, detail) =>
+            update((entry) => ({
+                ...entry,
+                errorExplanation:
+                    type === 'error' ? detail : entry.errorExplanation,
+                timeline: [
+                    ...entry.timeline,
+                    { at: new Date().toISOString(), type, detail },
+                ],
+            }));
+
+        return {
+            begin: (start) => {
+                const startedAt = new Date().toISOString();
+                const entry: CallHistoryEntry = {
+                    ...start,
+                    config: start.config && { ...start.config, token: '' },
+                    id: generateCallRecordId(),
+                    startedAt,
+                    timeline: [
+                        {
+                            at: startedAt,
+                            type: 'info',
+                            detail:
+                                start.direction === 'outgoing'
+                                    ? `Dialing ${start.target}`
+                                    : `Incoming call from ${
+                                          start.displayName || start.target
+                                      }`,
+                        },
+                    ],
+                };
+                activeRef.current = entry;
+                mediaStatsUpdates = 0;
+                persist(entry);
+                return entry.id;
+            },
+            record,
+            recordParticipants: (change, names) =>
+                update((entry) => ({
+                    ...entry,
+                    participants:
+                        change === 'joined'
+                            ? [
+                                  ...new Set([
+                                      ...(entry.participants ?? []),
+                                      ...names,
+                                  ]),
+                              ]
+                            : entry.participants,
+                    timeline: [
+                        ...entry.timeline,
+                        {
+                            at: new Date().toISOString(),
+                            type:
+                                change === 'joined'
+                                    ? 'participantJoined'
+                                    : 'participantLeft',
+                            detail: `${
+                                change === 'joined' ? 'Joined' : 'Left'
+                            }: ${names.join(', ')}`,
+                        },
+                    ],
+                })),
+            markState: (state, callId) =>
+                update((entry) => {
+                    if (entry.finalState === state) return entry;
+                    const at = new Date().toISOString();
+                    return {
+                        ...entry,
+                        callId: callId ?? entry.callId,
+                        finalState: state,
+                        connectedAt:
+                            entry.connectedAt ??
+                            (state === 'Connected' ? at : undefined),
+                        timeline: [
+                            ...entry.timeline,
+                            { at, type: 'state', detail: state },
+                        ],
+                    };
+                }),
+            recordDiagnostic: (kind, name, value) =>
+                update((entry) => {
+                    const at = new Date().toISOString();
+                    return {
+                        ...entry,
+                        diagnostics: {
+                            ...entry.diagnostics,
+                            [`${kind}.${name}`]: value,
+                        },
+                        timeline: [
+                            ...entry.timeline,
+                            {
+                                at,
+                                type: 'diagnostic',
+                                detail: `${kind} ${name}: ${value}`,
+                            },
+                        ],
+                    };
+                }),
+            recordMediaStats: (summary) => {
+                if (!activeRef.current) return;
+                activeRef.current = {
+                    ...activeRef.current,
+                    mediaStats: summary,
+                };
+                mediaStatsUpdates += 1;
+                if (mediaStatsUpdates % MEDIA_STATS_PERSIST_EVERY === 0) {
+                    persist(activeRef.current);
+                }
+            },
+            finish: ({
+                endReason,
+                finalState,
+                errorExplanation,
+                detail,
+            } = {}) => {
+                update((entry) => {
+                    const endedAt = new Date();
+                    return {
+                        ...entry,
+                        endedAt: endedAt.toISOString(),
+                        durationMs: entry.connectedAt
+                            ? endedAt.getTime() -
+                              new Date(entry.connectedAt).getTime()
+                            : 0,
+                        finalState: finalState ?? entry.finalState,
+                        endReason: endReason ?? entry.endReason,
+                        errorExplanation:
+                            errorExplanation ?? entry.errorExplanation,
+                        timeline: [
+                            ...entry.timeline,
+                            {
+                                at: endedAt.toISOString(),
+                                type: 'info',
+                                detail:
+                                    detail ??
+                                    (endReason
+                                        ? `Call ended (${endReason.code}${
+                                              endReason.subCode !== undefined
+                                                  ? `/${endReason.subCode}`
+                                                  : ''
+                                          })`
+                                        : 'Call ended'),
+                            },
+                        ],
+                    };
+                });
+                const finished = activeRef.current;
+                activeRef.current = undefined;
+                return finished;
+            },
+            getActive: () => activeRef.current,
+        };
+    }, []);
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CallSession } from '../lib/callingService';
+import { explainAcsError } from '../lib/acsErrors';
+import { parseDtmfScript, playDtmfScript, type DtmfKey } from '../lib/dtmf';
+
+export interface DtmfLogEntry {
+    at: Date;
+    key: DtmfKey;
+    scripted: boolean;
+    error?: string;
+}
+
+export type DtmfScriptStatus =
+    | 'none'
+    | 'waiting'
+    | 'playing'
+    | 'done'
+    | 'failed';
+
+export interface Dtmf {
+    log: DtmfLogEntry[];
+    scriptStatus: DtmfScriptStatus;
+    send: (key: DtmfKey) => void;
+}
+
+// Sends keypad tones, and plays the DTMF script once the call first connects.
+// Every tone, sent or failed, is also reported through onTone for the call timeline.
+export function useDtmf(
+    session: CallSession,
+    callState: string,
+    script: string | undefined,
+    onTone?: (entry: DtmfLogEntry) => void
+): Dtmf {
+    const [log, setLog] = useState<DtmfLogEntry[]>([]);
+    const [scriptStatus, setScriptStatus] = useState<DtmfScriptStatus>(
+        script ? 'waiting' : 'none'
+    );
+    const onToneRef = useRef(onTone);
+    useEffect(() => {
+        onToneRef.current = onTone;
+    });
+
+    const [sendTone] = useState(
+        () => async (target: CallSession, key: DtmfKey, scripted: boolean) => {
+            const entry: DtmfLogEntry = { at: new Date(), key, scripted };
+            try {
+                await target.sendDtmf!(key);
+            } catch (error) {
+                entry.error = explainAcsError(error);
+                throw error;
+            } finally {
+                setLog((prev) => [...prev, entry]);
+                onToneRef.current?.(entry);
+            }
+        }
+    );
+
+    // Played once per call: a reconnect or resume from hold does not start it again
+    const scriptRef = useRef<AbortController | undefined>(undefined);
+    const isConnected = callState === 'Connected';
+    useEffect(() => {
+        if (!script || !isConnected || !session.sendDtmf || scriptRef.current)
+            return;
+        const controller = new AbortController();
+        scriptRef.current = controller;
+        setScriptStatus('playing');
+        playDtmfScript(
+            parseDtmfScript(script).steps,
+            (key) => sendTone(session, key, true),
+            controller.signal
+        )
+            .then(() => {
+                if (!controller.signal.aborted) setScriptStatus('done');
+            })
+            .catch(() => setScriptStatus('failed'));
+    }, [script, isConnected, session, sendTone]);
+
+    useEffect(() => {
+        return () => scriptRef.current?.abort();
+    }, []);
+
+    return {
+        log,
+        scriptStatus,
+        send: (key) => {
+            sendTone(session, key, false).catch(() => {});
+        },
+    };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = [
+    'pointerdown',
+    'pointermove',
+    'keydown',
+    'wheel',
+    'touchstart',
+] as const;
+
+// Calls onIdle once no user activity has been seen for timeoutMs while enabled
+export function useIdleTimeout(
+    onIdle: () => void,
+    timeoutMs: number,
+    enabled: boolean
+) {
+    // Keep the latest callback without restarting the timer on every render
+    const onIdleRef = useRef(onIdle);
+    useEffect(() => {
+        onIdleRef.current = onIdle;
+    });
+
+    useEffect(() => {
+        if (!enabled || timeoutMs <= 0) return;
+
+        let timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+        const resetTimer = () => {
+            window.clearTimeout(timer);
+            timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+        };
+
+        ACTIVITY_EVENTS.forEach((event) =>
+            window.addEventListener(event, resetTimer, { passive: true })
+        );
+        return () => {
+            window.clearTimeout(timer);
+            ACTIVITY_EVENTS.forEach((event) =>
+                window.removeEventListener(event, resetTimer)
+            );
+        };
+    }, [enabled, timeoutMs]);
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+
+// Live microphone input level between 0 and 1 while enabled; error is set if the mic can't be opened
+export function useMicrophoneLevel(enabled: boolean) {
+    const [level, setLevel] = useState(0);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        let stopped = false;
+        let frame = 0;
+        let stream: MediaStream | undefined;
+        let context: AudioContext | undefined;
+
+        navigator.mediaDevices
+            .getUserMedia({ audio: true })
+            .then((mediaStream) => {
+                stream = mediaStream;
+                if (stopped) {
+                    mediaStream.getTracks().forEach((track) => track.stop());
+                    return;
+                }
+                context = new AudioContext();
+                const analyser = context.createAnalyser();
+                analyser.fftSize = 512;
+                context.createMediaStreamSource(mediaStream).connect(analyser);
+                const samples = new Float32Array(analyser.fftSize);
+
+                const measure = () => {
+                    analyser.getFloatTimeDomainData(samples);
+                    const rms = Math.sqrt(
+                        samples.reduce((sum, value) => sum + value * value, 0) /
+                            samples.length
+                    );
+                    // Speech sits around 0.05-0.2 RMS; scale so normal talking fills most of the bar
+                    setLevel(Math.min(1, rms * 5));
+                    frame = requestAnimationFrame(measure);
+                };
+                measure();
+            })
+            .catch((err) =>
+                setError(err instanceof Error ? err.message : String(err))
+            );
+
+        return () => {
+            stopped = true;
+            cancelAnimationFrame(frame);
+            stream?.getTracks().forEach((track) => track.stop());
+            context?.close();
+        };
+    }, [enabled]);
+
+    return { level, error };
+}
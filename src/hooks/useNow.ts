@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+// Current time, re-rendering the caller every intervalMs
+export function useNow(intervalMs = 1000) {
+    const [now, setNow] = useState(() => new Date());
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+        return () => window.clearInterval(timer);
+    }, [intervalMs]);
+    return now;
+}
@@ -0,0 +1,550 @@
+import {
+    createAzureCommunicationCallAdapterFromClient,
+    createStatefulCallClient,
+    type CallAdapter,
+    type CallAdapterLocator,
+    type StartCallIdentifier,
+    type StatefulCallClient,
+} from '@azure/communication-react';
+import {
+    IncomingCallKind,
+    LocalAudioStream,
+    LocalVideoStream,
+    type Call,
+    type CallAgent,
+    type IncomingCall,
+} from '@azure/communication-calling';
+import {
+    AzureCommunicationTokenCredential,
+    createIdentifierFromRawId,
+    getIdentifierRawId,
+} from '@azure/communication-common';
+import type { Callee, CallConfig } from '../types';
+import { CALL_TYPES } from './config';
+import type {
+    CallingService,
+    CallSession,
+    CallSessionHandlers,
+    IncomingCallOffer,
+} from './callingService';
+import { getParticipantNames } from './callHistory';
+import { formatDiagnosticValue } from './diagnostics';
+import {
+    createTokenCredential,
+    type TokenRefreshHandlers,
+} from './tokenRefresher';
+import { getTeamsMeetingLocator } from './teams';
+import { describeCapabilityChanges } from './rooms';
+import { toDtmfTone } from './dtmf';
+import { parseCalleeList, toE164 } from './validators';
+
+const toIdentifier = (callee: Callee) =>
+    callee.kind === 'phone'
+        ? { phoneNumber: callee.phoneNumber }
+        : { communicationUserId: callee.id };
+
+// PSTN legs show this number to the callee; it must be one of the resource's numbers
+const toAlternateCallerId = (alternateCallerId?: string) =>
+    alternateCallerId
+        ? { alternateCallerId: { phoneNumber: toE164(alternateCallerId) } }
+        : undefined;
+
+// Forward adapter events to the session handlers
+const wireAdapterEvents = (
+    adapter: CallAdapter,
+    handlers: CallSessionHandlers,
+    isHungUp: () => boolean
+) => {
+    let role: string | undefined;
+    // The composite's own end-call button leaves without going through hangUp()
+    let leftLocally = false;
+    adapter.onStateChange((state) => {
+        if (state.page === 'leaving') leftLocally = true;
+        if (state.call) {
+            handlers.onStateChanged(state.call.state, state.call.id);
+            // Ordinary calls have no role; rooms and meetings report one once joined
+            const nextRole = state.call.role;
+            if (nextRole && nextRole !== 'Unknown' && nextRole !== role) {
+                role = nextRole;
+                handlers.onRoleChanged?.(nextRole);
+            }
+        }
+    });
+
+    adapter.on('capabilitiesChanged', (event) => {
+        const changes = describeCapabilityChanges(event.newValue);
+        if (changes) handlers.onInfo(`Capabilities changed: ${changes}`);
+    });
+
+    adapter.on('diagnosticChanged', (event) => {
+        handlers.onDiagnosticChanged(
+            event.type,
+            event.diagnostic,
+            formatDiagnosticValue(event.value, event.valueType)
+        );
+    });
+
+    adapter.on('callEnded', (event) => {
+        console.log('Call ended event received');
+        if (isHungUp()) return;
+        handlers.onEnded(
+            event.code !== undefined
+                ? { code: event.code, subCode: event.subCode }
+                : undefined,
+            leftLocally
+        );
+    });
+
+    adapter.on('participantsJoined', (participants) => {
+        console.log('Participants joined:', participants);
+        handlers.onParticipantsJoined(getParticipantNames(participants.joined));
+    });
+
+    adapter.on('participantsLeft', (participants) => {
+        console.log('Participants left:', participants);
+        handlers.onParticipantsLeft(getParticipantNames(participants.removed));
+    });
+
+    adapter.on('error', (e: unknown) => {
+        console.error('Adapter error:', e);
+        handlers.onError(e);
+    });
+};
+
+// Session around a CallComposite adapter; disposing the adapter also disposes its agent.
+// join is what the composite's own Start call or Join button does.
+const createAdapterSession = (
+    adapter: CallAdapter,
+    handlers: CallSessionHandlers,
+    join?: () => void
+): CallSession => {
+    let hungUp = false;
+    wireAdapterEvents(adapter, handlers, () => hungUp);
+    return {
+        view: { kind: 'composite', adapter },
+        join: join && (async () => join()),
+        hangUp: async () => {
+            hungUp = true;
+            await adapter.leaveCall();
+        },
+        addParticipant: async (callee, { alternateCallerId }) => {
+            if (callee.kind === 'phone') {
+                await adapter.addParticipant(
+                    { phoneNumber: callee.phoneNumber },
+                    toAlternateCallerId(alternateCallerId)
+                );
+            } else {
+                await adapter.addParticipant({
+                    communicationUserId: callee.id,
+                });
+            }
+        },
+        sendDtmf: (key) => adapter.sendDtmfTone(toDtmfTone(key)),
+        setMuted: (muted) => (muted ? adapter.mute() : adapter.unmute()),
+        dispose: () => adapter.dispose(),
+    };
+};
+
+// Map an accepted Call to a CallAdapterLocator supported by the UI library
+const getAdapterLocatorFromCall = (
+    call: Call
+): CallAdapterLocator | undefined => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const info: any = (call as unknown as { info?: unknown }).info;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const rawLocator: any = (info as any)?.callLocator ?? info;
+    if (!rawLocator) return undefined;
+    if (rawLocator.groupId) return { groupId: rawLocator.groupId } as const;
+    if (rawLocator.meetingLink)
+        return { meetingLink: rawLocator.meetingLink } as const;
+    if (rawLocator.meetingId)
+        return {
+            meetingId: rawLocator.meetingId,
+            passcode: rawLocator.passcode,
+        } as const;
+    if (rawLocator.roomId) return { roomId: rawLocator.roomId } as const;
+    return undefined;
+};
+
+// 1:1 and PSTN calls have no locator the composite could join with, so they are
+// shown from the accepted Call object itself (see DirectCallView)
+const createDirectSession = (
+    callClient: StatefulCallClient,
+    callAgent: CallAgent,
+    call: Call,
+    handlers: CallSessionHandlers
+): CallSession => {
+    let hungUp = false;
+    const handleStateChanged = () => {
+        console.log('Call state changed:', call.id, 'New state:', call.state);
+        handlers.onStateChanged(call.state, call.id);
+        if (call.state !== 'Disconnected') return;
+        call.off('stateChanged', handleStateChanged);
+        handlers.onCallChanged?.(undefined);
+        if (hungUp) return;
+        handlers.onEnded(
+            call.callEndReason
+                ? {
+                      code: call.callEndReason.code,
+                      subCode: call.callEndReason.subCode,
+                  }
+                : undefined
+        );
+    };
+    call.on('stateChanged', handleStateChanged);
+    handlers.onStateChanged(call.state, call.id);
+    handlers.onCallChanged?.(call);
+
+    return {
+        view: { kind: 'direct', callClient, callAgent, call },
+        // The listener's agent keeps running for the next incoming call
+        hangUp: async () => {
+            hungUp = true;
+            await call.hangUp();
+        },
+        // Turns the 1:1 call into a group call
+        addParticipant: async (callee, { alternateCallerId }) => {
+            if (callee.kind === 'phone') {
+                call.addParticipant(
+                    { phoneNumber: callee.phoneNumber },
+                    toAlternateCallerId(alternateCallerId)
+                );
+            } else {
+                call.addParticipant({ communicationUserId: callee.id });
+            }
+        },
+        sendDtmf: (key) => call.sendDtmf(toDtmfTone(key)),
+        setMuted: (muted) => (muted ? call.mute() : call.unmute()),
+        dispose: () => call.off('stateChanged', handleStateChanged),
+    };
+};
+
+// A steady tone from an oscillator, so soak agents send audio without a microphone
+const createSyntheticAudio = (frequency: number) => {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const destination = context.createMediaStreamDestination();
+    oscillator.frequency.value = frequency;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(destination);
+    oscillator.start();
+    return {
+        stream: destination.stream,
+        close: () => {
+            oscillator.stop();
+            void context.close();
+        },
+    };
+};
+
+let headlessAgentCount = 0;
+
+// Calls through the Azure Communication Services Calling SDK and UI library
+export const createAcsCallingService = (
+    tokenRefreshHandlers: TokenRefreshHandlers
+): CallingService => ({
+    mode: 'acs',
+
+    startCall: async (config: CallConfig, handlers) => {
+        const credential = createTokenCredential(config, tokenRefreshHandlers);
+        const userId = { communicationUserId: config.userId };
+
+        if (!CALL_TYPES.includes(config.callType)) {
+            throw new Error('No valid call target specified');
+        }
+
+        // Create the client and agent here rather than inside the adapter so the
+        // quality panel can reach the Call object the adapter starts
+        const outgoingClient = createStatefulCallClient({ userId });
+        const outgoingAgent = await outgoingClient.createCallAgent(credential, {
+            displayName: config.displayName,
+        });
+        outgoingAgent.on('callsUpdated', ({ added, removed }) => {
+            if (added.length > 0) handlers.onCallChanged?.(added[0]);
+            if (removed.length > 0) handlers.onCallChanged?.(undefined);
+        });
+
+        let adapter: CallAdapter;
+        // 1:1, ad-hoc and PSTN adapters are started with their callees; the rest join a locator
+        let callees: StartCallIdentifier[] | undefined;
+        let alternateCallerId: { phoneNumber: string } | undefined;
+        try {
+            if (config.callType === 'group') {
+                // Group call
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    { groupId: config.callValue }
+                );
+            } else if (config.callType === 'adHoc') {
+                // Ad-hoc group call ringing every callee at once; any PSTN leg shows our number
+                callees = parseCalleeList(
+                    config.callValue,
+                    config.phoneCountry
+                ).map(({ callee }) => toIdentifier(callee!));
+                alternateCallerId = callees.some(
+                    (callee) => 'phoneNumber' in callee
+                )
+                    ? {
+                          phoneNumber: toE164(
+                              config.alternateCallerId!,
+                              config.phoneCountry
+                          ),
+                      }
+                    : undefined;
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    callees,
+                    alternateCallerId && {
+                        alternateCallerId: alternateCallerId.phoneNumber,
+                    }
+                );
+            } else if (config.callType === 'room') {
+                // Room call - the service assigns our role from the room's participant list
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    { roomId: config.callValue.trim() }
+                );
+            } else if (config.callType === 'teamsMeeting') {
+                // Teams meeting - the composite shows the lobby until an organizer admits us
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    getTeamsMeetingLocator(config)
+                );
+            } else if (config.callType === 'teamsUser') {
+                // Teams interop 1:1 call to an 8:orgid: user
+                callees = [createIdentifierFromRawId(config.callValue.trim())];
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    callees
+                );
+            } else if (config.callType === 'oneToOne') {
+                // 1:1 call
+                callees = [{ communicationUserId: config.callValue.trim() }];
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    callees
+                );
+            } else {
+                // Phone call - ensure phone numbers are properly formatted
+                const targetPhoneNumber = toE164(
+                    config.callValue,
+                    config.phoneCountry
+                );
+                const callerPhoneNumber = toE164(
+                    config.alternateCallerId!,
+                    config.phoneCountry
+                );
+
+                console.log('PSTN Call Config:', {
+                    targetPhoneNumber,
+                    callerPhoneNumber,
+                    userId: userId.communicationUserId,
+                    displayName: config.displayName,
+                });
+
+                callees = [{ phoneNumber: targetPhoneNumber }];
+                alternateCallerId = { phoneNumber: callerPhoneNumber };
+                adapter = await createAzureCommunicationCallAdapterFromClient(
+                    outgoingClient,
+                    outgoingAgent,
+                    callees,
+                    { alternateCallerId: callerPhoneNumber }
+                );
+            }
+        } catch (e) {
+            // Without an adapter nothing else owns the agent; a leftover agent makes the
+            // next attempt fail as a duplicate
+            await outgoingAgent.dispose();
+            throw e;
+        }
+
+        return createAdapterSession(adapter, handlers, () => {
+            if (callees) {
+                adapter.startCall(
+                    callees,
+                    alternateCallerId && { alternateCallerId }
+                );
+            } else {
+                adapter.joinCall({ microphoneOn: true, cameraOn: false });
+            }
+        });
+    },
+
+    listen: async (config, listenerHandlers) => {
+        const credential = createTokenCredential(config, tokenRefreshHandlers);
+
+        // Create a stateful call client so CallComposite can attach to accepted calls later
+        const callClient = createStatefulCallClient({
+            userId: { communicationUserId: config.userId },
+        });
+        const callAgent = await callClient.createCallAgent(credential, {
+            displayName: config.displayName,
+        });
+        let stopped = false;
+
+        const accept = async (
+            incomingCall: IncomingCall,
+            withVideo: boolean,
+            handlers: CallSessionHandlers
+        ) => {
+            let localVideoStreams: LocalVideoStream[] | undefined;
+            if (withVideo) {
+                const deviceManager = await callClient.getDeviceManager();
+                const [camera] = await deviceManager.getCameras();
+                if (camera) {
+                    localVideoStreams = [new LocalVideoStream(camera)];
+                } else {
+                    handlers.onInfo(
+                        'No camera found - accepting with audio only'
+                    );
+                }
+            }
+            handlers.onInfo(
+                localVideoStreams
+                    ? 'Accepted with video'
+                    : 'Accepted audio only'
+            );
+            const call = await incomingCall.accept(
+                localVideoStreams
+                    ? { videoOptions: { localVideoStreams } }
+                    : undefined
+            );
+
+            const adapterLocator = getAdapterLocatorFromCall(call);
+            if (!adapterLocator) {
+                return createDirectSession(
+                    callClient,
+                    callAgent,
+                    call,
+                    handlers
+                );
+            }
+
+            const adapter = await createAzureCommunicationCallAdapterFromClient(
+                callClient,
+                callAgent,
+                adapterLocator
+            );
+            // The adapter disposes the agent with the call, so listening ends here
+            stopped = true;
+            listenerHandlers.onStopped();
+            handlers.onStateChanged(call.state, call.id);
+            handlers.onCallChanged?.(call);
+            return createAdapterSession(adapter, handlers);
+        };
+
+        callAgent.on('incomingCall', ({ incomingCall }) => {
+            console.log('Incoming call detected:', incomingCall);
+            const offer: IncomingCallOffer = {
+                id: incomingCall.id,
+                callerId: incomingCall.callerInfo.identifier
+                    ? getIdentifierRawId(incomingCall.callerInfo.identifier)
+                    : 'unknown',
+                callerName: incomingCall.callerInfo.displayName ?? '',
+                isTeamsCall:
+                    incomingCall.kind !== IncomingCallKind.IncomingCall,
+                accept: ({ withVideo }, handlers) =>
+                    accept(incomingCall, withVideo, handlers),
+                reject: () => incomingCall.reject(),
+            };
+            // Caller hung up before we answered
+            incomingCall.on('callEnded', ({ callEndReason }) => {
+                listenerHandlers.onIncomingCallEnded(
+                    offer,
+                    callEndReason
+                        ? {
+                              code: callEndReason.code,
+                              subCode: callEndReason.subCode,
+                          }
+                        : undefined
+                );
+            });
+            listenerHandlers.onIncomingCall(offer);
+        });
+
+        return {
+            stop: () => {
+                if (stopped) return;
+                stopped = true;
+                callAgent.dispose();
+            },
+        };
+    },
+
+    joinHeadless: async (
+        { userId, token, displayName },
+        groupId,
+        { syntheticAudio },
+        handlers
+    ) => {
+        // Each agent needs its own client, and its token is used as given: a soak run
+        // should end before the tokens expire, since nothing refreshes them
+        const callClient = createStatefulCallClient({
+            userId: { communicationUserId: userId },
+        });
+        const callAgent = await callClient.createCallAgent(
+            new AzureCommunicationTokenCredential(token),
+            { displayName }
+        );
+        // A different pitch per agent makes them easier to tell apart by ear
+        headlessAgentCount += 1;
+        const tone = syntheticAudio
+            ? createSyntheticAudio(220 + (headlessAgentCount % 12) * 40)
+            : undefined;
+
+        let call: Call;
+        try {
+            call = callAgent.join(
+                { groupId },
+                {
+                    audioOptions: tone
+                        ? {
+                              localAudioStreams: [
+                                  new LocalAudioStream(tone.stream),
+                              ],
+                          }
+                        : { muted: true },
+                }
+            );
+        } catch (e) {
+            tone?.close();
+            await callAgent.dispose();
+            throw e;
+        }
+
+        let hungUp = false;
+        const handleStateChanged = () => {
+            handlers.onStateChanged(call.state);
+            if (call.state !== 'Disconnected' || hungUp) return;
+            handlers.onEnded(
+                call.callEndReason
+                    ? {
+                          code: call.callEndReason.code,
+                          subCode: call.callEndReason.subCode,
+                      }
+                    : undefined
+            );
+        };
+        call.on('stateChanged', handleStateChanged);
+        handlers.onStateChanged(call.state);
+
+        return {
+            hangUp: async () => {
+                hungUp = true;
+                if (call.state !== 'Disconnected') await call.hangUp();
+            },
+            dispose: async () => {
+                call.off('stateChanged', handleStateChanged);
+                tone?.close();
+                await callAgent.dispose();
+            },
+        };
+    },
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+    describeAcsError,
+    explainAcsError,
+    formatAcsErrorDetails,
+    lookupAcsError,
+} from './acsErrors';
+
+describe('explainAcsError', () => {
+    it('explains subCode 41001 on the error or its inner error', () => {
+        expect(explainAcsError({ code: 400, subCode: 41001 })).toMatch(
+            /^Start call failed \(41001\)/
+        );
+        expect(
+            explainAcsError({
+                message: 'Call failed',
+                innerError: { subCode: '41001' },
+            })
+        ).toMatch(/^Start call failed \(41001\)/);
+    });
+
+    it('explains authorization failures', () => {
+        const expected =
+            'Authorization failed. The token may be invalid or expired.';
+        expect(explainAcsError({ code: 401 })).toBe(expected);
+        expect(explainAcsError({ innerError: { code: '401' } })).toBe(expected);
+        expect(explainAcsError(new Error('Request Unauthorized'))).toBe(
+            expected
+        );
+    });
+
+    it('explains token problems mentioned in the message', () => {
+        expect(explainAcsError(new Error('Token has expired'))).toBe(
+            'The access token appears to be expired or invalid.'
+        );
+    });
+
+    it('falls back to the original message', () => {
+        expect(explainAcsError(new Error('Microphone not found'))).toBe(
+            'Microphone not found'
+        );
+        expect(explainAcsError('plain failure')).toBe('plain failure');
+        expect(explainAcsError(null)).toBe('null');
+    });
+});
+
+describe('lookupAcsError', () => {
+    it('prefers the entry for the exact code and subCode', () => {
+        expect(lookupAcsError(403, 10057)?.explanation).toMatch(/10057/);
+        expect(lookupAcsError(403, 1)?.explanation).toMatch(/\(403\)/);
+    });
+
+    it('categorises call end reasons', () => {
+        expect(lookupAcsError(480, 10037)?.category).toBe('target');
+        expect(lookupAcsError(487)?.category).toBe('target');
+        expect(lookupAcsError(490)?.category).toBe('target');
+        expect(lookupAcsError(503)?.category).toBe('network');
+        expect(lookupAcsError(500, 560403)?.category).toBe('pstn');
+    });
+
+    it('marks ordinary endings as uncategorised', () => {
+        expect(lookupAcsError(0, 0)).toMatchObject({ endKind: 'hungUp' });
+        expect(lookupAcsError(0, 0)?.category).toBeUndefined();
+        expect(lookupAcsError(487, 10003)?.endKind).toBe('cancelled');
+    });
+});
+
+describe('describeAcsError', () => {
+    it('carries the code, category and suggested fixes', () => {
+        expect(
+            describeAcsError(
+                { message: 'Call ended', code: 480, subCode: 10037 },
+                'Call failed'
+            )
+        ).toMatchObject({
+            context: 'Call failed',
+            code: '480',
+            subCode: '10037',
+            message: 'Call ended',
+            category: 'target',
+            fixes: expect.arrayContaining([
+                expect.stringMatching(/clicked Listen/),
+            ]),
+        });
+    });
+
+    it('recognises browser device errors by message', () => {
+        expect(
+            describeAcsError(new Error('NotAllowedError: Permission denied'))
+                .category
+        ).toBe('media');
+    });
+
+    it('formats the details for copying', () => {
+        expect(
+            formatAcsErrorDetails(
+                describeAcsError({ message: 'Not Found', code: 404 })
+            )
+        ).toBe(
+            [
+                'Code: 404',
+                'Category: Call target',
+                'Explanation: The callee could not be found (404).',
+                'Message: Not Found',
+                'Suggested fixes:',
+                '- Check the callee ID; ACS user IDs only work within their own ACS resource.',
+                '- For groups, rooms and meetings, check that the ID or link is still valid.',
+            ].join('\n')
+        );
+    });
+});
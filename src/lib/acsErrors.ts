@@ -0,0 +1,361 @@
+export type AcsErrorCategory = 'auth' | 'network' | 'target' | 'media' | 'pstn';
+
+export const ACS_ERROR_CATEGORY_LABELS: Record<AcsErrorCategory, string> = {
+    auth: 'Authentication',
+    network: 'Network and service',
+    target: 'Call target',
+    media: 'Media and devices',
+    pstn: 'PSTN provisioning',
+};
+
+// How the call summary labels a call that ended with an entry's code
+export type CallEndKind =
+    | 'hungUp'
+    | 'declined'
+    | 'noAnswer'
+    | 'busy'
+    | 'cancelled'
+    | 'unavailable'
+    | 'networkDrop'
+    | 'tokenExpired'
+    | 'removed'
+    | 'endedForAll'
+    | 'failed';
+
+export interface AcsErrorCatalogueEntry {
+    code?: number;
+    subCode?: number;
+    // For errors without codes, e.g. browser device errors
+    messagePattern?: RegExp;
+    // Unset for ordinary endings such as a hang-up, which are not errors
+    category?: AcsErrorCategory;
+    explanation: string;
+    fixes: string[];
+    // Set for codes a call can end with; other matches end a call as 'failed'
+    endKind?: CallEndKind;
+}
+
+const SERVICE_ERROR_FIXES = [
+    'Retry the call; these errors are usually transient.',
+    'If it keeps happening, check the Azure status page and your network path to *.communication.azure.com.',
+];
+
+// Entries are ordered most specific first: code and subCode, then subCode,
+// then code, then message patterns. The first entry that matches wins. Call end
+// reasons are looked up here too, so the error banner and the call summary agree.
+export const ACS_ERROR_CATALOGUE: AcsErrorCatalogueEntry[] = [
+    {
+        code: 0,
+        subCode: 0,
+        // Either side may have hung up; hangUp() on our side never gets here
+        explanation: 'The call ended normally.',
+        fixes: [],
+        endKind: 'hungUp',
+    },
+    {
+        code: 0,
+        subCode: 4097,
+        explanation: 'The organizer ended the meeting for everyone.',
+        fixes: [],
+        endKind: 'endedForAll',
+    },
+    {
+        code: 0,
+        subCode: 5300,
+        explanation: 'You were removed from the call by another participant.',
+        fixes: [],
+        endKind: 'removed',
+    },
+    {
+        code: 487,
+        subCode: 10003,
+        category: 'target',
+        explanation: 'The call was answered on another device (487/10003).',
+        fixes: [],
+        endKind: 'cancelled',
+    },
+    {
+        code: 403,
+        subCode: 10057,
+        category: 'auth',
+        explanation:
+            'The service refused the call for this identity (403/10057).',
+        fixes: [
+            'Check that the token was issued for this ACS resource with the voip scope.',
+            'For Teams users and meetings, check that the Teams tenant allows calls from ACS (interop enabled, no blocked federation).',
+        ],
+    },
+    {
+        subCode: 41001,
+        category: 'target',
+        explanation:
+            'Start call failed (41001). Check the target and configuration.',
+        fixes: [
+            'For PSTN, use a valid E.164 number and an Alternate Caller ID you own in the ACS resource with telephony enabled.',
+            'For 1:1, use a valid ACS user ID (8:acs:...) and do not call your own ID.',
+        ],
+    },
+    {
+        subCode: 560403,
+        category: 'pstn',
+        explanation: 'The phone network refused the call (560403).',
+        fixes: [
+            'Check that the Alternate Caller ID is a number acquired in this ACS resource with outbound calling enabled.',
+            'Check that the destination country is allowed for outbound calls on the number.',
+        ],
+    },
+    {
+        subCode: 560404,
+        category: 'pstn',
+        explanation:
+            'The phone network could not find the number dialled (560404).',
+        fixes: ['Check the number and its country code.'],
+    },
+    {
+        subCode: 560486,
+        category: 'target',
+        explanation: 'The phone number dialled is busy (560486).',
+        fixes: ['Try again later.'],
+        endKind: 'busy',
+    },
+    {
+        code: 401,
+        category: 'auth',
+        explanation:
+            'Authorization failed. The token may be invalid or expired.',
+        fixes: [
+            'Generate a fresh access token for the ACS user and paste it in.',
+            'Check that the token belongs to the ACS resource the app is calling.',
+        ],
+        endKind: 'tokenExpired',
+    },
+    {
+        code: 403,
+        category: 'auth',
+        explanation: 'The call is not allowed for this identity (403).',
+        fixes: [
+            'Check the token scopes and that the target belongs to the same ACS resource or an allowed Teams tenant.',
+        ],
+    },
+    {
+        code: 404,
+        category: 'target',
+        explanation: 'The callee could not be found (404).',
+        fixes: [
+            'Check the callee ID; ACS user IDs only work within their own ACS resource.',
+            'For groups, rooms and meetings, check that the ID or link is still valid.',
+        ],
+    },
+    {
+        code: 408,
+        category: 'network',
+        explanation:
+            'The call timed out (408): it rang out unanswered, or setting it up took too long.',
+        fixes: [
+            'If the callee was ringing, nobody answered in time; try again or set up an auto-answer rule on the receiving side.',
+            'Otherwise check the network connection and any proxy or firewall between the browser and ACS.',
+        ],
+        endKind: 'noAnswer',
+    },
+    {
+        code: 410,
+        category: 'media',
+        explanation:
+            'The media connection could not be established or was lost (410).',
+        fixes: [
+            'Allow UDP 3478-3481 and the ACS media IP ranges through the firewall.',
+            'Switch to a more reliable network, or away from a VPN that blocks media.',
+        ],
+        endKind: 'networkDrop',
+    },
+    {
+        code: 480,
+        category: 'target',
+        explanation:
+            'The callee is not available (480): not signed in, not listening for calls, or set to do not disturb.',
+        fixes: [
+            'Make sure the callee has clicked Listen, or is signed in to Teams.',
+            'Check that the callee ID is the one the other side is listening with.',
+        ],
+        endKind: 'unavailable',
+    },
+    {
+        code: 486,
+        category: 'target',
+        explanation: 'The callee is busy (486).',
+        fixes: ['Try again once the callee is free.'],
+        endKind: 'busy',
+    },
+    {
+        code: 487,
+        category: 'target',
+        explanation:
+            'The call was cancelled before it was answered (487), by the caller hanging up or the call being answered elsewhere.',
+        fixes: [
+            'Nothing to fix if the call was cancelled on purpose; otherwise keep it ringing longer.',
+        ],
+        endKind: 'cancelled',
+    },
+    {
+        code: 490,
+        category: 'target',
+        explanation:
+            'The callee did not take the call (490): it was declined, not answered in time, or refused by the callee endpoint.',
+        fixes: [
+            'Check that someone is there to answer, or set up an auto-answer rule on the receiving side.',
+        ],
+        endKind: 'noAnswer',
+    },
+    {
+        code: 603,
+        category: 'target',
+        explanation: 'The callee declined the call (603).',
+        fixes: [],
+        endKind: 'declined',
+    },
+    ...[500, 502, 503, 504].map(
+        (code): AcsErrorCatalogueEntry => ({
+            code,
+            category: 'network',
+            explanation: `The calling service had an internal error (${code}).`,
+            fixes: SERVICE_ERROR_FIXES,
+        })
+    ),
+    {
+        messagePattern: /401|Unauthorized/i,
+        category: 'auth',
+        explanation:
+            'Authorization failed. The token may be invalid or expired.',
+        fixes: [
+            'Generate a fresh access token for the ACS user and paste it in.',
+        ],
+    },
+    {
+        messagePattern: /expired|token/i,
+        category: 'auth',
+        explanation: 'The access token appears to be expired or invalid.',
+        fixes: [
+            'Generate a fresh access token for the ACS user and paste it in.',
+        ],
+    },
+    {
+        messagePattern: /NotAllowedError|Permission denied/i,
+        category: 'media',
+        explanation:
+            'The browser was not allowed to use the microphone or camera.',
+        fixes: [
+            'Allow microphone and camera access for this site in the browser settings.',
+        ],
+    },
+    {
+        messagePattern: /NotFoundError|device not found/i,
+        category: 'media',
+        explanation: 'No microphone or camera was found.',
+        fixes: ['Connect a device, or check that the OS can see it.'],
+    },
+];
+
+export interface AcsErrorDetails {
+    // What the app was doing, e.g. "Failed to start listening"
+    context?: string;
+    code?: string;
+    subCode?: string;
+    message: string;
+    category?: AcsErrorCategory;
+    explanation: string;
+    fixes: string[];
+}
+
+// Pull the code, subCode and message out of SDK errors without using any
+const readAcsError = (err: unknown) => {
+    const errObj =
+        (typeof err === 'object' && err !== null
+            ? (err as {
+                  message?: string;
+                  code?: string | number;
+                  subCode?: string | number;
+                  innerError?: unknown;
+              })
+            : undefined) || undefined;
+    const inner =
+        errObj?.innerError && typeof errObj.innerError === 'object'
+            ? (errObj.innerError as {
+                  message?: string;
+                  code?: string | number;
+                  subCode?: string | number;
+              })
+            : undefined;
+    const code = errObj?.code ?? inner?.code;
+    const subCode = errObj?.subCode ?? inner?.subCode;
+    return {
+        code: code === undefined ? undefined : String(code),
+        subCode: subCode === undefined ? undefined : String(subCode),
+        message: errObj?.message || String(err),
+    };
+};
+
+const entryMatches = (
+    entry: AcsErrorCatalogueEntry,
+    code: string | undefined,
+    subCode: string | undefined,
+    message: string
+) =>
+    (entry.code !== undefined || entry.subCode !== undefined
+        ? (entry.code === undefined || String(entry.code) === code) &&
+          (entry.subCode === undefined || String(entry.subCode) === subCode)
+        : false) ||
+    (entry.messagePattern !== undefined && entry.messagePattern.test(message));
+
+// Also used for call end reasons, which carry a code and subCode but no message
+export const lookupAcsError = (
+    code?: string | number,
+    subCode?: string | number,
+    message = ''
+) =>
+    ACS_ERROR_CATALOGUE.find((entry) =>
+        entryMatches(
+            entry,
+            code === undefined ? undefined : String(code),
+            subCode === undefined ? undefined : String(subCode),
+            message
+        )
+    );
+
+export const describeAcsError = (
+    err: unknown,
+    context?: string
+): AcsErrorDetails => {
+    const { code, subCode, message } = readAcsError(err);
+    const entry = lookupAcsError(code, subCode, message);
+    return {
+        context,
+        code,
+        subCode,
+        message,
+        category: entry?.category,
+        explanation: entry?.explanation ?? message,
+        fixes: entry?.fixes ?? [],
+    };
+};
+
+// Friendly error mapper for ACS startCall/adapter errors
+export const explainAcsError = (err: unknown): string =>
+    describeAcsError(err).explanation;
+
+// Plain text for support tickets and bug reports
+export const formatAcsErrorDetails = (details: AcsErrorDetails) =>
+    [
+        details.context,
+        details.code !== undefined && `Code: ${details.code}`,
+        details.subCode !== undefined && `Subcode: ${details.subCode}`,
+        details.category &&
+            `Category: ${ACS_ERROR_CATEGORY_LABELS[details.category]}`,
+        `Explanation: ${details.explanation}`,
+        details.explanation !== details.message &&
+            `Message: ${details.message}`,
+        ...(details.fixes.length > 0
+            ? ['Suggested fixes:', ...details.fixes.map((fix) => `- ${fix}`)]
+            : []),
+    ]
+        .filter(Boolean)
+        .join('\n');
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    createAutoAnswerRule,
+    describeAutoAnswerRule,
+    findAutoAnswerRule,
+    getCallerPatternError,
+    loadAutoAnswerSettings,
+    ruleMatchesCaller,
+} from './autoAnswer';
+
+const PHONE_CALLER = '4:+442079460958';
+const ACS_CALLER = '8:acs:29228d3e-040e-4656-a70e-890ab4e173e4_00000001';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('ruleMatchesCaller', () => {
+    it('matches every caller by default', () => {
+        const rule = createAutoAnswerRule();
+        expect(ruleMatchesCaller(rule, PHONE_CALLER)).toBe(true);
+        expect(ruleMatchesCaller(rule, ACS_CALLER)).toBe(true);
+    });
+
+    it('filters by caller kind and caller ID pattern', () => {
+        const phones = createAutoAnswerRule({ callerKind: 'phone' });
+        expect(ruleMatchesCaller(phones, PHONE_CALLER)).toBe(true);
+        expect(ruleMatchesCaller(phones, ACS_CALLER)).toBe(false);
+
+        const ukNumbers = createAutoAnswerRule({ callerPattern: '^4:\\+44' });
+        expect(ruleMatchesCaller(ukNumbers, PHONE_CALLER)).toBe(true);
+        expect(ruleMatchesCaller(ukNumbers, '4:+14255550123')).toBe(false);
+    });
+
+    it('never matches with an invalid pattern', () => {
+        const rule = createAutoAnswerRule({ callerPattern: '8:acs:(' });
+        expect(getCallerPatternError(rule.callerPattern)).toBeDefined();
+        expect(ruleMatchesCaller(rule, ACS_CALLER)).toBe(false);
+    });
+});
+
+describe('findAutoAnswerRule', () => {
+    const reject = createAutoAnswerRule({
+        action: 'reject',
+        callerKind: 'phone',
+    });
+    const answer = createAutoAnswerRule();
+
+    it('picks the first rule that matches', () => {
+        const settings = { enabled: true, rules: [reject, answer] };
+        expect(findAutoAnswerRule(settings, PHONE_CALLER)).toBe(reject);
+        expect(findAutoAnswerRule(settings, ACS_CALLER)).toBe(answer);
+    });
+
+    it('does nothing while the rules are switched off', () => {
+        expect(
+            findAutoAnswerRule({ enabled: false, rules: [answer] }, ACS_CALLER)
+        ).toBeUndefined();
+    });
+});
+
+describe('describeAutoAnswerRule', () => {
+    it('summarises what the rule does', () => {
+        expect(
+            describeAutoAnswerRule(
+                createAutoAnswerRule({
+                    callerKind: 'phone',
+                    callerPattern: '^4:\\+44',
+                    withVideo: true,
+                    hangUpAfterSeconds: 60,
+                })
+            )
+        ).toBe(
+            'Answer phone numbers matching ^4:\\+44 with video after 3s, hang up after 60s'
+        );
+        expect(
+            describeAutoAnswerRule(
+                createAutoAnswerRule({ action: 'busy', delaySeconds: 0 })
+            )
+        ).toBe('Send busy to all callers at once');
+    });
+});
+
+describe('loadAutoAnswerSettings', () => {
+    const stubStorage = (value: string | null) =>
+        vi.stubGlobal('localStorage', { getItem: () => value });
+
+    it('starts switched off with no rules', () => {
+        stubStorage(null);
+        expect(loadAutoAnswerSettings()).toEqual({
+            enabled: false,
+            rules: [],
+        });
+    });
+
+    it('drops rules it cannot read and fills in missing fields', () => {
+        stubStorage(
+            JSON.stringify({
+                enabled: true,
+                rules: [
+                    { id: 'a', action: 'hold' },
+                    { id: 'b', action: 'reject', delaySeconds: -5 },
+                ],
+            })
+        );
+        expect(loadAutoAnswerSettings()).toEqual({
+            enabled: true,
+            rules: [
+                {
+                    id: 'b',
+                    action: 'reject',
+                    delaySeconds: 0,
+                    callerKind: 'any',
+                    callerPattern: '',
+                    withVideo: false,
+                    hangUpAfterSeconds: 0,
+                },
+            ],
+        });
+    });
+
+    it('ignores a corrupt value', () => {
+        stubStorage('{');
+        expect(loadAutoAnswerSettings().enabled).toBe(false);
+    });
+});
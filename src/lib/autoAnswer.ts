@@ -0,0 +1,159 @@
+import { CALLER_KIND_LABELS, getCallerKind, type CallerKind } from './teams';
+
+export const AUTO_ANSWER_STORAGE_KEY = 'azure-call-auto-answer';
+
+// 'busy' is a reject that is logged as busy: the Calling SDK has no busy reject reason
+export type AutoAnswerAction = 'answer' | 'reject' | 'busy';
+
+export const AUTO_ANSWER_ACTIONS: AutoAnswerAction[] = [
+    'answer',
+    'reject',
+    'busy',
+];
+
+export interface AutoAnswerRule {
+    id: string;
+    action: AutoAnswerAction;
+    // How long the call rings before the action is taken
+    delaySeconds: number;
+    // Only callers of this kind
+    callerKind: CallerKind | 'any';
+    // Regular expression for the caller's raw ID (e.g. ^4:\+44); empty matches everyone
+    callerPattern: string;
+    // Answered calls only
+    withVideo: boolean;
+    // Answered calls are hung up after this long; 0 keeps them up
+    hangUpAfterSeconds: number;
+}
+
+export interface AutoAnswerSettings {
+    enabled: boolean;
+    // The first rule that matches a caller decides what happens
+    rules: AutoAnswerRule[];
+}
+
+const generateRuleId = () =>
+    `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAutoAnswerRule = (
+    rule: Partial<Omit<AutoAnswerRule, 'id'>> = {}
+): AutoAnswerRule => ({
+    id: generateRuleId(),
+    action: 'answer',
+    delaySeconds: 3,
+    callerKind: 'any',
+    callerPattern: '',
+    withVideo: false,
+    hangUpAfterSeconds: 0,
+    ...rule,
+});
+
+export const getCallerPatternError = (pattern: string) => {
+    try {
+        new RegExp(pattern, 'i');
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+// Invalid patterns never match, rather than matching every caller
+export const ruleMatchesCaller = (rule: AutoAnswerRule, callerId: string) =>
+    (rule.callerKind === 'any' ||
+        rule.callerKind === getCallerKind(callerId)) &&
+    (!rule.callerPattern ||
+        (!getCallerPatternError(rule.callerPattern) &&
+            new RegExp(rule.callerPattern, 'i').test(callerId)));
+
+export const findAutoAnswerRule = (
+    settings: AutoAnswerSettings,
+    callerId: string
+) =>
+    settings.enabled
+        ? settings.rules.find((rule) => ruleMatchesCaller(rule, callerId))
+        : undefined;
+
+const CALLER_KIND_PLURALS: Record<CallerKind, string> = {
+    acsUser: 'ACS users',
+    teamsUser: 'Teams users',
+    teamsGuest: 'Teams guests',
+    teamsApp: 'Teams apps',
+    phone: 'phone numbers',
+    unknown: 'unknown callers',
+};
+
+const ACTION_LABELS: Record<AutoAnswerAction, string> = {
+    answer: 'Answer',
+    reject: 'Reject',
+    busy: 'Send busy to',
+};
+
+// "Answer phone numbers matching ^4:\+44 after 3s, hang up after 60s"
+export const describeAutoAnswerRule = (rule: AutoAnswerRule) => {
+    const callers =
+        rule.callerKind === 'any'
+            ? 'all callers'
+            : CALLER_KIND_PLURALS[rule.callerKind];
+    const pattern = rule.callerPattern ? ` matching ${rule.callerPattern}` : '';
+    const delay = rule.delaySeconds ? `after ${rule.delaySeconds}s` : 'at once';
+    const video =
+        rule.action === 'answer' && rule.withVideo ? ' with video' : '';
+    const hangUp =
+        rule.action === 'answer' && rule.hangUpAfterSeconds
+            ? `, hang up after ${rule.hangUpAfterSeconds}s`
+            : '';
+    return `${
+        ACTION_LABELS[rule.action]
+    } ${callers}${pattern}${video} ${delay}${hangUp}`;
+};
+
+const readSeconds = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0
+        ? Math.round(value)
+        : 0;
+
+const readRule = (raw: unknown): AutoAnswerRule | undefined => {
+    if (typeof raw !== 'object' || raw === null) return undefined;
+    const rule = raw as Record<string, unknown>;
+    if (!AUTO_ANSWER_ACTIONS.includes(rule.action as AutoAnswerAction)) {
+        return undefined;
+    }
+    return {
+        id: typeof rule.id === 'string' ? rule.id : generateRuleId(),
+        action: rule.action as AutoAnswerAction,
+        delaySeconds: readSeconds(rule.delaySeconds),
+        callerKind:
+            rule.callerKind === 'any' ||
+            (typeof rule.callerKind === 'string' &&
+                rule.callerKind in CALLER_KIND_LABELS)
+                ? (rule.callerKind as CallerKind | 'any')
+                : 'any',
+        callerPattern:
+            typeof rule.callerPattern === 'string' ? rule.callerPattern : '',
+        withVideo: rule.withVideo === true,
+        hangUpAfterSeconds: readSeconds(rule.hangUpAfterSeconds),
+    };
+};
+
+// Rules are off until switched on, so a shared machine never answers calls unexpectedly
+export const loadAutoAnswerSettings = (): AutoAnswerSettings => {
+    try {
+        const saved = JSON.parse(
+            localStorage.getItem(AUTO_ANSWER_STORAGE_KEY) ?? '{}'
+        ) as Record<string, unknown>;
+        return {
+            enabled: saved.enabled === true,
+            rules: Array.isArray(saved.rules)
+                ? saved.rules
+                      .map(readRule)
+                      .filter((rule): rule is AutoAnswerRule => Boolean(rule))
+                : [],
+        };
+    } catch {
+        return { enabled: false, rules: [] };
+    }
+};
+
+export const saveAutoAnswerSettings = (settings: AutoAnswerSettings) => {
+    localStorage.setItem(AUTO_ANSWER_STORAGE_KEY, JSON.stringify(settings));
+};
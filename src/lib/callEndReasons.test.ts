@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { lookupAcsError } from './acsErrors';
+import { describeCallEndReason, formatCallEndReason } from './callEndReasons';
+
+describe('describeCallEndReason', () => {
+    it('tells ordinary hang-ups from removals and meetings ending', () => {
+        expect(describeCallEndReason({ code: 0, subCode: 0 })).toEqual({
+            kind: 'hungUp',
+            message: 'The call ended normally.',
+        });
+        expect(describeCallEndReason({ code: 0, subCode: 1 }).kind).toBe(
+            'failed'
+        );
+        expect(describeCallEndReason({ code: 0, subCode: 5300 }).kind).toBe(
+            'removed'
+        );
+        expect(describeCallEndReason({ code: 0, subCode: 4097 }).kind).toBe(
+            'endedForAll'
+        );
+    });
+
+    it('explains calls that were never answered', () => {
+        expect(describeCallEndReason({ code: 603, subCode: 0 }).kind).toBe(
+            'declined'
+        );
+        expect(describeCallEndReason({ code: 486 }).kind).toBe('busy');
+        expect(describeCallEndReason({ code: 490, subCode: 0 }).kind).toBe(
+            'noAnswer'
+        );
+        expect(describeCallEndReason({ code: 487, subCode: 10003 })).toEqual({
+            kind: 'cancelled',
+            message: 'The call was answered on another device (487/10003).',
+        });
+    });
+
+    it('explains dropped calls and expired tokens', () => {
+        expect(describeCallEndReason({ code: 410, subCode: 3112 }).kind).toBe(
+            'networkDrop'
+        );
+        expect(describeCallEndReason({ code: 401, subCode: 0 }).kind).toBe(
+            'tokenExpired'
+        );
+    });
+
+    it('reads other catalogued errors as failures', () => {
+        expect(describeCallEndReason({ code: 503, subCode: 7 })).toEqual({
+            kind: 'failed',
+            message: lookupAcsError(503)?.explanation,
+        });
+    });
+
+    it('falls back to the code for reasons it does not know', () => {
+        expect(describeCallEndReason({ code: 599, subCode: 7 })).toEqual({
+            kind: 'failed',
+            message: 'The call failed on the service side (599/7).',
+        });
+        expect(describeCallEndReason({ code: 499 }).message).toBe(
+            'The call ended unexpectedly (499).'
+        );
+        expect(describeCallEndReason().message).toBe('The call ended.');
+    });
+});
+
+describe('formatCallEndReason', () => {
+    it('shows the subCode only when there is one', () => {
+        expect(formatCallEndReason({ code: 487, subCode: 0 })).toBe('487/0');
+        expect(formatCallEndReason({ code: 487 })).toBe('487');
+    });
+});
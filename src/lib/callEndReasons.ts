@@ -0,0 +1,35 @@
+import type { CallEndReasonInfo } from '../types';
+import { lookupAcsError, type CallEndKind } from './acsErrors';
+
+export type { CallEndKind };
+
+export interface CallEndDescription {
+    kind: CallEndKind;
+    message: string;
+}
+
+export const formatCallEndReason = ({ code, subCode }: CallEndReasonInfo) =>
+    subCode !== undefined ? `${code}/${subCode}` : `${code}`;
+
+// Why the call ended, in words, from the ACS error catalogue so it reads the
+// same as the error banner; unknown codes fall back to a generic failure
+export const describeCallEndReason = (
+    endReason?: CallEndReasonInfo
+): CallEndDescription => {
+    if (!endReason) return { kind: 'hungUp', message: 'The call ended.' };
+    const entry = lookupAcsError(endReason.code, endReason.subCode);
+    if (entry) {
+        return { kind: entry.endKind ?? 'failed', message: entry.explanation };
+    }
+    return {
+        kind: 'failed',
+        message:
+            endReason.code >= 500
+                ? `The call failed on the service side (${formatCallEndReason(
+                      endReason
+                  )}).`
+                : `The call ended unexpectedly (${formatCallEndReason(
+                      endReason
+                  )}).`,
+    };
+};
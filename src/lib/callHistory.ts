@@ -0,0 +1,110 @@
+import type { RemoteParticipant } from '@azure/communication-calling';
+import { getIdentifierRawId } from '@azure/communication-common';
+import type { CallHistoryEntry } from '../types';
+
+const DB_NAME = 'azure-call-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'calls';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, {
+                    keyPath: 'id',
+                });
+                store.createIndex('startedAt', 'startedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = undefined;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = createRequest(
+            db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+        );
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const saveCallRecord = async (entry: CallHistoryEntry) => {
+    await runRequest('readwrite', (store) => store.put(entry));
+};
+
+export const getCallRecord = (id: string) =>
+    runRequest<CallHistoryEntry | undefined>('readonly', (store) =>
+        store.get(id)
+    );
+
+// Newest first
+export const listCallRecords = async (): Promise<CallHistoryEntry[]> => {
+    const entries = await runRequest<CallHistoryEntry[]>('readonly', (store) =>
+        store.getAll()
+    );
+    return entries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+export const deleteCallRecord = async (id: string) => {
+    await runRequest('readwrite', (store) => store.delete(id));
+};
+
+export const clearCallHistory = async () => {
+    await runRequest('readwrite', (store) => store.clear());
+};
+
+export const generateCallRecordId = () =>
+    `call-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Short outcome label used by the history filters
+export type CallOutcome =
+    | 'connected'
+    | 'failed'
+    | 'missed'
+    | 'rejected'
+    | 'inProgress';
+
+export const getCallOutcome = (entry: CallHistoryEntry): CallOutcome => {
+    if (!entry.endedAt) return 'inProgress';
+    if (entry.connectedAt) return 'connected';
+    if (entry.finalState === 'Rejected') return 'rejected';
+    return entry.direction === 'incoming' && !entry.errorExplanation
+        ? 'missed'
+        : 'failed';
+};
+
+// 65000 -> "1:05", 3725000 -> "1:02:05"
+export const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+        : `${minutes}:${seconds}`;
+};
+
+// Display names, falling back to the raw identifier when there is no name
+export const getParticipantNames = (
+    participants: Pick<RemoteParticipant, 'displayName' | 'identifier'>[]
+) =>
+    participants.map(
+        (participant) =>
+            participant.displayName ||
+            getIdentifierRawId(participant.identifier)
+    );
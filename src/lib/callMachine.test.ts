@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+    callMachineReducer,
+    canStartCall,
+    initialCallMachineState,
+    type CallMachineEvent,
+    type CallMachineState,
+} from './callMachine';
+import type {
+    CallListener,
+    CallSession,
+    IncomingCallOffer,
+} from './callingService';
+
+const listener: CallListener = { stop: () => {} };
+const session = { hangUp: async () => {}, dispose: () => {} } as CallSession;
+const offer = { id: 'offer-1', callerName: 'Caller' } as IncomingCallOffer;
+
+const run = (
+    events: CallMachineEvent[],
+    from: CallMachineState = initialCallMachineState
+) => events.reduce(callMachineReducer, from);
+
+const listening = run([{ type: 'listenerStarted', listener }]);
+const ringing = run([{ type: 'incomingCall', offer }], listening);
+
+describe('callMachineReducer', () => {
+    it('starts and stops listening', () => {
+        expect(listening).toMatchObject({ phase: 'listening', listener });
+        expect(run([{ type: 'listenerStopped' }], listening)).toEqual(
+            initialCallMachineState
+        );
+    });
+
+    it('rings only while listening with nothing else going on', () => {
+        expect(ringing).toMatchObject({ phase: 'ringing', offer });
+        const second = { id: 'offer-2' } as IncomingCallOffer;
+        expect(run([{ type: 'incomingCall', offer: second }], ringing)).toBe(
+            ringing
+        );
+        expect(
+            run([{ type: 'incomingCall', offer }], initialCallMachineState)
+        ).toBe(initialCallMachineState);
+    });
+
+    it('goes back to listening when the offer is rejected or missed', () => {
+        const closed = run([{ type: 'incomingCallClosed', offer }], ringing);
+        expect(closed.phase).toBe('listening');
+        expect(closed.offer).toBeUndefined();
+        // Stale offers are ignored
+        const other = { id: 'offer-2' } as IncomingCallOffer;
+        expect(
+            run([{ type: 'incomingCallClosed', offer: other }], ringing)
+        ).toBe(ringing);
+    });
+
+    it('accepts an offer and returns to listening after the call', () => {
+        const inCall = run(
+            [
+                { type: 'callRequested' },
+                {
+                    type: 'callStateChanged',
+                    callState: 'Connected',
+                    callId: 'call-1',
+                },
+                { type: 'callStarted', session },
+            ],
+            ringing
+        );
+        expect(inCall).toMatchObject({
+            phase: 'inCall',
+            session,
+            offer: undefined,
+            callState: 'Connected',
+            callId: 'call-1',
+        });
+
+        const ending = run([{ type: 'hangUpRequested' }], inCall);
+        expect(ending.phase).toBe('ending');
+        expect(run([{ type: 'callEnded' }], ending)).toEqual(listening);
+    });
+
+    it('keeps the call when an accepted call takes over the listener', () => {
+        const state = run(
+            [
+                { type: 'callRequested' },
+                { type: 'listenerStopped' },
+                { type: 'callStarted', session },
+            ],
+            ringing
+        );
+        expect(state).toMatchObject({ phase: 'inCall', session });
+        expect(state.listener).toBeUndefined();
+        expect(run([{ type: 'callEnded' }], state).phase).toBe('idle');
+    });
+
+    it('returns to the offer when accepting fails', () => {
+        const state = run(
+            [{ type: 'callRequested' }, { type: 'callFailed' }],
+            ringing
+        );
+        expect(state).toMatchObject({ phase: 'ringing', offer });
+    });
+
+    it('refuses a session for a call that ended while it was set up', () => {
+        const state = run([
+            { type: 'callRequested' },
+            { type: 'callEnded' },
+            { type: 'callStarted', session },
+        ]);
+        expect(state).toEqual(initialCallMachineState);
+    });
+
+    it('tracks the role until the call ends', () => {
+        const inRoom = run(
+            [
+                { type: 'callRequested' },
+                { type: 'roleChanged', role: 'Attendee' },
+                { type: 'callStarted', session },
+                { type: 'roleChanged', role: 'Presenter' },
+            ],
+            listening
+        );
+        expect(inRoom).toMatchObject({ phase: 'inCall', role: 'Presenter' });
+        expect(run([{ type: 'callEnded' }], inRoom).role).toBeUndefined();
+        expect(
+            run([{ type: 'roleChanged', role: 'Attendee' }], listening)
+        ).toBe(listening);
+    });
+
+    it('drops SDK events once the call is over', () => {
+        expect(
+            run([
+                {
+                    type: 'callStateChanged',
+                    callState: 'Disconnected',
+                    callId: 'call-1',
+                },
+            ])
+        ).toBe(initialCallMachineState);
+    });
+});
+
+describe('canStartCall', () => {
+    it('allows a call only from idle or listening', () => {
+        expect(canStartCall(initialCallMachineState)).toBe(true);
+        expect(canStartCall(listening)).toBe(true);
+        expect(canStartCall(ringing)).toBe(false);
+        expect(canStartCall(run([{ type: 'callRequested' }]))).toBe(false);
+    });
+});
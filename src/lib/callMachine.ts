@@ -0,0 +1,155 @@
+import type { Call } from '@azure/communication-calling';
+import type {
+    CallListener,
+    CallSession,
+    IncomingCallOffer,
+} from './callingService';
+
+// The app's call lifecycle. The listener is independent of the call: it keeps running
+// through a call and the app returns to 'listening' once the call is over.
+export type CallPhase =
+    | 'idle'
+    | 'listening'
+    | 'ringing'
+    | 'connecting'
+    | 'inCall'
+    | 'ending';
+
+export interface CallMachineState {
+    phase: CallPhase;
+    listener?: CallListener;
+    // Incoming call waiting to be accepted or rejected
+    offer?: IncomingCallOffer;
+    session?: CallSession;
+    // The SDK's own call state and id, for the status bar
+    callState: string;
+    callId?: string;
+    // The SDK call behind the session, watched by the quality panel
+    sdkCall?: Call;
+    // Our role in a room or meeting, as last reported by the SDK
+    role?: string;
+}
+
+export type CallMachineEvent =
+    | { type: 'listenerStarted'; listener: CallListener }
+    | { type: 'listenerStopped' }
+    | { type: 'incomingCall'; offer: IncomingCallOffer }
+    // Rejected, or the caller hung up before it was answered
+    | { type: 'incomingCallClosed'; offer: IncomingCallOffer }
+    // Starting an outgoing call or accepting the offer
+    | { type: 'callRequested' }
+    | { type: 'callStarted'; session: CallSession }
+    | { type: 'callFailed' }
+    | { type: 'callStateChanged'; callState: string; callId?: string }
+    | { type: 'sdkCallChanged'; call?: Call }
+    | { type: 'roleChanged'; role: string }
+    | { type: 'hangUpRequested' }
+    | { type: 'callEnded' };
+
+export const initialCallMachineState: CallMachineState = {
+    phase: 'idle',
+    callState: 'None',
+};
+
+// Where the app settles when no call is ringing or in progress
+const restingPhase = (state: CallMachineState): CallPhase =>
+    state.listener ? 'listening' : 'idle';
+
+export const canStartCall = (state: CallMachineState) =>
+    state.phase === 'idle' || state.phase === 'listening';
+
+// A call is being set up, running or torn down
+const hasCall = (state: CallMachineState) =>
+    state.phase === 'connecting' ||
+    state.phase === 'inCall' ||
+    state.phase === 'ending';
+
+// Pure transition function; disposing whatever leaves the state is up to useCallMachine
+export const callMachineReducer = (
+    state: CallMachineState,
+    event: CallMachineEvent
+): CallMachineState => {
+    switch (event.type) {
+        case 'listenerStarted':
+            return {
+                ...state,
+                listener: event.listener,
+                phase: state.phase === 'idle' ? 'listening' : state.phase,
+            };
+        case 'listenerStopped': {
+            // An accepted call can take over the listener's agent; that call carries on
+            const waiting =
+                state.phase === 'listening' || state.phase === 'ringing';
+            return {
+                ...state,
+                listener: undefined,
+                offer: waiting ? undefined : state.offer,
+                phase: waiting ? 'idle' : state.phase,
+            };
+        }
+        case 'incomingCall':
+            // Busy: only a listener with nothing else going on rings
+            if (state.phase !== 'listening') return state;
+            return { ...state, phase: 'ringing', offer: event.offer };
+        case 'incomingCallClosed':
+            if (state.offer !== event.offer) return state;
+            return {
+                ...state,
+                offer: undefined,
+                phase:
+                    state.phase === 'ringing'
+                        ? restingPhase(state)
+                        : state.phase,
+            };
+        case 'callRequested':
+            if (!canStartCall(state) && state.phase !== 'ringing') return state;
+            return { ...state, phase: 'connecting' };
+        // Unless the call ended or failed while it was being set up
+        case 'callStarted':
+            if (state.phase !== 'connecting') return state;
+            return {
+                ...state,
+                phase: 'inCall',
+                session: event.session,
+                offer: undefined,
+            };
+        case 'callFailed':
+            if (state.phase !== 'connecting') return state;
+            return {
+                ...state,
+                phase: state.offer ? 'ringing' : restingPhase(state),
+                callState: 'None',
+                callId: undefined,
+                sdkCall: undefined,
+                role: undefined,
+            };
+        // Late SDK events for a call that is already over are dropped
+        case 'callStateChanged':
+            if (!hasCall(state)) return state;
+            return {
+                ...state,
+                callState: event.callState,
+                callId: event.callId,
+            };
+        case 'sdkCallChanged':
+            if (!hasCall(state)) return state;
+            return { ...state, sdkCall: event.call };
+        case 'roleChanged':
+            if (!hasCall(state)) return state;
+            return { ...state, role: event.role };
+        case 'hangUpRequested':
+            if (state.phase !== 'inCall') return state;
+            return { ...state, phase: 'ending' };
+        case 'callEnded':
+            if (!hasCall(state)) return state;
+            return {
+                ...state,
+                phase: restingPhase(state),
+                session: undefined,
+                callState: 'None',
+                callId: undefined,
+                sdkCall: undefined,
+                role: undefined,
+            };
+    }
+};
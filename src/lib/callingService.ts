@@ -0,0 +1,177 @@
+import type { Call, CallAgent } from '@azure/communication-calling';
+import type {
+    CallAdapter,
+    StatefulCallClient,
+} from '@azure/communication-react';
+import type { Callee, CallConfig, CallEndReasonInfo } from '../types';
+import type { DtmfKey } from './dtmf';
+import type { SimulatedCall } from './simulatedCallingService';
+
+// The app talks to calls through this interface so the UI can run against the real
+// ACS SDK (acsCallingService) or the scripted in-memory fake (simulatedCallingService).
+
+export type CallingMode = 'acs' | 'simulated';
+
+// What the in-call screen renders for a session
+export type CallView =
+    | { kind: 'composite'; adapter: CallAdapter }
+    | {
+          kind: 'direct';
+          callClient: StatefulCallClient;
+          callAgent: CallAgent;
+          call: Call;
+      }
+    | { kind: 'simulated'; call: SimulatedCall };
+
+export interface CallSessionHandlers {
+    onStateChanged: (state: string, callId?: string) => void;
+    // Display names, or raw IDs for participants without one
+    onParticipantsJoined: (names: string[]) => void;
+    onParticipantsLeft: (names: string[]) => void;
+    onDiagnosticChanged: (
+        kind: 'media' | 'network',
+        name: string,
+        value: string
+    ) => void;
+    // Notes for the call timeline, e.g. how an incoming call was accepted
+    onInfo: (detail: string) => void;
+    onError: (error: unknown) => void;
+    // The call ended for any reason other than hangUp(); leftLocally when we left
+    // with the call view's own end-call button instead of through hangUp()
+    onEnded: (endReason?: CallEndReasonInfo, leftLocally?: boolean) => void;
+    // The SDK call behind the session once it exists; drives the quality panel
+    onCallChanged?: (call: Call | undefined) => void;
+    // Our role in the call (Presenter, Attendee or Consumer in Rooms), first when it
+    // is known and again whenever an organizer changes it
+    onRoleChanged?: (role: string) => void;
+}
+
+// Passes every session event to both sets of handlers, primary first
+export const teeSessionHandlers = (
+    primary: CallSessionHandlers,
+    secondary: CallSessionHandlers
+): CallSessionHandlers => ({
+    onStateChanged: (state, callId) => {
+        primary.onStateChanged(state, callId);
+        secondary.onStateChanged(state, callId);
+    },
+    onParticipantsJoined: (names) => {
+        primary.onParticipantsJoined(names);
+        secondary.onParticipantsJoined(names);
+    },
+    onParticipantsLeft: (names) => {
+        primary.onParticipantsLeft(names);
+        secondary.onParticipantsLeft(names);
+    },
+    onDiagnosticChanged: (kind, name, value) => {
+        primary.onDiagnosticChanged(kind, name, value);
+        secondary.onDiagnosticChanged(kind, name, value);
+    },
+    onInfo: (detail) => {
+        primary.onInfo(detail);
+        secondary.onInfo(detail);
+    },
+    onError: (error) => {
+        primary.onError(error);
+        secondary.onError(error);
+    },
+    onEnded: (endReason, leftLocally) => {
+        primary.onEnded(endReason, leftLocally);
+        secondary.onEnded(endReason, leftLocally);
+    },
+    onCallChanged: (call) => {
+        primary.onCallChanged?.(call);
+        secondary.onCallChanged?.(call);
+    },
+    onRoleChanged: (role) => {
+        primary.onRoleChanged?.(role);
+        secondary.onRoleChanged?.(role);
+    },
+});
+
+export interface CallSession {
+    view: CallView;
+    // Starts or joins the call without waiting for the call view's own Start call or
+    // Join button; used by scripted scenarios. Unset when the call starts by itself.
+    join?: () => Promise<void>;
+    // Leaves the call; onEnded is not fired
+    hangUp: () => Promise<void>;
+    // Dials someone into the live call; phone numbers need a number of ours to call from
+    addParticipant?: (
+        callee: Callee,
+        options: { alternateCallerId?: string }
+    ) => Promise<void>;
+    // Sends a DTMF tone, e.g. to navigate an IVR on a PSTN leg
+    sendDtmf?: (key: DtmfKey) => Promise<void>;
+    // Mutes or unmutes our microphone; used by scripted scenarios
+    setMuted?: (muted: boolean) => Promise<void>;
+    // Releases the SDK objects once the session is done with (see useCallMachine)
+    dispose: () => void;
+}
+
+export interface IncomingCallOffer {
+    id: string;
+    callerId: string;
+    callerName: string;
+    isTeamsCall: boolean;
+    accept: (
+        options: { withVideo: boolean },
+        handlers: CallSessionHandlers
+    ) => Promise<CallSession>;
+    reject: () => Promise<void>;
+}
+
+export interface CallListenerHandlers {
+    onIncomingCall: (offer: IncomingCallOffer) => void;
+    // The caller hung up before the offer was accepted or rejected
+    onIncomingCallEnded: (
+        offer: IncomingCallOffer,
+        endReason?: CallEndReasonInfo
+    ) => void;
+    // The listener stopped on its own, e.g. an accepted call took over its agent
+    onStopped: () => void;
+}
+
+export interface CallListener {
+    stop: () => void;
+}
+
+// One of many agents a soak test joins to a group call, each with its own identity
+export interface HeadlessAgentIdentity {
+    userId: string;
+    token: string;
+    displayName: string;
+}
+
+export interface HeadlessCallHandlers {
+    onStateChanged: (state: string) => void;
+    // The call ended for any reason other than hangUp()
+    onEnded: (endReason?: CallEndReasonInfo) => void;
+}
+
+// A call with no UI behind it; nothing renders or records it
+export interface HeadlessCall {
+    hangUp: () => Promise<void>;
+    // Releases the agent and any synthetic audio
+    dispose: () => Promise<void>;
+}
+
+export interface CallingService {
+    mode: CallingMode;
+    // Starts an outgoing call for a validated configuration
+    startCall: (
+        config: CallConfig,
+        handlers: CallSessionHandlers
+    ) => Promise<CallSession>;
+    listen: (
+        config: CallConfig,
+        handlers: CallListenerHandlers
+    ) => Promise<CallListener>;
+    // Joins a group call with a separate agent; muted unless syntheticAudio plays a tone
+    joinHeadless: (
+        identity: HeadlessAgentIdentity,
+        groupId: string,
+        options: { syntheticAudio: boolean },
+        handlers: HeadlessCallHandlers
+    ) => Promise<HeadlessCall>;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { emptyConfig, migrateConfig } from './config';
+
+describe('migrateConfig', () => {
+    it('returns an empty configuration for anything that is not an object', () => {
+        expect(migrateConfig(undefined)).toEqual(emptyConfig());
+        expect(migrateConfig(null)).toEqual(emptyConfig());
+        expect(migrateConfig('8:acs:me')).toEqual(emptyConfig());
+    });
+
+    it('keeps current configurations as they are', () => {
+        const current = {
+            userId: '8:acs:me',
+            token: 'token',
+            displayName: 'Tester',
+            callType: 'phone',
+            callValue: '+14255550123',
+            alternateCallerId: '+18005550100',
+            phoneCountry: 'US',
+            meetingPasscode: '',
+            dtmfScript: '',
+            tokenEndpoint: 'http://localhost:7071/token',
+            requirePreCallCheck: true,
+        };
+        expect(migrateConfig(current)).toEqual(current);
+    });
+
+    it('converts the legacy groupId field to a group call', () => {
+        expect(
+            migrateConfig({
+                userId: '8:acs:me',
+                groupId: '29228d3e-040e-4656-a70e-890ab4e173e4',
+            })
+        ).toMatchObject({
+            userId: '8:acs:me',
+            callType: 'group',
+            callValue: '29228d3e-040e-4656-a70e-890ab4e173e4',
+        });
+    });
+
+    it('converts the legacy targetCallerId and phoneNumber fields', () => {
+        expect(migrateConfig({ targetCallerId: '8:acs:other' })).toMatchObject({
+            callType: 'oneToOne',
+            callValue: '8:acs:other',
+        });
+        expect(migrateConfig({ phoneNumber: '+14255550123' })).toMatchObject({
+            callType: 'phone',
+            callValue: '+14255550123',
+        });
+    });
+
+    it('prefers groupId when several legacy targets are set', () => {
+        expect(
+            migrateConfig({ groupId: 'group', phoneNumber: '+14255550123' })
+        ).toMatchObject({ callType: 'group', callValue: 'group' });
+    });
+
+    it('drops unknown call types and values of the wrong type', () => {
+        const migrated = migrateConfig({
+            userId: 42,
+            callType: 'teams',
+            callValue: 'meeting',
+            requirePreCallCheck: 'yes',
+        });
+        expect(migrated.userId).toBe('');
+        expect(migrated.callType).toBe('');
+        expect(migrated.callValue).toBe('meeting');
+        expect(migrated.requirePreCallCheck).toBe(false);
+    });
+});
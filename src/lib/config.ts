@@ -0,0 +1,69 @@
+import type { CallConfig } from '../types';
+
+// Every call type the app can start; '' is the form's unselected state
+export const CALL_TYPES: CallConfig['callType'][] = [
+    'group',
+    'oneToOne',
+    'phone',
+    'teamsMeeting',
+    'teamsUser',
+    'room',
+    'adHoc',
+];
+
+export const emptyConfig = (): CallConfig => ({
+    userId: '',
+    token: '',
+    displayName: '',
+    callType: '',
+    callValue: '',
+    alternateCallerId: '',
+    phoneCountry: '',
+    meetingPasscode: '',
+    dtmfScript: '',
+    tokenEndpoint: '',
+    requirePreCallCheck: false,
+});
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// Single migration step every stored configuration goes through. Handles the legacy
+// format (separate groupId/targetCallerId/phoneNumber fields) and fills missing fields.
+export const migrateConfig = (raw: unknown): CallConfig => {
+    const parsed =
+        typeof raw === 'object' && raw !== null
+            ? (raw as Record<string, unknown>)
+            : {};
+
+    const base: CallConfig = {
+        ...emptyConfig(),
+        userId: readString(parsed.userId),
+        token: readString(parsed.token),
+        displayName: readString(parsed.displayName),
+        alternateCallerId: readString(parsed.alternateCallerId),
+        phoneCountry: readString(parsed.phoneCountry),
+        meetingPasscode: readString(parsed.meetingPasscode),
+        dtmfScript: readString(parsed.dtmfScript),
+        tokenEndpoint: readString(parsed.tokenEndpoint),
+        requirePreCallCheck: parsed.requirePreCallCheck === true,
+    };
+
+    // Old format - convert to callType/callValue
+    const groupId = readString(parsed.groupId);
+    const targetCallerId = readString(parsed.targetCallerId);
+    const phoneNumber = readString(parsed.phoneNumber);
+    if (groupId || targetCallerId || phoneNumber) {
+        return {
+            ...base,
+            callType: groupId ? 'group' : targetCallerId ? 'oneToOne' : 'phone',
+            callValue: groupId || targetCallerId || phoneNumber,
+        };
+    }
+
+    const callType = readString(parsed.callType) as CallConfig['callType'];
+    return {
+        ...base,
+        callType: CALL_TYPES.includes(callType) ? callType : '',
+        callValue: readString(parsed.callValue),
+    };
+};
@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import type { CallHistoryEntry } from '../types';
+import { emptyConfig } from './config';
+import {
+    buildDiagnosticsReport,
+    maskPhoneNumber,
+    maskToken,
+} from './diagnostics';
+
+vi.mock('@azure/communication-calling', () => ({ DiagnosticQuality: {} }));
+
+const TOKEN = 'eyJhbGciOiJSUzI1NiJ9.payload.signature';
+
+const entry: CallHistoryEntry = {
+    id: 'call-1',
+    direction: 'outgoing',
+    callType: 'phone',
+    target: '+14255550123',
+    displayName: 'Tester',
+    alternateCallerId: '+18005550100',
+    startedAt: '2025-01-01T12:00:00.000Z',
+    timeline: [
+        {
+            at: '2025-01-01T12:00:01.000Z',
+            type: 'state',
+            detail: 'Dialing +14255550123',
+        },
+    ],
+};
+
+const config = {
+    ...emptyConfig(),
+    token: TOKEN,
+    callType: 'phone' as const,
+    callValue: '+14255550123',
+    alternateCallerId: '+18005550100',
+    meetingPasscode: 'a1B2c3',
+};
+
+describe('diagnostics masking', () => {
+    it('keeps the last four digits of phone numbers', () => {
+        expect(maskPhoneNumber('+14255550123')).toBe('+*******0123');
+        expect(maskPhoneNumber('123')).toBe('123');
+    });
+
+    it('keeps only the start of a token', () => {
+        expect(maskToken(TOKEN)).toBe(
+            `eyJhbGci...[${TOKEN.length} chars masked]`
+        );
+        expect(maskToken('')).toBe('');
+    });
+
+    it('masks tokens, passcodes and phone numbers in the report', async () => {
+        const report = await buildDiagnosticsReport(entry, undefined, config);
+        const text = JSON.stringify(report);
+
+        expect(text).not.toContain(TOKEN);
+        expect(text).not.toContain('a1B2c3');
+        expect(text).not.toContain('4255550123');
+        expect(text).not.toContain('8005550100');
+        expect(report.call.target).toBe('+*******0123');
+        expect(report.timeline[0].detail).toBe('Dialing +*******0123');
+        expect(report.config?.alternateCallerId).toBe('+*******0100');
+    });
+
+    it('leaves values alone when masking is turned off', async () => {
+        const report = await buildDiagnosticsReport(
+            entry,
+            { maskTokens: false, maskPhoneNumbers: false },
+            config
+        );
+        expect(report.config).toMatchObject({
+            token: TOKEN,
+            meetingPasscode: 'a1B2c3',
+            callValue: '+14255550123',
+        });
+        expect(report.timeline[0].detail).toBe('Dialing +14255550123');
+    });
+});
@@ -0,0 +1,209 @@
+import {
+    DiagnosticQuality,
+    type DiagnosticValueType,
+} from '@azure/communication-calling';
+import { version as callingSdkVersion } from '@azure/communication-calling/package.json';
+import { version as commonSdkVersion } from '@azure/communication-common/package.json';
+import type { CallConfig, CallHistoryEntry, MediaStatsSummary } from '../types';
+import { decodeJWT } from './jwt';
+import { parseCalleeList } from './validators';
+
+export const DIAGNOSTICS_REPORT_VERSION = 1;
+
+export interface DiagnosticsRedaction {
+    maskTokens: boolean;
+    maskPhoneNumbers: boolean;
+}
+
+export const DEFAULT_DIAGNOSTICS_REDACTION: DiagnosticsRedaction = {
+    maskTokens: true,
+    maskPhoneNumbers: true,
+};
+
+export interface DiagnosticsReport {
+    reportVersion: number;
+    generatedAt: string;
+    redaction: DiagnosticsRedaction;
+    sdk: Record<string, string>;
+    environment: Record<string, unknown>;
+    config?: Record<string, unknown>;
+    call: Omit<
+        CallHistoryEntry,
+        'config' | 'timeline' | 'diagnostics' | 'endReason' | 'mediaStats'
+    >;
+    callEndReason?: CallHistoryEntry['endReason'];
+    diagnostics: {
+        latest: Record<string, string>;
+        events: CallHistoryEntry['timeline'];
+        mediaStats: MediaStatsSummary[];
+    };
+    errors: CallHistoryEntry['timeline'];
+    timeline: CallHistoryEntry['timeline'];
+}
+
+// E.164-looking numbers anywhere in free text (timeline details, raw IDs like "4:+1555...")
+const PHONE_PATTERN = /\+\d{7,15}/g;
+
+// Keep the last four digits so calls can still be told apart
+export const maskPhoneNumber = (value: string) => {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length <= 4) return value;
+    return `${value.trim().startsWith('+') ? '+' : ''}${'*'.repeat(
+        digits.length - 4
+    )}${digits.slice(-4)}`;
+};
+
+export const maskToken = (token: string) =>
+    token ? `${token.slice(0, 8)}...[${token.length} chars masked]` : '';
+
+const maskPhonesInText = (text: string) =>
+    text.replace(PHONE_PATTERN, maskPhoneNumber);
+
+// "Poor" / "Bad" for quality diagnostics, "true" / "false" for flags
+export const formatDiagnosticValue = (
+    value: number | boolean,
+    valueType: DiagnosticValueType
+) =>
+    valueType === 'DiagnosticQuality' && typeof value === 'number'
+        ? DiagnosticQuality[value] ?? String(value)
+        : String(value);
+
+const redactConfig = (
+    config: CallConfig,
+    { maskTokens, maskPhoneNumbers }: DiagnosticsRedaction
+) => {
+    const tokenInfo = decodeJWT(config.token);
+    return {
+        ...config,
+        token: maskTokens ? maskToken(config.token) : config.token,
+        // Expiry is useful even when the token itself is masked
+        tokenExpiresAt: tokenInfo.expirationTime?.toISOString(),
+        callValue:
+            maskPhoneNumbers && config.callType === 'phone'
+                ? maskPhoneNumber(config.callValue)
+                : maskPhoneNumbers && config.callType === 'adHoc'
+                ? parseCalleeList(config.callValue, config.phoneCountry)
+                      .map(({ raw, callee }) =>
+                          callee?.kind === 'phone'
+                              ? maskPhoneNumber(callee.phoneNumber)
+                              : raw
+                      )
+                      .join('\n')
+                : config.callValue,
+        // Anyone with the meeting ID and passcode can join, so it is treated like the token
+        meetingPasscode:
+            maskTokens && config.meetingPasscode
+                ? '******'
+                : config.meetingPasscode,
+        alternateCallerId:
+            maskPhoneNumbers && config.alternateCallerId
+                ? maskPhoneNumber(config.alternateCallerId)
+                : config.alternateCallerId,
+    };
+};
+
+const collectEnvironment = async (): Promise<Record<string, unknown>> => {
+    // Non-standard navigator fields (Chromium only)
+    const nav = navigator as Navigator & {
+        deviceMemory?: number;
+        connection?: {
+            effectiveType?: string;
+            downlink?: number;
+            rtt?: number;
+        };
+    };
+
+    let mediaDevices: Record<string, number> | string;
+    try {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        mediaDevices = devices.reduce<Record<string, number>>(
+            (counts, device) => ({
+                ...counts,
+                [device.kind]: (counts[device.kind] ?? 0) + 1,
+            }),
+            {}
+        );
+    } catch (error) {
+        mediaDevices = `unavailable: ${
+            error instanceof Error ? error.message : String(error)
+        }`;
+    }
+
+    return {
+        userAgent: nav.userAgent,
+        platform: nav.platform,
+        language: nav.language,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        online: nav.onLine,
+        hardwareConcurrency: nav.hardwareConcurrency,
+        deviceMemoryGb: nav.deviceMemory,
+        connection: nav.connection && {
+            effectiveType: nav.connection.effectiveType,
+            downlinkMbps: nav.connection.downlink,
+            rttMs: nav.connection.rtt,
+        },
+        screen: `${window.screen.width}x${window.screen.height}@${window.devicePixelRatio}x`,
+        mediaDevices,
+        pageUrl: `${window.location.origin}${window.location.pathname}`,
+    };
+};
+
+// Bundle everything needed to file an ACS ticket about one call into a single JSON document.
+// `config` overrides the entry's saved config, e.g. with the live form for the current call.
+export const buildDiagnosticsReport = async (
+    entry: CallHistoryEntry,
+    redaction: DiagnosticsRedaction = DEFAULT_DIAGNOSTICS_REDACTION,
+    config: CallConfig | undefined = entry.config
+): Promise<DiagnosticsReport> => {
+    const maskText = (text: string) =>
+        redaction.maskPhoneNumbers ? maskPhonesInText(text) : text;
+    const timeline = entry.timeline.map((event) => ({
+        ...event,
+        detail: maskText(event.detail),
+    }));
+
+    return {
+        reportVersion: DIAGNOSTICS_REPORT_VERSION,
+        generatedAt: new Date().toISOString(),
+        redaction,
+        sdk: {
+            '@azure/communication-calling': callingSdkVersion,
+            '@azure/communication-common': commonSdkVersion,
+        },
+        environment: await collectEnvironment(),
+        config: config && redactConfig(config, redaction),
+        call: {
+            id: entry.id,
+            callId: entry.callId,
+            direction: entry.direction,
+            callType: entry.callType,
+            target: maskText(entry.target),
+            displayName: entry.displayName,
+            alternateCallerId:
+                entry.alternateCallerId && redaction.maskPhoneNumbers
+                    ? maskPhoneNumber(entry.alternateCallerId)
+                    : entry.alternateCallerId,
+            startedAt: entry.startedAt,
+            connectedAt: entry.connectedAt,
+            endedAt: entry.endedAt,
+            durationMs: entry.durationMs,
+            finalState: entry.finalState,
+            errorExplanation:
+                entry.errorExplanation && maskText(entry.errorExplanation),
+            participants: entry.participants?.map(maskText),
+            rating: entry.rating,
+            notes: entry.notes && maskText(entry.notes),
+        },
+        callEndReason: entry.endReason,
+        diagnostics: {
+            latest: entry.diagnostics ?? {},
+            events: timeline.filter((event) => event.type === 'diagnostic'),
+            mediaStats: entry.mediaStats ?? [],
+        },
+        errors: timeline.filter((event) => event.type === 'error'),
+        timeline,
+    };
+};
+
+export const diagnosticsFileName = (entry: CallHistoryEntry) =>
+    `acs-diagnostics-${entry.startedAt.replace(/[:.]/g, '-')}.json`;
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    DTMF_TONE_GAP_MS,
+    parseDtmfScript,
+    playDtmfScript,
+    toDtmfTone,
+    type DtmfKey,
+} from './dtmf';
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('parseDtmfScript', () => {
+    it('reads tones and waits', () => {
+        expect(parseDtmfScript('wait 3s, 1, wait 2s, 4 5 6 #')).toEqual({
+            steps: [
+                { kind: 'wait', ms: 3000 },
+                { kind: 'tone', key: '1' },
+                { kind: 'wait', ms: 2000 },
+                { kind: 'tone', key: '4' },
+                { kind: 'tone', key: '5' },
+                { kind: 'tone', key: '6' },
+                { kind: 'tone', key: '#' },
+            ],
+        });
+    });
+
+    it('accepts milliseconds, bare seconds and digit runs', () => {
+        expect(parseDtmfScript('Wait 500ms 12*, wait 1.5').steps).toEqual([
+            { kind: 'wait', ms: 500 },
+            { kind: 'tone', key: '1' },
+            { kind: 'tone', key: '2' },
+            { kind: 'tone', key: '*' },
+            { kind: 'wait', ms: 1500 },
+        ]);
+        expect(parseDtmfScript('a d').steps).toEqual([
+            { kind: 'tone', key: 'A' },
+            { kind: 'tone', key: 'D' },
+        ]);
+    });
+
+    it('points at the first thing it cannot read', () => {
+        expect(parseDtmfScript('1, pause 2s').error).toBe(
+            'Unexpected "p" at position 4'
+        );
+        expect(parseDtmfScript('wait, 1').error).toBe(
+            'Unexpected "w" at position 1'
+        );
+        expect(parseDtmfScript('wait 3000').error).toBe(
+            '"wait 3000" is longer than 60s'
+        );
+    });
+});
+
+describe('toDtmfTone', () => {
+    it('maps keys to the SDK tone names', () => {
+        expect(toDtmfTone('5')).toBe('Num5');
+        expect(toDtmfTone('*')).toBe('Star');
+        expect(toDtmfTone('#')).toBe('Pound');
+        expect(toDtmfTone('B')).toBe('B');
+    });
+});
+
+describe('playDtmfScript', () => {
+    it('sends tones with the waits and gaps in between', async () => {
+        vi.useFakeTimers();
+        const sent: [DtmfKey, number][] = [];
+        const start = Date.now();
+        const sendTone = async (key: DtmfKey) => {
+            sent.push([key, Date.now() - start]);
+        };
+
+        const done = playDtmfScript(
+            parseDtmfScript('wait 1s, 1 2, wait 2s, #').steps,
+            sendTone,
+            new AbortController().signal
+        );
+        await vi.runAllTimersAsync();
+        await done;
+
+        expect(sent).toEqual([
+            ['1', 1000],
+            ['2', 1000 + DTMF_TONE_GAP_MS],
+            ['#', 3000 + DTMF_TONE_GAP_MS],
+        ]);
+    });
+
+    it('stops when the call ends', async () => {
+        vi.useFakeTimers();
+        const sendTone = vi.fn(async () => {});
+        const controller = new AbortController();
+
+        const done = playDtmfScript(
+            parseDtmfScript('1, wait 5s, 2').steps,
+            sendTone,
+            controller.signal
+        );
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+        await done;
+
+        expect(sendTone).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up on the first tone that fails', async () => {
+        const sendTone = vi.fn(async () => {
+            throw new Error('Call is not connected');
+        });
+        await expect(
+            playDtmfScript(
+                parseDtmfScript('1 2').steps,
+                sendTone,
+                new AbortController().signal
+            )
+        ).rejects.toThrow('Call is not connected');
+        expect(sendTone).toHaveBeenCalledTimes(1);
+    });
+});
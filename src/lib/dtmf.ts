@@ -0,0 +1,118 @@
+import type { DtmfTone } from '@azure/communication-calling';
+
+export type DtmfKey =
+    | '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    | '*'
+    | '#'
+    | 'A'
+    | 'B'
+    | 'C'
+    | 'D';
+
+// Telephone keypad order, three keys per row
+export const DTMF_KEYPAD: DtmfKey[] = [
+    '1',
+    '2',
+    '3',
+    '4',
+    '5',
+    '6',
+    '7',
+    '8',
+    '9',
+    '*',
+    '0',
+    '#',
+];
+
+const TONE_NAMES: Record<string, DtmfTone> = { '*': 'Star', '#': 'Pound' };
+
+export const toDtmfTone = (key: DtmfKey): DtmfTone =>
+    TONE_NAMES[key] ?? ((/\d/.test(key) ? `Num${key}` : key) as DtmfTone);
+
+export type DtmfStep =
+    | { kind: 'tone'; key: DtmfKey }
+    | { kind: 'wait'; ms: number };
+
+// Pause between two tones with no explicit wait, so IVRs register them separately
+export const DTMF_TONE_GAP_MS = 300;
+// Longer waits are almost certainly a typo ("wait 3000" meant in ms)
+const MAX_WAIT_MS = 60_000;
+
+// "wait 3s, 1, wait 2s, 4 5 6 #": tones are 0-9, *, # and A-D, spaces and commas are
+// ignored, and waits take seconds by default or an explicit s/ms unit
+export const parseDtmfScript = (
+    script: string
+): { steps: DtmfStep[]; error?: string } => {
+    const steps: DtmfStep[] = [];
+    const pattern =
+        /(wait)\s*(\d+(?:\.\d+)?)\s*(ms|s)?|([0-9*#A-D])|([\s,]+)|(.)/giy;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(script))) {
+        const [, wait, amount, unit, key, , unexpected] = match;
+        if (unexpected !== undefined) {
+            return {
+                steps,
+                error: `Unexpected "${unexpected}" at position ${
+                    match.index + 1
+                }`,
+            };
+        }
+        if (wait) {
+            const ms = Math.round(
+                Number(amount) * (unit?.toLowerCase() === 'ms' ? 1 : 1000)
+            );
+            if (ms > MAX_WAIT_MS) {
+                return {
+                    steps,
+                    error: `"${match[0].trim()}" is longer than ${
+                        MAX_WAIT_MS / 1000
+                    }s`,
+                };
+            }
+            steps.push({ kind: 'wait', ms });
+        } else if (key) {
+            steps.push({ kind: 'tone', key: key.toUpperCase() as DtmfKey });
+        }
+    }
+    return { steps };
+};
+
+const delay = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        const done = () => {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal.addEventListener('abort', done);
+    });
+
+// Plays the steps in order until they run out or the signal aborts (the call ended)
+export const playDtmfScript = async (
+    steps: DtmfStep[],
+    sendTone: (key: DtmfKey) => Promise<void>,
+    signal: AbortSignal
+) => {
+    for (const [index, step] of steps.entries()) {
+        if (signal.aborted) return;
+        if (step.kind === 'wait') {
+            await delay(step.ms, signal);
+            continue;
+        }
+        await sendTone(step.key);
+        if (steps[index + 1]?.kind === 'tone') {
+            await delay(DTMF_TONE_GAP_MS, signal);
+        }
+    }
+};
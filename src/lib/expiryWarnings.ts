@@ -0,0 +1,46 @@
+export const EXPIRY_WARNINGS_STORAGE_KEY = 'azure-call-expiry-warnings';
+export const DEFAULT_EXPIRY_WARNING_MINUTES = [15, 5];
+
+// "15, 5" -> [15, 5]; invalid entries are dropped, largest threshold first
+export const parseWarningThresholds = (text: string): number[] =>
+    [
+        ...new Set(
+            text
+                .split(/[\s,;]+/)
+                .map(Number)
+                .filter((minutes) => Number.isFinite(minutes) && minutes > 0)
+        ),
+    ].sort((a, b) => b - a);
+
+export const loadWarningThresholds = (): number[] => {
+    const saved = localStorage.getItem(EXPIRY_WARNINGS_STORAGE_KEY);
+    const parsed = saved ? parseWarningThresholds(saved) : [];
+    return parsed.length ? parsed : DEFAULT_EXPIRY_WARNING_MINUTES;
+};
+
+export const saveWarningThresholds = (thresholds: number[]) => {
+    localStorage.setItem(EXPIRY_WARNINGS_STORAGE_KEY, thresholds.join(', '));
+};
+
+// Smallest threshold (in minutes) the remaining time has dropped below, if any
+export const getCrossedThreshold = (
+    remainingMs: number,
+    thresholds: number[]
+): number | undefined => {
+    const crossed = thresholds.filter(
+        (minutes) => remainingMs <= minutes * 60 * 1000
+    );
+    return crossed.length ? Math.min(...crossed) : undefined;
+};
+
+// 3725000 -> "1h 02m 05s", 65000 -> "1m 05s"
+export const formatCountdown = (remainingMs: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(remainingMs / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+    return `${minutes}m ${pad(seconds)}s`;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64Url, decodeJWT, getTokenWarnings } from './jwt';
+
+const base64Url = (value: string) =>
+    btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+const token = (claims: Record<string, unknown>) =>
+    [
+        base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' })),
+        base64Url(JSON.stringify(claims)),
+        'signature',
+    ].join('.');
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+const seconds = (date: Date) => date.getTime() / 1000;
+
+describe('decodeBase64Url', () => {
+    it('decodes unpadded base64url with multi-byte characters', () => {
+        expect(decodeBase64Url(base64Url('{"name":"Zoë ✓"}'))).toBe(
+            '{"name":"Zoë ✓"}'
+        );
+    });
+});
+
+describe('decodeJWT', () => {
+    it('rejects values that are not JWTs', () => {
+        expect(decodeJWT('')).toEqual({
+            isValid: false,
+            error: 'Invalid token format',
+        });
+        expect(decodeJWT('a.b').error).toBe('Invalid JWT structure');
+        expect(decodeJWT('a.b.c').error).toBe('Failed to decode token');
+    });
+
+    it('requires an expiration claim', () => {
+        const info = decodeJWT(token({ skypeid: 'acs:me' }), NOW);
+        expect(info.isValid).toBe(false);
+        expect(info.error).toBe('No expiration time found in token');
+        expect(info.payload?.skypeid).toBe('acs:me');
+    });
+
+    it('reports the time left on a valid token', () => {
+        const info = decodeJWT(
+            token({
+                exp: seconds(NOW) + 2 * 3600 + 5 * 60,
+                iat: seconds(NOW) - 60,
+            }),
+            NOW
+        );
+        expect(info.isValid).toBe(true);
+        expect(info.isExpired).toBe(false);
+        expect(info.timeUntilExpiry).toBe('2h 5m');
+        expect(info.issuedAt).toEqual(new Date(NOW.getTime() - 60_000));
+        expect(info.header).toEqual({ alg: 'RS256', typ: 'JWT' });
+    });
+
+    it('shows minutes only in the last hour', () => {
+        const info = decodeJWT(token({ exp: seconds(NOW) + 59 * 60 }), NOW);
+        expect(info.timeUntilExpiry).toBe('59m');
+    });
+
+    it('flags expired and not-yet-valid tokens', () => {
+        expect(decodeJWT(token({ exp: seconds(NOW) }), NOW).isExpired).toBe(
+            true
+        );
+        const early = decodeJWT(
+            token({ exp: seconds(NOW) + 3600, nbf: seconds(NOW) + 600 }),
+            NOW
+        );
+        expect(early.isNotYetValid).toBe(true);
+        expect(early.notBefore).toEqual(new Date(NOW.getTime() + 600_000));
+    });
+
+    it('ignores surrounding whitespace', () => {
+        expect(
+            decodeJWT(`  ${token({ exp: seconds(NOW) + 60 })}\n`, NOW).isValid
+        ).toBe(true);
+    });
+});
+
+describe('getTokenWarnings', () => {
+    const exp = seconds(NOW) + 3600;
+
+    it('has no warnings for a matching voip token', () => {
+        const info = decodeJWT(
+            token({ exp, skypeid: 'acs:me', acsScope: 'chat,voip' }),
+            NOW
+        );
+        expect(getTokenWarnings(info, '8:acs:me')).toEqual([]);
+    });
+
+    it('warns about a token issued for another user', () => {
+        const info = decodeJWT(
+            token({ exp, skypeid: 'acs:other', acsScope: 'voip' }),
+            NOW
+        );
+        expect(getTokenWarnings(info, '8:acs:me')).toEqual([
+            'Token was issued for 8:acs:other, not the entered User ID',
+        ]);
+    });
+
+    it('warns about a missing voip scope', () => {
+        expect(
+            getTokenWarnings(
+                decodeJWT(token({ exp, acsScope: 'chat' }), NOW),
+                ''
+            )
+        ).toEqual(['Token lacks the voip scope (has: chat)']);
+        expect(getTokenWarnings(decodeJWT(token({ exp }), NOW), '')).toEqual([
+            'Token has no acsScope claim - calling requires the voip scope',
+        ]);
+    });
+});
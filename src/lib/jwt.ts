@@ -0,0 +1,138 @@
+// Claims found in ACS access tokens
+export interface AcsTokenClaims {
+    skypeid?: string;
+    scp?: number;
+    csi?: string;
+    exp?: number;
+    iat?: number;
+    nbf?: number;
+    rgn?: string;
+    acsScope?: string;
+    resourceId?: string;
+    resourceLocation?: string;
+    [claim: string]: unknown;
+}
+
+export interface TokenInfo {
+    isValid: boolean;
+    expirationTime?: Date;
+    isExpired?: boolean;
+    timeUntilExpiry?: string;
+    issuedAt?: Date;
+    notBefore?: Date;
+    isNotYetValid?: boolean;
+    header?: Record<string, unknown>;
+    payload?: AcsTokenClaims;
+    error?: string;
+}
+
+// JWT segments are base64url without padding; atob needs standard base64 with padding
+export const decodeBase64Url = (segment: string): string => {
+    const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(
+        base64.length + ((4 - (base64.length % 4)) % 4),
+        '='
+    );
+    const bytes = Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+};
+
+const fromUnixTime = (value: unknown) =>
+    typeof value === 'number' ? new Date(value * 1000) : undefined;
+
+// Function to decode JWT token
+export const decodeJWT = (token: string, now = new Date()): TokenInfo => {
+    try {
+        if (!token || !token.includes('.')) {
+            return { isValid: false, error: 'Invalid token format' };
+        }
+
+        const parts = token.trim().split('.');
+        if (parts.length !== 3) {
+            return { isValid: false, error: 'Invalid JWT structure' };
+        }
+
+        const header = JSON.parse(decodeBase64Url(parts[0]));
+        const payload: AcsTokenClaims = JSON.parse(decodeBase64Url(parts[1]));
+
+        if (!payload.exp) {
+            return {
+                isValid: false,
+                header,
+                payload,
+                error: 'No expiration time found in token',
+            };
+        }
+
+        const expirationTime = new Date(payload.exp * 1000); // Convert from Unix timestamp
+        const isExpired = expirationTime <= now;
+        const notBefore = fromUnixTime(payload.nbf);
+
+        let timeUntilExpiry = '';
+        if (!isExpired) {
+            const timeDiff = expirationTime.getTime() - now.getTime();
+            const hours = Math.floor(timeDiff / (1000 * 60 * 60));
+            const minutes = Math.floor(
+                (timeDiff % (1000 * 60 * 60)) / (1000 * 60)
+            );
+
+            if (hours > 0) {
+                timeUntilExpiry = `${hours}h ${minutes}m`;
+            } else {
+                timeUntilExpiry = `${minutes}m`;
+            }
+        }
+
+        return {
+            isValid: true,
+            expirationTime,
+            isExpired,
+            timeUntilExpiry,
+            issuedAt: fromUnixTime(payload.iat),
+            notBefore,
+            isNotYetValid: notBefore ? notBefore > now : false,
+            header,
+            payload,
+        };
+    } catch {
+        return { isValid: false, error: 'Failed to decode token' };
+    }
+};
+
+// The token's skypeid is the user ID without the "8:" prefix
+export const userIdFromSkypeId = (skypeid: string) => `8:${skypeid}`;
+
+// Problems that make a decoded token unusable for calling as the given user
+export const getTokenWarnings = (info: TokenInfo, userId: string): string[] => {
+    const warnings: string[] = [];
+    const payload = info.payload;
+    if (!payload) return warnings;
+
+    if (
+        payload.skypeid &&
+        userId.trim() &&
+        userIdFromSkypeId(payload.skypeid) !== userId.trim()
+    ) {
+        warnings.push(
+            `Token was issued for ${userIdFromSkypeId(
+                payload.skypeid
+            )}, not the entered User ID`
+        );
+    }
+
+    const scopes = (payload.acsScope ?? '').split(/[\s,]+/).filter(Boolean);
+    if (!scopes.includes('voip')) {
+        warnings.push(
+            scopes.length
+                ? `Token lacks the voip scope (has: ${scopes.join(', ')})`
+                : 'Token has no acsScope claim - calling requires the voip scope'
+        );
+    }
+
+    if (info.isNotYetValid && info.notBefore) {
+        warnings.push(
+            `Token is not valid until ${info.notBefore.toLocaleString()} (check the clock on this machine)`
+        );
+    }
+    return warnings;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { MediaStatsReportSample } from '@azure/communication-calling';
+import type { MediaStatsSummary } from '../types';
+import {
+    appendMediaStatsSample,
+    MAX_STATS_POINTS,
+    scoreCallQuality,
+    summarizeMediaStats,
+    type MediaStatsSeries,
+} from './mediaQuality';
+
+// The Calling SDK needs WebRTC at import time; these helpers do not touch it
+vi.mock('@azure/communication-calling', () => ({}));
+
+const stream = (stats: Partial<MediaStatsSummary>): MediaStatsSummary => ({
+    stream: 'audio.receive.1',
+    label: 'audio receive',
+    samples: 60,
+    avgPacketsLostPerSecond: 0,
+    maxPacketsLostPerSecond: 0,
+    avgJitterInMs: 5,
+    maxJitterInMs: 10,
+    avgRttInMs: 80,
+    maxRttInMs: 120,
+    ...stats,
+});
+
+describe('scoreCallQuality', () => {
+    it('rates a clean call as excellent', () => {
+        expect(scoreCallQuality([stream({})])).toEqual({
+            score: 5,
+            label: 'Excellent',
+        });
+    });
+
+    it('takes points off for the worst stream', () => {
+        expect(
+            scoreCallQuality([
+                stream({}),
+                stream({ stream: 'video.receive.2', avgJitterInMs: 20 }),
+            ])
+        ).toEqual({ score: 4, label: 'Good' });
+        expect(
+            scoreCallQuality([
+                stream({ avgPacketsLostPerSecond: 8, avgRttInMs: 600 }),
+            ])
+        ).toEqual({ score: 1, label: 'Bad' });
+    });
+
+    it('has no score without samples', () => {
+        expect(scoreCallQuality()).toBeUndefined();
+        expect(scoreCallQuality([stream({ samples: 0 })])).toBeUndefined();
+    });
+});
+
+const audioSample = (jitterInMs: number) =>
+    ({
+        audio: {
+            send: [],
+            receive: [{ id: 1, codecName: 'opus', jitterInMs, bitrate: 32000 }],
+        },
+        video: { send: [], receive: [] },
+        screenShare: { send: [], receive: [] },
+    } as unknown as MediaStatsReportSample);
+
+describe('summarizeMediaStats', () => {
+    it('covers the whole call, not just the chart window', () => {
+        let series: MediaStatsSeries = {};
+        // A bad start that has scrolled out of the chart window by the end
+        for (let i = 0; i < 100; i++) {
+            series = appendMediaStatsSample(series, audioSample(50), i * 1000);
+        }
+        for (let i = 100; i < 100 + MAX_STATS_POINTS; i++) {
+            series = appendMediaStatsSample(series, audioSample(10), i * 1000);
+        }
+
+        const stream = series['audio.receive.1'];
+        expect(stream.points).toHaveLength(MAX_STATS_POINTS);
+        expect(stream.points.every((point) => point.jitterInMs === 10)).toBe(
+            true
+        );
+        expect(summarizeMediaStats(series)).toEqual([
+            {
+                stream: 'audio.receive.1',
+                label: 'audio receive',
+                codecName: 'opus',
+                samples: 100 + MAX_STATS_POINTS,
+                avgPacketsLostPerSecond: undefined,
+                maxPacketsLostPerSecond: 0,
+                avgJitterInMs: 20,
+                maxJitterInMs: 50,
+                avgRttInMs: undefined,
+                maxRttInMs: 0,
+                avgBitrateKbps: 32,
+            },
+        ]);
+    });
+});
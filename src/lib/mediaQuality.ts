@@ -0,0 +1,234 @@
+import type {
+    LatestDiagnosticValue,
+    MediaStatsReportSample,
+} from '@azure/communication-calling';
+import type { MediaStatsSummary } from '../types';
+import { formatDiagnosticValue } from './diagnostics';
+
+// One point per stream per MediaStats sample (the collector reports once a second)
+export interface StreamStatsPoint {
+    at: number;
+    packetsLostPerSecond?: number;
+    jitterInMs?: number;
+    rttInMs?: number;
+    bitrate?: number;
+}
+
+export interface MetricTotals {
+    sum: number;
+    count: number;
+    max: number;
+}
+
+export interface StreamSeries {
+    label: string;
+    codecName?: string;
+    // The chart window: the newest MAX_STATS_POINTS only
+    points: StreamStatsPoint[];
+    // Running totals since the stream appeared, so the summary covers the whole call
+    samples: number;
+    totals: Partial<Record<StatsMetric, MetricTotals>>;
+}
+
+// Keyed "audio.send.<id>", "video.receive.<id>"...
+export type MediaStatsSeries = Record<string, StreamSeries>;
+
+export type StatsMetric = Exclude<keyof StreamStatsPoint, 'at'>;
+
+export const STATS_METRICS: { metric: StatsMetric; label: string }[] = [
+    { metric: 'packetsLostPerSecond', label: 'Packet loss (pkt/s)' },
+    { metric: 'jitterInMs', label: 'Jitter (ms)' },
+    { metric: 'rttInMs', label: 'RTT (ms)' },
+    { metric: 'bitrate', label: 'Bitrate (kbps)' },
+];
+
+// Five minutes of one-second samples per stream
+export const MAX_STATS_POINTS = 300;
+
+// The diagnostics shown in the quality panel, in display order
+export const WATCHED_DIAGNOSTICS: {
+    kind: 'network' | 'media';
+    name: string;
+    label: string;
+}[] = [
+    { kind: 'network', name: 'networkReconnect', label: 'Network reconnect' },
+    {
+        kind: 'network',
+        name: 'networkReceiveQuality',
+        label: 'Receive quality',
+    },
+    { kind: 'network', name: 'networkSendQuality', label: 'Send quality' },
+    {
+        kind: 'media',
+        name: 'noSpeakerDevicesEnumerated',
+        label: 'No speaker',
+    },
+    {
+        kind: 'media',
+        name: 'noMicrophoneDevicesEnumerated',
+        label: 'No microphone',
+    },
+    {
+        kind: 'media',
+        name: 'microphoneMuteUnexpectedly',
+        label: 'Mic muted unexpectedly',
+    },
+    {
+        kind: 'media',
+        name: 'microphoneNotFunctioning',
+        label: 'Mic not working',
+    },
+    {
+        kind: 'media',
+        name: 'speakingWhileMicrophoneIsMuted',
+        label: 'Speaking while muted',
+    },
+    {
+        kind: 'media',
+        name: 'microphonePermissionDenied',
+        label: 'Mic permission denied',
+    },
+];
+
+// Flags are only worth attention while raised; qualities when not Good
+export const isDiagnosticProblem = (diagnostic?: LatestDiagnosticValue) =>
+    diagnostic !== undefined &&
+    (diagnostic.valueType === 'DiagnosticFlag'
+        ? diagnostic.value === true
+        : formatDiagnosticValue(diagnostic.value, diagnostic.valueType) !==
+          'Good');
+
+const toPoint = (
+    at: number,
+    stats: {
+        packetsLostPerSecond?: number;
+        jitterInMs?: number;
+        rttInMs?: number;
+        bitrate?: number;
+    }
+): StreamStatsPoint => ({
+    at,
+    packetsLostPerSecond: stats.packetsLostPerSecond,
+    jitterInMs: stats.jitterInMs,
+    rttInMs: stats.rttInMs,
+    bitrate:
+        stats.bitrate !== undefined
+            ? Math.round(stats.bitrate / 1000)
+            : undefined,
+});
+
+const addToTotals = (
+    totals: StreamSeries['totals'],
+    point: StreamStatsPoint
+): StreamSeries['totals'] => {
+    const next = { ...totals };
+    for (const { metric } of STATS_METRICS) {
+        const value = point[metric];
+        if (value === undefined) continue;
+        const previous = next[metric];
+        next[metric] = {
+            sum: (previous?.sum ?? 0) + value,
+            count: (previous?.count ?? 0) + 1,
+            max: Math.max(previous?.max ?? 0, value),
+        };
+    }
+    return next;
+};
+
+// Append one MediaStats sample to the per-stream series, keeping the newest points only
+export const appendMediaStatsSample = (
+    series: MediaStatsSeries,
+    sample: MediaStatsReportSample,
+    at = Date.now()
+): MediaStatsSeries => {
+    const next = { ...series };
+    const groups = [
+        ['audio', 'send', sample.audio.send],
+        ['audio', 'receive', sample.audio.receive],
+        ['video', 'send', sample.video.send],
+        ['video', 'receive', sample.video.receive],
+        ['screenShare', 'send', sample.screenShare.send],
+        ['screenShare', 'receive', sample.screenShare.receive],
+    ] as const;
+
+    for (const [media, direction, streams] of groups) {
+        for (const stream of streams) {
+            const key = `${media}.${direction}.${stream.id}`;
+            const previous = next[key];
+            const point = toPoint(at, stream);
+            next[key] = {
+                label: `${media} ${direction}`,
+                codecName: stream.codecName ?? previous?.codecName,
+                points: [...(previous?.points ?? []), point].slice(
+                    -MAX_STATS_POINTS
+                ),
+                samples: (previous?.samples ?? 0) + 1,
+                totals: addToTotals(previous?.totals ?? {}, point),
+            };
+        }
+    }
+    return next;
+};
+
+const average = (totals?: MetricTotals) =>
+    totals?.count
+        ? Math.round((totals.sum / totals.count) * 10) / 10
+        : undefined;
+
+// Per-stream averages and peaks over the whole call, small enough to keep in the call history
+export const summarizeMediaStats = (
+    series: MediaStatsSeries
+): MediaStatsSummary[] =>
+    Object.entries(series).map(
+        ([stream, { label, codecName, samples, totals }]) => ({
+            stream,
+            label,
+            codecName,
+            samples,
+            avgPacketsLostPerSecond: average(totals.packetsLostPerSecond),
+            maxPacketsLostPerSecond: totals.packetsLostPerSecond?.max ?? 0,
+            avgJitterInMs: average(totals.jitterInMs),
+            maxJitterInMs: totals.jitterInMs?.max ?? 0,
+            avgRttInMs: average(totals.rttInMs),
+            maxRttInMs: totals.rttInMs?.max ?? 0,
+            avgBitrateKbps: average(totals.bitrate),
+        })
+    );
+
+export interface CallQualityScore {
+    // 1 (bad) to 5 (excellent)
+    score: number;
+    label: string;
+}
+
+const QUALITY_LABELS = ['Bad', 'Poor', 'Fair', 'Good', 'Excellent'];
+
+// Points lost when the worst stream's average passes the first and second threshold
+const QUALITY_THRESHOLDS: {
+    metric: keyof Pick<
+        MediaStatsSummary,
+        'avgPacketsLostPerSecond' | 'avgJitterInMs' | 'avgRttInMs'
+    >;
+    limits: [number, number];
+}[] = [
+    { metric: 'avgPacketsLostPerSecond', limits: [1, 5] },
+    { metric: 'avgJitterInMs', limits: [15, 30] },
+    { metric: 'avgRttInMs', limits: [250, 500] },
+];
+
+// A rough 1-5 score for the whole call; undefined when no stats were collected
+export const scoreCallQuality = (
+    summary: MediaStatsSummary[] = []
+): CallQualityScore | undefined => {
+    const sampled = summary.filter((stream) => stream.samples > 0);
+    if (sampled.length === 0) return undefined;
+    const penalty = QUALITY_THRESHOLDS.reduce((total, { metric, limits }) => {
+        const worst = Math.max(
+            0,
+            ...sampled.map((stream) => stream[metric] ?? 0)
+        );
+        return total + limits.filter((limit) => worst > limit).length;
+    }, 0);
+    const score = Math.max(1, 5 - penalty);
+    return { score, label: QUALITY_LABELS[score - 1] };
+};
@@ -0,0 +1,21 @@
+// Thin wrappers around the browser Notification API; silently no-op where unsupported
+
+export const requestNotificationPermission = () => {
+    if (!('Notification' in window) || Notification.permission !== 'default') {
+        return;
+    }
+    Notification.requestPermission().catch((error) =>
+        console.error('Notification permission request failed:', error)
+    );
+};
+
+export const showBrowserNotification = (title: string, body: string) => {
+    if (!('Notification' in window) || Notification.permission !== 'granted') {
+        return;
+    }
+    try {
+        new Notification(title, { body, tag: title });
+    } catch (error) {
+        console.error('Failed to show notification:', error);
+    }
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+    PHONE_COUNTRIES,
+    describePhoneNumber,
+    isPhoneCountry,
+    parsePhoneNumber,
+} from './phone';
+
+describe('parsePhoneNumber', () => {
+    it('reads international numbers regardless of the default country', () => {
+        expect(parsePhoneNumber('+1 (425) 555-0123', 'GB')).toMatchObject({
+            e164: '+14255550123',
+            country: 'US',
+            format: 'international',
+        });
+        expect(parsePhoneNumber('0049 151 23456789', 'GB')).toMatchObject({
+            e164: '+4915123456789',
+            country: 'DE',
+            type: 'MOBILE',
+            format: 'international',
+        });
+    });
+
+    it('reads national numbers with the default country', () => {
+        expect(parsePhoneNumber('020 7946 0958', 'GB')).toEqual({
+            e164: '+442079460958',
+            country: 'GB',
+            type: 'FIXED_LINE',
+            format: 'national',
+            isUnassigned: false,
+        });
+        expect(parsePhoneNumber('(800) 555-0100', 'US')).toMatchObject({
+            e164: '+18005550100',
+            type: 'TOLL_FREE',
+            format: 'national',
+        });
+    });
+
+    it('takes digits without a default country to start with the country code', () => {
+        expect(parsePhoneNumber('44 20 7946 0958').e164).toBe('+442079460958');
+    });
+
+    it('reads a 00 prefix as + without a default country', () => {
+        expect(parsePhoneNumber('0049 151 23456789')).toMatchObject({
+            e164: '+4915123456789',
+            country: 'DE',
+            format: 'international',
+        });
+    });
+
+    it('does not turn national numbers into international ones', () => {
+        expect(parsePhoneNumber('07700 900123').error).toMatch(
+            /choose a default country/
+        );
+        expect(parsePhoneNumber('07700 900123', 'GB').e164).toBe(
+            '+447700900123'
+        );
+    });
+
+    it('rejects impossible numbers', () => {
+        expect(parsePhoneNumber('020 79', 'GB').error).toBe(
+            'too short for a United Kingdom number'
+        );
+        expect(parsePhoneNumber('+1234567890').error).toBe(
+            'too short for a number with country code +1'
+        );
+        expect(parsePhoneNumber('+999 1234567').error).toBe(
+            'unknown country code'
+        );
+        expect(parsePhoneNumber('call me').error).toBe('not a phone number');
+    });
+
+    it('flags numbers outside the assigned ranges', () => {
+        // Ofcom reserves 07700 900xxx for drama, so it is never a real mobile
+        expect(parsePhoneNumber('07700 900123', 'GB')).toMatchObject({
+            country: 'GB',
+            isUnassigned: true,
+        });
+    });
+
+    it('ignores an unknown default country', () => {
+        expect(parsePhoneNumber('+14255550123', 'XX').e164).toBe(
+            '+14255550123'
+        );
+        expect(isPhoneCountry('XX')).toBe(false);
+        expect(isPhoneCountry('GB')).toBe(true);
+    });
+});
+
+describe('describePhoneNumber', () => {
+    it('names the country, number type and format', () => {
+        expect(
+            describePhoneNumber(parsePhoneNumber('020 7946 0958', 'GB'))
+        ).toBe('United Kingdom landline number, national format');
+        expect(describePhoneNumber(parsePhoneNumber('+18005550100'))).toBe(
+            'United States toll-free number, international format'
+        );
+        expect(
+            describePhoneNumber(parsePhoneNumber('07700 900123', 'GB'))
+        ).toBe(
+            'United Kingdom number outside the assigned ranges, national format'
+        );
+        expect(describePhoneNumber(parsePhoneNumber('+999 1234567'))).toBe(
+            'Unknown country code'
+        );
+    });
+});
+
+describe('PHONE_COUNTRIES', () => {
+    it('lists countries by name with their calling code', () => {
+        expect(PHONE_COUNTRIES.find(({ code }) => code === 'GB')).toEqual({
+            code: 'GB',
+            name: 'United Kingdom',
+            callingCode: '44',
+        });
+        const names = PHONE_COUNTRIES.map(({ name }) => name);
+        expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+    });
+});
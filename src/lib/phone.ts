@@ -0,0 +1,133 @@
+import {
+    getCountries,
+    getCountryCallingCode,
+    parsePhoneNumberFromString,
+    validatePhoneNumberLength,
+    type CountryCode,
+    type NumberType,
+} from 'libphonenumber-js/max';
+
+export interface ParsedPhoneNumber {
+    // +<country code><number>; only set for numbers that can exist
+    e164?: string;
+    country?: CountryCode;
+    type?: NumberType;
+    // Typed with a country code, or in the default country's national format
+    format?: 'international' | 'national';
+    // The right length, but not in a range the country assigns (e.g. UK drama numbers)
+    isUnassigned?: boolean;
+    error?: string;
+}
+
+export interface PhoneCountry {
+    code: CountryCode;
+    name: string;
+    callingCode: string;
+}
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+export const getCountryName = (code: string) => regionNames.of(code) ?? code;
+
+export const isPhoneCountry = (code: string): code is CountryCode =>
+    getCountries().includes(code as CountryCode);
+
+// Every country the phone number metadata knows, by name, for the default country select
+export const PHONE_COUNTRIES: PhoneCountry[] = getCountries()
+    .map((code) => ({
+        code,
+        name: getCountryName(code),
+        callingCode: getCountryCallingCode(code),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const TYPE_LABELS: Record<NonNullable<NumberType>, string> = {
+    MOBILE: 'mobile',
+    FIXED_LINE: 'landline',
+    FIXED_LINE_OR_MOBILE: 'landline or mobile',
+    TOLL_FREE: 'toll-free',
+    PREMIUM_RATE: 'premium-rate',
+    SHARED_COST: 'shared-cost',
+    VOIP: 'VoIP',
+    PERSONAL_NUMBER: 'personal',
+    PAGER: 'pager',
+    UAN: 'UAN',
+    VOICEMAIL: 'voicemail',
+};
+
+const LENGTH_ERRORS: Record<string, string> = {
+    TOO_SHORT: 'too short',
+    TOO_LONG: 'too long',
+    INVALID_LENGTH: 'the wrong length',
+};
+
+// Numbers typed with a leading + are read as international, as are numbers dialled
+// with defaultCountry's international prefix (00 in most of the world, 011 in the US);
+// anything else is a national number of defaultCountry. Without a default country a
+// leading 00 stands for +, and other digits are taken to start with the country code.
+export const parsePhoneNumber = (
+    value: string,
+    defaultCountry?: string
+): ParsedPhoneNumber => {
+    const typed = value.replace(/[^\d+]/g, '');
+    const country =
+        defaultCountry && isPhoneCountry(defaultCountry)
+            ? defaultCountry
+            : undefined;
+    const digits =
+        !country && typed.startsWith('00') ? `+${typed.slice(2)}` : typed;
+    if (!/\d/.test(digits)) return { error: 'not a phone number' };
+    if (!digits.startsWith('+') && !country && digits.startsWith('0')) {
+        return {
+            error: 'looks like a national number; add the country code or choose a default country',
+        };
+    }
+    const input = digits.startsWith('+') || country ? digits : `+${digits}`;
+
+    const lengthError = validatePhoneNumberLength(input, country);
+    if (lengthError === 'INVALID_COUNTRY') {
+        return { error: 'unknown country code' };
+    }
+    const phone = parsePhoneNumberFromString(input, country);
+    if (!phone || lengthError === 'NOT_A_NUMBER') {
+        return { error: 'not a phone number' };
+    }
+    if (lengthError) {
+        // +1 and a few other codes are shared, so the country is unknown until the number is complete
+        const target = phone.country
+            ? `a ${getCountryName(phone.country)} number`
+            : `a number with country code +${phone.countryCallingCode}`;
+        return {
+            error: `${
+                LENGTH_ERRORS[lengthError] ?? 'the wrong length'
+            } for ${target}`,
+        };
+    }
+
+    const isNational =
+        Boolean(country) &&
+        !digits.startsWith('+') &&
+        !digits.startsWith('00') &&
+        phone.countryCallingCode === getCountryCallingCode(country!);
+    return {
+        e164: phone.number,
+        country: phone.country,
+        type: phone.getType(),
+        format: isNational ? 'national' : 'international',
+        isUnassigned: !phone.isValid(),
+    };
+};
+
+// "United Kingdom mobile number, national format", or why the number was rejected
+export const describePhoneNumber = (parsed: ParsedPhoneNumber) => {
+    const country = parsed.country ? getCountryName(parsed.country) : '';
+    const type = parsed.type ? TYPE_LABELS[parsed.type] : '';
+    const text =
+        parsed.error ??
+        `${
+            parsed.isUnassigned
+                ? `${country || 'Unknown'} number outside the assigned ranges`
+                : [country, type, 'number'].filter(Boolean).join(' ')
+        }, ${parsed.format} format`;
+    return `${text[0].toUpperCase()}${text.slice(1)}`;
+};
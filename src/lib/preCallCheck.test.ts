@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { emptyConfig } from './config';
+import { isSameCheckScope, preCallCheckScope } from './preCallCheck';
+
+vi.mock('@azure/communication-calling', () => ({}));
+
+const config = {
+    ...emptyConfig(),
+    userId: '8:acs:user',
+    token: 'token-1',
+    callType: 'phone' as const,
+    callValue: '07700 900123',
+    phoneCountry: 'GB',
+};
+
+describe('pre-call check scope', () => {
+    it('survives token refreshes and unrelated edits', () => {
+        const checked = preCallCheckScope(config, false);
+        expect(
+            isSameCheckScope(
+                checked,
+                preCallCheckScope(
+                    {
+                        ...config,
+                        token: 'token-2',
+                        displayName: 'Tester',
+                        callValue: ' 07700 900123 ',
+                    },
+                    false
+                )
+            )
+        ).toBe(true);
+    });
+
+    it('does not cover another identity, target or mode', () => {
+        const checked = preCallCheckScope(config, false);
+        for (const [changed, simulated] of [
+            [{ ...config, userId: '8:acs:other' }, false],
+            [{ ...config, callValue: '07700 900456' }, false],
+            [{ ...config, phoneCountry: 'US' }, false],
+            [{ ...config, callType: 'group' as const }, false],
+            [config, true],
+        ] as const) {
+            expect(
+                isSameCheckScope(checked, preCallCheckScope(changed, simulated))
+            ).toBe(false);
+        }
+    });
+});
@@ -0,0 +1,356 @@
+import {
+    Features,
+    type CallClient,
+    type CallClientFeature,
+    type CallClientFeatureFactory,
+    type DeviceAccess,
+    type DeviceManager,
+} from '@azure/communication-calling';
+import type { CommunicationTokenCredential } from '@azure/communication-common';
+import type { CallConfig } from '../types';
+import { formatDiagnosticValue } from './diagnostics';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreCallCheckItem {
+    id: string;
+    label: string;
+    status: CheckStatus;
+    detail: string;
+}
+
+export interface PreCallCheckResult {
+    items: PreCallCheckItem[];
+    overall: CheckStatus;
+    finishedAt: string;
+}
+
+const STATUS_RANK: Record<CheckStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+const worstStatus = (statuses: CheckStatus[]) =>
+    statuses.reduce<CheckStatus>(
+        (worst, status) =>
+            STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst,
+        'pass'
+    );
+
+export const overallStatus = (items: PreCallCheckItem[]): CheckStatus =>
+    worstStatus(items.map((item) => item.status));
+
+export const buildPreCallResult = (
+    items: PreCallCheckItem[]
+): PreCallCheckResult => ({
+    items,
+    overall: overallStatus(items),
+    finishedAt: new Date().toISOString(),
+});
+
+// What a check vouches for: the identity it ran as, the target and whether calls go to
+// the simulated backend. The devices are the machine's own, so a token refresh or an
+// edit to an unrelated field leaves the result valid.
+export interface PreCallCheckScope {
+    userId: string;
+    callType: CallConfig['callType'];
+    callValue: string;
+    phoneCountry: string;
+    simulated: boolean;
+}
+
+export const preCallCheckScope = (
+    config: CallConfig,
+    simulated: boolean
+): PreCallCheckScope => ({
+    userId: config.userId.trim(),
+    callType: config.callType,
+    callValue: config.callValue.trim(),
+    phoneCountry: config.phoneCountry || '',
+    simulated,
+});
+
+export const isSameCheckScope = (
+    checked: PreCallCheckScope,
+    current: PreCallCheckScope
+) =>
+    checked.userId === current.userId &&
+    checked.callType === current.callType &&
+    checked.callValue === current.callValue &&
+    checked.phoneCountry === current.phoneCountry &&
+    checked.simulated === current.simulated;
+
+const describeError = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
+
+// Permissions first: device labels are empty until the browser grants access
+export const checkDevices = async (
+    deviceManager: DeviceManager
+): Promise<PreCallCheckItem[]> => {
+    let access: DeviceAccess;
+    try {
+        access = await deviceManager.askDevicePermission({
+            audio: true,
+            video: true,
+        });
+    } catch (error) {
+        return [
+            {
+                id: 'permissions',
+                label: 'Device permissions',
+                status: 'fail',
+                detail: describeError(error),
+            },
+        ];
+    }
+
+    const [cameras, microphones, speakers] = await Promise.all([
+        deviceManager.getCameras(),
+        deviceManager.getMicrophones(),
+        deviceManager.isSpeakerSelectionAvailable
+            ? deviceManager.getSpeakers()
+            : Promise.resolve(undefined),
+    ]);
+
+    return [
+        {
+            id: 'permissions',
+            label: 'Device permissions',
+            status: !access.audio ? 'fail' : !access.video ? 'warn' : 'pass',
+            detail: `Microphone ${
+                access.audio ? 'allowed' : 'blocked'
+            }, camera ${access.video ? 'allowed' : 'blocked'}`,
+        },
+        {
+            id: 'microphones',
+            label: 'Microphones',
+            status: microphones.length ? 'pass' : 'fail',
+            detail: microphones.length
+                ? microphones.map((device) => device.name).join(', ')
+                : 'No microphone found',
+        },
+        {
+            id: 'speakers',
+            label: 'Speakers',
+            status: speakers === undefined || speakers.length ? 'pass' : 'fail',
+            detail:
+                speakers === undefined
+                    ? 'Browser uses the system default output (speaker selection not supported)'
+                    : speakers.length
+                    ? speakers.map((device) => device.name).join(', ')
+                    : 'No speaker found',
+        },
+        {
+            id: 'cameras',
+            label: 'Cameras',
+            // Audio-only calls work without a camera
+            status: cameras.length ? 'pass' : 'warn',
+            detail: cameras.length
+                ? cameras.map((device) => device.name).join(', ')
+                : 'No camera found - video will be unavailable',
+        },
+    ];
+};
+
+// The UDP check asks a STUN server of the user's choosing (their own, or their TURN
+// provider's); nothing is sent to a third-party server unless one is configured
+export const STUN_SERVER_STORAGE_KEY = 'azure-call-stun-server';
+
+export const loadStunServer = () =>
+    localStorage.getItem(STUN_SERVER_STORAGE_KEY) ?? '';
+
+export const saveStunServer = (url: string) => {
+    if (url.trim()) {
+        localStorage.setItem(STUN_SERVER_STORAGE_KEY, url.trim());
+    } else {
+        localStorage.removeItem(STUN_SERVER_STORAGE_KEY);
+    }
+};
+
+export const isStunServerUrl = (url: string) => /^stuns?:\S+$/.test(url.trim());
+
+// A server-reflexive candidate proves UDP reaches the internet. Without one, media has
+// to fall back to TURN over TCP/TLS, which is a common cause of poor or failed calls.
+export const checkUdpConnectivity = (
+    stunServer: string,
+    timeoutMs = 5000
+): Promise<PreCallCheckItem> =>
+    new Promise((resolve) => {
+        const item = (status: CheckStatus, detail: string) => ({
+            id: 'udp',
+            label: 'UDP connectivity',
+            status,
+            detail,
+        });
+        if (!isStunServerUrl(stunServer)) {
+            resolve(
+                item(
+                    'warn',
+                    `Not a STUN server URL: "${stunServer}" (expected stun:host:port)`
+                )
+            );
+            return;
+        }
+        let connection: RTCPeerConnection;
+        try {
+            connection = new RTCPeerConnection({
+                iceServers: [{ urls: stunServer.trim() }],
+            });
+        } catch (error) {
+            resolve(
+                item('warn', `WebRTC unavailable: ${describeError(error)}`)
+            );
+            return;
+        }
+
+        const finish = (result: PreCallCheckItem) => {
+            clearTimeout(timer);
+            connection.close();
+            resolve(result);
+        };
+        const timer = setTimeout(
+            () =>
+                finish(
+                    item(
+                        'warn',
+                        'No reply from the STUN server over UDP - the network may block UDP; calls will relay over TCP/TLS'
+                    )
+                ),
+            timeoutMs
+        );
+
+        connection.onicecandidate = ({ candidate }) => {
+            if (candidate?.type === 'srflx') {
+                finish(
+                    item(
+                        'pass',
+                        `UDP reachable (public address ${
+                            candidate.address ?? 'hidden'
+                        })`
+                    )
+                );
+            }
+        };
+        connection.createDataChannel('pre-call-check');
+        connection
+            .createOffer()
+            .then((offer) => connection.setLocalDescription(offer))
+            .catch((error) =>
+                finish(
+                    item(
+                        'warn',
+                        `ICE gathering failed: ${describeError(error)}`
+                    )
+                )
+            );
+    });
+
+// The pre-call diagnostics feature only ships in beta builds of the Calling SDK,
+// so it is looked up at runtime and typed with the parts used here.
+interface PreCallDiagnosticsFeature extends CallClientFeature {
+    startTest(credential: CommunicationTokenCredential): Promise<{
+        browserSupport?: Promise<{ browser: string; os: string }>;
+        inCallDiagnostics?: Promise<{
+            connected: boolean;
+            bandWidth: number;
+            diagnostics: Record<
+                'audio' | 'video',
+                { jitter: number; packetLoss: number; rtt: number }
+            >;
+        }>;
+    }>;
+}
+
+export const isSdkPreCallDiagnosticsAvailable = () =>
+    'PreCallDiagnostics' in Features;
+
+export const runSdkPreCallDiagnostics = async (
+    callClient: CallClient,
+    credential: CommunicationTokenCredential
+): Promise<PreCallCheckItem[]> => {
+    const factory = (Features as unknown as Record<string, unknown>)
+        .PreCallDiagnostics as CallClientFeatureFactory<PreCallDiagnosticsFeature>;
+    const quality = (value: number) =>
+        formatDiagnosticValue(value, 'DiagnosticQuality');
+    const statusOf = (value: number): CheckStatus =>
+        quality(value) === 'Good'
+            ? 'pass'
+            : quality(value) === 'Poor'
+            ? 'warn'
+            : 'fail';
+
+    try {
+        const result = await callClient.feature(factory).startTest(credential);
+        const items: PreCallCheckItem[] = [];
+
+        const support = await result.browserSupport;
+        if (support) {
+            items.push({
+                id: 'browserSupport',
+                label: 'Browser support',
+                status:
+                    support.browser === 'Supported' &&
+                    support.os === 'Supported'
+                        ? 'pass'
+                        : 'fail',
+                detail: `Browser ${support.browser}, OS ${support.os}`,
+            });
+        }
+
+        const inCall = await result.inCallDiagnostics;
+        if (inCall) {
+            const { audio } = inCall.diagnostics;
+            items.push(
+                {
+                    id: 'testCall',
+                    label: 'Test call to ACS',
+                    status: inCall.connected ? 'pass' : 'fail',
+                    detail: inCall.connected
+                        ? 'Connected to the ACS media servers'
+                        : 'Could not connect the test call',
+                },
+                {
+                    id: 'bandwidth',
+                    label: 'Bandwidth',
+                    status: statusOf(inCall.bandWidth),
+                    detail: quality(inCall.bandWidth),
+                },
+                {
+                    id: 'audioQuality',
+                    label: 'Audio quality',
+                    status: worstStatus(
+                        [audio.jitter, audio.packetLoss, audio.rtt].map(
+                            statusOf
+                        )
+                    ),
+                    detail: `Jitter ${quality(
+                        audio.jitter
+                    )}, packet loss ${quality(audio.packetLoss)}, RTT ${quality(
+                        audio.rtt
+                    )}`,
+                }
+            );
+        }
+        return items;
+    } catch (error) {
+        return [
+            {
+                id: 'testCall',
+                label: 'Test call to ACS',
+                status: 'fail',
+                detail: describeError(error),
+            },
+        ];
+    }
+};
+
+// Half a second of a 440 Hz tone on the default output device
+export const playTestTone = async (durationMs = 500) => {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 440;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+    oscillator.stop();
+    await context.close();
+};
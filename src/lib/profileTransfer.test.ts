@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { emptyConfig } from './config';
+import { buildShareLink, parseShareLink } from './profileTransfer';
+
+describe('share links', () => {
+    it('round-trips the shared fields without the token', () => {
+        const config = {
+            ...emptyConfig(),
+            userId: '8:acs:me',
+            token: 'secret-token',
+            tokenEndpoint: 'https://example.com/token',
+            displayName: 'Support desk',
+            callType: 'teamsMeeting' as const,
+            callValue: ' 123 456 789 012 ',
+            phoneCountry: 'GB',
+            meetingPasscode: 'a1B2c3',
+        };
+
+        const link = buildShareLink(config);
+        expect(link).not.toContain('secret-token');
+        expect(link).not.toContain('8%3Aacs');
+        expect(parseShareLink(new URL(link).hash)).toEqual({
+            callType: 'teamsMeeting',
+            callValue: '123 456 789 012',
+            displayName: 'Support desk',
+            phoneCountry: 'GB',
+            meetingPasscode: 'a1B2c3',
+        });
+    });
+
+    it('ignores unknown call types and countries', () => {
+        expect(parseShareLink('#callType=fax&phoneCountry=XX')).toBeUndefined();
+        expect(parseShareLink('')).toBeUndefined();
+    });
+});
@@ -0,0 +1,279 @@
+import type { CallConfig, ConfigProfile } from '../types';
+import { CALL_TYPES, migrateConfig } from './config';
+import { createProfile } from './profiles';
+import { getCalleeListError, isGuid, isValidAcsUserId } from './validators';
+import { isPhoneCountry, parsePhoneNumber } from './phone';
+import { isTeamsMeetingId, isTeamsMeetingLink, isTeamsUserId } from './teams';
+import { isRoomId } from './rooms';
+import { parseDtmfScript } from './dtmf';
+
+export const PROFILE_EXPORT_FORMAT = 'azure-call-profiles';
+export const PROFILE_EXPORT_VERSION = 1;
+
+const CONFIG_STRING_FIELDS: (keyof CallConfig)[] = [
+    'userId',
+    'token',
+    'displayName',
+    'callType',
+    'callValue',
+    'alternateCallerId',
+    'phoneCountry',
+    'meetingPasscode',
+    'dtmfScript',
+    'tokenEndpoint',
+];
+const CONFIG_BOOLEAN_FIELDS: (keyof CallConfig)[] = ['requirePreCallCheck'];
+
+export interface ProfileExportOptions {
+    // Tokens are left out unless the user explicitly opts in
+    includeTokens?: boolean;
+}
+
+export interface ProfileImportResult {
+    profiles: ConfigProfile[];
+    errors: string[];
+}
+
+export const serializeProfiles = (
+    profiles: ConfigProfile[],
+    { includeTokens = false }: ProfileExportOptions = {}
+): string =>
+    JSON.stringify(
+        {
+            format: PROFILE_EXPORT_FORMAT,
+            version: PROFILE_EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            profiles: profiles.map((profile) => ({
+                name: profile.name,
+                config: includeTokens
+                    ? profile.config
+                    : { ...profile.config, token: '' },
+            })),
+        },
+        null,
+        2
+    );
+
+// Trigger a browser download of a text file
+export const downloadTextFile = (
+    filename: string,
+    content: string,
+    type = 'application/json'
+) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Type and format checks for a (partial) configuration; also used for scenario scripts
+export const validateConfig = (raw: unknown, path: string): string[] => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return [`${path}: must be an object`];
+    }
+    const config = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    CONFIG_STRING_FIELDS.forEach((field) => {
+        const value = config[field];
+        if (value !== undefined && typeof value !== 'string') {
+            errors.push(`${path}.${field}: must be a string`);
+        }
+    });
+    CONFIG_BOOLEAN_FIELDS.forEach((field) => {
+        const value = config[field];
+        if (value !== undefined && typeof value !== 'boolean') {
+            errors.push(`${path}.${field}: must be true or false`);
+        }
+    });
+    if (errors.length) return errors;
+
+    const value = (field: keyof CallConfig) =>
+        ((config[field] as string | undefined) ?? '').trim();
+
+    const callType = value('callType') as CallConfig['callType'];
+    if (callType && !CALL_TYPES.includes(callType)) {
+        errors.push(
+            `${path}.callType: must be one of ${CALL_TYPES.join(', ')}`
+        );
+    }
+    const dtmfScriptError =
+        value('dtmfScript') && parseDtmfScript(value('dtmfScript')).error;
+    if (dtmfScriptError) {
+        errors.push(`${path}.dtmfScript: ${dtmfScriptError}`);
+    }
+    if (value('phoneCountry') && !isPhoneCountry(value('phoneCountry'))) {
+        errors.push(
+            `${path}.phoneCountry: expected a country code such as US or GB`
+        );
+    }
+    // Numbers are read with the profile's own default country, as the form does
+    const phoneError = (field: keyof CallConfig) =>
+        parsePhoneNumber(value(field), value('phoneCountry')).error;
+    if (value('userId') && !isValidAcsUserId(value('userId'))) {
+        errors.push(`${path}.userId: expected an ACS user ID (8:acs:...)`);
+    }
+    if (value('callValue')) {
+        if (value('callType') === 'group' && !isGuid(value('callValue'))) {
+            errors.push(`${path}.callValue: expected a Group ID (GUID)`);
+        }
+        if (
+            value('callType') === 'oneToOne' &&
+            !isValidAcsUserId(value('callValue'))
+        ) {
+            errors.push(
+                `${path}.callValue: expected an ACS user ID (8:acs:...)`
+            );
+        }
+        if (value('callType') === 'phone' && phoneError('callValue')) {
+            errors.push(`${path}.callValue: ${phoneError('callValue')}`);
+        }
+        if (
+            value('callType') === 'teamsMeeting' &&
+            !isTeamsMeetingLink(value('callValue')) &&
+            !isTeamsMeetingId(value('callValue'))
+        ) {
+            errors.push(
+                `${path}.callValue: expected a Teams meeting link or meeting ID`
+            );
+        }
+        if (
+            value('callType') === 'teamsUser' &&
+            !isTeamsUserId(value('callValue'))
+        ) {
+            errors.push(
+                `${path}.callValue: expected a Teams user ID (8:orgid:...)`
+            );
+        }
+        if (value('callType') === 'room' && !isRoomId(value('callValue'))) {
+            errors.push(`${path}.callValue: expected a room ID`);
+        }
+        if (value('callType') === 'adHoc') {
+            const calleeError = getCalleeListError(
+                value('callValue'),
+                '',
+                value('phoneCountry')
+            );
+            if (calleeError) {
+                errors.push(`${path}.callValue: ${calleeError}`);
+            }
+        }
+    }
+    if (value('alternateCallerId') && phoneError('alternateCallerId')) {
+        errors.push(
+            `${path}.alternateCallerId: ${phoneError('alternateCallerId')}`
+        );
+    }
+    if (value('tokenEndpoint')) {
+        try {
+            new URL(value('tokenEndpoint'));
+        } catch {
+            errors.push(`${path}.tokenEndpoint: must be an absolute URL`);
+        }
+    }
+    return errors;
+};
+
+// Parse and validate an exported profiles file. Profiles are only returned when the
+// whole file is valid, so a partially broken import never lands in storage.
+export const parseProfileImport = (text: string): ProfileImportResult => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return { profiles: [], errors: ['File is not valid JSON'] };
+    }
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { profiles: [], errors: ['File must contain a JSON object'] };
+    }
+    const file = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (file.format !== PROFILE_EXPORT_FORMAT) {
+        errors.push(`format: must be "${PROFILE_EXPORT_FORMAT}"`);
+    }
+    if (
+        typeof file.version !== 'number' ||
+        file.version > PROFILE_EXPORT_VERSION
+    ) {
+        errors.push(
+            `version: must be a number up to ${PROFILE_EXPORT_VERSION}`
+        );
+    }
+    if (!Array.isArray(file.profiles) || file.profiles.length === 0) {
+        errors.push('profiles: must be a non-empty array');
+        return { profiles: [], errors };
+    }
+
+    file.profiles.forEach((entry: unknown, index) => {
+        const path = `profiles[${index}]`;
+        if (typeof entry !== 'object' || entry === null) {
+            errors.push(`${path}: must be an object`);
+            return;
+        }
+        const { name, config } = entry as Record<string, unknown>;
+        if (typeof name !== 'string' || !name.trim()) {
+            errors.push(`${path}.name: must be a non-empty string`);
+        }
+        errors.push(...validateConfig(config, `${path}.config`));
+    });
+
+    if (errors.length) return { profiles: [], errors };
+
+    return {
+        profiles: (file.profiles as { name: string; config: unknown }[]).map(
+            (entry) => createProfile(entry.name, migrateConfig(entry.config))
+        ),
+        errors: [],
+    };
+};
+
+// Share links carry only non-secret fields in the URL hash. The passcode goes along
+// because a meeting joined by ID can't be joined without it.
+const SHARED_FIELDS = [
+    'callType',
+    'callValue',
+    'displayName',
+    'phoneCountry',
+    'meetingPasscode',
+] as const;
+type SharedConfig = Pick<CallConfig, (typeof SHARED_FIELDS)[number]>;
+
+export const buildShareLink = (config: CallConfig): string => {
+    const params = new URLSearchParams();
+    SHARED_FIELDS.forEach((field) => {
+        const value = config[field]?.trim();
+        if (value) params.set(field, value);
+    });
+    const url = new URL(window.location.href);
+    url.hash = params.toString();
+    return url.toString();
+};
+
+// Returns the shared fields found in a location hash, or undefined when there are none
+export const parseShareLink = (
+    hash: string
+): Partial<SharedConfig> | undefined => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const shared: Partial<SharedConfig> = {};
+
+    const callType = params.get('callType') as CallConfig['callType'] | null;
+    if (callType && CALL_TYPES.includes(callType)) {
+        shared.callType = callType;
+    }
+    const callValue = params.get('callValue');
+    if (callValue) shared.callValue = callValue;
+    const displayName = params.get('displayName');
+    if (displayName) shared.displayName = displayName;
+    const phoneCountry = params.get('phoneCountry');
+    if (phoneCountry && isPhoneCountry(phoneCountry)) {
+        shared.phoneCountry = phoneCountry;
+    }
+    const meetingPasscode = params.get('meetingPasscode');
+    if (meetingPasscode) shared.meetingPasscode = meetingPasscode;
+
+    return Object.keys(shared).length ? shared : undefined;
+};
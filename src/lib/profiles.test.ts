@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { emptyConfig } from './config';
+import { migrateProfileStore } from './profiles';
+
+describe('migrateProfileStore', () => {
+    it('drops entries that are not profiles instead of throwing', () => {
+        const store = migrateProfileStore({
+            version: 1,
+            defaultProfileId: 'kept',
+            profiles: [null, 'junk', 42, { id: 'kept', name: 'Kept' }],
+        });
+        expect(store.defaultProfileId).toBe('kept');
+        expect(store.profiles).toEqual([
+            expect.objectContaining({
+                id: 'kept',
+                name: 'Kept',
+                config: emptyConfig(),
+            }),
+        ]);
+    });
+});
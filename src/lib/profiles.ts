@@ -0,0 +1,163 @@
+import type { CallConfig, ConfigProfile, ProfileStore } from '../types';
+import { emptyConfig, migrateConfig } from './config';
+
+export const PROFILE_STORAGE_KEY = 'azure-call-profiles';
+// Single-slot key used before profiles existed; migrated into a "Default" profile
+export const LEGACY_CONFIG_STORAGE_KEY = 'azure-call-config';
+export const PROFILE_STORE_VERSION = 1;
+
+const generateProfileId = () =>
+    `profile-${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`;
+
+export const createProfile = (
+    name: string,
+    config: CallConfig = emptyConfig()
+): ConfigProfile => ({
+    id: generateProfileId(),
+    name: name.trim() || 'Untitled',
+    config,
+    updatedAt: new Date().toISOString(),
+});
+
+export const createProfileStore = (
+    profiles: ConfigProfile[] = [createProfile('Default')]
+): ProfileStore => ({
+    version: PROFILE_STORE_VERSION,
+    defaultProfileId: profiles[0].id,
+    profiles,
+});
+
+// Normalise a parsed store: every profile's config goes through migrateConfig
+export const migrateProfileStore = (raw: unknown): ProfileStore => {
+    const parsed =
+        typeof raw === 'object' && raw !== null
+            ? (raw as Partial<ProfileStore>)
+            : {};
+    if (typeof parsed.version !== 'number') {
+        throw new Error('Profile store has no schema version');
+    }
+    if (parsed.version > PROFILE_STORE_VERSION) {
+        throw new Error(
+            `Profile store version ${parsed.version} is newer than supported (${PROFILE_STORE_VERSION})`
+        );
+    }
+
+    // Corrupted storage can hold null or other non-object entries; those are dropped
+    const profiles: ConfigProfile[] = (
+        Array.isArray(parsed.profiles) ? (parsed.profiles as unknown[]) : []
+    )
+        .filter(
+            (profile): profile is Partial<ConfigProfile> =>
+                typeof profile === 'object' && profile !== null
+        )
+        .map((profile) => ({
+            id:
+                typeof profile.id === 'string'
+                    ? profile.id
+                    : generateProfileId(),
+            name: typeof profile.name === 'string' ? profile.name : 'Untitled',
+            config: migrateConfig(profile.config),
+            updatedAt:
+                typeof profile.updatedAt === 'string'
+                    ? profile.updatedAt
+                    : new Date().toISOString(),
+            ...(typeof profile.encryptedToken?.iv === 'string' &&
+            typeof profile.encryptedToken.data === 'string'
+                ? { encryptedToken: profile.encryptedToken }
+                : {}),
+        }));
+    if (profiles.length === 0) {
+        return createProfileStore();
+    }
+
+    const defaultProfileId = profiles.some(
+        (p) => p.id === parsed.defaultProfileId
+    )
+        ? parsed.defaultProfileId!
+        : profiles[0].id;
+    return { version: PROFILE_STORE_VERSION, defaultProfileId, profiles };
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(store));
+};
+
+// Read the profile store, migrating the legacy single config slot on first run.
+// Throws if the stored data cannot be parsed.
+export const loadProfileStore = (): ProfileStore => {
+    const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+    if (saved) {
+        return migrateProfileStore(JSON.parse(saved));
+    }
+
+    const legacy = localStorage.getItem(LEGACY_CONFIG_STORAGE_KEY);
+    const store = legacy
+        ? createProfileStore([
+              createProfile('Default', migrateConfig(JSON.parse(legacy))),
+          ])
+        : createProfileStore();
+    saveProfileStore(store);
+    localStorage.removeItem(LEGACY_CONFIG_STORAGE_KEY);
+    return store;
+};
+
+export const getProfile = (store: ProfileStore, id: string) =>
+    store.profiles.find((p) => p.id === id);
+
+export const updateProfileConfig = (
+    store: ProfileStore,
+    id: string,
+    config: CallConfig
+): ProfileStore => ({
+    ...store,
+    profiles: store.profiles.map((p) =>
+        p.id === id ? { ...p, config, updatedAt: new Date().toISOString() } : p
+    ),
+});
+
+export const renameProfile = (
+    store: ProfileStore,
+    id: string,
+    name: string
+): ProfileStore => ({
+    ...store,
+    profiles: store.profiles.map((p) =>
+        p.id === id
+            ? {
+                  ...p,
+                  name: name.trim() || p.name,
+                  updatedAt: new Date().toISOString(),
+              }
+            : p
+    ),
+});
+
+export const addProfile = (
+    store: ProfileStore,
+    profile: ConfigProfile
+): ProfileStore => ({ ...store, profiles: [...store.profiles, profile] });
+
+// The last remaining profile cannot be deleted; deleting the default promotes the first one left
+export const deleteProfile = (
+    store: ProfileStore,
+    id: string
+): ProfileStore => {
+    const profiles = store.profiles.filter((p) => p.id !== id);
+    if (profiles.length === 0) return store;
+    return {
+        ...store,
+        profiles,
+        defaultProfileId:
+            store.defaultProfileId === id
+                ? profiles[0].id
+                : store.defaultProfileId,
+    };
+};
+
+export const setDefaultProfile = (
+    store: ProfileStore,
+    id: string
+): ProfileStore =>
+    getProfile(store, id) ? { ...store, defaultProfileId: id } : store;
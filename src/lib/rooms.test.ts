@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+    describeCapabilityChanges,
+    describeRoleRestrictions,
+    getRoomCapabilities,
+    isRoomId,
+    isRoomRole,
+} from './rooms';
+
+describe('isRoomId', () => {
+    it('accepts the numeric IDs the Rooms API returns', () => {
+        expect(isRoomId('99123456789012345')).toBe(true);
+        expect(isRoomId(' 99123456789012345 ')).toBe(true);
+    });
+
+    it('rejects group IDs and short numbers', () => {
+        expect(isRoomId('29228d3e-040e-4656-a70e-890ab4e173e4')).toBe(false);
+        expect(isRoomId('12345')).toBe(false);
+        expect(isRoomId('')).toBe(false);
+    });
+});
+
+describe('room roles', () => {
+    it('recognises only the Rooms roles', () => {
+        expect(isRoomRole('Attendee')).toBe(true);
+        expect(isRoomRole('Organizer')).toBe(false);
+        expect(isRoomRole(undefined)).toBe(false);
+    });
+
+    it('restricts attendees and consumers', () => {
+        expect(getRoomCapabilities('Presenter').shareScreen).toBe(true);
+        expect(getRoomCapabilities('Attendee')).toEqual({
+            unmuteMic: true,
+            turnVideoOn: true,
+            shareScreen: false,
+        });
+        expect(getRoomCapabilities('Consumer').unmuteMic).toBe(false);
+        // Roles outside Rooms leave the controls alone
+        expect(getRoomCapabilities('Organizer').shareScreen).toBe(true);
+    });
+
+    it('describes what a role cannot do', () => {
+        expect(describeRoleRestrictions('Presenter')).toBe('');
+        expect(describeRoleRestrictions('Attendee')).toBe(
+            'Cannot share screen'
+        );
+        expect(describeRoleRestrictions('Consumer')).toBe(
+            'Cannot unmute, turn on video, share screen'
+        );
+    });
+});
+
+describe('describeCapabilityChanges', () => {
+    it('lists each changed capability with the reason it was lost', () => {
+        expect(
+            describeCapabilityChanges({
+                shareScreen: { isPresent: false, reason: 'RoleRestricted' },
+                unmuteMic: { isPresent: true, reason: 'CapabilityAllowed' },
+            })
+        ).toBe('shareScreen off (RoleRestricted), unmuteMic on');
+        expect(describeCapabilityChanges({})).toBe('');
+    });
+});
@@ -0,0 +1,65 @@
+// Room IDs are the long numeric strings the Rooms API returns when a room is created
+export const isRoomId = (value: string) => /^\d{10,20}$/.test(value.trim());
+
+// Roles a Rooms participant can hold; the SDK reports others ('Organizer',
+// 'Unknown'...) for Teams meetings and ordinary calls
+export type RoomRole = 'Presenter' | 'Attendee' | 'Consumer';
+
+export const ROOM_ROLES: RoomRole[] = ['Presenter', 'Attendee', 'Consumer'];
+
+export const isRoomRole = (role?: string): role is RoomRole =>
+    ROOM_ROLES.includes(role as RoomRole);
+
+// The subset of the SDK's ParticipantCapabilities the app's own controls care about
+export interface RoomCapabilities {
+    unmuteMic: boolean;
+    turnVideoOn: boolean;
+    shareScreen: boolean;
+}
+
+// Default Rooms permissions per role. The service has the final say, so in real calls
+// the composite reads the live capabilities; these drive the badge and the simulation.
+export const ROOM_ROLE_CAPABILITIES: Record<RoomRole, RoomCapabilities> = {
+    Presenter: { unmuteMic: true, turnVideoOn: true, shareScreen: true },
+    Attendee: { unmuteMic: true, turnVideoOn: true, shareScreen: false },
+    Consumer: { unmuteMic: false, turnVideoOn: false, shareScreen: false },
+};
+
+const CAPABILITY_LABELS: Record<keyof RoomCapabilities, string> = {
+    unmuteMic: 'unmute',
+    turnVideoOn: 'turn on video',
+    shareScreen: 'share screen',
+};
+
+// Anything outside Rooms is unrestricted as far as the app is concerned
+export const getRoomCapabilities = (role?: string): RoomCapabilities =>
+    isRoomRole(role)
+        ? ROOM_ROLE_CAPABILITIES[role]
+        : { unmuteMic: true, turnVideoOn: true, shareScreen: true };
+
+// "Cannot share screen" for an Attendee; empty when the role has no restrictions
+export const describeRoleRestrictions = (role?: string) => {
+    const capabilities = getRoomCapabilities(role);
+    const denied = (
+        Object.keys(CAPABILITY_LABELS) as (keyof RoomCapabilities)[]
+    ).filter((capability) => !capabilities[capability]);
+    return denied.length > 0
+        ? `Cannot ${denied
+              .map((capability) => CAPABILITY_LABELS[capability])
+              .join(', ')}`
+        : '';
+};
+
+// Timeline detail for the SDK's capabilitiesChanged event, e.g.
+// "shareScreen off (RoleRestricted), unmuteMic on"
+export const describeCapabilityChanges = (
+    changes: Partial<Record<string, { isPresent: boolean; reason: string }>>
+) =>
+    Object.entries(changes)
+        .filter(([, value]) => value !== undefined)
+        .map(([capability, value]) =>
+            value!.isPresent
+                ? `${capability} on`
+                : `${capability} off (${value!.reason})`
+        )
+        .join(', ');
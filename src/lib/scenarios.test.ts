@@ -0,0 +1,271 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CallConfig } from '../types';
+import { emptyConfig } from './config';
+import { createSimulatedCallingService } from './simulatedCallingService';
+import {
+    parseScenarios,
+    runScenarios,
+    toJUnitXml,
+    FAILURES_NEED_SIMULATION,
+    type ScenarioCalls,
+    type ScenarioResult,
+} from './scenarios';
+
+const base64Url = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/=+$/, '');
+
+const baseConfig: CallConfig = {
+    ...emptyConfig(),
+    userId: '8:acs:me',
+    token: [
+        base64Url({ alg: 'none' }),
+        base64Url({ exp: Math.floor(Date.now() / 1000) + 3600 }),
+        'signature',
+    ].join('.'),
+    displayName: 'Tester',
+};
+
+const GROUP_SCENARIO = `
+name: Group join
+steps:
+  - action: configure
+    config: { callType: group, callValue: 29228d3e-040e-4656-a70e-890ab4e173e4 }
+  - startCall
+  - waitForState Connected 5s
+  - mute
+  - sendDtmf 1
+  - wait 2s
+  - hangUp
+`;
+
+// What the app passes the runner, over the simulated backend
+const simulatedCalls = (
+    service = createSimulatedCallingService()
+): ScenarioCalls => ({
+    startCall: async (config, handlers) => ({
+        session: await service.startCall(config, handlers),
+    }),
+    hangUp: async (session) => {
+        await session.hangUp();
+        session.dispose();
+        return undefined;
+    },
+    simulateFailure: service.setStartFailure,
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('parseScenarios', () => {
+    it('reads YAML with shorthand steps', () => {
+        const { scenarios, errors } = parseScenarios(GROUP_SCENARIO);
+        expect(errors).toEqual([]);
+        expect(scenarios[0].steps).toEqual([
+            {
+                action: 'configure',
+                config: {
+                    callType: 'group',
+                    callValue: '29228d3e-040e-4656-a70e-890ab4e173e4',
+                },
+            },
+            { action: 'startCall' },
+            { action: 'waitForState', state: 'Connected', timeoutSeconds: 5 },
+            { action: 'mute' },
+            { action: 'sendDtmf', tones: '1' },
+            { action: 'wait', seconds: 2 },
+            { action: 'hangUp' },
+        ]);
+    });
+
+    it('reads JSON lists of scenarios with step objects', () => {
+        const { scenarios, errors } = parseScenarios(
+            JSON.stringify({
+                scenarios: [
+                    {
+                        name: 'Ring out',
+                        steps: [
+                            { action: 'startCall' },
+                            {
+                                action: 'expectEndReason',
+                                code: 487,
+                                subCode: 0,
+                            },
+                        ],
+                    },
+                ],
+            })
+        );
+        expect(errors).toEqual([]);
+        expect(scenarios[0].steps[1]).toEqual({
+            action: 'expectEndReason',
+            code: 487,
+            subCode: 0,
+            timeoutSeconds: 30,
+        });
+    });
+
+    it('reports every invalid step with its path', () => {
+        expect(
+            parseScenarios(`
+- name: Broken
+  steps:
+    - dial 123
+    - wait soon
+    - sendDtmf 1x
+    - action: configure
+      config: { callType: fax }
+- steps: [startCall]
+`).errors
+        ).toEqual([
+            '[0].steps[0]: unknown step "dial 123"',
+            '[0].steps[1]: wait needs a duration, e.g. wait 10s',
+            '[0].steps[2]: Unexpected "x" at position 2',
+            '[0].steps[3].config.callType: must be one of group, oneToOne, phone, teamsMeeting, teamsUser, room, adHoc',
+            '[1].name: is required',
+        ]);
+        expect(parseScenarios('{').errors[0]).toMatch(
+            /^Not valid JSON or YAML/
+        );
+    });
+});
+
+describe('runScenarios', () => {
+    const run = async (script: string, calls = simulatedCalls()) => {
+        vi.useFakeTimers();
+        const { scenarios } = parseScenarios(script);
+        const done = runScenarios(scenarios, { calls, baseConfig });
+        await vi.runAllTimersAsync();
+        return done;
+    };
+
+    it('passes a scenario whose steps all succeed', async () => {
+        const [result] = await run(GROUP_SCENARIO);
+        expect(result.status).toBe('passed');
+        expect(result.steps.map((step) => step.status)).toEqual(
+            Array(7).fill('passed')
+        );
+        expect(result.steps[2]).toMatchObject({
+            label: 'waitForState Connected (5s)',
+            durationMs: 2500,
+        });
+        expect(result.steps[5].durationMs).toBe(2000);
+    });
+
+    it('fails on the first failing step and skips the rest', async () => {
+        const [result] = await run(`
+name: Mid-ring
+steps:
+  - action: configure
+    config: { callType: oneToOne, callValue: "8:acs:callee" }
+  - startCall
+  - waitForState Ringing 5s
+  - expectEndReason 487 2s
+  - hangUp
+`);
+        expect(result.status).toBe('failed');
+        expect(result.steps.slice(2).map((step) => step.status)).toEqual([
+            'passed',
+            'failed',
+            'skipped',
+        ]);
+        expect(result.steps[3].message).toBe('The call did not end within 2s');
+    });
+
+    it('refuses to call with an incomplete configuration', async () => {
+        const [result] = await run(`
+name: No target
+steps: [startCall]
+`);
+        expect(result.steps[0].message).toMatch(
+            /^The configuration is not ready/
+        );
+    });
+
+    it('reports why the app did not start the call', async () => {
+        const [result] = await run(GROUP_SCENARIO, {
+            ...simulatedCalls(),
+            startCall: async () => ({ error: 'Invalid Group ID.' }),
+        });
+        expect(result.steps[1]).toMatchObject({
+            status: 'failed',
+            message: 'Invalid Group ID.',
+        });
+    });
+
+    it('joins calls that wait to be started', async () => {
+        const calls = simulatedCalls();
+        const join = vi.fn().mockResolvedValue(undefined);
+        const [result] = await run(GROUP_SCENARIO, {
+            ...calls,
+            startCall: async (config, handlers) => {
+                const { session } = await calls.startCall(config, handlers);
+                return { session: session && { ...session, join } };
+            },
+        });
+        expect(join).toHaveBeenCalledTimes(1);
+        expect(result.status).toBe('passed');
+    });
+
+    it('injects failures into simulated calls only', async () => {
+        const script = `
+name: Dropped
+steps:
+  - simulateFailure 41001
+  - action: configure
+    config: { callType: group, callValue: 29228d3e-040e-4656-a70e-890ab4e173e4 }
+  - startCall
+  - expectEndReason 400/41001 10s
+`;
+        const [simulated] = await run(script);
+        expect(simulated.status).toBe('passed');
+
+        const [acs] = await run(script, {
+            ...simulatedCalls(),
+            simulateFailure: undefined,
+        });
+        expect(acs.steps[0]).toMatchObject({
+            status: 'failed',
+            message: FAILURES_NEED_SIMULATION,
+        });
+    });
+});
+
+describe('toJUnitXml', () => {
+    it('writes a testsuite per scenario and a testcase per step', () => {
+        const results: ScenarioResult[] = [
+            {
+                name: 'Ring & hang up',
+                startedAt: '2026-01-01T00:00:00.000Z',
+                durationMs: 3500,
+                status: 'failed',
+                steps: [
+                    { label: 'startCall', status: 'passed', durationMs: 10 },
+                    {
+                        label: 'waitForState Connected (5s)',
+                        status: 'failed',
+                        durationMs: 3490,
+                        message: 'Call ended (487/0)',
+                    },
+                    { label: 'hangUp', status: 'skipped', durationMs: 0 },
+                ],
+            },
+        ];
+        expect(toJUnitXml(results)).toBe(
+            [
+                '<?xml version="1.0" encoding="UTF-8"?>',
+                '<testsuites name="ACS call scenarios" tests="3" failures="1" skipped="1" time="3.500">',
+                '  <testsuite name="Ring &amp; hang up" tests="3" failures="1" skipped="1" time="3.500" timestamp="2026-01-01T00:00:00.000Z">',
+                '    <testcase classname="Ring &amp; hang up" name="1. startCall" time="0.010"/>',
+                '    <testcase classname="Ring &amp; hang up" name="2. waitForState Connected (5s)" time="3.490">',
+                '      <failure message="Call ended (487/0)"/>',
+                '    </testcase>',
+                '    <testcase classname="Ring &amp; hang up" name="3. hangUp" time="0.000">',
+                '      <skipped/>',
+                '    </testcase>',
+                '  </testsuite>',
+                '</testsuites>',
+            ].join('\n')
+        );
+    });
+});
@@ -0,0 +1,693 @@
+import { parse as parseYaml } from 'yaml';
+import type { CallConfig, CallEndReasonInfo } from '../types';
+import type { CallSession, CallSessionHandlers } from './callingService';
+import { explainAcsError } from './acsErrors';
+import { formatCallEndReason } from './callEndReasons';
+import { parseDtmfScript, playDtmfScript } from './dtmf';
+import { validateConfig } from './profileTransfer';
+import {
+    SIMULATED_FAILURES,
+    type SimulatedFailure,
+} from './simulatedCallingService';
+import { isCallConfigReady } from './validators';
+
+export type ScenarioStep =
+    | { action: 'configure'; config: Partial<CallConfig> }
+    | { action: 'simulateFailure'; failure: SimulatedFailure }
+    | { action: 'startCall' }
+    | { action: 'waitForState'; state: string; timeoutSeconds: number }
+    | { action: 'mute' }
+    | { action: 'unmute' }
+    | { action: 'sendDtmf'; tones: string }
+    | { action: 'wait'; seconds: number }
+    | { action: 'hangUp' }
+    | {
+          action: 'expectEndReason';
+          code: number;
+          subCode?: number;
+          timeoutSeconds: number;
+      };
+
+export type ScenarioAction = ScenarioStep['action'];
+
+export const SCENARIO_ACTIONS: ScenarioAction[] = [
+    'configure',
+    'simulateFailure',
+    'startCall',
+    'waitForState',
+    'mute',
+    'unmute',
+    'sendDtmf',
+    'wait',
+    'hangUp',
+    'expectEndReason',
+];
+
+export interface Scenario {
+    name: string;
+    steps: ScenarioStep[];
+}
+
+export interface ScenarioParseResult {
+    scenarios: Scenario[];
+    errors: string[];
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+
+// "10s", "500ms", "2.5" (seconds) or a number of seconds
+const readSeconds = (value: unknown): number | undefined => {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value >= 0 ? value : undefined;
+    }
+    if (typeof value !== 'string') return undefined;
+    const match = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i.exec(value.trim());
+    if (!match) return undefined;
+    return Number(match[1]) / (match[2]?.toLowerCase() === 'ms' ? 1000 : 1);
+};
+
+const readEndReason = (value: string): CallEndReasonInfo | undefined => {
+    const match = /^(\d+)(?:\/(\d+))?$/.exec(value.trim());
+    if (!match) return undefined;
+    return {
+        code: Number(match[1]),
+        subCode: match[2] !== undefined ? Number(match[2]) : undefined,
+    };
+};
+
+const isAction = (value: unknown): value is ScenarioAction =>
+    SCENARIO_ACTIONS.includes(value as ScenarioAction);
+
+// Steps are objects ({ action: 'wait', seconds: 10 }) or one-line shorthands
+// ("wait 10s", "waitForState Connected 20s", "expectEndReason 487/0")
+const readStep = (
+    raw: unknown,
+    path: string
+): { step?: ScenarioStep; error?: string } => {
+    let fields: Record<string, unknown>;
+    if (typeof raw === 'string') {
+        const [action = '', ...args] = raw.trim().split(/\s+/);
+        if (!isAction(action)) {
+            return { error: `${path}: unknown step "${raw.trim()}"` };
+        }
+        if (action === 'configure') {
+            return {
+                error: `${path}: configure needs an object with a config, e.g. { action: configure, config: { callType: group } }`,
+            };
+        }
+        const endReason = readEndReason(args[0] ?? '');
+        fields = {
+            action,
+            state: args[0],
+            failure: args[0],
+            seconds: args[0],
+            tones: args.join(' '),
+            code: endReason?.code,
+            subCode: endReason?.subCode,
+            timeoutSeconds:
+                action === 'waitForState' || action === 'expectEndReason'
+                    ? args[1]
+                    : undefined,
+        };
+    } else if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+        fields = raw as Record<string, unknown>;
+        if (!isAction(fields.action)) {
+            return {
+                error: `${path}.action: must be one of ${SCENARIO_ACTIONS.join(
+                    ', '
+                )}`,
+            };
+        }
+    } else {
+        return { error: `${path}: must be a step object or a string` };
+    }
+
+    const timeoutSeconds =
+        fields.timeoutSeconds === undefined
+            ? DEFAULT_TIMEOUT_SECONDS
+            : readSeconds(fields.timeoutSeconds);
+    if (timeoutSeconds === undefined) {
+        return { error: `${path}: timeout must be a duration such as 20s` };
+    }
+
+    switch (fields.action) {
+        case 'configure': {
+            const errors = validateConfig(fields.config, `${path}.config`);
+            if (errors.length) return { error: errors.join('; ') };
+            return {
+                step: {
+                    action: 'configure',
+                    config: fields.config as Partial<CallConfig>,
+                },
+            };
+        }
+        case 'simulateFailure':
+            if (
+                !SIMULATED_FAILURES.some(
+                    ({ value }) => value === fields.failure
+                )
+            ) {
+                return {
+                    error: `${path}: simulateFailure needs one of ${SIMULATED_FAILURES.map(
+                        ({ value }) => value
+                    ).join(', ')}`,
+                };
+            }
+            return {
+                step: {
+                    action: 'simulateFailure',
+                    failure: fields.failure as SimulatedFailure,
+                },
+            };
+        case 'waitForState':
+            if (typeof fields.state !== 'string' || !fields.state) {
+                return {
+                    error: `${path}: waitForState needs a call state, e.g. Connected`,
+                };
+            }
+            return {
+                step: {
+                    action: 'waitForState',
+                    state: fields.state,
+                    timeoutSeconds,
+                },
+            };
+        case 'sendDtmf': {
+            const tones = typeof fields.tones === 'string' ? fields.tones : '';
+            const { steps, error } = parseDtmfScript(tones);
+            if (error || steps.length === 0) {
+                return {
+                    error: `${path}: ${
+                        error ?? 'sendDtmf needs tones, e.g. 1 2 #'
+                    }`,
+                };
+            }
+            return { step: { action: 'sendDtmf', tones } };
+        }
+        case 'wait': {
+            const seconds = readSeconds(fields.seconds);
+            if (seconds === undefined) {
+                return {
+                    error: `${path}: wait needs a duration, e.g. wait 10s`,
+                };
+            }
+            return { step: { action: 'wait', seconds } };
+        }
+        case 'expectEndReason':
+            if (
+                typeof fields.code !== 'number' ||
+                (fields.subCode !== undefined &&
+                    typeof fields.subCode !== 'number')
+            ) {
+                return {
+                    error: `${path}: expectEndReason needs a code and optional subCode, e.g. expectEndReason 487/0`,
+                };
+            }
+            return {
+                step: {
+                    action: 'expectEndReason',
+                    code: fields.code,
+                    subCode: fields.subCode as number | undefined,
+                    timeoutSeconds,
+                },
+            };
+        default:
+            return { step: { action: fields.action } as ScenarioStep };
+    }
+};
+
+const readScenario = (
+    raw: unknown,
+    path: string
+): { scenario?: Scenario; errors: string[] } => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { errors: [`${path || 'scenario'}: must be an object`] };
+    }
+    const fields = raw as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+    const errors: string[] = [];
+    if (typeof fields.name !== 'string' || !fields.name.trim()) {
+        errors.push(`${prefix}name: is required`);
+    }
+    if (!Array.isArray(fields.steps) || fields.steps.length === 0) {
+        errors.push(`${prefix}steps: must list at least one step`);
+        return { errors };
+    }
+    const steps: ScenarioStep[] = [];
+    fields.steps.forEach((rawStep, index) => {
+        const { step, error } = readStep(rawStep, `${prefix}steps[${index}]`);
+        if (error) errors.push(error);
+        if (step) steps.push(step);
+    });
+    if (errors.length) return { errors };
+    return {
+        scenario: { name: (fields.name as string).trim(), steps },
+        errors,
+    };
+};
+
+// A scenario file holds one scenario ({ name, steps }), a list of them, or
+// { scenarios: [...] }; JSON is read as YAML
+export const parseScenarios = (text: string): ScenarioParseResult => {
+    let doc: unknown;
+    try {
+        doc = parseYaml(text);
+    } catch (error) {
+        return {
+            scenarios: [],
+            errors: [
+                `Not valid JSON or YAML: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+            ],
+        };
+    }
+    const list =
+        typeof doc === 'object' &&
+        doc !== null &&
+        'scenarios' in doc &&
+        Array.isArray(doc.scenarios)
+            ? { items: doc.scenarios as unknown[], path: 'scenarios' }
+            : Array.isArray(doc)
+            ? { items: doc, path: '' }
+            : undefined;
+    if (!list) {
+        const { scenario, errors } = readScenario(doc, '');
+        return { scenarios: scenario ? [scenario] : [], errors };
+    }
+    const scenarios: Scenario[] = [];
+    const errors: string[] = [];
+    list.items.forEach((item, index) => {
+        const result = readScenario(item, `${list.path}[${index}]`);
+        errors.push(...result.errors);
+        if (result.scenario) scenarios.push(result.scenario);
+    });
+    return { scenarios, errors };
+};
+
+export const describeScenarioStep = (step: ScenarioStep): string => {
+    switch (step.action) {
+        case 'configure':
+            return `configure ${Object.entries(step.config)
+                .filter(([field]) => field !== 'token')
+                .map(([field, value]) => `${field}=${value}`)
+                .join(' ')}`;
+        case 'simulateFailure':
+            return `simulateFailure ${step.failure}`;
+        case 'waitForState':
+            return `waitForState ${step.state} (${step.timeoutSeconds}s)`;
+        case 'sendDtmf':
+            return `sendDtmf ${step.tones}`;
+        case 'wait':
+            return `wait ${step.seconds}s`;
+        case 'expectEndReason':
+            return `expectEndReason ${formatCallEndReason(step)}`;
+        default:
+            return step.action;
+    }
+};
+
+export type ScenarioStepStatus = 'pending' | 'passed' | 'failed' | 'skipped';
+
+export interface ScenarioStepResult {
+    label: string;
+    status: ScenarioStepStatus;
+    durationMs: number;
+    message?: string;
+}
+
+export interface ScenarioResult {
+    name: string;
+    startedAt: string;
+    durationMs: number;
+    status: 'running' | 'passed' | 'failed';
+    steps: ScenarioStepResult[];
+}
+
+// How scenarios place and end calls; the app passes the same paths its Start Call
+// and Disconnect buttons take, so calls are validated, recorded and shown as usual
+export interface ScenarioCalls {
+    // Resolves with the session, or with why the call was not started
+    startCall: (
+        config: CallConfig,
+        handlers: CallSessionHandlers
+    ) => Promise<{ session?: CallSession; error?: string }>;
+    // Resolves with why hanging up failed; the call is left either way
+    hangUp: (session: CallSession) => Promise<string | undefined>;
+    // Sets how the simulated backend fails the next calls; unset with ACS
+    simulateFailure?: (failure: SimulatedFailure) => void;
+}
+
+export interface ScenarioRunOptions {
+    calls: ScenarioCalls;
+    // The form's configuration; configure steps are applied on top of it
+    baseConfig: CallConfig;
+    signal?: AbortSignal;
+    // Called with every result so far whenever a step starts or finishes
+    onProgress?: (results: ScenarioResult[]) => void;
+}
+
+const STOPPED = 'Stopped';
+
+export const FAILURES_NEED_SIMULATION =
+    'simulateFailure only works against the simulated backend; turn on Simulation mode';
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            reject(new Error(STOPPED));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', abort, { once: true });
+    });
+
+// Runs one scenario against its own call; the call is hung up afterwards if still up
+const runScenario = async (
+    scenario: Scenario,
+    { calls, baseConfig, signal }: ScenarioRunOptions,
+    report: (result: ScenarioResult) => void
+): Promise<ScenarioResult> => {
+    const started = Date.now();
+    const result: ScenarioResult = {
+        name: scenario.name,
+        startedAt: new Date(started).toISOString(),
+        durationMs: 0,
+        status: 'running',
+        steps: scenario.steps.map((step) => ({
+            label: describeScenarioStep(step),
+            status: 'pending',
+            durationMs: 0,
+        })),
+    };
+    const update = (index: number, change: Partial<ScenarioStepResult>) => {
+        result.steps = result.steps.map((step, i) =>
+            i === index ? { ...step, ...change } : step
+        );
+        result.durationMs = Date.now() - started;
+        report({ ...result });
+    };
+
+    let config = baseConfig;
+    let session: CallSession | undefined;
+    let state = 'None';
+    let ended = false;
+    let endReason: CallEndReasonInfo | undefined;
+    let lastError: string | undefined;
+    const waiters = new Set<() => void>();
+    const notify = () => waiters.forEach((check) => check());
+
+    const handlers: CallSessionHandlers = {
+        onStateChanged: (next) => {
+            state = next;
+            notify();
+        },
+        onParticipantsJoined: () => {},
+        onParticipantsLeft: () => {},
+        onDiagnosticChanged: () => {},
+        onInfo: () => {},
+        onError: (error) => {
+            lastError = explainAcsError(error);
+        },
+        onEnded: (reason) => {
+            ended = true;
+            endReason = reason;
+            state = 'Disconnected';
+            notify();
+        },
+    };
+
+    // Resolves once isDone() holds, re-checked on every call event
+    const waitFor = (
+        isDone: () => boolean,
+        timeoutMs: number,
+        timeout: string
+    ) =>
+        new Promise<void>((resolve, reject) => {
+            if (isDone()) return resolve();
+            const finish = (error?: Error) => {
+                clearTimeout(timer);
+                waiters.delete(check);
+                signal?.removeEventListener('abort', abort);
+                if (error) reject(error);
+                else resolve();
+            };
+            const check = () => {
+                if (isDone()) finish();
+            };
+            const abort = () => finish(new Error(STOPPED));
+            const timer = setTimeout(
+                () => finish(new Error(timeout)),
+                timeoutMs
+            );
+            waiters.add(check);
+            signal?.addEventListener('abort', abort);
+        });
+
+    const activeSession = () => {
+        if (!session || ended) throw new Error('No call in progress');
+        return session;
+    };
+    const describeEnd = () =>
+        [
+            endReason
+                ? `Call ended (${formatCallEndReason(endReason)})`
+                : 'Call ended',
+            lastError,
+        ]
+            .filter(Boolean)
+            .join(': ');
+
+    const runStep = async (step: ScenarioStep) => {
+        switch (step.action) {
+            case 'configure':
+                config = { ...config, ...step.config };
+                return;
+            case 'simulateFailure':
+                if (!calls.simulateFailure) {
+                    throw new Error(FAILURES_NEED_SIMULATION);
+                }
+                calls.simulateFailure(step.failure);
+                return;
+            case 'startCall': {
+                if (session && !ended) {
+                    throw new Error('A call is already in progress');
+                }
+                if (!isCallConfigReady(config)) {
+                    throw new Error(
+                        'The configuration is not ready: check the user ID, token, display name, call type and target'
+                    );
+                }
+                state = 'None';
+                ended = false;
+                endReason = undefined;
+                lastError = undefined;
+                const attempt = await calls.startCall(config, handlers);
+                if (!attempt.session) {
+                    throw new Error(attempt.error ?? 'The call did not start');
+                }
+                session = attempt.session;
+                try {
+                    await session.join?.();
+                } catch (error) {
+                    throw new Error(explainAcsError(error));
+                }
+                return;
+            }
+            case 'waitForState':
+                await waitFor(
+                    () => state === step.state || ended,
+                    step.timeoutSeconds * 1000,
+                    `Still ${state} after ${step.timeoutSeconds}s`
+                );
+                if (state !== step.state) throw new Error(describeEnd());
+                return;
+            case 'mute':
+            case 'unmute': {
+                const target = activeSession();
+                if (!target.setMuted) {
+                    throw new Error('This call cannot be muted from a script');
+                }
+                await target.setMuted(step.action === 'mute');
+                return;
+            }
+            case 'sendDtmf': {
+                const target = activeSession();
+                if (!target.sendDtmf) {
+                    throw new Error('This call cannot send DTMF tones');
+                }
+                await playDtmfScript(
+                    parseDtmfScript(step.tones).steps,
+                    (key) => target.sendDtmf!(key),
+                    signal ?? new AbortController().signal
+                );
+                return;
+            }
+            case 'wait':
+                await sleep(step.seconds * 1000, signal);
+                return;
+            case 'hangUp': {
+                const error = await calls.hangUp(activeSession());
+                ended = true;
+                state = 'Disconnected';
+                if (error) throw new Error(error);
+                return;
+            }
+            case 'expectEndReason': {
+                await waitFor(
+                    () => ended,
+                    step.timeoutSeconds * 1000,
+                    `The call did not end within ${step.timeoutSeconds}s`
+                );
+                const expected = formatCallEndReason(step);
+                if (!endReason) {
+                    throw new Error(
+                        `Expected ${expected}, but the call was hung up by the script`
+                    );
+                }
+                if (
+                    endReason.code !== step.code ||
+                    (step.subCode !== undefined &&
+                        endReason.subCode !== step.subCode)
+                ) {
+                    throw new Error(
+                        `Expected ${expected}, got ${formatCallEndReason(
+                            endReason
+                        )}`
+                    );
+                }
+                return;
+            }
+        }
+    };
+
+    let failed = false;
+    for (const [index, step] of scenario.steps.entries()) {
+        if (failed || signal?.aborted) {
+            update(index, {
+                status: 'skipped',
+                message: signal?.aborted && !failed ? STOPPED : undefined,
+            });
+            continue;
+        }
+        const stepStarted = Date.now();
+        try {
+            await runStep(step);
+            update(index, {
+                status: 'passed',
+                durationMs: Date.now() - stepStarted,
+            });
+        } catch (error) {
+            failed = true;
+            update(index, {
+                status: 'failed',
+                durationMs: Date.now() - stepStarted,
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    // The app disposes the session once the call has ended
+    if (session && !ended) await calls.hangUp(session);
+    result.status = failed || signal?.aborted ? 'failed' : 'passed';
+    result.durationMs = Date.now() - started;
+    report({ ...result });
+    return result;
+};
+
+// Runs the scenarios one after another; a failed scenario does not stop the rest
+export const runScenarios = async (
+    scenarios: Scenario[],
+    options: ScenarioRunOptions
+): Promise<ScenarioResult[]> => {
+    const results: ScenarioResult[] = [];
+    for (const scenario of scenarios) {
+        const index = results.length;
+        const result = await runScenario(scenario, options, (progress) => {
+            results[index] = progress;
+            options.onProgress?.([...results]);
+        });
+        results[index] = result;
+    }
+    return results;
+};
+
+const escapeXml = (text: string) =>
+    text.replace(
+        /[<>&"']/g,
+        (char) =>
+            ({
+                '<': '&lt;',
+                '>': '&gt;',
+                '&': '&amp;',
+                '"': '&quot;',
+                "'": '&apos;',
+            }[char] ?? char)
+    );
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+// One testsuite per scenario and one testcase per step, for CI test reports
+export const toJUnitXml = (
+    results: ScenarioResult[],
+    suiteName = 'ACS call scenarios'
+) => {
+    const count = (status: ScenarioStepStatus) =>
+        results.reduce(
+            (total, result) =>
+                total +
+                result.steps.filter((step) => step.status === status).length,
+            0
+        );
+    const total = results.reduce((sum, result) => sum + result.steps.length, 0);
+    const totalMs = results.reduce((sum, result) => sum + result.durationMs, 0);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(
+            suiteName
+        )}" tests="${total}" failures="${count('failed')}" skipped="${count(
+            'skipped'
+        )}" time="${seconds(totalMs)}">`,
+    ];
+    for (const result of results) {
+        const failures = result.steps.filter(
+            (step) => step.status === 'failed'
+        ).length;
+        const skipped = result.steps.filter(
+            (step) => step.status === 'skipped'
+        ).length;
+        lines.push(
+            `  <testsuite name="${escapeXml(result.name)}" tests="${
+                result.steps.length
+            }" failures="${failures}" skipped="${skipped}" time="${seconds(
+                result.durationMs
+            )}" timestamp="${result.startedAt}">`
+        );
+        result.steps.forEach((step, index) => {
+            const open = `    <testcase classname="${escapeXml(
+                result.name
+            )}" name="${escapeXml(
+                `${index + 1}. ${step.label}`
+            )}" time="${seconds(step.durationMs)}"`;
+            if (step.status === 'failed') {
+                lines.push(
+                    `${open}>`,
+                    `      <failure message="${escapeXml(
+                        step.message ?? ''
+                    )}"/>`,
+                    '    </testcase>'
+                );
+            } else if (step.status === 'skipped') {
+                lines.push(`${open}>`, '      <skipped/>', '    </testcase>');
+            } else {
+                lines.push(`${open}/>`);
+            }
+        });
+        lines.push('  </testsuite>');
+    }
+    lines.push('</testsuites>');
+    return lines.join('\n');
+};
@@ -0,0 +1,531 @@
+import type { Callee, CallConfig, CallEndReasonInfo } from '../types';
+import type {
+    CallingService,
+    CallListenerHandlers,
+    CallSession,
+    CallSessionHandlers,
+    IncomingCallOffer,
+} from './callingService';
+import {
+    describeCapabilityChanges,
+    getRoomCapabilities,
+    type RoomCapabilities,
+    type RoomRole,
+} from './rooms';
+import { parseCalleeList, toE164 } from './validators';
+
+// Failures the fake can play back; the codes match what ACS reports for them
+export type SimulatedFailure = 'none' | '41001' | '401';
+
+export const SIMULATED_FAILURES: { value: SimulatedFailure; label: string }[] =
+    [
+        { value: 'none', label: 'Connects normally' },
+        { value: '41001', label: 'Fails with 41001 (bad target)' },
+        { value: '401', label: 'Fails with 401 (invalid token)' },
+    ];
+
+export interface SimulationTimings {
+    // Connecting -> Ringing for 1:1 and phone calls, -> InLobby for Teams meetings
+    ringMs: number;
+    // Start -> Connected
+    connectMs: number;
+    // Unanswered incoming calls end as missed after this long
+    missedAfterMs: number;
+}
+
+export const DEFAULT_SIMULATION_TIMINGS: SimulationTimings = {
+    ringMs: 1000,
+    connectMs: 2500,
+    missedAfterMs: 30000,
+};
+
+export interface SimulatedParticipant {
+    id: string;
+    displayName: string;
+}
+
+// Who "Test Incoming Call" rings with, to check how each kind of caller is labelled
+export const SIMULATED_CALLERS: {
+    label: string;
+    caller: Partial<SimulatedParticipant>;
+}[] = [
+    { label: 'ACS user', caller: {} },
+    {
+        label: 'Teams user',
+        caller: {
+            id: '8:orgid:5f1c2a6e-8d3b-4c7a-9e21-0b6d4f8a3c19',
+            displayName: 'Teams Test User',
+        },
+    },
+    {
+        label: 'Phone number',
+        caller: { id: '4:+14255550123', displayName: '+14255550123' },
+    },
+];
+
+export interface SimulatedCallSnapshot {
+    state: string;
+    participants: SimulatedParticipant[];
+    isMuted: boolean;
+    isScreenSharing: boolean;
+    networkQuality: 'Good' | 'Poor' | 'Bad';
+    // Set for room calls only
+    role?: RoomRole;
+    // DTMF tones the far end has heard, as an IVR would
+    tonesReceived: string;
+}
+
+// Scripted call the simulation controls and SimulatedCallView drive
+export interface SimulatedCall {
+    id: string;
+    getSnapshot: () => SimulatedCallSnapshot;
+    subscribe: (listener: () => void) => () => void;
+    toggleMute: () => void;
+    toggleScreenShare: () => void;
+    addParticipant: () => void;
+    removeParticipant: () => void;
+    setNetworkQuality: (
+        quality: SimulatedCallSnapshot['networkQuality']
+    ) => void;
+    raiseError: (failure: Exclude<SimulatedFailure, 'none'>) => void;
+    // What an organizer changing our role in the room looks like
+    setRole: (role: RoomRole) => void;
+    // Ends the call from the other side, 0/0 being an ordinary hang-up
+    remoteHangUp: (endReason?: CallEndReasonInfo) => void;
+}
+
+export interface SimulatedCallingService extends CallingService {
+    mode: 'simulated';
+    // Makes outgoing calls (and, for 401, listening) fail until set back to 'none'
+    setStartFailure: (failure: SimulatedFailure) => void;
+    // Rings the active listener; false when nobody is listening
+    simulateIncomingCall: (caller?: Partial<SimulatedParticipant>) => boolean;
+}
+
+// End reasons the simulated call screen can end a call with
+export const SIMULATED_END_REASONS: {
+    label: string;
+    endReason: CallEndReasonInfo;
+}[] = [
+    { label: 'Hang-up', endReason: { code: 0, subCode: 0 } },
+    { label: 'Removed', endReason: { code: 0, subCode: 5300 } },
+    { label: 'Meeting ended', endReason: { code: 0, subCode: 4097 } },
+    { label: 'Network drop', endReason: { code: 410, subCode: 0 } },
+    { label: 'Token expired', endReason: { code: 401, subCode: 0 } },
+];
+
+// Shaped like the SDK's CallingCommunicationError so the app explains both alike
+export const createSimulatedError = (
+    failure: Exclude<SimulatedFailure, 'none'>
+) =>
+    failure === '41001'
+        ? Object.assign(new Error('Failed to start the call (simulated)'), {
+              code: 400,
+              subCode: 41001,
+          })
+        : Object.assign(new Error('Unauthorized (simulated)'), {
+              code: 401,
+              subCode: 0,
+          });
+
+const simulatedId = (prefix: string) =>
+    `${prefix}-${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`;
+
+const names = (participants: SimulatedParticipant[]) =>
+    participants.map((participant) => participant.displayName);
+
+// Runs one call: a fixed script of state changes plus whatever the controls trigger
+const createSimulatedSession = (
+    handlers: CallSessionHandlers,
+    script: {
+        states: { at: number; state: string }[];
+        joinAt: number;
+        joining: SimulatedParticipant[];
+        failure?: Exclude<SimulatedFailure, 'none'>;
+        role?: RoomRole;
+        // How long someone dialled in with addParticipant rings before joining
+        dialMs: number;
+    }
+): CallSession & { call: SimulatedCall } => {
+    const id = simulatedId('sim-call');
+    const listeners = new Set<() => void>();
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let guestCount = 0;
+    let snapshot: SimulatedCallSnapshot = {
+        state: 'None',
+        participants: [],
+        isMuted: false,
+        isScreenSharing: false,
+        networkQuality: 'Good',
+        role: script.role,
+        tonesReceived: '',
+    };
+
+    const update = (change: Partial<SimulatedCallSnapshot>) => {
+        snapshot = { ...snapshot, ...change };
+        listeners.forEach((listener) => listener());
+    };
+
+    const setState = (state: string) => {
+        update({ state });
+        handlers.onStateChanged(state, id);
+    };
+
+    const isActive = () => snapshot.state !== 'Disconnected';
+
+    const stop = () => {
+        timers.forEach(clearTimeout);
+        timers.length = 0;
+    };
+
+    const end = (endReason: CallEndReasonInfo) => {
+        if (!isActive()) return;
+        stop();
+        setState('Disconnected');
+        handlers.onEnded(endReason);
+    };
+
+    const join = (participants: SimulatedParticipant[]) => {
+        if (!isActive() || participants.length === 0) return;
+        update({ participants: [...snapshot.participants, ...participants] });
+        handlers.onParticipantsJoined(names(participants));
+    };
+
+    const schedule = (at: number, action: () => void) =>
+        timers.push(setTimeout(action, at));
+
+    const call: SimulatedCall = {
+        id,
+        getSnapshot: () => snapshot,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        // Like the SDK, controls the role doesn't allow are refused
+        toggleMute: () => {
+            if (
+                snapshot.isMuted &&
+                !getRoomCapabilities(snapshot.role).unmuteMic
+            )
+                return;
+            update({ isMuted: !snapshot.isMuted });
+        },
+        toggleScreenShare: () => {
+            if (
+                !snapshot.isScreenSharing &&
+                !getRoomCapabilities(snapshot.role).shareScreen
+            )
+                return;
+            update({ isScreenSharing: !snapshot.isScreenSharing });
+        },
+        addParticipant: () => {
+            guestCount += 1;
+            join([
+                {
+                    id: simulatedId('8:acs:simulated'),
+                    displayName: `Guest ${guestCount}`,
+                },
+            ]);
+        },
+        removeParticipant: () => {
+            const leaving = snapshot.participants.at(-1);
+            if (!isActive() || !leaving) return;
+            update({ participants: snapshot.participants.slice(0, -1) });
+            handlers.onParticipantsLeft([leaving.displayName]);
+        },
+        setNetworkQuality: (networkQuality) => {
+            update({ networkQuality });
+            handlers.onDiagnosticChanged(
+                'network',
+                'networkReceiveQuality',
+                networkQuality
+            );
+        },
+        raiseError: (failure) =>
+            handlers.onError(createSimulatedError(failure)),
+        setRole: (role) => {
+            if (!isActive() || role === snapshot.role) return;
+            const before = getRoomCapabilities(snapshot.role);
+            const after = getRoomCapabilities(role);
+            // Losing a capability also stops what it allowed
+            update({
+                role,
+                isMuted: snapshot.isMuted || !after.unmuteMic,
+                isScreenSharing: snapshot.isScreenSharing && after.shareScreen,
+            });
+            handlers.onRoleChanged?.(role);
+            const changes = describeCapabilityChanges(
+                Object.fromEntries(
+                    (Object.keys(after) as (keyof RoomCapabilities)[])
+                        .filter(
+                            (capability) =>
+                                before[capability] !== after[capability]
+                        )
+                        .map((capability) => [
+                            capability,
+                            {
+                                isPresent: after[capability],
+                                reason: after[capability]
+                                    ? 'CapabilityAllowed'
+                                    : 'RoleRestricted',
+                            },
+                        ])
+                )
+            );
+            if (changes) handlers.onInfo(`Capabilities changed: ${changes}`);
+        },
+        remoteHangUp: (endReason = { code: 0, subCode: 0 }) => end(endReason),
+    };
+
+    setState('Connecting');
+    if (script.role) {
+        // Consumers join muted and cannot unmute
+        update({ isMuted: !getRoomCapabilities(script.role).unmuteMic });
+        handlers.onRoleChanged?.(script.role);
+    }
+    for (const { at, state } of script.states) {
+        schedule(at, () => setState(state));
+    }
+    if (script.failure) {
+        const error = createSimulatedError(script.failure);
+        schedule(script.joinAt, () => {
+            handlers.onError(error);
+            end({ code: error.code, subCode: error.subCode });
+        });
+    } else {
+        schedule(script.joinAt, () => join(script.joining));
+    }
+
+    return {
+        call,
+        view: { kind: 'simulated', call },
+        hangUp: async () => {
+            if (!isActive()) return;
+            stop();
+            setState('Disconnected');
+        },
+        addParticipant: async (callee) => {
+            if (!isActive()) throw new Error('The call has already ended');
+            guestCount += 1;
+            const participant: SimulatedParticipant =
+                callee.kind === 'phone'
+                    ? {
+                          id: `4:${callee.phoneNumber}`,
+                          displayName: callee.phoneNumber,
+                      }
+                    : {
+                          id: callee.id,
+                          displayName: `Added user ${guestCount}`,
+                      };
+            schedule(script.dialMs, () => join([participant]));
+        },
+        sendDtmf: async (key) => {
+            if (snapshot.state !== 'Connected') {
+                throw new Error('Tones can only be sent in a connected call');
+            }
+            update({ tonesReceived: snapshot.tonesReceived + key });
+        },
+        setMuted: async (muted) => {
+            if (!isActive()) throw new Error('The call has already ended');
+            if (!muted && !getRoomCapabilities(snapshot.role).unmuteMic) {
+                throw new Error('Your role in the room cannot unmute');
+            }
+            update({ isMuted: muted });
+        },
+        dispose: stop,
+    };
+};
+
+const toParticipants = (callees: Callee[]): SimulatedParticipant[] =>
+    callees.map((callee, index) =>
+        callee.kind === 'phone'
+            ? { id: `4:${callee.phoneNumber}`, displayName: callee.phoneNumber }
+            : {
+                  id: callee.id,
+                  displayName: `Simulated callee ${index + 1}`,
+              }
+    );
+
+const calleeOf = (config: CallConfig): SimulatedParticipant[] => {
+    if (config.callType === 'group') {
+        return [
+            {
+                id: simulatedId('8:acs:simulated'),
+                displayName: 'Alex (simulated)',
+            },
+            {
+                id: simulatedId('8:acs:simulated'),
+                displayName: 'Sam (simulated)',
+            },
+        ];
+    }
+    if (config.callType === 'phone') {
+        const phoneNumber = toE164(config.callValue, config.phoneCountry);
+        return [{ id: `4:${phoneNumber}`, displayName: phoneNumber }];
+    }
+    if (config.callType === 'teamsMeeting') {
+        return [
+            {
+                id: '8:orgid:2b7e9d40-61c5-4f3a-8a0e-7c94d1e5b236',
+                displayName: 'Meeting organizer (simulated)',
+            },
+        ];
+    }
+    if (config.callType === 'adHoc') {
+        return toParticipants(
+            parseCalleeList(config.callValue, config.phoneCountry).map(
+                ({ callee }) => callee!
+            )
+        );
+    }
+    if (config.callType === 'room') {
+        return [
+            {
+                id: simulatedId('8:acs:simulated'),
+                displayName: 'Room presenter (simulated)',
+            },
+        ];
+    }
+    if (config.callType === 'teamsUser') {
+        return [
+            {
+                id: config.callValue.trim(),
+                displayName: 'Simulated Teams user',
+            },
+        ];
+    }
+    return [{ id: config.callValue.trim(), displayName: 'Simulated callee' }];
+};
+
+// In-memory stand-in for ACS: no network, no token checks, deterministic timings
+export const createSimulatedCallingService = (
+    timings: SimulationTimings = DEFAULT_SIMULATION_TIMINGS
+): SimulatedCallingService => {
+    let startFailure: SimulatedFailure = 'none';
+    let listenerHandlers: CallListenerHandlers | undefined;
+
+    return {
+        mode: 'simulated',
+
+        setStartFailure: (failure) => {
+            startFailure = failure;
+        },
+
+        startCall: async (config, handlers) => {
+            // An invalid token fails before there is a call, like creating the call agent would
+            if (startFailure === '401') throw createSimulatedError('401');
+            // Meetings hold us in the lobby until the organizer admits us at connectMs
+            const waits =
+                config.callType === 'teamsMeeting'
+                    ? 'InLobby'
+                    : config.callType !== 'group'
+                    ? 'Ringing'
+                    : undefined;
+            return createSimulatedSession(handlers, {
+                states: [
+                    ...(waits ? [{ at: timings.ringMs, state: waits }] : []),
+                    ...(startFailure === 'none'
+                        ? [{ at: timings.connectMs, state: 'Connected' }]
+                        : []),
+                ],
+                joinAt: timings.connectMs,
+                joining: calleeOf(config),
+                failure: startFailure === 'none' ? undefined : startFailure,
+                // Attendee is the default role for room participants
+                role: config.callType === 'room' ? 'Attendee' : undefined,
+                dialMs: timings.ringMs,
+            });
+        },
+
+        listen: async (_config, handlers) => {
+            if (startFailure === '401') throw createSimulatedError('401');
+            listenerHandlers = handlers;
+            return {
+                stop: () => {
+                    if (listenerHandlers === handlers)
+                        listenerHandlers = undefined;
+                },
+            };
+        },
+
+        // Soak agents connect straight away like group calls; the failure setting applies
+        joinHeadless: async (_identity, _groupId, _options, handlers) => {
+            if (startFailure === '401') throw createSimulatedError('401');
+            const session = createSimulatedSession(
+                {
+                    onStateChanged: (state) => handlers.onStateChanged(state),
+                    onParticipantsJoined: () => {},
+                    onParticipantsLeft: () => {},
+                    onDiagnosticChanged: () => {},
+                    onInfo: () => {},
+                    onError: () => {},
+                    onEnded: handlers.onEnded,
+                },
+                {
+                    states:
+                        startFailure === 'none'
+                            ? [{ at: timings.connectMs, state: 'Connected' }]
+                            : [],
+                    joinAt: timings.connectMs,
+                    joining: [],
+                    failure: startFailure === 'none' ? undefined : startFailure,
+                    dialMs: timings.ringMs,
+                }
+            );
+            return {
+                hangUp: session.hangUp,
+                dispose: async () => session.dispose(),
+            };
+        },
+
+        simulateIncomingCall: (caller = {}) => {
+            const handlers = listenerHandlers;
+            if (!handlers) return false;
+
+            const from: SimulatedParticipant = {
+                id: caller.id ?? simulatedId('8:acs:simulated'),
+                displayName: caller.displayName ?? 'Test Caller',
+            };
+            let answered = false;
+            const missedTimer = setTimeout(() => {
+                answered = true;
+                // 487: the caller cancelled before anyone answered
+                handlers.onIncomingCallEnded(offer, { code: 487, subCode: 0 });
+            }, timings.missedAfterMs);
+
+            const offer: IncomingCallOffer = {
+                id: simulatedId('sim-incoming'),
+                callerId: from.id,
+                callerName: from.displayName,
+                isTeamsCall: false,
+                accept: async ({ withVideo }, sessionHandlers) => {
+                    if (answered) throw new Error('The call has already ended');
+                    if (startFailure === '401') {
+                        throw createSimulatedError('401');
+                    }
+                    answered = true;
+                    clearTimeout(missedTimer);
+                    sessionHandlers.onInfo(
+                        withVideo
+                            ? 'Accepted with video'
+                            : 'Accepted audio only'
+                    );
+                    return createSimulatedSession(sessionHandlers, {
+                        states: [{ at: 0, state: 'Connected' }],
+                        joinAt: 0,
+                        joining: [from],
+                        dialMs: timings.ringMs,
+                    });
+                },
+                reject: async () => {
+                    answered = true;
+                    clearTimeout(missedTimer);
+                },
+            };
+            handlers.onIncomingCall(offer);
+            return true;
+        },
+    };
+};
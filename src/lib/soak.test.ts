@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSimulatedCallingService } from './simulatedCallingService';
+import {
+    parseSoakAgents,
+    startSoakTest,
+    summarizeSoakTest,
+    MAX_SOAK_AGENTS,
+    type SoakAgentStatus,
+} from './soak';
+
+const base64Url = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/=+$/, '');
+
+const tokenExpiringIn = (seconds: number) =>
+    [
+        base64Url({ alg: 'none' }),
+        base64Url({ exp: Math.floor(Date.now() / 1000) + seconds }),
+        'signature',
+    ].join('.');
+
+const GROUP_ID = '29228d3e-040e-4656-a70e-890ab4e173e4';
+
+const agents = (count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+        userId: `8:acs:agent-${index + 1}`,
+        token: '',
+        displayName: `Agent ${index + 1}`,
+    }));
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('parseSoakAgents', () => {
+    it('reads userId,token[,display name] lines', () => {
+        const token = tokenExpiringIn(3600);
+        const { agents, errors } = parseSoakAgents(
+            `# soak agents\n8:acs:one,${token},Agent, One\n\n8:acs:two,${token}\n`,
+            { requireTokens: true }
+        );
+        expect(errors).toEqual([]);
+        expect(agents).toEqual([
+            { userId: '8:acs:one', token, displayName: 'Agent, One' },
+            { userId: '8:acs:two', token, displayName: 'Soak agent 2' },
+        ]);
+    });
+
+    it('reports bad user IDs and missing or expired tokens by line', () => {
+        const { agents, errors } = parseSoakAgents(
+            `someone,abc\n8:acs:two\n8:acs:three,${tokenExpiringIn(-60)}`,
+            { requireTokens: true }
+        );
+        expect(agents).toEqual([]);
+        expect(errors).toEqual([
+            'Line 1: "someone" is not an ACS user ID (8:acs:...)',
+            'Line 2: missing the access token',
+            'Line 3: the token has expired',
+        ]);
+    });
+
+    it('does without tokens for the simulation', () => {
+        const { agents, errors } = parseSoakAgents('8:acs:one', {
+            requireTokens: false,
+        });
+        expect(errors).toEqual([]);
+        expect(agents).toHaveLength(1);
+    });
+
+    it('caps the number of agents', () => {
+        const text = agents(MAX_SOAK_AGENTS + 1)
+            .map(({ userId }) => userId)
+            .join('\n');
+        expect(parseSoakAgents(text, { requireTokens: false }).errors).toEqual([
+            `${
+                MAX_SOAK_AGENTS + 1
+            } agents listed; at most ${MAX_SOAK_AGENTS} can run from one page`,
+        ]);
+    });
+});
+
+describe('startSoakTest', () => {
+    it('joins agents staggered and records their join latency', async () => {
+        vi.useFakeTimers();
+        const service = createSimulatedCallingService();
+        const joinHeadless = vi.spyOn(service, 'joinHeadless');
+        let statuses: SoakAgentStatus[] = [];
+
+        const test = startSoakTest({
+            service,
+            agents: agents(3),
+            groupId: GROUP_ID,
+            syntheticAudio: true,
+            staggerMs: 1000,
+            onUpdate: (next) => (statuses = next),
+        });
+        expect(statuses.map(({ state }) => state)).toEqual([
+            'Waiting',
+            'Waiting',
+            'Waiting',
+        ]);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(joinHeadless).toHaveBeenCalledTimes(2);
+        expect(joinHeadless).toHaveBeenCalledWith(
+            agents(1)[0],
+            GROUP_ID,
+            { syntheticAudio: true },
+            expect.any(Object)
+        );
+        expect(statuses.map(({ state }) => state)).toEqual([
+            'Connecting',
+            'Connecting',
+            'Waiting',
+        ]);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(statuses.map(({ state }) => state)).toEqual([
+            'Connected',
+            'Connected',
+            'Connected',
+        ]);
+        expect(statuses.map(({ joinLatencyMs }) => joinLatencyMs)).toEqual([
+            2500, 2500, 2500,
+        ]);
+        expect(summarizeSoakTest(statuses)).toEqual({
+            connected: 3,
+            failed: 0,
+            dropped: 0,
+            averageJoinMs: 2500,
+            maxJoinMs: 2500,
+        });
+
+        await test.stop();
+        expect(statuses.map(({ state }) => state)).toEqual([
+            'Disconnected',
+            'Disconnected',
+            'Disconnected',
+        ]);
+        expect(statuses.every(({ endReason }) => !endReason)).toBe(true);
+    });
+
+    it('never starts agents still waiting when stopped', async () => {
+        vi.useFakeTimers();
+        const service = createSimulatedCallingService();
+        const joinHeadless = vi.spyOn(service, 'joinHeadless');
+        let statuses: SoakAgentStatus[] = [];
+
+        const test = startSoakTest({
+            service,
+            agents: agents(3),
+            groupId: GROUP_ID,
+            syntheticAudio: false,
+            staggerMs: 1000,
+            onUpdate: (next) => (statuses = next),
+        });
+        await vi.advanceTimersByTimeAsync(0);
+        await test.stop();
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(joinHeadless).toHaveBeenCalledTimes(1);
+        expect(statuses.map(({ state }) => state)).toEqual([
+            'Disconnected',
+            'Not started',
+            'Not started',
+        ]);
+    });
+
+    it('shows failed joins and calls the service ends', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const service = createSimulatedCallingService();
+        let statuses: SoakAgentStatus[] = [];
+
+        service.setStartFailure('401');
+        const failing = startSoakTest({
+            service,
+            agents: agents(1),
+            groupId: GROUP_ID,
+            syntheticAudio: false,
+            staggerMs: 0,
+            onUpdate: (next) => (statuses = next),
+        });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(statuses[0].state).toBe('Failed');
+        expect(statuses[0].error).toMatch(/token/i);
+        await failing.stop();
+
+        service.setStartFailure('41001');
+        const dropping = startSoakTest({
+            service,
+            agents: agents(1),
+            groupId: GROUP_ID,
+            syntheticAudio: false,
+            staggerMs: 0,
+            onUpdate: (next) => (statuses = next),
+        });
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(statuses[0]).toMatchObject({
+            state: 'Disconnected',
+            endReason: { code: 400, subCode: 41001 },
+        });
+        expect(summarizeSoakTest(statuses)).toMatchObject({
+            connected: 0,
+            dropped: 1,
+        });
+        await dropping.stop();
+    });
+});
@@ -0,0 +1,205 @@
+import type { CallEndReasonInfo } from '../types';
+import type {
+    CallingService,
+    HeadlessAgentIdentity,
+    HeadlessCall,
+} from './callingService';
+import { explainAcsError } from './acsErrors';
+import { decodeJWT } from './jwt';
+import { isValidAcsUserId } from './validators';
+
+// Every agent holds its own connection and media; browsers struggle well before this
+export const MAX_SOAK_AGENTS = 50;
+
+export interface SoakAgentStatus {
+    userId: string;
+    displayName: string;
+    // The SDK call state; Waiting before the agent joins, Failed if joining threw
+    state: string;
+    // Join to Connected
+    joinLatencyMs?: number;
+    // Set when the call ended without us hanging up
+    endReason?: CallEndReasonInfo;
+    error?: string;
+}
+
+export interface SoakTestOptions {
+    service: CallingService;
+    agents: HeadlessAgentIdentity[];
+    groupId: string;
+    syntheticAudio: boolean;
+    // Gap between agents joining, so the service is not hit all at once
+    staggerMs: number;
+    onUpdate: (statuses: SoakAgentStatus[]) => void;
+}
+
+export interface SoakTest {
+    // Hangs up and disposes every agent; agents not yet joined never start
+    stop: () => Promise<void>;
+}
+
+export interface SoakSummary {
+    connected: number;
+    failed: number;
+    dropped: number;
+    averageJoinMs?: number;
+    maxJoinMs?: number;
+}
+
+// One agent per line: userId,token[,display name]. Blank lines and # comments are
+// skipped. The simulation accepts any token, so it may be left out there.
+export const parseSoakAgents = (
+    text: string,
+    { requireTokens }: { requireTokens: boolean }
+): { agents: HeadlessAgentIdentity[]; errors: string[] } => {
+    const agents: HeadlessAgentIdentity[] = [];
+    const errors: string[] = [];
+
+    text.split('\n').forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) return;
+        const at = `Line ${index + 1}`;
+        const [rawUserId, rawToken = '', ...name] = line.split(',');
+        const userId = rawUserId.trim();
+        const token = rawToken.trim();
+
+        if (!isValidAcsUserId(userId)) {
+            errors.push(`${at}: "${userId}" is not an ACS user ID (8:acs:...)`);
+            return;
+        }
+        if (requireTokens) {
+            if (!token) {
+                errors.push(`${at}: missing the access token`);
+                return;
+            }
+            const info = decodeJWT(token);
+            if (!info.isValid) {
+                errors.push(`${at}: ${info.error ?? 'invalid token'}`);
+                return;
+            }
+            if (info.isExpired) {
+                errors.push(`${at}: the token has expired`);
+                return;
+            }
+        }
+        agents.push({
+            userId,
+            token,
+            displayName:
+                name.join(',').trim() || `Soak agent ${agents.length + 1}`,
+        });
+    });
+
+    if (agents.length > MAX_SOAK_AGENTS) {
+        errors.push(
+            `${agents.length} agents listed; at most ${MAX_SOAK_AGENTS} can run from one page`
+        );
+    }
+    return { agents, errors };
+};
+
+// Joins the agents one after another, staggerMs apart, and reports every change
+export const startSoakTest = ({
+    service,
+    agents,
+    groupId,
+    syntheticAudio,
+    staggerMs,
+    onUpdate,
+}: SoakTestOptions): SoakTest => {
+    let statuses: SoakAgentStatus[] = agents.map(({ userId, displayName }) => ({
+        userId,
+        displayName,
+        state: 'Waiting',
+    }));
+    const calls: HeadlessCall[] = [];
+    const joins: Promise<void>[] = [];
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let stopped = false;
+
+    const update = (index: number, change: Partial<SoakAgentStatus>) => {
+        statuses = statuses.map((status, i) =>
+            i === index ? { ...status, ...change } : status
+        );
+        onUpdate(statuses);
+    };
+
+    const join = async (agent: HeadlessAgentIdentity, index: number) => {
+        const startedAt = Date.now();
+        update(index, { state: 'Joining' });
+        try {
+            calls.push(
+                await service.joinHeadless(
+                    agent,
+                    groupId,
+                    { syntheticAudio },
+                    {
+                        onStateChanged: (state) =>
+                            update(
+                                index,
+                                state === 'Connected' &&
+                                    statuses[index].joinLatencyMs === undefined
+                                    ? {
+                                          state,
+                                          joinLatencyMs: Date.now() - startedAt,
+                                      }
+                                    : { state }
+                            ),
+                        onEnded: (endReason) =>
+                            update(index, {
+                                endReason: endReason ?? { code: 0 },
+                            }),
+                    }
+                )
+            );
+        } catch (error) {
+            console.error('Soak agent join error:', error);
+            update(index, { state: 'Failed', error: explainAcsError(error) });
+        }
+    };
+
+    agents.forEach((agent, index) => {
+        timers.push(
+            setTimeout(() => {
+                if (!stopped) joins.push(join(agent, index));
+            }, index * staggerMs)
+        );
+    });
+    onUpdate(statuses);
+
+    return {
+        stop: async () => {
+            if (stopped) return;
+            stopped = true;
+            timers.forEach(clearTimeout);
+            statuses = statuses.map((status) =>
+                status.state === 'Waiting'
+                    ? { ...status, state: 'Not started' }
+                    : status
+            );
+            onUpdate(statuses);
+            // Agents still joining are torn down with the rest once they have a call
+            await Promise.allSettled(joins);
+            await Promise.allSettled(calls.map((call) => call.hangUp()));
+            await Promise.allSettled(calls.map((call) => call.dispose()));
+        },
+    };
+};
+
+export const summarizeSoakTest = (statuses: SoakAgentStatus[]): SoakSummary => {
+    const latencies = statuses
+        .map((status) => status.joinLatencyMs)
+        .filter((ms): ms is number => ms !== undefined);
+    return {
+        connected: statuses.filter((status) => status.state === 'Connected')
+            .length,
+        failed: statuses.filter((status) => status.error).length,
+        dropped: statuses.filter((status) => status.endReason).length,
+        averageJoinMs: latencies.length
+            ? Math.round(
+                  latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length
+              )
+            : undefined,
+        maxJoinMs: latencies.length ? Math.max(...latencies) : undefined,
+    };
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { CallHistoryEntry } from '../types';
+import { emptyConfig } from './config';
+import {
+    getCallerKind,
+    getTeamsMeetingLocator,
+    isTeamsMeetingId,
+    isTeamsMeetingLink,
+    isTeamsMeetingPasscode,
+    isTeamsUserId,
+    wasLeftInLobby,
+} from './teams';
+
+const MEETING_LINK =
+    'https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc%40thread.v2/0?context=%7b%7d';
+const TEAMS_USER = '8:orgid:5f1c2a6e-8d3b-4c7a-9e21-0b6d4f8a3c19';
+
+describe('isTeamsMeetingLink', () => {
+    it('accepts meetup-join and short meet links', () => {
+        expect(isTeamsMeetingLink(MEETING_LINK)).toBe(true);
+        expect(
+            isTeamsMeetingLink(' https://teams.microsoft.com/meet/123?p=abc ')
+        ).toBe(true);
+        expect(
+            isTeamsMeetingLink(
+                'https://gov.teams.microsoft.us/l/meetup-join/19%3ameeting'
+            )
+        ).toBe(true);
+    });
+
+    it('rejects other URLs and plain text', () => {
+        expect(isTeamsMeetingLink('http://teams.microsoft.com/meet/1')).toBe(
+            false
+        );
+        expect(isTeamsMeetingLink('https://example.com/l/meetup-join/1')).toBe(
+            false
+        );
+        expect(isTeamsMeetingLink('https://teams.microsoft.com/')).toBe(false);
+        expect(isTeamsMeetingLink('123 456 789 012')).toBe(false);
+    });
+});
+
+describe('meeting ID and passcode', () => {
+    it('accepts grouped meeting IDs', () => {
+        expect(isTeamsMeetingId('123 456 789 012')).toBe(true);
+        expect(isTeamsMeetingId('123456789012')).toBe(true);
+        expect(isTeamsMeetingId('12345')).toBe(false);
+        expect(isTeamsMeetingId('123-456')).toBe(false);
+    });
+
+    it('accepts alphanumeric passcodes', () => {
+        expect(isTeamsMeetingPasscode('aB3dE9')).toBe(true);
+        expect(isTeamsMeetingPasscode('')).toBe(false);
+        expect(isTeamsMeetingPasscode('ab c')).toBe(false);
+    });
+});
+
+describe('getTeamsMeetingLocator', () => {
+    it('uses the link when there is one', () => {
+        expect(
+            getTeamsMeetingLocator({
+                ...emptyConfig(),
+                callType: 'teamsMeeting',
+                callValue: ` ${MEETING_LINK} `,
+                meetingPasscode: 'ignored',
+            })
+        ).toEqual({ meetingLink: MEETING_LINK });
+    });
+
+    it('otherwise sends the meeting ID without spaces and the passcode', () => {
+        expect(
+            getTeamsMeetingLocator({
+                ...emptyConfig(),
+                callType: 'teamsMeeting',
+                callValue: '123 456 789 012',
+                meetingPasscode: ' aB3dE9 ',
+            })
+        ).toEqual({ meetingId: '123456789012', passcode: 'aB3dE9' });
+    });
+});
+
+describe('isTeamsUserId', () => {
+    it('accepts Teams user raw IDs in each cloud', () => {
+        expect(isTeamsUserId(TEAMS_USER)).toBe(true);
+        expect(isTeamsUserId(TEAMS_USER.replace('orgid', 'gcch'))).toBe(true);
+        expect(isTeamsUserId(TEAMS_USER.replace('orgid', 'dod'))).toBe(true);
+    });
+
+    it('rejects ACS users and malformed IDs', () => {
+        expect(isTeamsUserId('8:acs:1234')).toBe(false);
+        expect(isTeamsUserId('8:orgid:not-a-guid')).toBe(false);
+        expect(isTeamsUserId('5f1c2a6e-8d3b-4c7a-9e21-0b6d4f8a3c19')).toBe(
+            false
+        );
+    });
+});
+
+describe('getCallerKind', () => {
+    it('labels callers by their raw ID prefix', () => {
+        expect(getCallerKind('8:acs:resource_user')).toBe('acsUser');
+        expect(getCallerKind(TEAMS_USER)).toBe('teamsUser');
+        expect(getCallerKind('8:teamsvisitor:abc')).toBe('teamsGuest');
+        expect(getCallerKind('28:orgid:abc')).toBe('teamsApp');
+        expect(getCallerKind('4:+14255550123')).toBe('phone');
+        expect(getCallerKind('unknown')).toBe('unknown');
+    });
+});
+
+describe('wasLeftInLobby', () => {
+    const entry = (states: string[], connectedAt?: string) =>
+        ({
+            connectedAt,
+            timeline: states.map((detail) => ({
+                at: '2025-01-01T12:00:00Z',
+                type: 'state',
+                detail,
+            })),
+        } as CallHistoryEntry);
+
+    it('is true only when the call never got past the lobby', () => {
+        expect(wasLeftInLobby(entry(['Connecting', 'InLobby']))).toBe(true);
+        expect(
+            wasLeftInLobby(
+                entry(['InLobby', 'Connected'], '2025-01-01T12:00:00Z')
+            )
+        ).toBe(false);
+        expect(wasLeftInLobby(entry(['Connecting', 'Ringing']))).toBe(false);
+    });
+});
@@ -0,0 +1,82 @@
+import type { CallConfig, CallHistoryEntry } from '../types';
+
+// Hosts that serve Teams join links, including the government clouds
+const TEAMS_MEETING_HOSTS = [
+    'teams.microsoft.com',
+    'teams.live.com',
+    'gov.teams.microsoft.us',
+    'dod.teams.microsoft.us',
+];
+
+// https://teams.microsoft.com/l/meetup-join/... or the short https://teams.microsoft.com/meet/... form
+export const isTeamsMeetingLink = (value: string) => {
+    let url: URL;
+    try {
+        url = new URL(value.trim());
+    } catch {
+        return false;
+    }
+    return (
+        url.protocol === 'https:' &&
+        TEAMS_MEETING_HOSTS.includes(url.hostname) &&
+        /^\/(l\/meetup-join|meet)\//.test(url.pathname)
+    );
+};
+
+// Invitations print the meeting ID in groups of digits ("123 456 789 012")
+export const toTeamsMeetingId = (value: string) => value.replace(/\s+/g, '');
+export const isTeamsMeetingId = (value: string) =>
+    /^\d{9,15}$/.test(toTeamsMeetingId(value));
+export const isTeamsMeetingPasscode = (value: string) =>
+    /^[A-Za-z0-9]{4,16}$/.test(value.trim());
+
+// Teams users as ACS raw IDs: 8:orgid:<Entra object ID>, or 8:dod: / 8:gcch: in the
+// government clouds
+export const isTeamsUserId = (value: string) =>
+    /^8:(orgid|dod|gcch):[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+        value.trim()
+    );
+
+// Where a Teams meeting call goes: the join link as is, otherwise meeting ID plus passcode
+export const getTeamsMeetingLocator = (config: CallConfig) =>
+    isTeamsMeetingLink(config.callValue)
+        ? { meetingLink: config.callValue.trim() }
+        : {
+              meetingId: toTeamsMeetingId(config.callValue),
+              passcode: config.meetingPasscode?.trim(),
+          };
+
+// Reached a meeting lobby but never connected: nobody admitted us, or we were removed
+export const wasLeftInLobby = (entry: CallHistoryEntry) =>
+    !entry.connectedAt &&
+    entry.timeline.some(
+        (event) => event.type === 'state' && event.detail === 'InLobby'
+    );
+
+export type CallerKind =
+    | 'acsUser'
+    | 'teamsUser'
+    | 'teamsGuest'
+    | 'teamsApp'
+    | 'phone'
+    | 'unknown';
+
+export const CALLER_KIND_LABELS: Record<CallerKind, string> = {
+    acsUser: 'ACS user',
+    teamsUser: 'Teams user',
+    teamsGuest: 'Teams guest',
+    teamsApp: 'Teams app (call queue or auto attendant)',
+    phone: 'Phone number',
+    unknown: 'Unknown caller',
+};
+
+// Who is calling, from the caller's raw ID. The SDK's IncomingCallKind only says
+// whether *this* identity is a Teams user, not where the call came from.
+export const getCallerKind = (rawId: string): CallerKind => {
+    if (rawId.startsWith('4:')) return 'phone';
+    if (/^8:(acs|spool|dod-acs|gcch-acs):/.test(rawId)) return 'acsUser';
+    if (/^8:(orgid|dod|gcch):/.test(rawId)) return 'teamsUser';
+    if (rawId.startsWith('8:teamsvisitor:')) return 'teamsGuest';
+    if (/^28:(orgid|dod|gcch):/.test(rawId)) return 'teamsApp';
+    return 'unknown';
+};
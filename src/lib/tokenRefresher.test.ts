@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTokenCredential } from './tokenRefresher';
+
+const base64Url = (value: string) =>
+    btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// The credential reads the expiry, so tokens need a real JWT shape
+const token = (name: string) =>
+    [
+        base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' })),
+        base64Url(
+            JSON.stringify({
+                name,
+                exp: Math.floor(Date.now() / 1000) + 3600,
+            })
+        ),
+        'signature',
+    ].join('.');
+
+const mockFetch = (response: () => Response) => {
+    const fetchMock = vi.fn<(url: URL) => Promise<Response>>(async () =>
+        response()
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('createTokenCredential', () => {
+    it('uses the static token without an endpoint', async () => {
+        const fetchMock = mockFetch(() => new Response('unused'));
+        const staticToken = token('static');
+        const credential = createTokenCredential({
+            userId: '8:acs:me',
+            token: staticToken,
+        });
+
+        expect((await credential.getToken()).token).toBe(staticToken);
+        expect(fetchMock).not.toHaveBeenCalled();
+        credential.dispose();
+    });
+
+    it('fetches tokens for the user from the endpoint', async () => {
+        const fresh = token('fresh');
+        const fetchMock = mockFetch(
+            () => new Response(JSON.stringify({ token: fresh }))
+        );
+        const onRefreshed = vi.fn();
+        const credential = createTokenCredential(
+            {
+                userId: ' 8:acs:me ',
+                token: '',
+                tokenEndpoint: 'https://tokens.example.com/token',
+            },
+            { onRefreshed }
+        );
+
+        expect((await credential.getToken()).token).toBe(fresh);
+        expect(onRefreshed).toHaveBeenCalledWith(fresh);
+        const url = fetchMock.mock.calls[0][0];
+        expect(url.origin + url.pathname).toBe(
+            'https://tokens.example.com/token'
+        );
+        expect(url.searchParams.get('userId')).toBe('8:acs:me');
+        credential.dispose();
+    });
+
+    it('reports endpoint failures', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        mockFetch(
+            () =>
+                new Response('', {
+                    status: 503,
+                    statusText: 'Service Unavailable',
+                })
+        );
+        const onRefreshFailed = vi.fn();
+        const credential = createTokenCredential(
+            {
+                userId: '8:acs:me',
+                token: '',
+                tokenEndpoint: 'https://tokens.example.com/token',
+            },
+            { onRefreshFailed }
+        );
+
+        await expect(credential.getToken()).rejects.toThrow(
+            'Token endpoint returned 503 Service Unavailable'
+        );
+        expect(onRefreshFailed).toHaveBeenCalledWith(
+            expect.objectContaining({
+                message: 'Token endpoint returned 503 Service Unavailable',
+            })
+        );
+        credential.dispose();
+    });
+});
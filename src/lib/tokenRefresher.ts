@@ -0,0 +1,76 @@
+import {
+    AzureCommunicationTokenCredential,
+    type CommunicationTokenRefreshOptions,
+} from '@azure/communication-common';
+import type { CallConfig } from '../types';
+
+export interface TokenRefreshHandlers {
+    onRefreshed?: (token: string) => void;
+    onRefreshFailed?: (error: unknown) => void;
+}
+
+// Fetch a fresh token for the user from the configured endpoint.
+// Accepts either a JSON body ({ token } like the ACS identity SDK returns) or a raw JWT.
+export const fetchTokenFromEndpoint = async (
+    endpoint: string,
+    userId: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const url = new URL(endpoint, window.location.href);
+    if (userId && !url.searchParams.has('userId')) {
+        url.searchParams.set('userId', userId);
+    }
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+        throw new Error(
+            `Token endpoint returned ${response.status} ${response.statusText}`.trim()
+        );
+    }
+
+    const body = (await response.text()).trim();
+    let token = body;
+    if (body.startsWith('{')) {
+        const parsed = JSON.parse(body) as { token?: unknown };
+        token = typeof parsed.token === 'string' ? parsed.token : '';
+    }
+    if (!token) {
+        throw new Error('Token endpoint response did not contain a token');
+    }
+    return token;
+};
+
+// Build the credential used by the call agent/adapter. Without a token endpoint this is
+// the plain static-token credential; with one, the SDK refreshes proactively before expiry.
+export const createTokenCredential = (
+    config: Pick<CallConfig, 'userId' | 'token' | 'tokenEndpoint'>,
+    handlers: TokenRefreshHandlers = {}
+): AzureCommunicationTokenCredential => {
+    const endpoint = config.tokenEndpoint?.trim();
+    if (!endpoint) {
+        return new AzureCommunicationTokenCredential(config.token);
+    }
+
+    const tokenRefresher: CommunicationTokenRefreshOptions['tokenRefresher'] =
+        async (abortSignal) => {
+            try {
+                const token = await fetchTokenFromEndpoint(
+                    endpoint,
+                    config.userId.trim(),
+                    abortSignal as AbortSignal | undefined
+                );
+                handlers.onRefreshed?.(token);
+                return token;
+            } catch (error) {
+                console.error('Token refresh failed:', error);
+                handlers.onRefreshFailed?.(error);
+                throw error;
+            }
+        };
+
+    return new AzureCommunicationTokenCredential({
+        tokenRefresher,
+        token: config.token || undefined,
+        refreshProactively: true,
+    });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { emptyConfig } from './config';
+import { createProfile, createProfileStore } from './profiles';
+import {
+    createVault,
+    decryptString,
+    encryptString,
+    lockProfileStore,
+    openProfileStore,
+    sealProfileStore,
+    unlockVault,
+} from './tokenVault';
+
+const storeWithToken = (token: string) =>
+    createProfileStore([
+        createProfile('With token', { ...emptyConfig(), token }),
+        createProfile('Without token'),
+    ]);
+
+// Flip one character of a base64 value so AES-GCM authentication fails
+const tamper = (value: string) =>
+    (value[0] === 'A' ? 'B' : 'A') + value.slice(1);
+
+describe('token vault', () => {
+    it('round-trips tokens through seal, lock and unlock', async () => {
+        const { metadata, key } = await createVault('correct horse');
+        const store = storeWithToken('secret-token');
+
+        const sealed = await sealProfileStore(store, key);
+        expect(JSON.stringify(sealed)).not.toContain('secret-token');
+        expect(sealed.profiles[0].encryptedToken).toBeDefined();
+        expect(sealed.profiles[1].encryptedToken).toBeUndefined();
+
+        const unlocked = await unlockVault('correct horse', metadata);
+        const opened = await openProfileStore(
+            lockProfileStore(sealed),
+            unlocked
+        );
+        expect(opened.profiles.map((profile) => profile.config.token)).toEqual([
+            'secret-token',
+            '',
+        ]);
+    });
+
+    it('rejects a wrong passphrase', async () => {
+        const { metadata } = await createVault('correct horse');
+        await expect(unlockVault('wrong horse', metadata)).rejects.toThrow(
+            'Incorrect passphrase'
+        );
+    });
+
+    it('refuses tampered ciphertext', async () => {
+        const { metadata, key } = await createVault('correct horse');
+        const encrypted = await encryptString(key, 'secret-token');
+
+        await expect(
+            decryptString(key, { ...encrypted, data: tamper(encrypted.data) })
+        ).rejects.toThrow();
+        await expect(
+            unlockVault('correct horse', {
+                ...metadata,
+                check: { ...metadata.check, data: tamper(metadata.check.data) },
+            })
+        ).rejects.toThrow('Incorrect passphrase');
+    });
+});
@@ -0,0 +1,234 @@
+import type { ConfigProfile, EncryptedValue, ProfileStore } from '../types';
+
+export const VAULT_STORAGE_KEY = 'azure-call-vault';
+export const VAULT_VERSION = 1;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const PBKDF2_ITERATIONS = 250000;
+// Encrypted alongside the salt so a wrong passphrase can be detected on unlock
+const CHECK_VALUE = 'azure-call-vault-check';
+
+export interface VaultMetadata {
+    version: number;
+    salt: string;
+    iterations: number;
+    autoLockMinutes: number;
+    check: EncryptedValue;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) =>
+    Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const deriveKey = async (
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number
+): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const encryptString = async (
+    key: CryptoKey,
+    plaintext: string
+): Promise<EncryptedValue> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptString = async (
+    key: CryptoKey,
+    value: EncryptedValue
+): Promise<string> => {
+    const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(value.iv) },
+        key,
+        fromBase64(value.data)
+    );
+    return new TextDecoder().decode(data);
+};
+
+const withoutEncryptedToken = ({
+    id,
+    name,
+    config,
+    updatedAt,
+}: ConfigProfile): ConfigProfile => ({ id, name, config, updatedAt });
+
+export const loadVaultMetadata = (): VaultMetadata | undefined => {
+    const saved = localStorage.getItem(VAULT_STORAGE_KEY);
+    if (!saved) return undefined;
+    try {
+        const parsed = JSON.parse(saved) as VaultMetadata;
+        return parsed.version === VAULT_VERSION && parsed.salt && parsed.check
+            ? parsed
+            : undefined;
+    } catch (error) {
+        console.error('Failed to read token vault metadata:', error);
+        return undefined;
+    }
+};
+
+export const saveVaultMetadata = (metadata: VaultMetadata) => {
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(metadata));
+};
+
+export const removeVaultMetadata = () => {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+};
+
+export const createVault = async (
+    passphrase: string,
+    autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES
+): Promise<{ metadata: VaultMetadata; key: CryptoKey }> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const metadata: VaultMetadata = {
+        version: VAULT_VERSION,
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        autoLockMinutes,
+        check: await encryptString(key, CHECK_VALUE),
+    };
+    return { metadata, key };
+};
+
+// Derive the key for an existing vault; throws if the passphrase is wrong
+export const unlockVault = async (
+    passphrase: string,
+    metadata: VaultMetadata
+): Promise<CryptoKey> => {
+    const key = await deriveKey(
+        passphrase,
+        fromBase64(metadata.salt),
+        metadata.iterations
+    );
+    try {
+        if ((await decryptString(key, metadata.check)) === CHECK_VALUE) {
+            return key;
+        }
+    } catch {
+        // AES-GCM authentication fails for a wrong key
+    }
+    throw new Error('Incorrect passphrase');
+};
+
+// Prepare the store for localStorage: plaintext tokens are replaced by their encrypted form
+export const sealProfileStore = async (
+    store: ProfileStore,
+    key: CryptoKey
+): Promise<ProfileStore> => ({
+    ...store,
+    profiles: await Promise.all(
+        store.profiles.map(async (profile): Promise<ConfigProfile> => {
+            if (!profile.config.token) return withoutEncryptedToken(profile);
+            return {
+                ...profile,
+                config: { ...profile.config, token: '' },
+                encryptedToken: await encryptString(key, profile.config.token),
+            };
+        })
+    ),
+});
+
+// Keep the in-memory store's encrypted tokens in step with what was just sealed, so a
+// later lock, unlock or save while locked works from the tokens actually stored
+export const withSealedTokens = (
+    store: ProfileStore,
+    sealed: ProfileStore
+): ProfileStore => ({
+    ...store,
+    profiles: store.profiles.map((profile) => {
+        const encryptedToken = sealed.profiles.find(
+            (candidate) => candidate.id === profile.id
+        )?.encryptedToken;
+        return encryptedToken
+            ? { ...profile, encryptedToken }
+            : withoutEncryptedToken(profile);
+    }),
+});
+
+// Decrypt stored tokens back into each profile's config after unlocking
+export const openProfileStore = async (
+    store: ProfileStore,
+    key: CryptoKey
+): Promise<ProfileStore> => ({
+    ...store,
+    profiles: await Promise.all(
+        store.profiles.map(async (profile) =>
+            profile.encryptedToken && !profile.config.token
+                ? {
+                      ...profile,
+                      config: {
+                          ...profile.config,
+                          token: await decryptString(
+                              key,
+                              profile.encryptedToken
+                          ),
+                      },
+                  }
+                : profile
+        )
+    ),
+});
+
+// Drop plaintext tokens from memory; encrypted copies stay for the next unlock
+export const lockProfileStore = (store: ProfileStore): ProfileStore => ({
+    ...store,
+    profiles: store.profiles.map((profile) =>
+        profile.config.token
+            ? { ...profile, config: { ...profile.config, token: '' } }
+            : profile
+    ),
+});
+
+// True when some profile holds a token that could not be sealed (vault locked)
+export const hasPlaintextTokens = (store: ProfileStore) =>
+    store.profiles.some((profile) => Boolean(profile.config.token));
+
+// Used when protection is removed: tokens go back to plaintext storage
+export const decryptAllTokens = async (
+    store: ProfileStore,
+    key: CryptoKey
+): Promise<ProfileStore> => {
+    const opened = await openProfileStore(store, key);
+    return {
+        ...opened,
+        profiles: opened.profiles.map(withoutEncryptedToken),
+    };
+};
+
+// "Forget token": remove both the plaintext and the encrypted token of one profile
+export const forgetProfileToken = (
+    store: ProfileStore,
+    id: string
+): ProfileStore => ({
+    ...store,
+    profiles: store.profiles.map((profile) =>
+        profile.id === id
+            ? withoutEncryptedToken({
+                  ...profile,
+                  config: { ...profile.config, token: '' },
+              })
+            : profile
+    ),
+});
@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import type { CallConfig } from '../types';
+import { emptyConfig } from './config';
+import {
+    hasTokenSource,
+    getCalleeListError,
+    isCallConfigReady,
+    isGuid,
+    isValidAcsUserId,
+    isValidPhoneNumber,
+    parseCallee,
+    parseCalleeList,
+    toE164,
+} from './validators';
+
+const token = (claims: Record<string, unknown>) =>
+    ['{"alg":"none"}', JSON.stringify(claims)]
+        .map((part) => btoa(part).replace(/=+$/, ''))
+        .concat('signature')
+        .join('.');
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+const validToken = token({ exp: NOW.getTime() / 1000 + 3600 });
+const expiredToken = token({ exp: NOW.getTime() / 1000 - 60 });
+
+const config = (overrides: Partial<CallConfig>): CallConfig => ({
+    ...emptyConfig(),
+    userId: '8:acs:me',
+    token: validToken,
+    displayName: 'Tester',
+    ...overrides,
+});
+
+describe('isValidAcsUserId', () => {
+    it('accepts ACS user IDs', () => {
+        expect(isValidAcsUserId('8:acs:1234_abcd')).toBe(true);
+        expect(isValidAcsUserId('  8:acs:1234  ')).toBe(true);
+    });
+
+    it('rejects other identifiers', () => {
+        expect(isValidAcsUserId('')).toBe(false);
+        expect(isValidAcsUserId('8:acs:')).toBe(false);
+        expect(isValidAcsUserId('8:orgid:1234')).toBe(false);
+        expect(isValidAcsUserId('+14255550123')).toBe(false);
+    });
+});
+
+describe('isGuid', () => {
+    it('accepts RFC 4122 GUIDs in either case', () => {
+        expect(isGuid('29228d3e-040e-4656-a70e-890ab4e173e4')).toBe(true);
+        expect(isGuid(' 29228D3E-040E-4656-A70E-890AB4E173E4 ')).toBe(true);
+    });
+
+    it('rejects malformed values', () => {
+        expect(isGuid('')).toBe(false);
+        expect(isGuid('29228d3e040e4656a70e890ab4e173e4')).toBe(false);
+        // Version digit must be 1-5 and the variant 8, 9, a or b
+        expect(isGuid('29228d3e-040e-0656-a70e-890ab4e173e4')).toBe(false);
+        expect(isGuid('29228d3e-040e-4656-c70e-890ab4e173e4')).toBe(false);
+    });
+});
+
+describe('toE164', () => {
+    it('strips formatting characters', () => {
+        expect(toE164('+1 (425) 555-0123')).toBe('+14255550123');
+    });
+
+    it('adds a missing plus sign', () => {
+        expect(toE164('44 20 7946 0958')).toBe('+442079460958');
+    });
+
+    it('reads national numbers with the default country', () => {
+        expect(toE164('07911 123456', 'GB')).toBe('+447911123456');
+        expect(toE164('(425) 555-0123', 'US')).toBe('+14255550123');
+        expect(toE164('07911 123456')).toBe('');
+    });
+
+    it('returns an empty string when there are no digits', () => {
+        expect(toE164('')).toBe('');
+        expect(toE164('abc')).toBe('');
+    });
+});
+
+describe('isValidPhoneNumber', () => {
+    it('accepts numbers that can exist', () => {
+        expect(isValidPhoneNumber('+14255550123')).toBe(true);
+        expect(isValidPhoneNumber('020 7946 0958', 'GB')).toBe(true);
+    });
+
+    it('rejects impossible numbers', () => {
+        expect(isValidPhoneNumber('+1234567')).toBe(false);
+        expect(isValidPhoneNumber('+1234567890123456')).toBe(false);
+        expect(isValidPhoneNumber('+999 1234567')).toBe(false);
+        expect(isValidPhoneNumber('07700 900123')).toBe(false);
+    });
+});
+
+describe('hasTokenSource', () => {
+    it('accepts a pasted token or a token endpoint', () => {
+        expect(hasTokenSource(config({}))).toBe(true);
+        expect(
+            hasTokenSource(
+                config({ token: '', tokenEndpoint: 'http://localhost/token' })
+            )
+        ).toBe(true);
+    });
+
+    it('ignores whitespace-only values', () => {
+        expect(
+            hasTokenSource(config({ token: '  ', tokenEndpoint: ' ' }))
+        ).toBe(false);
+    });
+});
+
+describe('callee lists', () => {
+    it('tells ACS users from phone numbers', () => {
+        expect(parseCallee(' 8:acs:abc ').callee).toEqual({
+            kind: 'acsUser',
+            id: '8:acs:abc',
+        });
+        expect(parseCallee('+1 (425) 555-0123').callee).toEqual({
+            kind: 'phone',
+            phoneNumber: '+14255550123',
+        });
+        expect(parseCallee('07911 123456', 'GB').callee).toEqual({
+            kind: 'phone',
+            phoneNumber: '+447911123456',
+        });
+        expect(parseCallee('+1 425').error).toMatch(/^too short/);
+        expect(parseCallee('alice').error).toMatch(/ACS user ID/);
+    });
+
+    it('splits on new lines, commas and semicolons', () => {
+        expect(
+            parseCalleeList('8:acs:a\n\n8:acs:b, +14255550123;').map(
+                ({ raw }) => raw
+            )
+        ).toEqual(['8:acs:a', '8:acs:b', '+14255550123']);
+    });
+
+    it('reports the first problem with a list', () => {
+        expect(getCalleeListError('8:acs:a\n+14255550123', '8:acs:me')).toBe(
+            undefined
+        );
+        expect(getCalleeListError(' \n ', '8:acs:me')).toBe(
+            'Enter at least one callee'
+        );
+        expect(getCalleeListError('8:acs:a\nbob', '8:acs:me')).toMatch(
+            /^"bob": /
+        );
+        expect(getCalleeListError('8:acs:a\n8:acs:me', '8:acs:me')).toBe(
+            'You cannot call yourself'
+        );
+        expect(
+            getCalleeListError('+14255550123\n+1 425 555 0123', '8:acs:me')
+        ).toBe('"+14255550123" is listed twice');
+        expect(
+            getCalleeListError('+447911123456\n07911 123456', '8:acs:me', 'GB')
+        ).toBe('"+447911123456" is listed twice');
+    });
+});
+
+describe('isCallConfigReady', () => {
+    const group = config({
+        callType: 'group',
+        callValue: '29228d3e-040e-4656-a70e-890ab4e173e4',
+    });
+
+    it('requires the identity fields and a call target', () => {
+        expect(isCallConfigReady(group, NOW)).toBe(true);
+        expect(isCallConfigReady({ ...group, userId: '' }, NOW)).toBe(false);
+        expect(isCallConfigReady({ ...group, displayName: '' }, NOW)).toBe(
+            false
+        );
+        expect(isCallConfigReady({ ...group, token: '' }, NOW)).toBe(false);
+        expect(isCallConfigReady({ ...group, callType: '' }, NOW)).toBe(false);
+        expect(isCallConfigReady({ ...group, callValue: '' }, NOW)).toBe(false);
+    });
+
+    it('blocks expired tokens unless they can be refreshed', () => {
+        expect(isCallConfigReady({ ...group, token: expiredToken }, NOW)).toBe(
+            false
+        );
+        expect(
+            isCallConfigReady(
+                {
+                    ...group,
+                    token: expiredToken,
+                    tokenEndpoint: 'http://localhost/token',
+                },
+                NOW
+            )
+        ).toBe(true);
+    });
+
+    it('validates the group ID', () => {
+        expect(
+            isCallConfigReady({ ...group, callValue: 'team-sync' }, NOW)
+        ).toBe(false);
+    });
+
+    it('rejects 1:1 calls to invalid or own user IDs', () => {
+        const oneToOne = config({ callType: 'oneToOne' });
+        expect(
+            isCallConfigReady({ ...oneToOne, callValue: '8:acs:other' }, NOW)
+        ).toBe(true);
+        expect(
+            isCallConfigReady({ ...oneToOne, callValue: 'someone' }, NOW)
+        ).toBe(false);
+        expect(
+            isCallConfigReady({ ...oneToOne, callValue: ' 8:acs:me ' }, NOW)
+        ).toBe(false);
+    });
+
+    it('requires valid E.164 callee and alternate caller ID for PSTN', () => {
+        const phone = config({
+            callType: 'phone',
+            callValue: '+1 425 555 0123',
+            alternateCallerId: '+18005550100',
+        });
+        expect(isCallConfigReady(phone, NOW)).toBe(true);
+        expect(
+            isCallConfigReady({ ...phone, alternateCallerId: '' }, NOW)
+        ).toBe(false);
+        expect(isCallConfigReady({ ...phone, callValue: '12345' }, NOW)).toBe(
+            false
+        );
+        expect(
+            isCallConfigReady({ ...phone, dtmfScript: 'wait 2s, 1 #' }, NOW)
+        ).toBe(true);
+        expect(
+            isCallConfigReady({ ...phone, dtmfScript: 'press 1' }, NOW)
+        ).toBe(false);
+    });
+
+    it('requires a meeting link, or a meeting ID with passcode, for Teams meetings', () => {
+        const meeting = config({ callType: 'teamsMeeting' });
+        expect(
+            isCallConfigReady(
+                {
+                    ...meeting,
+                    callValue:
+                        'https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc',
+                },
+                NOW
+            )
+        ).toBe(true);
+        expect(
+            isCallConfigReady(
+                {
+                    ...meeting,
+                    callValue: '123 456 789 012',
+                    meetingPasscode: 'aB3dE9',
+                },
+                NOW
+            )
+        ).toBe(true);
+        expect(
+            isCallConfigReady({ ...meeting, callValue: '123 456 789 012' }, NOW)
+        ).toBe(false);
+        expect(
+            isCallConfigReady(
+                { ...meeting, callValue: 'https://example.com/meet/1' },
+                NOW
+            )
+        ).toBe(false);
+    });
+
+    it('requires a Teams user raw ID for Teams user calls', () => {
+        const teamsUser = config({ callType: 'teamsUser' });
+        expect(
+            isCallConfigReady(
+                {
+                    ...teamsUser,
+                    callValue: '8:orgid:5f1c2a6e-8d3b-4c7a-9e21-0b6d4f8a3c19',
+                },
+                NOW
+            )
+        ).toBe(true);
+        expect(
+            isCallConfigReady({ ...teamsUser, callValue: '8:acs:other' }, NOW)
+        ).toBe(false);
+    });
+
+    it('requires valid callees, and a caller ID for PSTN legs, in ad-hoc calls', () => {
+        const adHoc = config({
+            callType: 'adHoc',
+            callValue: '8:acs:alice\n8:acs:bob',
+        });
+        expect(isCallConfigReady(adHoc, NOW)).toBe(true);
+        const mixed = { ...adHoc, callValue: '8:acs:alice\n+14255550123' };
+        expect(isCallConfigReady(mixed, NOW)).toBe(false);
+        expect(
+            isCallConfigReady(
+                { ...mixed, alternateCallerId: '+18005550100' },
+                NOW
+            )
+        ).toBe(true);
+        expect(
+            isCallConfigReady({ ...adHoc, callValue: '8:acs:alice\nbob' }, NOW)
+        ).toBe(false);
+    });
+
+    it('requires a numeric room ID for room calls', () => {
+        const room = config({ callType: 'room' });
+        expect(
+            isCallConfigReady({ ...room, callValue: '99123456789012345' }, NOW)
+        ).toBe(true);
+        expect(
+            isCallConfigReady({ ...room, callValue: group.callValue }, NOW)
+        ).toBe(false);
+    });
+});
@@ -0,0 +1,175 @@
+import type { Callee, CallConfig } from '../types';
+import { decodeJWT } from './jwt';
+import { isRoomId } from './rooms';
+import { parseDtmfScript } from './dtmf';
+import { parsePhoneNumber } from './phone';
+import {
+    isTeamsMeetingId,
+    isTeamsMeetingLink,
+    isTeamsMeetingPasscode,
+    isTeamsUserId,
+} from './teams';
+
+// Basic validators
+export const isValidAcsUserId = (id: string) => /^8:acs:.+/.test(id.trim());
+export const isGuid = (v: string) =>
+    /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-5][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$/.test(
+        v.trim()
+    );
+// Normalised E.164 number, or an empty string for anything that is not a possible number
+export const toE164 = (num: string, defaultCountry?: string): string =>
+    parsePhoneNumber(num, defaultCountry).e164 ?? '';
+export const isValidPhoneNumber = (num: string, defaultCountry?: string) =>
+    Boolean(toE164(num, defaultCountry));
+
+export interface ParsedCallee {
+    // The entry as typed, for error messages
+    raw: string;
+    callee?: Callee;
+    error?: string;
+}
+
+// Phone numbers are typed with spaces, dashes and brackets; ACS IDs never start that way
+const looksLikePhoneNumber = (value: string) =>
+    /^[+\d(][\d\s().-]*$/.test(value);
+
+export const parseCallee = (
+    value: string,
+    defaultCountry?: string
+): ParsedCallee => {
+    const raw = value.trim();
+    if (looksLikePhoneNumber(raw)) {
+        const { e164, error } = parsePhoneNumber(raw, defaultCountry);
+        return e164
+            ? { raw, callee: { kind: 'phone', phoneNumber: e164 } }
+            : { raw, error };
+    }
+    if (isValidAcsUserId(raw)) {
+        return { raw, callee: { kind: 'acsUser', id: raw } };
+    }
+    return {
+        raw,
+        error: 'expected an ACS user ID (8:acs:...) or a phone number',
+    };
+};
+
+// Ad-hoc call targets: one per line, or separated by commas or semicolons
+export const parseCalleeList = (
+    value: string,
+    defaultCountry?: string
+): ParsedCallee[] =>
+    value
+        .split(/[\n,;]+/)
+        .filter((entry) => entry.trim())
+        .map((entry) => parseCallee(entry, defaultCountry));
+
+export const describeCallee = (callee: Callee) =>
+    callee.kind === 'phone' ? callee.phoneNumber : callee.id;
+
+export const hasPhoneCallee = (value: string, defaultCountry?: string) =>
+    parseCalleeList(value, defaultCountry).some(
+        ({ callee }) => callee?.kind === 'phone'
+    );
+
+// First problem with an ad-hoc callee list, or undefined when every entry can be called
+export const getCalleeListError = (
+    value: string,
+    ownUserId: string,
+    defaultCountry?: string
+) => {
+    const parsed = parseCalleeList(value, defaultCountry);
+    if (parsed.length === 0) return 'Enter at least one callee';
+    const invalid = parsed.find(({ error }) => error);
+    if (invalid) return `"${invalid.raw}": ${invalid.error}`;
+    const ids = parsed.map(({ callee }) => describeCallee(callee!));
+    if (ids.includes(ownUserId.trim())) return 'You cannot call yourself';
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) return `"${duplicate}" is listed twice`;
+    return undefined;
+};
+// A token can be pasted directly or fetched from the configured token endpoint
+export const hasTokenSource = (config: CallConfig) =>
+    Boolean(config.token.trim() || config.tokenEndpoint?.trim());
+
+// DTMF scripts are for IVRs, so they only play in calls with a PSTN leg
+export const usesDtmfScript = (config: CallConfig) =>
+    config.callType === 'phone' ||
+    (config.callType === 'adHoc' &&
+        hasPhoneCallee(config.callValue, config.phoneCountry));
+
+// Call types whose targets may be phone numbers, read with the profile's default country
+export const usesPhoneNumbers = (config: CallConfig) =>
+    config.callType === 'phone' || config.callType === 'adHoc';
+
+// Whether Start Call can be enabled: required fields present, target valid for the call type
+// and a token that is not expired (or can be refreshed)
+export const isCallConfigReady = (config: CallConfig, now = new Date()) => {
+    const baseReady = Boolean(
+        config.userId &&
+            hasTokenSource(config) &&
+            config.displayName &&
+            config.callType &&
+            config.callValue &&
+            (config.callType !== 'phone' || config.alternateCallerId)
+    );
+    if (!baseReady) return false;
+    const tokenInfo = decodeJWT(config.token, now);
+    if (tokenInfo.isValid && tokenInfo.isExpired && !config.tokenEndpoint) {
+        return false;
+    }
+    if (
+        usesDtmfScript(config) &&
+        config.dtmfScript &&
+        parseDtmfScript(config.dtmfScript).error
+    ) {
+        return false;
+    }
+
+    if (config.callType === 'oneToOne') {
+        return (
+            isValidAcsUserId(config.callValue) &&
+            config.callValue.trim() !== config.userId.trim()
+        );
+    }
+    if (config.callType === 'phone') {
+        return (
+            isValidPhoneNumber(config.callValue, config.phoneCountry) &&
+            isValidPhoneNumber(
+                config.alternateCallerId || '',
+                config.phoneCountry
+            )
+        );
+    }
+    if (config.callType === 'group') {
+        return isGuid(config.callValue);
+    }
+    if (config.callType === 'teamsMeeting') {
+        return (
+            isTeamsMeetingLink(config.callValue) ||
+            (isTeamsMeetingId(config.callValue) &&
+                isTeamsMeetingPasscode(config.meetingPasscode || ''))
+        );
+    }
+    if (config.callType === 'teamsUser') {
+        return isTeamsUserId(config.callValue);
+    }
+    if (config.callType === 'adHoc') {
+        // A PSTN leg needs a number of ours to call from, as for phone calls
+        return (
+            !getCalleeListError(
+                config.callValue,
+                config.userId,
+                config.phoneCountry
+            ) &&
+            (!hasPhoneCallee(config.callValue, config.phoneCountry) ||
+                isValidPhoneNumber(
+                    config.alternateCallerId || '',
+                    config.phoneCountry
+                ))
+        );
+    }
+    if (config.callType === 'room') {
+        return isRoomId(config.callValue);
+    }
+    return true;
+};
@@ -0,0 +1,128 @@
+// Types for our configuration
+export interface CallConfig {
+    userId: string;
+    token: string;
+    displayName: string;
+    callType:
+        | 'group'
+        | 'oneToOne'
+        | 'phone'
+        | 'teamsMeeting'
+        | 'teamsUser'
+        | 'room'
+        | 'adHoc'
+        | '';
+    // Group ID, ACS/Teams user ID, phone number, Teams meeting link or meeting ID, room ID,
+    // or for ad-hoc calls a list of ACS user IDs and phone numbers
+    callValue: string;
+    alternateCallerId?: string;
+    // ISO country (e.g. "GB") for phone numbers typed without a country code
+    phoneCountry?: string;
+    // Required when a Teams meeting is joined by meeting ID rather than link
+    meetingPasscode?: string;
+    // Tones played once a PSTN call connects, e.g. "wait 3s, 1, wait 2s, 4 5 6 #"
+    dtmfScript?: string;
+    // Optional URL that returns fresh tokens for userId (see tokenRefresher)
+    tokenEndpoint?: string;
+    // Block Start Call unless the last pre-call check passed (warnings are allowed)
+    requirePreCallCheck?: boolean;
+}
+
+// Someone an ad-hoc call rings or the Add participant dialog dials in
+export type Callee =
+    | { kind: 'acsUser'; id: string }
+    | { kind: 'phone'; phoneNumber: string };
+
+export interface TokenRefreshStatus {
+    lastRefreshedAt?: Date;
+    lastFailedAt?: Date;
+    lastError?: string;
+}
+
+// AES-GCM ciphertext and IV, base64 encoded
+export interface EncryptedValue {
+    iv: string;
+    data: string;
+}
+
+export interface ConfigProfile {
+    id: string;
+    name: string;
+    config: CallConfig;
+    updatedAt: string;
+    // Set when the token vault is enabled; config.token is then stored empty
+    encryptedToken?: EncryptedValue;
+}
+
+// Persisted shape of the profile list; bump version when the layout changes
+export interface ProfileStore {
+    version: number;
+    defaultProfileId: string;
+    profiles: ConfigProfile[];
+}
+
+export type CallDirection = 'outgoing' | 'incoming';
+
+export type CallTimelineEventType =
+    | 'state'
+    | 'participantJoined'
+    | 'participantLeft'
+    | 'error'
+    | 'diagnostic'
+    | 'dtmf'
+    | 'info';
+
+export interface CallTimelineEvent {
+    at: string;
+    type: CallTimelineEventType;
+    detail: string;
+}
+
+export interface CallEndReasonInfo {
+    code: number;
+    subCode?: number;
+}
+
+// Per-stream MediaStats averages and peaks kept with a call (see lib/mediaQuality)
+export interface MediaStatsSummary {
+    stream: string;
+    label: string;
+    codecName?: string;
+    samples: number;
+    avgPacketsLostPerSecond?: number;
+    maxPacketsLostPerSecond: number;
+    avgJitterInMs?: number;
+    maxJitterInMs: number;
+    avgRttInMs?: number;
+    maxRttInMs: number;
+    avgBitrateKbps?: number;
+}
+
+// One outgoing or incoming call, persisted in IndexedDB (see lib/callHistory)
+export interface CallHistoryEntry {
+    id: string;
+    direction: CallDirection;
+    callType: CallConfig['callType'] | 'incoming';
+    target: string;
+    displayName: string;
+    alternateCallerId?: string;
+    callId?: string;
+    startedAt: string;
+    connectedAt?: string;
+    endedAt?: string;
+    durationMs?: number;
+    finalState?: string;
+    endReason?: CallEndReasonInfo;
+    errorExplanation?: string;
+    // Remote participants seen during the call, by display name or raw ID
+    participants?: string[];
+    // The tester's verdict, entered on the post-call summary
+    rating?: number;
+    notes?: string;
+    // Configuration the call was made with; the token is never stored
+    config?: CallConfig;
+    // Latest user facing diagnostic values, keyed "media.<name>" / "network.<name>"
+    diagnostics?: Record<string, string>;
+    mediaStats?: MediaStatsSummary[];
+    timeline: CallTimelineEvent[];
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
@@ -15,4 +16,12 @@ export default defineConfig({
         cssCodeSplit: false,
         assetsInlineLimit: 100000000, // Inline all assets
     },
+    // Vite's client defaults, spelled out so vitest keeps 'module': @azure/communication-react
+    // only declares main/module export conditions
+    resolve: { conditions: ['module', 'browser', 'development|production'] },
+    test: {
+        // Pure modules run in node; component tests opt into jsdom per file
+        environment: 'node',
+        include: ['src/**/*.test.{ts,tsx}'],
+    },
 });